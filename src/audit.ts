@@ -0,0 +1,202 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { AuditConfig } from './config-schema.js';
+import { analyzeConnectionError, type ConnectionIssueKind } from './error-classifier.js';
+
+export type AuditOutcome = 'success' | 'tool_error' | 'error' | 'cancelled';
+
+// AuditEntry is one JSONL line in the audit log.
+export interface AuditEntry {
+  readonly ts: string;
+  readonly server: string;
+  readonly tool: string;
+  readonly durationMs: number;
+  readonly outcome: AuditOutcome;
+  // args are redacted; when their JSON exceeds maxArgBytes, args holds a prefix of it and argsTruncated is set.
+  readonly args?: unknown;
+  readonly argsTruncated?: boolean;
+  readonly error?: {
+    readonly message: string;
+    readonly kind: ConnectionIssueKind;
+    readonly statusCode?: number;
+    readonly stdioExitCode?: number;
+    readonly stdioSignal?: string;
+  };
+  // origin labels where the call ran (the daemon host sets 'daemon').
+  readonly origin?: string;
+  readonly pid: number;
+}
+
+export interface AuditCall {
+  readonly server: string;
+  readonly tool: string;
+  readonly args?: unknown;
+  readonly startedAt: number;
+  readonly result?: unknown;
+  readonly error?: unknown;
+  readonly cancelled?: boolean;
+}
+
+export const REDACTED = '[REDACTED]';
+
+// Keys matching any of these (case-insensitive) are always redacted; config patterns add to the list.
+const DEFAULT_REDACT_PATTERNS = [
+  'token',
+  'secret',
+  'passw(or)?d',
+  'api[-_]?key',
+  'authorization',
+  'cookie',
+  'credential',
+  'private[-_]?key',
+];
+
+// AuditLog appends tool-call entries to a JSONL file, rotating it once it outgrows maxFileBytes.
+export class AuditLog {
+  private readonly redactPattern: RegExp;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly config: AuditConfig,
+    private readonly origin?: string
+  ) {
+    this.redactPattern = compileRedactPattern(config.redact);
+  }
+
+  // record appends one entry. Writes are serialized so rotation never races within a process.
+  record(call: AuditCall): Promise<void> {
+    const line = `${JSON.stringify(this.buildEntry(call))}\n`;
+    const next = this.queue.then(() => this.append(line));
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  buildEntry(call: AuditCall): AuditEntry {
+    const redacted = redactArguments(call.args ?? {}, this.redactPattern);
+    const serialized = JSON.stringify(redacted);
+    const truncated = Buffer.byteLength(serialized) > this.config.maxArgBytes;
+    return {
+      ts: new Date(call.startedAt).toISOString(),
+      server: call.server,
+      tool: call.tool,
+      durationMs: Date.now() - call.startedAt,
+      outcome: resolveOutcome(call),
+      args: truncated ? truncateUtf8(serialized, this.config.maxArgBytes) : redacted,
+      ...(truncated ? { argsTruncated: true } : {}),
+      ...(call.error !== undefined && !call.cancelled ? { error: describeError(call.error) } : {}),
+      ...(this.origin ? { origin: this.origin } : {}),
+      pid: process.pid,
+    };
+  }
+
+  private async append(line: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.config.path), { recursive: true });
+    const size = await fs.stat(this.config.path).then(
+      (stats) => stats.size,
+      () => 0
+    );
+    if (size > 0 && size + Buffer.byteLength(line) > this.config.maxFileBytes) {
+      await this.rotate();
+    }
+    // Arguments can carry personal data even after redaction; keep the log private to the user.
+    await fs.appendFile(this.config.path, line, { encoding: 'utf8', mode: 0o600 });
+  }
+
+  private async rotate(): Promise<void> {
+    const { path: logPath, maxFiles } = this.config;
+    await fs.rm(`${logPath}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index -= 1) {
+      await fs.rename(`${logPath}.${index}`, `${logPath}.${index + 1}`).catch(() => {});
+    }
+    await fs.rename(logPath, `${logPath}.1`).catch(() => {});
+  }
+}
+
+// redactArguments replaces the values of keys matching the pattern, at any depth.
+export function redactArguments(value: unknown, pattern: RegExp): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry) => redactArguments(entry, pattern));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, entry]) => [
+        key,
+        pattern.test(key) ? REDACTED : redactArguments(entry, pattern),
+      ])
+    );
+  }
+  return value;
+}
+
+export function compileRedactPattern(extra: readonly string[]): RegExp {
+  for (const source of extra) {
+    try {
+      new RegExp(source);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid audit redact pattern '${source}': ${detail}`);
+    }
+  }
+  return new RegExp([...DEFAULT_REDACT_PATTERNS, ...extra].map((source) => `(?:${source})`).join('|'), 'i');
+}
+
+// readAuditEntries returns every entry from the rotated files and the active log, oldest first. Lines
+// that fail to parse (e.g., a write cut short by a crash) are skipped.
+export async function readAuditEntries(config: AuditConfig): Promise<AuditEntry[]> {
+  const files: string[] = [];
+  for (let index = config.maxFiles; index >= 1; index -= 1) {
+    files.push(`${config.path}.${index}`);
+  }
+  files.push(config.path);
+  const entries: AuditEntry[] = [];
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch {
+      continue;
+    }
+    for (const line of content.split('\n')) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // skip partial lines
+      }
+    }
+  }
+  return entries;
+}
+
+function resolveOutcome(call: AuditCall): AuditOutcome {
+  if (call.cancelled) {
+    return 'cancelled';
+  }
+  if (call.error !== undefined) {
+    return 'error';
+  }
+  const result = call.result as { isError?: unknown } | undefined;
+  return result && typeof result === 'object' && result.isError === true ? 'tool_error' : 'success';
+}
+
+function describeError(error: unknown): NonNullable<AuditEntry['error']> {
+  const issue = analyzeConnectionError(error);
+  return {
+    message: issue.rawMessage,
+    kind: issue.kind,
+    ...(issue.statusCode !== undefined ? { statusCode: issue.statusCode } : {}),
+    ...(issue.stdioExitCode !== undefined ? { stdioExitCode: issue.stdioExitCode } : {}),
+    ...(issue.stdioSignal !== undefined ? { stdioSignal: issue.stdioSignal } : {}),
+  };
+}
+
+function truncateUtf8(value: string, maxBytes: number): string {
+  const buffer = Buffer.from(value, 'utf8');
+  // Drop a trailing partial code point so the prefix stays valid UTF-8.
+  return buffer
+    .subarray(0, maxBytes)
+    .toString('utf8')
+    .replace(/\uFFFD$/, '');
+}
@@ -1,6 +1,6 @@
 import { spawn } from 'node:child_process';
 import fs from 'node:fs/promises';
-import type { ServerDefinition, ServerSource } from './config.js';
+import type { ServerDefinition, ServerSource, ServerToolPolicy } from './config.js';
 
 export type CliArtifactKind = 'template' | 'bundle' | 'binary';
 
@@ -24,6 +24,7 @@ export interface SerializedServerDefinition {
   readonly tokenCacheDir?: string;
   readonly clientName?: string;
   readonly oauthRedirectUrl?: string;
+  readonly tools?: ServerToolPolicy;
 }
 
 export interface CliArtifactMetadata {
@@ -141,6 +142,7 @@ export function serializeDefinition(definition: ServerDefinition): SerializedSer
       tokenCacheDir: definition.tokenCacheDir,
       clientName: definition.clientName,
       oauthRedirectUrl: definition.oauthRedirectUrl,
+      tools: definition.tools,
     };
   }
   return {
@@ -157,5 +159,6 @@ export function serializeDefinition(definition: ServerDefinition): SerializedSer
     tokenCacheDir: definition.tokenCacheDir,
     clientName: definition.clientName,
     oauthRedirectUrl: definition.oauthRedirectUrl,
+    tools: definition.tools,
   };
 }
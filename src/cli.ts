@@ -5,20 +5,32 @@ import type { EphemeralServerSpec } from './cli/adhoc-server.js';
 import { printCallHelp, handleCall as runHandleCall } from './cli/call-command.js';
 import { buildGlobalContext } from './cli/cli-factory.js';
 import { inferCommandRouting } from './cli/command-inference.js';
+import { handleComplete, printCompleteHelp } from './cli/complete-command.js';
+import {
+  COMPLETION_QUERY_COMMAND,
+  handleCompletion,
+  handleCompletionQuery,
+  printCompletionHelp,
+} from './cli/completion-command.js';
 import { handleConfigCli } from './cli/config-command.js';
 import { handleDaemonCli } from './cli/daemon-command.js';
+import { createTerminalElicitationHandler } from './cli/elicitation-prompt.js';
 import { handleEmitTs } from './cli/emit-ts-command.js';
 import { extractEphemeralServerFlags } from './cli/ephemeral-flags.js';
 import { prepareEphemeralServerTarget } from './cli/ephemeral-target.js';
 import { CliUsageError } from './cli/errors.js';
 import { handleGenerateCli } from './cli/generate-cli-runner.js';
+import { handleHistory, printHistoryHelp } from './cli/history-command.js';
 import { looksLikeHttpUrl } from './cli/http-utils.js';
 import { handleInspectCli } from './cli/inspect-cli-command.js';
 import { buildConnectionIssueEnvelope } from './cli/json-output.js';
 import { handleList, printListHelp } from './cli/list-command.js';
 import { logError, logInfo, logWarn } from './cli/logger-context.js';
 import { consumeOutputFormat } from './cli/output-format.js';
+import { handlePrompts, printPromptsHelp } from './cli/prompts-command.js';
+import { handleResources, printResourcesHelp } from './cli/resources-command.js';
 import { DEBUG_HANG, dumpActiveHandles, terminateChildProcesses } from './cli/runtime-debug.js';
+import { handleServe, printServeHelp } from './cli/serve-command.js';
 import { boldText, dimText, extraDimText, supportsAnsiColor } from './cli/terminal.js';
 import { resolveConfigPath } from './config.js';
 import type { ServerDefinition } from './config-schema.js';
@@ -27,13 +39,19 @@ import { createKeepAliveRuntime } from './daemon/runtime-wrapper.js';
 import { analyzeConnectionError } from './error-classifier.js';
 import { isKeepAliveServer } from './lifecycle.js';
 import { clearOAuthCaches } from './oauth-persistence.js';
+import { ToolCallDeclinedError, ToolNotAllowedError } from './runtime/tool-policy.js';
 import { createRuntime, MCPORTER_VERSION } from './runtime.js';
 
 export { parseCallArguments } from './cli/call-arguments.js';
 export { handleCall } from './cli/call-command.js';
+export { handleComplete } from './cli/complete-command.js';
+export { handleCompletion, handleCompletionQuery } from './cli/completion-command.js';
 export { handleGenerateCli } from './cli/generate-cli-runner.js';
 export { handleInspectCli } from './cli/inspect-cli-command.js';
 export { extractListFlags, handleList } from './cli/list-command.js';
+export { handlePrompts } from './cli/prompts-command.js';
+export { handleResources } from './cli/resources-command.js';
+export { handleServe } from './cli/serve-command.js';
 export { resolveCallTimeout } from './cli/timeouts.js';
 
 export async function runCli(argv: string[]): Promise<void> {
@@ -78,6 +96,15 @@ export async function runCli(argv: string[]): Promise<void> {
     await handleInspectCli(args);
     return;
   }
+  if (command === 'completion') {
+    if (consumeHelpTokens(args)) {
+      printCompletionHelp();
+      process.exitCode = 0;
+      return;
+    }
+    handleCompletion(args);
+    return;
+  }
   const rootOverride = globalFlags['--root'];
   const configPath = runtimeOptions.configPath ?? globalFlags['--config'];
   const configResolution = resolveConfigPath(globalFlags['--config'], rootOverride ?? process.cwd());
@@ -94,6 +121,7 @@ export async function runCli(argv: string[]): Promise<void> {
       configPath: configPathResolved,
       configExplicit: configResolution.explicit,
       rootDir: rootOverride,
+      profile: runtimeOptions.profile,
     });
     return;
   }
@@ -101,7 +129,7 @@ export async function runCli(argv: string[]): Promise<void> {
   if (command === 'config') {
     await handleConfigCli(
       {
-        loadOptions: { configPath, rootDir: rootOverride },
+        loadOptions: { configPath, rootDir: rootOverride, profile: runtimeOptions.profile },
         invokeAuth: (authArgs) => invokeAuthCommand(runtimeOptionsWithPath, authArgs),
       },
       args
@@ -109,6 +137,16 @@ export async function runCli(argv: string[]): Promise<void> {
     return;
   }
 
+  if (command === 'history') {
+    if (consumeHelpTokens(args)) {
+      printHistoryHelp();
+      process.exitCode = 0;
+      return;
+    }
+    await handleHistory(args, { configPath, rootDir: rootOverride });
+    return;
+  }
+
   if (command === 'emit-ts') {
     const runtime = await createRuntime(runtimeOptionsWithPath);
     try {
@@ -119,7 +157,20 @@ export async function runCli(argv: string[]): Promise<void> {
     return;
   }
 
-  const baseRuntime = await createRuntime(runtimeOptionsWithPath);
+  if (command === COMPLETION_QUERY_COMMAND) {
+    // Shell completion fast path: config and schema caches only, no elicitation/daemon wiring.
+    const runtime = await createRuntime(runtimeOptionsWithPath);
+    try {
+      await handleCompletionQuery(runtime, args);
+    } finally {
+      await runtime.close().catch(() => {});
+    }
+    return;
+  }
+
+  // Advertise elicitation so servers can ask for input; `mcporter call` overrides this per call.
+  const onElicitation = createTerminalElicitationHandler();
+  const baseRuntime = await createRuntime({ ...runtimeOptionsWithPath, onElicitation });
   const keepAliveServers = new Set(
     baseRuntime
       .getDefinitions()
@@ -132,9 +183,10 @@ export async function runCli(argv: string[]): Promise<void> {
           configPath: configResolution.path,
           configExplicit: configResolution.explicit,
           rootDir: rootOverride,
+          profile: runtimeOptions.profile,
         })
       : null;
-  const runtime = createKeepAliveRuntime(baseRuntime, { daemonClient, keepAliveServers });
+  const runtime = createKeepAliveRuntime(baseRuntime, { daemonClient, keepAliveServers, onElicitation });
 
   const inference = inferCommandRouting(command, args, runtime.getDefinitions());
   if (inference.kind === 'abort') {
@@ -174,6 +226,46 @@ export async function runCli(argv: string[]): Promise<void> {
       await handleAuth(runtime, resolvedArgs);
       return;
     }
+
+    if (resolvedCommand === 'prompts') {
+      if (consumeHelpTokens(resolvedArgs)) {
+        printPromptsHelp();
+        process.exitCode = 0;
+        return;
+      }
+      await handlePrompts(runtime, resolvedArgs);
+      return;
+    }
+
+    if (resolvedCommand === 'resources') {
+      if (consumeHelpTokens(resolvedArgs)) {
+        printResourcesHelp();
+        process.exitCode = 0;
+        return;
+      }
+      await handleResources(runtime, resolvedArgs);
+      return;
+    }
+
+    if (resolvedCommand === 'complete') {
+      if (consumeHelpTokens(resolvedArgs)) {
+        printCompleteHelp();
+        process.exitCode = 0;
+        return;
+      }
+      await handleComplete(runtime, resolvedArgs);
+      return;
+    }
+
+    if (resolvedCommand === 'serve') {
+      if (consumeHelpTokens(resolvedArgs)) {
+        printServeHelp();
+        process.exitCode = 0;
+        return;
+      }
+      await handleServe(runtime, resolvedArgs);
+      return;
+    }
   } finally {
     const closeStart = Date.now();
     if (DEBUG_HANG) {
@@ -281,6 +373,31 @@ function buildCommandSections(colorize: boolean): string[] {
           summary: 'Complete OAuth for a server without listing tools',
           usage: 'mcporter auth <server | url> [--reset]',
         },
+        {
+          name: 'prompts',
+          summary: 'List or render prompt templates exposed by a server',
+          usage: 'mcporter prompts <server> [prompt] [key=value ...]',
+        },
+        {
+          name: 'resources',
+          summary: 'List, read, or watch resources (URI templates via key=value, --out saves blobs)',
+          usage: 'mcporter resources <list|read|templates|watch> <server> [uri] [key=value ...]',
+        },
+        {
+          name: 'complete',
+          summary: 'Print argument completions (tool enums or server completion/complete) one per line',
+          usage: 'mcporter complete <server.tool | server --prompt <name>> <argument> [prefix]',
+        },
+        {
+          name: 'serve',
+          summary: 'Expose all configured servers as one MCP server (tools named server__tool)',
+          usage: 'mcporter serve [--stdio | --http <port>] [--include <pattern>] [--exclude <pattern>]',
+        },
+        {
+          name: 'history',
+          summary: 'Show audited tool calls (filter by server, tool, time, outcome)',
+          usage: 'mcporter history [--server <name>] [--tool <name>] [--since 2h] [--json]',
+        },
       ],
     },
     {
@@ -311,6 +428,11 @@ function buildCommandSections(colorize: boolean): string[] {
           summary: 'Inspect or edit config files (list, get, add, remove, import, login, logout)',
           usage: 'mcporter config <command> [options]',
         },
+        {
+          name: 'completion',
+          summary: 'Print a shell completion script (servers, cached tool names, key: arguments)',
+          usage: 'mcporter completion <bash|zsh|fish>',
+        },
       ],
     },
     {
@@ -352,6 +474,10 @@ function formatGlobalFlags(colorize: boolean): string {
       flag: '--root <path>',
       summary: 'Working directory for stdio servers',
     },
+    {
+      flag: '--profile <name>',
+      summary: 'Apply a config profile (env: MCPORTER_PROFILE)',
+    },
     {
       flag: '--log-level <debug|info|warn|error>',
       summary: 'Adjust CLI logging (defaults to warn)',
@@ -427,7 +553,11 @@ async function resolveCliVersion(): Promise<string> {
 
 if (process.env.MCPORTER_DISABLE_AUTORUN !== '1') {
   main().catch((error) => {
-    if (error instanceof CliUsageError) {
+    if (
+      error instanceof CliUsageError ||
+      error instanceof ToolNotAllowedError ||
+      error instanceof ToolCallDeclinedError
+    ) {
       logError(error.message);
       process.exit(1);
       return;
@@ -566,6 +696,7 @@ export function printAuthHelp(): void {
     '  --stdio-arg <value>     Append args to the stdio command (repeatable).',
     '  --env KEY=value         Inject env vars for stdio servers (repeatable).',
     '  --cwd <path>            Working directory for stdio servers.',
+    '  --root-dir <path>       Expose a directory to the server via roots/list (repeatable).',
     '  --name <value>          Override the display name for ad-hoc servers.',
     '  --description <text>    Override the description for ad-hoc servers.',
     '  --persist <path>        Write the ad-hoc definition to config/mcporter.json.',
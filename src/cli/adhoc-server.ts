@@ -13,6 +13,7 @@ export interface EphemeralServerSpec {
   stdioArgs?: string[];
   cwd?: string;
   env?: Record<string, string>;
+  roots?: string[];
   description?: string;
   persistPath?: string;
 }
@@ -33,6 +34,8 @@ export function resolveEphemeralServer(spec: EphemeralServerSpec): EphemeralServ
     throw new Error('Cannot combine --http-url and --stdio in the same ad-hoc server.');
   }
 
+  const roots = spec.roots?.map((root) => ({ path: path.resolve(expandHome(root)) }));
+
   if (spec.httpUrl) {
     const url = new URL(spec.httpUrl);
     if (url.protocol !== 'https:' && url.protocol !== 'http:') {
@@ -56,12 +59,14 @@ export function resolveEphemeralServer(spec: EphemeralServerSpec): EphemeralServ
       env: spec.env && Object.keys(spec.env).length > 0 ? spec.env : undefined,
       source: TEMP_SOURCE,
       lifecycle,
+      ...(roots ? { roots } : {}),
     };
     const persistedEntry: Record<string, unknown> = {
       baseUrl: url.href,
       ...(spec.description ? { description: spec.description } : {}),
       ...(spec.env && Object.keys(spec.env).length > 0 ? { env: spec.env } : {}),
       ...(lifecycle ? { lifecycle: serializeLifecycle(lifecycle) } : {}),
+      ...(roots ? { roots: roots.map((root) => root.path) } : {}),
     };
     return { definition, name, persistedEntry };
   }
@@ -90,6 +95,7 @@ export function resolveEphemeralServer(spec: EphemeralServerSpec): EphemeralServ
     env: spec.env && Object.keys(spec.env).length > 0 ? spec.env : undefined,
     source: TEMP_SOURCE,
     lifecycle,
+    ...(roots ? { roots } : {}),
   };
   const persistedEntry: Record<string, unknown> = {
     command: commandBinary,
@@ -97,6 +103,7 @@ export function resolveEphemeralServer(spec: EphemeralServerSpec): EphemeralServ
     ...(spec.description ? { description: spec.description } : {}),
     ...(spec.env && Object.keys(spec.env).length > 0 ? { env: spec.env } : {}),
     ...(lifecycle ? { lifecycle: serializeLifecycle(lifecycle) } : {}),
+    ...(roots ? { roots: roots.map((root) => root.path) } : {}),
   };
   if (spec.cwd) {
     persistedEntry.cwd = spec.cwd;
@@ -249,15 +256,15 @@ export function splitCommandLine(input: string): string[] {
 
 function serializeLifecycle(
   lifecycle: ReturnType<typeof resolveLifecycle>
-): string | { mode: 'keep-alive'; idleTimeoutMs?: number } | undefined {
+): string | { mode: 'keep-alive'; idleTimeoutMs?: number; prewarm?: boolean } | undefined {
   if (!lifecycle) {
     return undefined;
   }
-  if (lifecycle.mode === 'keep-alive' && lifecycle.idleTimeoutMs === undefined) {
+  if (lifecycle.mode === 'keep-alive' && lifecycle.idleTimeoutMs === undefined && !lifecycle.prewarm) {
     return 'keep-alive';
   }
   if (lifecycle.mode === 'keep-alive') {
-    return { mode: 'keep-alive', idleTimeoutMs: lifecycle.idleTimeoutMs };
+    return { mode: 'keep-alive', idleTimeoutMs: lifecycle.idleTimeoutMs, prewarm: lifecycle.prewarm };
   }
   return 'ephemeral';
 }
@@ -1,5 +1,6 @@
 import type { EphemeralServerSpec } from './adhoc-server.js';
 import { parseCallExpressionFragment } from './call-expression-parser.js';
+import { PROGRESS_MODES, type ProgressMode } from './call-progress.js';
 import { extractEphemeralServerFlags } from './ephemeral-flags.js';
 import { CliUsageError } from './errors.js';
 import { splitHttpToolSelector } from './http-utils.js';
@@ -16,11 +17,23 @@ export interface CallArgsParseResult {
   tailLog: boolean;
   output: OutputFormat;
   timeoutMs?: number;
+  progress: ProgressMode;
+  serverLogs: boolean;
+  elicitFrom?: string;
+  // yes approves destructive tools without prompting (and skips the --persist confirmation).
+  yes: boolean;
   ephemeral?: EphemeralServerSpec;
 }
 
 export function parseCallArguments(args: string[]): CallArgsParseResult {
-  const result: CallArgsParseResult = { args: {}, tailLog: false, output: 'auto' };
+  const result: CallArgsParseResult = {
+    args: {},
+    tailLog: false,
+    output: 'auto',
+    progress: 'auto',
+    serverLogs: false,
+    yes: false,
+  };
   const ephemeral = extractEphemeralServerFlags(args);
   result.ephemeral = ephemeral;
   result.output = consumeOutputFormat(args, {
@@ -59,12 +72,39 @@ export function parseCallArguments(args: string[]): CallArgsParseResult {
       });
       continue;
     }
+    if (token === '--progress') {
+      const value = args[index + 1];
+      if (!value) {
+        throw new Error(`--progress requires a value (${PROGRESS_MODES.join('|')}).`);
+      }
+      if (!PROGRESS_MODES.includes(value as ProgressMode)) {
+        throw new Error(`--progress must be one of: ${PROGRESS_MODES.join(', ')}.`);
+      }
+      result.progress = value as ProgressMode;
+      index += 2;
+      continue;
+    }
+    if (token === '--server-logs') {
+      result.serverLogs = true;
+      index += 1;
+      continue;
+    }
+    if (token === '--elicit-from') {
+      const value = args[index + 1];
+      if (!value) {
+        throw new Error('--elicit-from requires a JSON object or a path to a JSON file.');
+      }
+      result.elicitFrom = value;
+      index += 2;
+      continue;
+    }
     if (token === '--tail-log') {
       result.tailLog = true;
       index += 1;
       continue;
     }
     if (token === '--yes') {
+      result.yes = true;
       index += 1;
       continue;
     }
@@ -1,6 +1,17 @@
 import { analyzeConnectionError, type ConnectionIssue } from '../error-classifier.js';
 import { wrapCallResult } from '../result-utils.js';
+import { isAbortError } from '../runtime/errors.js';
+import { formatServerLogMessage } from '../runtime/server-logs.js';
+import { confirmDestructiveCall } from '../runtime/tool-policy.js';
+import type { CallOptions } from '../runtime.js';
 import { type CallArgsParseResult, parseCallArguments } from './call-arguments.js';
+import { createProgressReporter } from './call-progress.js';
+import { createTerminalDestructiveConfirmation } from './destructive-prompt.js';
+import {
+  createStaticElicitationHandler,
+  createTerminalElicitationHandler,
+  loadElicitationValues,
+} from './elicitation-prompt.js';
 import { prepareEphemeralServerTarget } from './ephemeral-target.js';
 import { looksLikeHttpUrl, normalizeHttpUrlCandidate } from './http-utils.js';
 import type { IdentifierResolution } from './identifier-helpers.js';
@@ -90,10 +101,48 @@ export async function handleCall(
 
   const timeoutMs = resolveCallTimeout(parsed.timeoutMs);
   const hydratedArgs = await hydratePositionalArguments(runtime, server, tool, parsed.args, parsed.positionalArgs);
+  const progress = createProgressReporter(parsed.progress, `${server}.${tool}`);
+  const answerElicitation = parsed.elicitFrom
+    ? createStaticElicitationHandler(await loadElicitationValues(parsed.elicitFrom))
+    : createTerminalElicitationHandler();
+  const confirmDestructive = createTerminalDestructiveConfirmation({ assumeYes: parsed.yes });
+  // The first Ctrl+C cancels the call upstream (notifications/cancelled) so keep-alive servers stay warm;
+  // a second one exits immediately.
+  const cancellation = new AbortController();
+  const cancel = (): void => {
+    if (cancellation.signal.aborted) {
+      process.exit(130);
+    }
+    progress.stop();
+    console.error(dimText(`Cancelling ${server}.${tool}… (Ctrl+C again to exit immediately)`));
+    cancellation.abort();
+  };
+  process.on('SIGINT', cancel);
   let invocation: { result: unknown; resolvedTool: string };
   try {
-    invocation = await invokeWithAutoCorrection(runtime, server, tool, hydratedArgs, timeoutMs);
+    invocation = await invokeWithAutoCorrection(runtime, server, tool, hydratedArgs, timeoutMs, {
+      onProgress: progress.onProgress,
+      signal: cancellation.signal,
+      onLog: parsed.serverLogs
+        ? (message) => progress.write(dimText(`${message.level} ${formatServerLogMessage(message)}`))
+        : undefined,
+      onElicitation: (request) => {
+        // Prompts need a clean terminal; the spinner would redraw over them.
+        progress.stop();
+        return answerElicitation(request);
+      },
+      confirmDestructive: (request) => {
+        progress.stop();
+        return confirmDestructive(request);
+      },
+    });
   } catch (error) {
+    progress.stop();
+    if (isAbortError(error)) {
+      console.error(yellowText(`Call to ${server}.${tool} was cancelled.`));
+      process.exitCode = 130;
+      return;
+    }
     const issue = maybeReportConnectionIssue(server, tool, error);
     if (parsed.output === 'json' || parsed.output === 'raw') {
       const payload = buildConnectionIssueEnvelope({ server, tool, error, issue });
@@ -102,7 +151,10 @@ export async function handleCall(
       return;
     }
     throw error;
+  } finally {
+    process.off('SIGINT', cancel);
   }
+  progress.stop();
   const { result } = invocation;
 
   const { callResult: wrapped } = wrapCallResult(result);
@@ -131,6 +183,11 @@ export function printCallHelp(): void {
     '  --timeout <ms>         Override the call timeout.',
     '  --output text|markdown|json|raw  Control formatting.',
     '  --tail-log             Stream returned log handles.',
+    "  --server-logs          Stream the server's log notifications to stderr during the call.",
+    '  --progress auto|json|none  Show tool progress (spinner on TTYs, JSON lines on stderr, or nothing).',
+    '  --elicit-from <json|file>  Answer server input requests from a JSON object instead of prompting.',
+    '  --yes                  Run tools the server marks destructive without asking (required without a TTY).',
+    '  Ctrl+C                 Cancel the call upstream (press twice to exit immediately).',
     '',
     'Ad-hoc servers:',
     '  --http-url <url>       Register an HTTP server for this run.',
@@ -139,10 +196,11 @@ export function printCallHelp(): void {
     '  --stdio-arg <value>    Append args to the stdio command (repeatable).',
     '  --env KEY=value        Inject env vars for stdio servers (repeatable).',
     '  --cwd <path>           Working directory for stdio servers.',
+    '  --root-dir <path>      Expose a directory to the server via roots/list (repeatable).',
     '  --name <value>         Override the display name for ad-hoc servers.',
     '  --description <text>   Override the description for ad-hoc servers.',
     '  --persist <path>       Write the ad-hoc definition to config/mcporter.json.',
-    '  --yes                  Skip confirmation prompts when persisting.',
+    '  --yes                  Also skips the confirmation prompt when persisting.',
     '',
     'Examples:',
     '  mcporter call linear.list_issues team=ENG limit:5',
@@ -291,10 +349,11 @@ async function invokeWithAutoCorrection(
   server: string,
   tool: string,
   args: Record<string, unknown>,
-  timeoutMs: number
+  timeoutMs: number,
+  callOptions: Pick<CallOptions, 'onProgress' | 'signal' | 'onLog' | 'onElicitation' | 'confirmDestructive'> = {}
 ): Promise<{ result: unknown; resolvedTool: string }> {
   // Attempt the original request first; if it fails with a "tool not found" we opportunistically retry once with a better match.
-  return attemptCall(runtime, server, tool, args, timeoutMs, true);
+  return attemptCall(runtime, server, tool, args, timeoutMs, true, callOptions);
 }
 
 async function attemptCall(
@@ -303,10 +362,16 @@ async function attemptCall(
   tool: string,
   args: Record<string, unknown>,
   timeoutMs: number,
-  allowCorrection: boolean
+  allowCorrection: boolean,
+  callOptions: Pick<CallOptions, 'onProgress' | 'signal' | 'onLog' | 'onElicitation' | 'confirmDestructive'> = {}
 ): Promise<{ result: unknown; resolvedTool: string }> {
+  const { confirmDestructive, ...options } = callOptions;
   try {
-    const result = await withTimeout(runtime.callTool(server, tool, { args, timeoutMs }), timeoutMs);
+    // Confirm before the timed call starts so time spent at the prompt does not count against --timeout.
+    await confirmDestructiveCall(confirmDestructive, { server, tool, args }, () =>
+      withTimeout(runtime.getToolAnnotations(server, tool), timeoutMs)
+    );
+    const result = await withTimeout(runtime.callTool(server, tool, { ...options, args, timeoutMs }), timeoutMs);
     return { result, resolvedTool: tool };
   } catch (error) {
     if (error instanceof Error && error.message === 'Timeout') {
@@ -317,6 +382,10 @@ async function attemptCall(
       );
     }
 
+    if (isAbortError(error)) {
+      throw error;
+    }
+
     if (!allowCorrection) {
       throw error;
     }
@@ -342,7 +411,7 @@ async function attemptCall(
     if (messages.auto) {
       console.log(dimText(messages.auto));
     }
-    return attemptCall(runtime, server, resolution.value, args, timeoutMs, false);
+    return attemptCall(runtime, server, resolution.value, args, timeoutMs, false, callOptions);
   }
 }
 
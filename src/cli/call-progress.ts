@@ -0,0 +1,66 @@
+import ora, { type Ora } from 'ora';
+import type { CallProgress } from '../runtime.js';
+import { supportsSpinner } from './terminal.js';
+
+export type ProgressMode = 'auto' | 'json' | 'none';
+
+export const PROGRESS_MODES: readonly ProgressMode[] = ['auto', 'json', 'none'];
+
+export interface ProgressReporter {
+  readonly onProgress?: (progress: CallProgress) => void;
+  // write prints a stderr line without corrupting a live spinner.
+  write(line: string): void;
+  // stop clears any live spinner so the call result prints on a clean line.
+  stop(): void;
+}
+
+// createProgressReporter renders tool progress as an ora spinner/bar (TTY) or JSON lines on stderr.
+export function createProgressReporter(
+  mode: ProgressMode,
+  label: string,
+  options: { interactive?: boolean; write?: (line: string) => void } = {}
+): ProgressReporter {
+  const write = options.write ?? ((line: string) => process.stderr.write(`${line}\n`));
+  if (mode === 'json') {
+    return {
+      onProgress: (progress) => {
+        write(JSON.stringify({ type: 'progress', ...progress }));
+      },
+      write,
+      stop: () => {},
+    };
+  }
+  const interactive = options.interactive ?? supportsSpinner;
+  if (mode === 'none' || !interactive) {
+    return { write, stop: () => {} };
+  }
+  let spinner: Ora | undefined = ora(`Calling ${label}…`).start();
+  return {
+    onProgress: (progress) => {
+      if (spinner) {
+        spinner.text = `${label} ${formatProgressLine(progress)}`;
+      }
+    },
+    write: (line) => {
+      spinner?.clear();
+      write(line);
+      spinner?.render();
+    },
+    stop: () => {
+      spinner?.stop();
+      spinner = undefined;
+    },
+  };
+}
+
+// formatProgressLine renders `[####------] 40% message`, falling back to a raw counter without a total.
+export function formatProgressLine(progress: CallProgress, width = 20): string {
+  const message = progress.message ? ` ${progress.message}` : '';
+  if (typeof progress.total !== 'number' || progress.total <= 0) {
+    return `(${progress.progress})${message}`;
+  }
+  const ratio = Math.min(1, Math.max(0, progress.progress / progress.total));
+  const filled = Math.round(ratio * width);
+  const bar = `${'#'.repeat(filled)}${'-'.repeat(width - filled)}`;
+  return `[${bar}] ${Math.round(ratio * 100)}%${message}`;
+}
@@ -9,13 +9,14 @@ export interface GlobalCliContext {
   readonly runtimeOptions: {
     configPath?: string;
     rootDir?: string;
+    profile?: string;
     logger: ReturnType<typeof getActiveLogger>;
     oauthTimeoutMs?: number;
   };
 }
 
 export function buildGlobalContext(argv: string[]): GlobalCliContext | { exit: true; code: number } {
-  const globalFlags = extractFlags(argv, ['--config', '--root', '--log-level', '--oauth-timeout']);
+  const globalFlags = extractFlags(argv, ['--config', '--root', '--profile', '--log-level', '--oauth-timeout']);
   if (globalFlags['--log-level']) {
     try {
       const parsedLevel = parseLogLevel(globalFlags['--log-level'], getActiveLogLevel());
@@ -40,9 +41,13 @@ export function buildGlobalContext(argv: string[]): GlobalCliContext | { exit: t
   const rootOverride = globalFlags['--root'];
   const configResolution = resolveConfigPath(globalFlags['--config'], rootOverride ?? process.cwd());
 
+  // --profile wins over MCPORTER_PROFILE; an empty value turns profiles off.
+  const profile = (globalFlags['--profile'] ?? process.env.MCPORTER_PROFILE)?.trim() || undefined;
+
   const runtimeOptions = {
     configPath: configResolution.explicit ? configResolution.path : undefined,
     rootDir: rootOverride,
+    profile,
     logger: getActiveLogger(),
     oauthTimeoutMs: oauthTimeoutOverride,
   };
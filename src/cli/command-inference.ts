@@ -6,6 +6,7 @@ import { dimText, yellowText } from './terminal.js';
 type CommandResult = { kind: 'command'; command: string; args: string[] } | { kind: 'abort'; exitCode: number };
 
 const CALL_TOKEN_PATTERN = /[.(]/;
+const EXPLICIT_COMMANDS = new Set(['list', 'call', 'auth', 'prompts', 'resources', 'complete', 'serve']);
 
 export function inferCommandRouting(
   token: string,
@@ -84,7 +85,7 @@ function isCallLikeToken(token: string): boolean {
 }
 
 function isExplicitCommand(token: string): boolean {
-  return token === 'list' || token === 'call' || token === 'auth';
+  return EXPLICIT_COMMANDS.has(token);
 }
 
 function isUrlToken(token: string): boolean {
@@ -0,0 +1,125 @@
+import type { CompletionReference, CompletionResult, Runtime } from '../runtime.js';
+import { CliUsageError } from './errors.js';
+import { parseKeyValueArguments } from './flag-utils.js';
+import { consumeOutputFormat } from './output-format.js';
+import { loadToolMetadata } from './tool-cache.js';
+
+type CompleteOutputFormat = 'text' | 'json';
+
+interface CompleteFlags {
+  prompt?: string;
+  resource?: string;
+  context: string[];
+}
+
+const USAGE =
+  'Usage: mcporter complete <server.tool | server --prompt <name> | server --resource <uri>> <argument> [prefix]';
+
+// handleComplete prints completion candidates one per line so shells can consume them directly.
+export async function handleComplete(runtime: Runtime, args: string[]): Promise<void> {
+  const format = consumeOutputFormat(args, {
+    defaultFormat: 'text',
+    allowed: ['text', 'json'],
+    enableRawShortcut: false,
+    jsonShortcutFlag: '--json',
+  }) as CompleteOutputFormat;
+  const flags = consumeCompleteFlags(args);
+  const [target, argumentName, prefix = '', ...rest] = args;
+  if (!target || !argumentName || rest.length > 0) {
+    throw new CliUsageError(USAGE);
+  }
+
+  const completion = await resolveCompletion(runtime, target, argumentName, prefix, flags);
+  if (format === 'json') {
+    console.log(JSON.stringify(completion, null, 2));
+    return;
+  }
+  for (const value of completion.values) {
+    console.log(value);
+  }
+}
+
+export function printCompleteHelp(): void {
+  const lines = [
+    'Usage: mcporter complete <target> <argument> [prefix] [flags]',
+    '',
+    'Purpose:',
+    '  Print completion candidates for a tool, prompt, or resource-template argument (one per line),',
+    '  for shell completion scripts and interactive pickers.',
+    '',
+    'Targets:',
+    '  <server>.<tool>                 Enum values from the tool schema.',
+    '  <server> --prompt <name>        Server suggestions via completion/complete (ref/prompt).',
+    '  <server> --resource <uri>       Server suggestions for a resource template (ref/resource).',
+    '',
+    'Flags:',
+    '  --context key=value    Already-chosen arguments the server can use to narrow results (repeatable).',
+    '  --json                 Print { values, total?, hasMore? } instead of plain lines.',
+    '',
+    'Examples:',
+    '  mcporter complete linear.list_issues state',
+    '  mcporter complete linear --prompt triage projectId ENG --context teamId=core',
+    "  mcporter complete github --resource 'repo://{owner}/{repo}' repo mcp --context owner=steipete",
+  ];
+  console.error(lines.join('\n'));
+}
+
+async function resolveCompletion(
+  runtime: Runtime,
+  target: string,
+  argumentName: string,
+  prefix: string,
+  flags: CompleteFlags
+): Promise<CompletionResult> {
+  const argument = { name: argumentName, value: prefix };
+  const context = flags.context.length > 0 ? parseKeyValueArguments(flags.context) : undefined;
+  if (flags.prompt || flags.resource) {
+    const ref: CompletionReference = flags.prompt
+      ? { type: 'ref/prompt', name: flags.prompt }
+      : { type: 'ref/resource', uri: flags.resource as string };
+    return runtime.complete(target, ref, argument, { context });
+  }
+
+  const dotIndex = target.indexOf('.');
+  if (dotIndex <= 0 || dotIndex === target.length - 1) {
+    throw new CliUsageError(`Pass <server>.<tool>, or use --prompt/--resource to complete server arguments. ${USAGE}`);
+  }
+  const server = target.slice(0, dotIndex);
+  const toolName = target.slice(dotIndex + 1);
+  const tools = await loadToolMetadata(runtime, server, { includeSchema: true });
+  const tool = tools.find((entry) => entry.tool.name === toolName);
+  if (!tool) {
+    throw new CliUsageError(`Unknown tool '${toolName}' on server '${server}'.`);
+  }
+  const option = tool.options.find((entry) => entry.property === argumentName || entry.cliName === argumentName);
+  const values = (option?.enumValues ?? []).filter((value) => value.startsWith(prefix));
+  return { values };
+}
+
+function consumeCompleteFlags(args: string[]): CompleteFlags {
+  const flags: CompleteFlags = { context: [] };
+  let index = 0;
+  while (index < args.length) {
+    const token = args[index];
+    if (token === '--prompt' || token === '--resource' || token === '--context') {
+      const value = args[index + 1];
+      if (!value) {
+        throw new CliUsageError(`Flag '${token}' requires a value.`);
+      }
+      if (token === '--prompt') {
+        flags.prompt = value;
+      } else if (token === '--resource') {
+        flags.resource = value;
+      } else {
+        flags.context.push(value);
+      }
+      args.splice(index, 2);
+      continue;
+    }
+    index += 1;
+  }
+  if (flags.prompt && flags.resource) {
+    throw new CliUsageError('Use either --prompt or --resource, not both.');
+  }
+  return flags;
+}
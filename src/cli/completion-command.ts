@@ -0,0 +1,239 @@
+import { isToolAllowed } from '../runtime/tool-policy.js';
+import type { Runtime } from '../runtime.js';
+import { readSchemaCache } from '../schema-cache.js';
+import { CliUsageError } from './errors.js';
+
+type CompletionShell = 'bash' | 'zsh' | 'fish';
+
+// COMPLETION_QUERY_COMMAND is the hidden subcommand the generated scripts call back into. It reads the
+// config and on-disk schema caches only, so completing never connects to a server.
+export const COMPLETION_QUERY_COMMAND = '__complete';
+
+const SHELLS: readonly CompletionShell[] = ['bash', 'zsh', 'fish'];
+
+const COMMANDS = [
+  'list',
+  'call',
+  'auth',
+  'prompts',
+  'resources',
+  'complete',
+  'serve',
+  'history',
+  'generate-cli',
+  'inspect-cli',
+  'emit-ts',
+  'config',
+  'daemon',
+  'completion',
+];
+
+const SUBCOMMANDS: Record<string, readonly string[]> = {
+  config: ['list', 'get', 'add', 'remove', 'import', 'login', 'logout', 'doctor', 'profiles'],
+  daemon: ['start', 'status', 'stop', 'restart'],
+  resources: ['list', 'read', 'templates', 'watch'],
+  completion: SHELLS,
+};
+
+const SERVER_COMMANDS = new Set(['list', 'auth', 'prompts', 'emit-ts']);
+
+// handleCompletion prints the completion script for the requested shell.
+export function handleCompletion(args: string[]): void {
+  const [shell, ...rest] = args;
+  if (!shell || rest.length > 0 || !isCompletionShell(shell)) {
+    throw new CliUsageError('Usage: mcporter completion <bash|zsh|fish>');
+  }
+  console.log(renderCompletionScript(shell));
+}
+
+export function printCompletionHelp(): void {
+  const lines = [
+    'Usage: mcporter completion <bash|zsh|fish>',
+    '',
+    'Purpose:',
+    '  Print a shell completion script covering commands, server names, tool names, and key: arguments.',
+    '  Tool names and arguments come from the schema cache (~/.mcporter/<server>/schema.json), which',
+    '  `mcporter list <server>` refreshes; completing never connects to a server.',
+    '',
+    'Install:',
+    "  bash   echo 'source <(mcporter completion bash)' >> ~/.bashrc",
+    "  zsh    echo 'source <(mcporter completion zsh)' >> ~/.zshrc",
+    '  fish   mcporter completion fish > ~/.config/fish/completions/mcporter.fish',
+  ];
+  console.error(lines.join('\n'));
+}
+
+// handleCompletionQuery receives the words typed after `mcporter` (the last one being completed)
+// and prints matching candidates one per line.
+export async function handleCompletionQuery(runtime: Runtime, args: string[]): Promise<void> {
+  const words = args[0] === '--' ? args.slice(1) : [...args];
+  const current = words.pop() ?? '';
+  const candidates = await collectCandidates(runtime, words, current);
+  for (const candidate of new Set(candidates)) {
+    if (candidate.startsWith(current)) {
+      console.log(candidate);
+    }
+  }
+}
+
+export function renderCompletionScript(shell: CompletionShell): string {
+  switch (shell) {
+    case 'bash':
+      return BASH_SCRIPT;
+    case 'zsh':
+      return ZSH_SCRIPT;
+    case 'fish':
+      return FISH_SCRIPT;
+  }
+}
+
+async function collectCandidates(runtime: Runtime, preceding: string[], current: string): Promise<string[]> {
+  if (current.startsWith('-')) {
+    return [];
+  }
+  const [command, ...rest] = preceding;
+  if (!command) {
+    return [...COMMANDS, ...(await selectorCandidates(runtime, current))];
+  }
+  const positionals = rest.filter((word) => !word.startsWith('-'));
+  if (command === 'call' || isSelector(command)) {
+    const selector = command === 'call' ? positionals[0] : command;
+    if (!selector) {
+      return selectorCandidates(runtime, current);
+    }
+    if (current.includes(':') || current.includes('=')) {
+      return [];
+    }
+    const used = new Set(rest.map((word) => word.split(/[:=]/, 1)[0]));
+    const names = await argumentNames(runtime, selector);
+    return names.filter((name) => !used.has(name)).map((name) => `${name}:`);
+  }
+  if (command === 'complete') {
+    if (positionals.length === 0) {
+      return selectorCandidates(runtime, current);
+    }
+    return positionals.length === 1 && positionals[0] ? argumentNames(runtime, positionals[0]) : [];
+  }
+  if (command === 'resources') {
+    if (positionals.length === 0) {
+      return [...(SUBCOMMANDS.resources ?? [])];
+    }
+    return positionals.length === 1 ? runtime.listServers() : [];
+  }
+  if (SERVER_COMMANDS.has(command)) {
+    return positionals.length === 0 ? runtime.listServers() : [];
+  }
+  const subcommands = SUBCOMMANDS[command];
+  return subcommands && positionals.length === 0 ? [...subcommands] : [];
+}
+
+// selectorCandidates offers `server.` until a dot is typed, then that server's cached tool names.
+async function selectorCandidates(runtime: Runtime, current: string): Promise<string[]> {
+  const dotIndex = current.indexOf('.');
+  if (dotIndex === -1) {
+    return runtime.listServers().map((name) => `${name}.`);
+  }
+  const server = current.slice(0, dotIndex);
+  const tools = await readCachedTools(runtime, server);
+  return Object.keys(tools ?? {}).map((tool) => `${server}.${tool}`);
+}
+
+async function argumentNames(runtime: Runtime, selector: string): Promise<string[]> {
+  const dotIndex = selector.indexOf('.');
+  if (dotIndex <= 0) {
+    return [];
+  }
+  const tools = await readCachedTools(runtime, selector.slice(0, dotIndex));
+  if (!tools) {
+    return [];
+  }
+  const toolName = selector.slice(dotIndex + 1).replace(/\(.*$/, '');
+  const key =
+    toolName in tools
+      ? toolName
+      : Object.keys(tools).find((name) => normalizeToolName(name) === normalizeToolName(toolName));
+  const schema = key ? tools[key] : undefined;
+  if (!schema || typeof schema !== 'object') {
+    return [];
+  }
+  const properties = (schema as { properties?: unknown }).properties;
+  return properties && typeof properties === 'object' ? Object.keys(properties) : [];
+}
+
+async function readCachedTools(runtime: Runtime, server: string): Promise<Record<string, unknown> | undefined> {
+  if (!runtime.listServers().includes(server)) {
+    return undefined;
+  }
+  const definition = runtime.getDefinition(server);
+  const snapshot = await readSchemaCache(definition).catch(() => undefined);
+  // The cache may predate a `tools` policy change, so filter it again rather than trusting it.
+  return snapshot
+    ? Object.fromEntries(Object.entries(snapshot.tools).filter(([name]) => isToolAllowed(definition.tools, name)))
+    : undefined;
+}
+
+function isSelector(word: string): boolean {
+  return /^[^.\s/:]+\.[^.\s]/.test(word);
+}
+
+function normalizeToolName(name: string): string {
+  return name.toLowerCase().replace(/[-_]/g, '');
+}
+
+function isCompletionShell(value: string): value is CompletionShell {
+  return (SHELLS as readonly string[]).includes(value);
+}
+
+// Bash splits words on ':' (COMP_WORDBREAKS), so the script re-splits COMP_LINE itself and trims
+// the already-typed colon prefix from `key:` candidates before handing them back.
+const BASH_SCRIPT = `# mcporter bash completion
+_mcporter_completions() {
+  local line="\${COMP_LINE:0:COMP_POINT}"
+  local -a words
+  read -ra words <<< "$line"
+  if [[ "$line" == *" " ]]; then
+    words+=("")
+  fi
+  local cur="\${words[\${#words[@]}-1]}"
+  local IFS=$'\\n'
+  COMPREPLY=($("\${words[0]}" ${COMPLETION_QUERY_COMMAND} -- "\${words[@]:1}" 2>/dev/null))
+  if [[ "$cur" == *:* && "$COMP_WORDBREAKS" == *:* ]]; then
+    local colon_prefix="\${cur%"\${cur##*:}"}"
+    COMPREPLY=("\${COMPREPLY[@]#"$colon_prefix"}")
+  fi
+  if [[ \${#COMPREPLY[@]} -eq 1 && ( "\${COMPREPLY[0]}" == *. || "\${COMPREPLY[0]}" == *: ) ]]; then
+    compopt -o nospace 2>/dev/null
+  fi
+}
+complete -o default -F _mcporter_completions mcporter`;
+
+const ZSH_SCRIPT = `#compdef mcporter
+# mcporter zsh completion
+_mcporter() {
+  local -a candidates plain partial
+  candidates=("\${(@f)$("\${words[1]}" ${COMPLETION_QUERY_COMMAND} -- "\${(@)words[2,CURRENT]}" 2>/dev/null)}")
+  local candidate
+  for candidate in "\${candidates[@]}"; do
+    [[ -z "$candidate" ]] && continue
+    if [[ "$candidate" == *[.:] ]]; then
+      partial+=("$candidate")
+    else
+      plain+=("$candidate")
+    fi
+  done
+  (( \${#plain} )) && compadd -a plain
+  (( \${#partial} )) && compadd -S '' -a partial
+  return 0
+}
+if [[ "\${funcstack[1]}" == "_mcporter" ]]; then
+  _mcporter "$@"
+else
+  compdef _mcporter mcporter
+fi`;
+
+const FISH_SCRIPT = `# mcporter fish completion
+function __mcporter_complete
+    set -l tokens (commandline -opc)
+    $tokens[1] ${COMPLETION_QUERY_COMMAND} -- $tokens[2..-1] (commandline -ct) 2>/dev/null
+end
+complete -c mcporter -f -a '(__mcporter_complete)'`;
@@ -5,6 +5,7 @@ import { handleGetCommand } from './config/get.js';
 import { type ConfigSubcommand, consumeInlineHelpTokens, isHelpToken, printConfigHelp } from './config/help.js';
 import { handleImportCommand } from './config/import.js';
 import { handleListCommand } from './config/list.js';
+import { handleProfilesCommand } from './config/profiles.js';
 import { handleRemoveCommand } from './config/remove.js';
 import type { ConfigCliOptions } from './config/types.js';
 import { CliUsageError } from './errors.js';
@@ -62,6 +63,9 @@ export async function handleConfigCli(options: ConfigCliOptions, args: string[])
     case 'doctor':
       await handleDoctorCommand(options, args);
       return;
+    case 'profiles':
+      await handleProfilesCommand(options, args);
+      return;
     default:
       throw new CliUsageError(`Unknown config subcommand '${subcommand}'. Run 'mcporter config --help'.`);
   }
@@ -1,4 +1,6 @@
 import { loadServerDefinitions } from '../../config.js';
+import type { ServerDefinition } from '../../config-schema.js';
+import { readEnvFiles } from '../../env-file.js';
 import { CliUsageError } from '../errors.js';
 import { printServerSummary, serializeDefinition } from './render.js';
 import { resolveServerDefinition } from './shared.js';
@@ -12,8 +14,10 @@ export async function handleGetCommand(options: ConfigCliOptions, args: string[]
   }
   const servers = await loadServerDefinitions(options.loadOptions);
   const target = resolveServerDefinition(name, servers);
+  const resolvedEnv = flags.resolved ? await describeResolvedEnv(target) : undefined;
   if (flags.format === 'json') {
-    console.log(JSON.stringify(serializeDefinition(target), null, 2));
+    const payload = resolvedEnv ? { ...serializeDefinition(target), resolvedEnv } : serializeDefinition(target);
+    console.log(JSON.stringify(payload, null, 2));
     return;
   }
   printServerSummary(target);
@@ -29,10 +33,37 @@ export async function handleGetCommand(options: ConfigCliOptions, args: string[]
       console.log(`    ${key}=${value}`);
     }
   }
+  if (target.envFiles && target.envFiles.length > 0) {
+    console.log('  Env files:');
+    for (const file of target.envFiles) {
+      console.log(`    ${file}`);
+    }
+  }
+  if (resolvedEnv) {
+    console.log(`  Resolved env (${describePrecedence(target)}):`);
+    if (resolvedEnv.length === 0) {
+      console.log('    (none)');
+    }
+    for (const variable of resolvedEnv) {
+      const overrides =
+        variable.overrides.length > 0 ? `; overrides ${variable.overrides.map(formatEnvOrigin).join(', ')}` : '';
+      console.log(`    ${variable.key}  (${formatEnvOrigin(variable)}${overrides})`);
+    }
+  }
+  if (target.tools) {
+    console.log('  Tools:');
+    if (target.tools.allow) {
+      console.log(`    allow: ${target.tools.allow.join(', ')}`);
+    }
+    if (target.tools.deny) {
+      console.log(`    deny: ${target.tools.deny.join(', ')}`);
+    }
+  }
 }
 
-function extractGetFlags(args: string[]): { format: 'text' | 'json' } {
+function extractGetFlags(args: string[]): { format: 'text' | 'json'; resolved: boolean } {
   let format: 'text' | 'json' = 'text';
+  let resolved = false;
   let index = 0;
   while (index < args.length) {
     const token = args[index];
@@ -41,7 +72,59 @@ function extractGetFlags(args: string[]): { format: 'text' | 'json' } {
       args.splice(index, 1);
       continue;
     }
+    if (token === '--resolved') {
+      resolved = true;
+      args.splice(index, 1);
+      continue;
+    }
     index += 1;
   }
-  return { format };
+  return { format, resolved };
+}
+
+type EnvOrigin = { source: 'env' | 'envFile' | 'shell'; path?: string };
+
+type ResolvedEnvVariable = EnvOrigin & {
+  key: string;
+  overrides: EnvOrigin[];
+};
+
+// describeResolvedEnv reports every variable a server's env and envFiles define, the source that wins, and the
+// sources it shadows. Stdio servers launch with env > envFile (later files win) > shell; HTTP servers only use
+// these values for ${VAR} placeholders, where variables already set in the shell keep precedence. Values are
+// never included: env files and the shell usually hold the secrets themselves.
+async function describeResolvedEnv(definition: ServerDefinition): Promise<ResolvedEnvVariable[]> {
+  const own = definition.env ?? {};
+  const fromFiles = await readEnvFiles(definition.envFiles);
+  const keys = [...new Set([...Object.keys(own), ...fromFiles.keys()])].sort();
+  return keys.map((key) => {
+    const candidates: EnvOrigin[] = [];
+    if (key in own) {
+      candidates.push({ source: 'env' });
+    }
+    const fileValue = fromFiles.get(key);
+    if (fileValue) {
+      candidates.push({ source: 'envFile', path: fileValue.path });
+    }
+    if (process.env[key] !== undefined) {
+      if (definition.command.kind === 'http') {
+        candidates.unshift({ source: 'shell' });
+      } else {
+        candidates.push({ source: 'shell' });
+      }
+    }
+    // Every key comes from env or an env file, so there is always a winner.
+    const [winner = { source: 'env' }, ...overrides] = candidates;
+    return { key, ...winner, overrides };
+  });
+}
+
+function describePrecedence(definition: ServerDefinition): string {
+  return definition.command.kind === 'http'
+    ? 'shell environment > env > envFile, later files win'
+    : 'env > envFile, later files win > shell environment';
+}
+
+function formatEnvOrigin(origin: EnvOrigin): string {
+  return origin.path ? `${origin.source} ${origin.path}` : origin.source;
 }
@@ -2,7 +2,16 @@ import { boldText, dimText, extraDimText } from '../terminal.js';
 import { printConfigUsageExamples } from './render.js';
 import { COLOR_ENABLED } from './shared.js';
 
-export type ConfigSubcommand = 'list' | 'get' | 'add' | 'remove' | 'import' | 'login' | 'logout' | 'doctor';
+export type ConfigSubcommand =
+  | 'list'
+  | 'get'
+  | 'add'
+  | 'remove'
+  | 'import'
+  | 'login'
+  | 'logout'
+  | 'doctor'
+  | 'profiles';
 
 export type ConfigHelpEntry = {
   readonly name: string;
@@ -27,12 +36,25 @@ export const CONFIG_HELP_ENTRIES: Record<ConfigSubcommand, ConfigHelpEntry> = {
     examples: ['pnpm mcporter config list', 'pnpm mcporter config list --json --source import cursor'],
   },
   get: {
-    name: 'get <name> [--json]',
+    name: 'get <name> [--json] [--resolved]',
     summary: 'Inspect a single server',
-    usage: 'mcporter config get <name> [--json]',
-    description: 'Shows one server definition, including transport, headers, and env overrides.',
-    flags: [{ flag: '--json', description: 'Emit the server entry as JSON.' }],
-    examples: ['pnpm mcporter config get linear', 'pnpm mcporter config get claude --json'],
+    usage: 'mcporter config get <name> [--json] [--resolved]',
+    description:
+      'Shows one server definition, including transport, headers, env overrides, and env files. With --resolved, ' +
+      'lists the environment the server launches with and where each variable comes from ' +
+      '(env > envFile, later files win > shell environment).',
+    flags: [
+      { flag: '--json', description: 'Emit the server entry as JSON.' },
+      {
+        flag: '--resolved',
+        description: 'Show each env/envFile variable with its winning source and the sources it overrides.',
+      },
+    ],
+    examples: [
+      'pnpm mcporter config get linear',
+      'pnpm mcporter config get claude --json',
+      'pnpm mcporter config get worker --resolved',
+    ],
   },
   add: {
     name: 'add [options] <name> [target]',
@@ -109,6 +131,15 @@ export const CONFIG_HELP_ENTRIES: Record<ConfigSubcommand, ConfigHelpEntry> = {
     description: 'Validates config files, warns about missing token caches, and prints config locations.',
     examples: ['pnpm mcporter config doctor'],
   },
+  profiles: {
+    name: 'profiles [--json]',
+    summary: 'List config profiles',
+    usage: 'mcporter config profiles [--json]',
+    description:
+      'Lists the profiles declared in the config files, the servers each one overrides, and which one --profile (or MCPORTER_PROFILE) selects.',
+    flags: [{ flag: '--json', description: 'Emit the profiles as JSON.' }],
+    examples: ['pnpm mcporter config profiles', 'pnpm mcporter --profile staging config profiles --json'],
+  },
 };
 
 export const CONFIG_HELP_ORDER: ConfigSubcommand[] = [
@@ -120,6 +151,7 @@ export const CONFIG_HELP_ORDER: ConfigSubcommand[] = [
   'login',
   'logout',
   'doctor',
+  'profiles',
 ];
 
 export function isHelpToken(token: string): boolean {
@@ -0,0 +1,32 @@
+import { loadConfigProfiles } from '../../config.js';
+import { boldText, cyanText, dimText } from '../terminal.js';
+import { COLOR_ENABLED } from './shared.js';
+import type { ConfigCliOptions } from './types.js';
+
+// handleProfilesCommand lists the profiles declared across the config layers and marks the active one
+// (--profile or MCPORTER_PROFILE).
+export async function handleProfilesCommand(options: ConfigCliOptions, args: string[]): Promise<void> {
+  const json = args.includes('--json');
+  const active = options.loadOptions.profile;
+  const profiles = await loadConfigProfiles(options.loadOptions);
+  if (json) {
+    const payload = profiles.map((profile) => ({ ...profile, active: profile.name === active }));
+    console.log(JSON.stringify({ active: active ?? null, profiles: payload }, null, 2));
+    return;
+  }
+  const colorize = COLOR_ENABLED();
+  const dim = (text: string): string => (colorize ? dimText(text) : text);
+  if (profiles.length === 0) {
+    console.log(dim("No profiles configured. Add a 'profiles' section to mcporter.json."));
+    return;
+  }
+  for (const profile of profiles) {
+    const isActive = profile.name === active;
+    const marker = isActive ? (colorize ? cyanText('*') : '*') : ' ';
+    const name = colorize ? boldText(profile.name) : profile.name;
+    const description = profile.description ? ` ${dim(`- ${profile.description}`)}` : '';
+    console.log(`${marker} ${name}${description}${isActive ? dim(' (active)') : ''}`);
+    console.log(`    ${dim('servers:')} ${profile.servers.length > 0 ? profile.servers.join(', ') : '(none)'}`);
+    console.log(`    ${dim('declared in:')} ${profile.paths.join(', ')}`);
+  }
+}
@@ -11,12 +11,14 @@ export type SerializedServerDefinition = {
   clientName?: string;
   oauthRedirectUrl?: string;
   env?: Record<string, string>;
+  envFiles?: readonly string[];
   transport: 'http' | 'stdio';
   baseUrl?: string;
   headers?: Record<string, string>;
   command?: string;
   args?: string[];
   cwd?: string;
+  tools?: ServerDefinition['tools'];
 };
 
 export function serializeDefinition(definition: ServerDefinition): SerializedServerDefinition {
@@ -31,9 +33,11 @@ export function serializeDefinition(definition: ServerDefinition): SerializedSer
       clientName: definition.clientName,
       oauthRedirectUrl: definition.oauthRedirectUrl,
       env: definition.env,
+      envFiles: definition.envFiles,
       transport: 'http',
       baseUrl: definition.command.url.href,
       headers: definition.command.headers,
+      tools: definition.tools,
     };
   }
   return {
@@ -45,10 +49,12 @@ export function serializeDefinition(definition: ServerDefinition): SerializedSer
     clientName: definition.clientName,
     oauthRedirectUrl: definition.oauthRedirectUrl,
     env: definition.env,
+    envFiles: definition.envFiles,
     transport: 'stdio',
     command: definition.command.command,
     args: definition.command.args,
     cwd: definition.command.cwd,
+    tools: definition.tools,
   };
 }
 
@@ -60,6 +66,9 @@ export function printServerSummary(definition: ServerDefinition): void {
   console.log(header);
   if (origin) {
     console.log(`  ${label('Source')}: ${origin.kind}${origin.path ? ` (${origin.path})` : ''}`);
+    if (origin.profile) {
+      console.log(`  ${label('Profile')}: ${origin.profile}`);
+    }
   } else {
     console.log(`  ${label('Source')}: local`);
   }
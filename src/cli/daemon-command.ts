@@ -4,6 +4,7 @@ import { DaemonClient, resolveDaemonPaths } from '../daemon/client.js';
 import { runDaemonHost } from '../daemon/host.js';
 import { launchDaemonDetached } from '../daemon/launch.js';
 import { getDaemonLogPath } from '../daemon/paths.js';
+import type { ConfigReloadSummary, ServerSupervision, StatusResult } from '../daemon/protocol.js';
 import { expandHome } from '../env.js';
 import { isKeepAliveServer } from '../lifecycle.js';
 import { createRuntime } from '../runtime.js';
@@ -14,6 +15,8 @@ interface DaemonCliOptions {
   // treat config as implicit and allow missing files without throwing ENOENT.
   readonly configExplicit?: boolean;
   readonly rootDir?: string;
+  // profile selects a config profile; each profile runs its own daemon.
+  readonly profile?: string;
 }
 
 interface DaemonLoggingOptions {
@@ -34,6 +37,7 @@ export async function handleDaemonCli(args: string[], options: DaemonCliOptions)
     configPath: options.configPath,
     configExplicit: options.configExplicit,
     rootDir: options.rootDir,
+    profile: options.profile,
   });
 
   if (subcommand === 'start') {
@@ -41,7 +45,7 @@ export async function handleDaemonCli(args: string[], options: DaemonCliOptions)
     return;
   }
   if (subcommand === 'status') {
-    await handleDaemonStatus(client);
+    await handleDaemonStatus(args, client);
     return;
   }
   if (subcommand === 'stop') {
@@ -62,7 +66,7 @@ function printDaemonHelp(): void {
 
 Commands:
   start    Start the keep-alive daemon (auto-detects keep-alive servers).
-  status   Show whether the daemon is running and which servers are active.
+  status   Show whether the daemon is running and per-server health (calls, errors, latency, memory).
   stop     Shut down the daemon and all managed servers.
   restart  Stop the daemon (if running) and start a fresh instance.
 
@@ -70,7 +74,15 @@ Flags:
   --foreground        Run the daemon in the current process (debug only).
   --log               Enable daemon logging (defaults to ~/.mcporter/daemon/daemon-<hash>.log).
   --log-file <path>   Write daemon stdout/stderr to a specific log file.
-  --log-servers <csv> Only log call activity for the listed servers (implies --log).`);
+  --log-servers <csv> Only log call activity for the listed servers (implies --log).
+  --http-port <port>  Also serve each keep-alive server over Streamable HTTP on 127.0.0.1
+                      at /servers/<name>/mcp (0 picks a free port; env: MCPORTER_DAEMON_HTTP_PORT).
+
+Status flags:
+  --json              Print the raw status (per-server calls, errors by kind, p50/p95 latency,
+                      child PID, memory, restarts, last error) as JSON.
+  --watch             Refresh the status every --interval until Ctrl+C (one JSON line per sample with --json).
+  --interval <ms>     Refresh interval for --watch (default: 2000).`);
 }
 
 async function handleDaemonStart(args: string[], options: DaemonCliOptions, client: DaemonClient): Promise<void> {
@@ -78,14 +90,16 @@ async function handleDaemonStart(args: string[], options: DaemonCliOptions, clie
   const isChildLaunch = process.env.MCPORTER_DAEMON_CHILD === '1';
   const foreground = foregroundFlag || isChildLaunch;
 
-  const paths = resolveDaemonPaths(options.configPath);
+  const paths = resolveDaemonPaths(options.configPath, options.profile);
   const socketPath = process.env.MCPORTER_DAEMON_SOCKET ?? paths.socketPath;
   const metadataPath = process.env.MCPORTER_DAEMON_METADATA ?? paths.metadataPath;
   const logging = await resolveDaemonLoggingOptions(args, paths.key);
+  const httpPort = resolveDaemonHttpPort(args);
 
   const runtime = await createRuntime({
     configPath: options.configExplicit ? options.configPath : undefined,
     rootDir: options.rootDir,
+    profile: options.profile,
   });
   const keepAlive = runtime.getDefinitions().filter(isKeepAliveServer);
   await runtime.close().catch(() => {});
@@ -101,9 +115,11 @@ async function handleDaemonStart(args: string[], options: DaemonCliOptions, clie
       configPath: options.configPath,
       configExplicit: options.configExplicit,
       rootDir: options.rootDir,
+      profile: options.profile,
       logPath: logging.enabled ? logging.logPath : undefined,
       logServers: logging.serverFilter,
       logAllServers: logging.logAllServers,
+      httpPort,
     });
     return;
   }
@@ -121,11 +137,15 @@ async function handleDaemonStart(args: string[], options: DaemonCliOptions, clie
   if (logging.serverFilter.size > 0) {
     forwardedArgs.push('--log-servers', Array.from(logging.serverFilter).join(','));
   }
+  if (httpPort !== undefined) {
+    forwardedArgs.push('--http-port', String(httpPort));
+  }
 
   launchDaemonDetached({
     configPath: options.configPath,
     configExplicit: options.configExplicit,
     rootDir: options.rootDir,
+    profile: options.profile,
     metadataPath,
     socketPath,
     extraArgs: forwardedArgs,
@@ -156,8 +176,45 @@ async function handleDaemonRestart(args: string[], options: DaemonCliOptions, cl
   await handleDaemonStart(args, options, client);
 }
 
-async function handleDaemonStatus(client: DaemonClient): Promise<void> {
-  const status = await client.status();
+const DEFAULT_STATUS_WATCH_INTERVAL_MS = 2_000;
+
+async function handleDaemonStatus(args: string[], client: DaemonClient): Promise<void> {
+  const json = consumeFlag(args, '--json');
+  const watch = consumeFlag(args, '--watch');
+  const intervalRaw = consumeValueFlag(args, '--interval');
+  const intervalMs = intervalRaw === undefined ? DEFAULT_STATUS_WATCH_INTERVAL_MS : Number.parseInt(intervalRaw, 10);
+  if (!Number.isInteger(intervalMs) || intervalMs < 100) {
+    throw new Error(`--interval must be at least 100 milliseconds (got '${intervalRaw}').`);
+  }
+  if (!watch) {
+    printDaemonStatus(await client.status(), json);
+    return;
+  }
+  // --watch redraws the table (or appends one JSON line per sample) until Ctrl+C.
+  let stopped = false;
+  const stop = () => {
+    stopped = true;
+  };
+  process.once('SIGINT', stop);
+  try {
+    while (!stopped) {
+      const status = await client.status();
+      if (!json && process.stdout.isTTY) {
+        process.stdout.write('\x1b[2J\x1b[H');
+      }
+      printDaemonStatus(status, json);
+      await waitForNextSample(intervalMs, () => stopped);
+    }
+  } finally {
+    process.off('SIGINT', stop);
+  }
+}
+
+function printDaemonStatus(status: StatusResult | null, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(status ?? { running: false }));
+    return;
+  }
   if (!status) {
     console.log('Daemon is not running.');
     return;
@@ -166,15 +223,130 @@ async function handleDaemonStatus(client: DaemonClient): Promise<void> {
   if (status.logPath) {
     console.log(`Log file: ${status.logPath}`);
   }
+  if (status.httpUrl) {
+    console.log(`HTTP: ${status.httpUrl}/servers/<name>/mcp`);
+  }
+  if (status.lastReload) {
+    console.log(formatConfigReload(status.lastReload));
+  }
   if (status.servers.length === 0) {
     console.log('No keep-alive servers registered.');
     return;
   }
-  status.servers.forEach((server) => {
-    const state = server.connected ? 'connected' : 'idle';
-    const lastUsed = server.lastUsedAt ? ` (last used ${new Date(server.lastUsedAt).toISOString()})` : '';
-    console.log(`- ${server.name}: ${state}${lastUsed}`);
+  for (const line of renderServerTable(status.servers)) {
+    console.log(line);
+  }
+  for (const server of status.servers) {
+    const crashLine = formatSupervision(server.name, server.supervision);
+    if (crashLine) {
+      console.log(crashLine);
+    }
+  }
+  for (const server of status.servers) {
+    const lastError = server.metrics?.lastError;
+    if (!lastError) {
+      continue;
+    }
+    const kinds = Object.entries(server.metrics?.errorsByKind ?? {})
+      .map(([kind, count]) => `${kind} ${count}`)
+      .join(', ');
+    console.log(
+      `${server.name} errors (${kinds}); last ${lastError.kind} at ${new Date(lastError.at).toISOString()}: ${lastError.message}`
+    );
+  }
+}
+
+function renderServerTable(servers: StatusResult['servers']): string[] {
+  const now = Date.now();
+  const rows = servers.map((server) => {
+    const metrics = server.metrics;
+    return [
+      server.name,
+      formatServerState(server),
+      metrics?.pid ? String(metrics.pid) : '-',
+      formatBytes(metrics?.memoryRssBytes),
+      String(metrics?.calls ?? 0),
+      String(metrics?.errors ?? 0),
+      formatMillis(metrics?.latencyP50Ms),
+      formatMillis(metrics?.latencyP95Ms),
+      String(metrics?.restarts ?? 0),
+      server.lastUsedAt ? `${formatAge(now - server.lastUsedAt)} ago` : '-',
+    ];
   });
+  const header = ['SERVER', 'STATE', 'PID', 'RSS', 'CALLS', 'ERRORS', 'P50', 'P95', 'RESTARTS', 'LAST USED'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column]?.length ?? 0)));
+  return [header, ...rows].map((row) =>
+    row.map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column] ?? 0))).join('  ')
+  );
+}
+
+function formatServerState(server: StatusResult['servers'][number]): string {
+  if (server.supervision?.paused) {
+    return 'crashed';
+  }
+  if (server.supervision?.nextRestartAt) {
+    return 'restarting';
+  }
+  return server.connected ? 'connected' : 'idle';
+}
+
+function formatSupervision(name: string, supervision: ServerSupervision | undefined): string | undefined {
+  const crash = supervision?.lastCrash;
+  if (!supervision || !crash) {
+    return undefined;
+  }
+  const times = supervision.crashes === 1 ? 'once' : `${supervision.crashes} times`;
+  let next = '';
+  if (supervision.paused) {
+    next = '; auto-restart paused until the next request';
+  } else if (supervision.nextRestartAt) {
+    next = `; restarting in ${formatMillis(Math.max(0, supervision.nextRestartAt - Date.now()))}`;
+  }
+  return `${name} crashed ${times}; last ${crash.kind} at ${new Date(crash.at).toISOString()}: ${crash.message}${next}`;
+}
+
+function formatBytes(bytes: number | undefined): string {
+  if (bytes === undefined) {
+    return '-';
+  }
+  const megabytes = bytes / (1024 * 1024);
+  return megabytes >= 10 ? `${Math.round(megabytes)} MB` : `${megabytes.toFixed(1)} MB`;
+}
+
+function formatMillis(ms: number | undefined): string {
+  if (ms === undefined) {
+    return '-';
+  }
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes}m` : `${Math.round(minutes / 60)}h`;
+}
+
+async function waitForNextSample(intervalMs: number, stopped: () => boolean): Promise<void> {
+  const deadline = Date.now() + intervalMs;
+  while (!stopped() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, Math.min(100, deadline - Date.now())));
+  }
+}
+
+function formatConfigReload(reload: ConfigReloadSummary): string {
+  const at = new Date(reload.reloadedAt).toISOString();
+  if (reload.error) {
+    return `Config reload failed at ${at} (still serving the previous config): ${reload.error}`;
+  }
+  const parts = [
+    reload.added.length > 0 ? `added ${reload.added.join(', ')}` : undefined,
+    reload.removed.length > 0 ? `removed ${reload.removed.join(', ')}` : undefined,
+    reload.restarted.length > 0 ? `restarted ${reload.restarted.join(', ')}` : undefined,
+  ].filter(Boolean);
+  return `Config reloaded at ${at}: ${parts.join('; ')}`;
 }
 
 function consumeFlag(args: string[], flag: string): boolean {
@@ -248,6 +420,18 @@ async function resolveDaemonLoggingOptions(args: string[], configKey: string): P
   };
 }
 
+function resolveDaemonHttpPort(args: string[]): number | undefined {
+  const raw = consumeValueFlag(args, '--http-port') ?? process.env.MCPORTER_DAEMON_HTTP_PORT;
+  if (raw === undefined || raw.trim() === '') {
+    return undefined;
+  }
+  const port = Number.parseInt(raw, 10);
+  if (!Number.isInteger(port) || port < 0 || port > 65535 || String(port) !== raw.trim()) {
+    throw new Error(`Daemon HTTP port must be an integer between 0 and 65535 (got '${raw}').`);
+  }
+  return port;
+}
+
 function parseServerList(value: string | undefined): Set<string> {
   if (!value) {
     return new Set();
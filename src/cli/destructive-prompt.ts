@@ -0,0 +1,54 @@
+import readline from 'node:readline';
+import type { DestructiveToolHandler, DestructiveToolRequest } from '../runtime.js';
+import type { AskFn } from './elicitation-prompt.js';
+import { dimText, yellowText } from './terminal.js';
+
+// createTerminalDestructiveConfirmation asks on stderr/stdin before a destructive tool runs. --yes approves
+// every call; without a TTY there is nobody to ask, so the call is refused with a hint.
+export function createTerminalDestructiveConfirmation(
+  options: { assumeYes?: boolean; input?: NodeJS.ReadStream; output?: NodeJS.WritableStream } = {}
+): DestructiveToolHandler {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stderr;
+  return async (request) => {
+    if (options.assumeYes) {
+      return true;
+    }
+    if (!input.isTTY) {
+      output.write(
+        `${yellowText(
+          `[mcporter] ${request.server}.${request.tool} is marked destructive and stdin is not a TTY; refusing. Pass --yes to run it non-interactively.`
+        )}\n`
+      );
+      return false;
+    }
+    const rl = readline.createInterface({ input, output, terminal: true });
+    // Ctrl+C at the prompt declines the call instead of pausing the interface.
+    rl.on('SIGINT', () => rl.close());
+    const ask: AskFn = (question) =>
+      new Promise((resolve) => {
+        rl.once('close', () => resolve(null));
+        rl.question(question, resolve);
+      });
+    try {
+      return await promptForDestructiveCall(request, ask, (line) => output.write(`${line}\n`));
+    } finally {
+      rl.close();
+    }
+  };
+}
+
+// promptForDestructiveCall shows the pending call and approves it only on an explicit yes.
+export async function promptForDestructiveCall(
+  request: DestructiveToolRequest,
+  ask: AskFn,
+  write: (line: string) => void
+): Promise<boolean> {
+  write(yellowText(`${request.server}.${request.tool} is marked destructive by the server.`));
+  if (request.args && Object.keys(request.args).length > 0) {
+    write(dimText(`  args: ${JSON.stringify(request.args)}`));
+  }
+  const answer = await ask('Run it? [y/N]: ');
+  const normalized = answer?.trim().toLowerCase();
+  return normalized === 'y' || normalized === 'yes';
+}
@@ -0,0 +1,288 @@
+import fs from 'node:fs/promises';
+import readline from 'node:readline';
+import type { ElicitResult, PrimitiveSchemaDefinition } from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitationHandler, ElicitationRequest } from '../runtime.js';
+import { CliUsageError } from './errors.js';
+import { dimText, yellowText } from './terminal.js';
+
+type ElicitedValue = string | number | boolean | string[];
+
+// AskFn resolves with the user's answer, or null when input ends (EOF/Ctrl+C).
+export type AskFn = (question: string) => Promise<string | null>;
+
+interface Choice {
+  readonly value: string;
+  readonly title: string;
+}
+
+interface ParsedAnswer {
+  readonly value?: ElicitedValue;
+  readonly error?: string;
+}
+
+const CANCELLED = Symbol('cancelled');
+
+// createTerminalElicitationHandler prompts on stderr/stdin for each field of the requested schema.
+// Without a TTY there is nobody to ask, so the elicitation is cancelled with a hint.
+export function createTerminalElicitationHandler(
+  options: { input?: NodeJS.ReadStream; output?: NodeJS.WritableStream } = {}
+): ElicitationHandler {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stderr;
+  return async (request) => {
+    if (!input.isTTY) {
+      output.write(
+        `${yellowText(
+          `[mcporter] ${request.server} asked for input (${request.message}) but stdin is not a TTY; cancelling. Pass --elicit-from <json> to answer non-interactively.`
+        )}\n`
+      );
+      return { action: 'cancel' };
+    }
+    const rl = readline.createInterface({ input, output, terminal: true });
+    let closed = false;
+    rl.once('close', () => {
+      closed = true;
+    });
+    // Ctrl+C inside a prompt cancels the elicitation instead of pausing the interface.
+    rl.on('SIGINT', () => rl.close());
+    const ask: AskFn = (question) =>
+      new Promise((resolve) => {
+        if (closed) {
+          resolve(null);
+          return;
+        }
+        const onClose = () => resolve(null);
+        rl.once('close', onClose);
+        rl.question(question, (answer) => {
+          rl.off('close', onClose);
+          resolve(answer);
+        });
+      });
+    try {
+      return await promptForElicitation(request, ask, (line) => output.write(`${line}\n`));
+    } finally {
+      rl.close();
+    }
+  };
+}
+
+// promptForElicitation walks the requested schema: enums become numbered choices, booleans y/n,
+// numbers are range-checked, and required fields are asked again until answered.
+export async function promptForElicitation(
+  request: ElicitationRequest,
+  ask: AskFn,
+  write: (line: string) => void
+): Promise<ElicitResult> {
+  write(`${request.server} is asking: ${request.message}`);
+  while (true) {
+    const decision = await ask('Respond? [Y]es / [n]o (decline) / [c]ancel: ');
+    if (decision === null) {
+      return { action: 'cancel' };
+    }
+    const normalized = decision.trim().toLowerCase();
+    if (normalized === 'n' || normalized === 'no') {
+      return { action: 'decline' };
+    }
+    if (normalized === 'c' || normalized === 'cancel') {
+      return { action: 'cancel' };
+    }
+    if (normalized === '' || normalized === 'y' || normalized === 'yes') {
+      break;
+    }
+  }
+  const required = new Set(request.requestedSchema.required ?? []);
+  const content: Record<string, ElicitedValue> = {};
+  for (const [name, field] of Object.entries(request.requestedSchema.properties)) {
+    const value = await promptField(name, field, required.has(name), ask, write);
+    if (value === CANCELLED) {
+      return { action: 'cancel' };
+    }
+    if (value !== undefined) {
+      content[name] = value;
+    }
+  }
+  return { action: 'accept', content };
+}
+
+// createStaticElicitationHandler answers every elicitation from a fixed set of values (--elicit-from).
+// Values are picked per requested field; a missing required field cancels instead of guessing.
+export function createStaticElicitationHandler(values: Record<string, unknown>): ElicitationHandler {
+  return async (request) => {
+    const content: Record<string, ElicitedValue> = {};
+    for (const name of Object.keys(request.requestedSchema.properties)) {
+      if (name in values) {
+        content[name] = values[name] as ElicitedValue;
+      }
+    }
+    const missing = (request.requestedSchema.required ?? []).filter((name) => !(name in content));
+    if (missing.length > 0) {
+      console.error(
+        yellowText(
+          `[mcporter] --elicit-from is missing required field(s) ${missing.join(', ')} for ${request.server} (${request.message}); cancelling.`
+        )
+      );
+      return { action: 'cancel' };
+    }
+    return { action: 'accept', content };
+  };
+}
+
+// loadElicitationValues accepts inline JSON (`{"confirm":true}`) or a path to a JSON file.
+export async function loadElicitationValues(raw: string): Promise<Record<string, unknown>> {
+  const trimmed = raw.trim();
+  let text = trimmed;
+  if (!trimmed.startsWith('{')) {
+    try {
+      text = await fs.readFile(trimmed, 'utf8');
+    } catch (error) {
+      throw new CliUsageError(`Unable to read --elicit-from file '${trimmed}': ${(error as Error).message}`);
+    }
+  }
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(text);
+  } catch (error) {
+    throw new CliUsageError(`Unable to parse --elicit-from: ${(error as Error).message}`);
+  }
+  if (decoded === null || typeof decoded !== 'object' || Array.isArray(decoded)) {
+    throw new CliUsageError('--elicit-from must be a JSON object.');
+  }
+  return decoded as Record<string, unknown>;
+}
+
+async function promptField(
+  name: string,
+  field: PrimitiveSchemaDefinition,
+  required: boolean,
+  ask: AskFn,
+  write: (line: string) => void
+): Promise<ElicitedValue | undefined | typeof CANCELLED> {
+  const label = field.title ?? name;
+  if (field.description) {
+    write(dimText(`  ${field.description}`));
+  }
+  const choices = describeChoices(field);
+  choices?.forEach((choice, index) => {
+    write(`  ${index + 1}) ${choice.title}`);
+  });
+  const hint = describeHint(field, required);
+  while (true) {
+    const answer = await ask(`${label}${hint}: `);
+    if (answer === null) {
+      return CANCELLED;
+    }
+    const parsed = parseFieldAnswer(field, answer.trim(), choices);
+    if (parsed.error) {
+      write(yellowText(parsed.error));
+      continue;
+    }
+    if (parsed.value !== undefined) {
+      return parsed.value;
+    }
+    if (field.default !== undefined) {
+      return field.default;
+    }
+    if (required) {
+      write(yellowText(`${label} is required.`));
+      continue;
+    }
+    return undefined;
+  }
+}
+
+function describeChoices(field: PrimitiveSchemaDefinition): Choice[] | undefined {
+  if ('oneOf' in field) {
+    return field.oneOf.map((option) => ({ value: option.const, title: option.title }));
+  }
+  if ('enum' in field) {
+    const titles = 'enumNames' in field ? field.enumNames : undefined;
+    return field.enum.map((value, index) => ({ value, title: titles?.[index] ?? value }));
+  }
+  if (field.type === 'array') {
+    if ('enum' in field.items) {
+      return field.items.enum.map((value) => ({ value, title: value }));
+    }
+    return field.items.anyOf.map((option) => ({ value: option.const, title: option.title }));
+  }
+  return undefined;
+}
+
+function describeHint(field: PrimitiveSchemaDefinition, required: boolean): string {
+  const parts: string[] = [];
+  if (field.type === 'boolean') {
+    parts.push(field.default === undefined ? 'y/n' : field.default ? 'Y/n' : 'y/N');
+  } else if (field.type === 'array') {
+    parts.push('comma-separated');
+  } else if (field.default !== undefined) {
+    parts.push(`default: ${field.default}`);
+  }
+  if (!required && field.default === undefined) {
+    parts.push('optional');
+  }
+  return parts.length > 0 ? ` (${parts.join(', ')})` : '';
+}
+
+function parseFieldAnswer(field: PrimitiveSchemaDefinition, answer: string, choices?: Choice[]): ParsedAnswer {
+  if (!answer) {
+    return {};
+  }
+  if (field.type === 'array') {
+    const picked: string[] = [];
+    for (const token of answer.split(',')) {
+      const choice = matchChoice(choices ?? [], token.trim());
+      if (!choice) {
+        return { error: `Unknown choice '${token.trim()}'.` };
+      }
+      picked.push(choice.value);
+    }
+    if (field.minItems !== undefined && picked.length < field.minItems) {
+      return { error: `Pick at least ${field.minItems}.` };
+    }
+    if (field.maxItems !== undefined && picked.length > field.maxItems) {
+      return { error: `Pick at most ${field.maxItems}.` };
+    }
+    return { value: picked };
+  }
+  if (choices) {
+    const choice = matchChoice(choices, answer);
+    return choice ? { value: choice.value } : { error: `Pick 1-${choices.length} or one of the listed values.` };
+  }
+  if (field.type === 'boolean') {
+    const normalized = answer.toLowerCase();
+    if (normalized === 'y' || normalized === 'yes' || normalized === 'true') {
+      return { value: true };
+    }
+    if (normalized === 'n' || normalized === 'no' || normalized === 'false') {
+      return { value: false };
+    }
+    return { error: 'Answer y or n.' };
+  }
+  if (field.type === 'number' || field.type === 'integer') {
+    const value = Number(answer);
+    if (!Number.isFinite(value) || (field.type === 'integer' && !Number.isInteger(value))) {
+      return { error: `Expected ${field.type === 'integer' ? 'an integer' : 'a number'}.` };
+    }
+    if (field.minimum !== undefined && value < field.minimum) {
+      return { error: `Must be at least ${field.minimum}.` };
+    }
+    if (field.maximum !== undefined && value > field.maximum) {
+      return { error: `Must be at most ${field.maximum}.` };
+    }
+    return { value };
+  }
+  if ('minLength' in field && field.minLength !== undefined && answer.length < field.minLength) {
+    return { error: `Must be at least ${field.minLength} characters.` };
+  }
+  if ('maxLength' in field && field.maxLength !== undefined && answer.length > field.maxLength) {
+    return { error: `Must be at most ${field.maxLength} characters.` };
+  }
+  return { value: answer };
+}
+
+function matchChoice(choices: Choice[], token: string): Choice | undefined {
+  const index = Number(token);
+  if (Number.isInteger(index) && index >= 1 && index <= choices.length) {
+    return choices[index - 1];
+  }
+  return choices.find((choice) => choice.value === token || choice.title === token);
+}
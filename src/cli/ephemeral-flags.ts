@@ -91,6 +91,17 @@ export function extractEphemeralServerFlags(
       continue;
     }
 
+    if (token === '--root-dir') {
+      const value = args[index + 1];
+      if (!value) {
+        throw new Error("Flag '--root-dir' requires a value.");
+      }
+      const current = ensureSpec();
+      current.roots = [...(current.roots ?? []), value];
+      args.splice(index, 2);
+      continue;
+    }
+
     if (token === '--name') {
       const value = args[index + 1];
       if (!value) {
@@ -27,3 +27,18 @@ export function expectValue(flag: string, value: string | undefined): string {
   }
   return value;
 }
+
+// parseKeyValueArguments turns key=value / key:value tokens into a string map (prompt + URI template args).
+export function parseKeyValueArguments(tokens: readonly string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const token of tokens) {
+    const eqIndex = token.indexOf('=');
+    const colonIndex = token.indexOf(':');
+    const separator = eqIndex === -1 ? colonIndex : colonIndex === -1 ? eqIndex : Math.min(eqIndex, colonIndex);
+    if (separator <= 0) {
+      throw new Error(`Argument '${token}' must use key=value or key:value syntax.`);
+    }
+    result[token.slice(0, separator)] = token.slice(separator + 1);
+  }
+  return result;
+}
@@ -1,7 +1,13 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import type { CliArtifactMetadata } from '../../cli-metadata.js';
-import { type HttpCommand, loadServerDefinitions, type ServerDefinition, type StdioCommand } from '../../config.js';
+import {
+  type HttpCommand,
+  loadServerDefinitions,
+  type ServerDefinition,
+  type ServerToolPolicy,
+  type StdioCommand,
+} from '../../config.js';
 import type { Runtime, ServerToolInfo } from '../../runtime.js';
 import { createRuntime } from '../../runtime.js';
 import { extractHttpServerTarget, normalizeHttpUrl } from '../http-utils.js';
@@ -191,6 +197,7 @@ export function normalizeDefinition(def: DefinitionInput): ServerDefinition {
   const tokenCacheDir = typeof def.tokenCacheDir === 'string' ? def.tokenCacheDir : undefined;
   const clientName = typeof def.clientName === 'string' ? def.clientName : undefined;
   const headers = toStringRecord((def as Record<string, unknown>).headers);
+  const tools = toToolPolicy(def.tools);
 
   const commandValue = def.command;
   if (isCommandSpec(commandValue)) {
@@ -202,6 +209,7 @@ export function normalizeDefinition(def: DefinitionInput): ServerDefinition {
       auth,
       tokenCacheDir,
       clientName,
+      tools,
     };
   }
   if (typeof commandValue === 'string' && commandValue.trim().length > 0) {
@@ -213,6 +221,7 @@ export function normalizeDefinition(def: DefinitionInput): ServerDefinition {
       auth,
       tokenCacheDir,
       clientName,
+      tools,
     };
   }
   if (Array.isArray(commandValue) && commandValue.length > 0) {
@@ -228,6 +237,7 @@ export function normalizeDefinition(def: DefinitionInput): ServerDefinition {
       auth,
       tokenCacheDir,
       clientName,
+      tools,
     };
   }
   throw new Error('Server definition must include command information.');
@@ -311,6 +321,16 @@ function getStringArray(value: unknown): string[] | undefined {
   return entries.length > 0 ? entries : undefined;
 }
 
+function toToolPolicy(value: unknown): ServerToolPolicy | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  const record = value as Record<string, unknown>;
+  const allow = getStringArray(record.allow);
+  const deny = getStringArray(record.deny);
+  return allow || deny ? { allow, deny } : undefined;
+}
+
 function toStringRecord(value: unknown): Record<string, string> | undefined {
   if (typeof value !== 'object' || value === null) {
     return undefined;
@@ -0,0 +1,162 @@
+import { type AuditEntry, type AuditOutcome, readAuditEntries } from '../audit.js';
+import { type LoadConfigOptions, loadAuditConfig } from '../config.js';
+import { CliUsageError } from './errors.js';
+import { extractFlags } from './flag-utils.js';
+
+const OUTCOMES: readonly AuditOutcome[] = ['success', 'tool_error', 'error', 'cancelled'];
+const DEFAULT_LIMIT = 50;
+const RELATIVE_TIME = /^(\d+)(s|m|h|d)$/;
+const UNIT_MS: Record<string, number> = { s: 1_000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+const ENABLE_HINT = 'add "audit": { "enabled": true } to your mcporter.json to record calls.';
+
+interface HistoryFilters {
+  server?: string;
+  tool?: string;
+  since?: number;
+  until?: number;
+  outcome?: AuditOutcome;
+}
+
+// handleHistory prints audit log entries matching the filters, most recent last.
+export async function handleHistory(args: string[], loadOptions: LoadConfigOptions): Promise<void> {
+  const jsonIndex = args.indexOf('--json');
+  const json = jsonIndex !== -1;
+  if (json) {
+    args.splice(jsonIndex, 1);
+  }
+  const flags = extractFlags(args, ['--server', '--tool', '--since', '--until', '--outcome', '--limit']);
+  if (args.length > 0) {
+    throw new CliUsageError(`Unexpected argument '${args[0]}'. Run 'mcporter history --help' for usage.`);
+  }
+  const now = Date.now();
+  const filters: HistoryFilters = {
+    server: flags['--server'],
+    tool: flags['--tool'],
+    since: flags['--since'] === undefined ? undefined : parseTime('--since', flags['--since'], now),
+    until: flags['--until'] === undefined ? undefined : parseTime('--until', flags['--until'], now),
+    outcome: parseOutcome(flags['--outcome']),
+  };
+  const limit = parseLimit(flags['--limit']);
+
+  const config = await loadAuditConfig(loadOptions);
+  const entries = (await readAuditEntries(config)).filter((entry) => matches(entry, filters));
+  const selected = limit === 0 ? entries : entries.slice(-limit);
+  if (json) {
+    for (const entry of selected) {
+      console.log(JSON.stringify(entry));
+    }
+    return;
+  }
+  if (selected.length === 0) {
+    console.log(config.enabled ? 'No matching tool calls.' : `No matching tool calls. Auditing is off; ${ENABLE_HINT}`);
+    return;
+  }
+  for (const line of renderHistoryTable(selected)) {
+    console.log(line);
+  }
+}
+
+export function printHistoryHelp(): void {
+  const lines = [
+    'Usage: mcporter history [flags]',
+    '',
+    'Purpose:',
+    '  Show tool calls from the audit log (timestamp, server, tool, outcome, duration, redacted arguments).',
+    `  Auditing is opt-in: ${ENABLE_HINT}`,
+    '',
+    'Flags:',
+    '  --server <name>        Only calls to this server.',
+    '  --tool <name>          Only calls to this tool.',
+    '  --since <time>         Calls at or after <time>: an ISO timestamp or a relative age like 30m, 2h, 7d.',
+    '  --until <time>         Calls before <time> (same formats).',
+    `  --outcome <outcome>    One of ${OUTCOMES.join(', ')}.`,
+    `  --limit <n>            Show the most recent n matches (default ${DEFAULT_LIMIT}; 0 shows all).`,
+    '  --json                 Print matching entries as JSONL.',
+    '',
+    'Examples:',
+    '  mcporter history --server linear --since 1d',
+    '  mcporter history --outcome error --json',
+  ];
+  console.error(lines.join('\n'));
+}
+
+function matches(entry: AuditEntry, filters: HistoryFilters): boolean {
+  if (filters.server && entry.server !== filters.server) {
+    return false;
+  }
+  if (filters.tool && entry.tool !== filters.tool) {
+    return false;
+  }
+  if (filters.outcome && entry.outcome !== filters.outcome) {
+    return false;
+  }
+  const at = Date.parse(entry.ts);
+  if (filters.since !== undefined && !(at >= filters.since)) {
+    return false;
+  }
+  if (filters.until !== undefined && !(at < filters.until)) {
+    return false;
+  }
+  return true;
+}
+
+function parseTime(flag: string, value: string, now: number): number {
+  const relative = RELATIVE_TIME.exec(value.trim());
+  if (relative) {
+    return now - Number.parseInt(relative[1] ?? '0', 10) * (UNIT_MS[relative[2] ?? 's'] ?? 0);
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new CliUsageError(`${flag} must be an ISO timestamp or a relative age like 30m, 2h, or 7d (got '${value}').`);
+  }
+  return parsed;
+}
+
+function parseOutcome(value: string | undefined): AuditOutcome | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!OUTCOMES.includes(value as AuditOutcome)) {
+    throw new CliUsageError(`--outcome must be one of ${OUTCOMES.join(', ')} (got '${value}').`);
+  }
+  return value as AuditOutcome;
+}
+
+function parseLimit(value: string | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_LIMIT;
+  }
+  const limit = Number.parseInt(value, 10);
+  if (!Number.isInteger(limit) || limit < 0 || String(limit) !== value.trim()) {
+    throw new CliUsageError(`--limit must be a non-negative integer (got '${value}').`);
+  }
+  return limit;
+}
+
+function renderHistoryTable(entries: AuditEntry[]): string[] {
+  const rows = entries.map((entry) => [
+    entry.ts,
+    entry.server,
+    entry.tool,
+    entry.outcome,
+    `${entry.durationMs}ms`,
+    describeEntry(entry),
+  ]);
+  const header = ['TIME', 'SERVER', 'TOOL', 'OUTCOME', 'DURATION', 'DETAIL'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map((row) => row[column]?.length ?? 0)));
+  return [header, ...rows].map((row) =>
+    row
+      .map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column] ?? 0)))
+      .join('  ')
+      .trimEnd()
+  );
+}
+
+function describeEntry(entry: AuditEntry): string {
+  if (entry.error) {
+    return `${entry.error.kind}: ${entry.error.message}`;
+  }
+  const args = typeof entry.args === 'string' ? entry.args : JSON.stringify(entry.args ?? {});
+  const preview = args.length > 80 ? `${args.slice(0, 79)}…` : args;
+  return entry.argsTruncated ? `${preview} (truncated)` : preview;
+}
@@ -23,7 +23,7 @@ import {
 import { consumeOutputFormat } from './output-format.js';
 import { dimText, extraDimText, supportsSpinner, yellowText } from './terminal.js';
 import { consumeTimeoutFlag, LIST_TIMEOUT_MS, withTimeout } from './timeouts.js';
-import { loadToolMetadata } from './tool-cache.js';
+import { loadToolMetadata, persistToolSchemas } from './tool-cache.js';
 import { formatTransportSummary } from './transport-utils.js';
 
 export function extractListFlags(args: string[]): {
@@ -253,6 +253,7 @@ export async function handleList(
   if (flags.format === 'json') {
     try {
       const metadataEntries = await withTimeout(loadToolMetadata(runtime, target, { includeSchema: true }), timeoutMs);
+      await persistToolSchemas(definition, metadataEntries);
       const durationMs = Date.now() - startedAt;
       const payload = {
         mode: 'server',
@@ -268,6 +269,7 @@ export async function handleList(
           description: entry.tool.description,
           inputSchema: entry.tool.inputSchema,
           outputSchema: entry.tool.outputSchema,
+          annotations: entry.tool.annotations,
           options: entry.options,
         })),
       };
@@ -298,6 +300,7 @@ export async function handleList(
   try {
     // Always request schemas so we can render CLI-style parameter hints without re-querying per tool.
     const metadataEntries = await withTimeout(loadToolMetadata(runtime, target, { includeSchema: true }), timeoutMs);
+    await persistToolSchemas(definition, metadataEntries);
     const durationMs = Date.now() - startedAt;
     const summaryLine = printSingleServerHeader(
       definition,
@@ -367,6 +370,7 @@ export function printListHelp(): void {
     '  --stdio-arg <value>    Append args to the stdio command (repeatable).',
     '  --env KEY=value        Inject env vars for stdio servers (repeatable).',
     '  --cwd <path>           Working directory for stdio servers.',
+    '  --root-dir <path>      Expose a directory to the server via roots/list (repeatable).',
     '  --name <value>         Override the display name for ad-hoc servers.',
     '  --description <text>   Override the description for ad-hoc servers.',
     '  --persist <path>       Write the ad-hoc definition to config/mcporter.json.',
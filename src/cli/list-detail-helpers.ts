@@ -13,6 +13,7 @@ import { extraDimText } from './terminal.js';
 
 export type { FlagUsageExtra } from './list-signature.js';
 export {
+  formatAnnotationHints,
   formatCallExpressionExample,
   formatExampleBlock,
   formatFlagLabel,
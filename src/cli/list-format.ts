@@ -92,6 +92,10 @@ export function formatSourceSuffix(
   const [primary, ...alternates] = sources;
   const primaryLabel = buildSourceLabel(primary, { primary: true });
   const altLabels = alternates.map((entry) => {
+    // Files the entry extends contributed fields rather than being shadowed.
+    if (entry.fields) {
+      return buildSourceLabel(entry, { shadowReason: 'extended' });
+    }
     const shadowedByLocal = primary.kind === 'local' && entry.kind !== 'local';
     return buildSourceLabel(entry, { shadowReason: shadowedByLocal ? 'shadowed by local' : 'shadowed' });
   });
@@ -113,6 +117,12 @@ function buildSourceLabel(source: ServerSource, options: { primary?: boolean; sh
   if (source.importKind) {
     tags.push(source.importKind);
   }
+  if (source.profile) {
+    tags.push(`profile ${source.profile}`);
+  }
+  if (source.fields && source.fields.length > 0) {
+    tags.push(`fields: ${source.fields.join(', ')}`);
+  }
   return tags.length === 0 ? base : `${base} (${tags.join(', ')})`;
 }
 
@@ -1,8 +1,9 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import type { ServerDefinition } from '../config.js';
 import type { ToolMetadata } from './generate/tools.js';
 import type { SerializedConnectionIssue } from './json-output.js';
 import { formatErrorMessage, serializeConnectionIssue } from './json-output.js';
-import { buildToolDoc } from './list-detail-helpers.js';
+import { buildToolDoc, formatAnnotationHints } from './list-detail-helpers.js';
 import type { ListSummaryResult, StatusCategory } from './list-format.js';
 import { classifyListError } from './list-format.js';
 import { boldText, extraDimText } from './terminal.js';
@@ -26,6 +27,7 @@ export interface ListJsonServerEntry {
     description?: string;
     inputSchema?: unknown;
     outputSchema?: unknown;
+    annotations?: ToolAnnotations;
   }>;
   issue?: SerializedConnectionIssue;
   authCommand?: string;
@@ -92,7 +94,8 @@ export function printToolDetail(
       console.log(`  ${line}`);
     }
   }
-  console.log(`  ${doc.signature}`);
+  const hints = formatAnnotationHints(metadata.tool.annotations);
+  console.log(`  ${doc.signature}${hints ? ` ${hints}` : ''}`);
   if (doc.optionalSummary && requiredOnly) {
     console.log(`  ${doc.optionalSummary}`);
   }
@@ -160,6 +163,7 @@ export function buildJsonListEntry(
         description: tool.description,
         inputSchema: options.includeSchemas ? tool.inputSchema : undefined,
         outputSchema: options.includeSchemas ? tool.outputSchema : undefined,
+        annotations: tool.annotations,
       })),
     };
   }
@@ -1,6 +1,8 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { isDestructiveTool } from '../runtime/tool-policy.js';
 import type { GeneratedOption } from './generate/tools.js';
 import { buildFallbackLiteral, pickExampleLiteral } from './generate/tools.js';
-import { cyanText, dimText, extraDimText } from './terminal.js';
+import { cyanText, dimText, extraDimText, yellowText } from './terminal.js';
 
 export interface SignatureFormatOptions {
   colorize?: boolean;
@@ -27,6 +29,36 @@ export function formatFunctionSignature(
   return returnType ? `${signature}: ${returnType};` : `${signature};`;
 }
 
+// formatAnnotationHints renders the tool's behavior hints as a trailing comment; destructive tools stand out.
+export function formatAnnotationHints(
+  annotations: ToolAnnotations | undefined,
+  options?: { colorize?: boolean }
+): string {
+  if (!annotations) {
+    return '';
+  }
+  const hints: string[] = [];
+  if (annotations.readOnlyHint) {
+    hints.push('read-only');
+  } else if (isDestructiveTool(annotations)) {
+    hints.push('destructive');
+  }
+  if (annotations.idempotentHint) {
+    hints.push('idempotent');
+  }
+  if (annotations.openWorldHint) {
+    hints.push('open-world');
+  }
+  if (hints.length === 0) {
+    return '';
+  }
+  const text = `// ${hints.join(', ')}`;
+  if (options?.colorize === false) {
+    return text;
+  }
+  return isDestructiveTool(annotations) ? yellowText(text) : extraDimText(text);
+}
+
 export function formatOptionalSummary(hiddenOptions: GeneratedOption[], options?: { colorize?: boolean }): string {
   const colorize = options?.colorize !== false;
   const maxNames = 5;
@@ -0,0 +1,212 @@
+import type { ContentBlock, GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Runtime, ServerPromptInfo } from '../runtime.js';
+import { extractEphemeralServerFlags } from './ephemeral-flags.js';
+import { prepareEphemeralServerTarget } from './ephemeral-target.js';
+import { CliUsageError } from './errors.js';
+import { parseKeyValueArguments } from './flag-utils.js';
+import { looksLikeHttpUrl } from './http-utils.js';
+import { consumeOutputFormat } from './output-format.js';
+import { boldText, dimText, extraDimText } from './terminal.js';
+
+type PromptsOutputFormat = 'text' | 'markdown' | 'json';
+
+export async function handlePrompts(runtime: Runtime, args: string[]): Promise<void> {
+  const format = consumeOutputFormat(args, {
+    defaultFormat: 'text',
+    allowed: ['text', 'markdown', 'json'],
+    enableRawShortcut: false,
+    jsonShortcutFlag: '--json',
+  }) as PromptsOutputFormat;
+  const ephemeral = extractEphemeralServerFlags(args);
+  const jsonArgs = consumeJsonArgs(args);
+
+  let target = args.shift();
+  let promptName: string | undefined;
+  if (target && !ephemeral && !looksLikeHttpUrl(target)) {
+    const dotIndex = target.indexOf('.');
+    if (dotIndex > 0) {
+      promptName = target.slice(dotIndex + 1) || undefined;
+      target = target.slice(0, dotIndex);
+    }
+  }
+
+  const prepared = await prepareEphemeralServerTarget({ runtime, target, ephemeral });
+  target = prepared.target;
+  if (!target) {
+    throw new CliUsageError('Usage: mcporter prompts <server> [prompt] [key=value ...]');
+  }
+
+  if (!promptName && args.length > 0 && !looksLikeArgument(args[0])) {
+    promptName = args.shift();
+  }
+
+  if (!promptName) {
+    const prompts = await listPromptsOrEmpty(runtime, target);
+    if (format === 'json') {
+      console.log(JSON.stringify({ server: target, prompts }, null, 2));
+      return;
+    }
+    printPromptList(target, prompts);
+    return;
+  }
+
+  const promptArgs = { ...jsonArgs, ...parseKeyValueArguments(args) };
+  const result = await runtime.getPrompt(target, promptName, promptArgs);
+  printPromptResult(result, format);
+}
+
+export function printPromptsHelp(): void {
+  const lines = [
+    'Usage: mcporter prompts <server> [prompt] [key=value ...] [flags]',
+    '',
+    'Purpose:',
+    '  List the prompt templates a server exposes, or render one with arguments.',
+    '',
+    'Targets:',
+    '  <server>               List prompts and their argument signatures.',
+    '  <server> <prompt>      Render a prompt (also accepts <server>.<prompt>).',
+    '',
+    'Arguments:',
+    '  key=value / key:value  Prompt arguments (always passed as strings).',
+    '  --args <json>          Provide a JSON object of prompt arguments.',
+    '',
+    'Output flags:',
+    '  --output text|markdown|json  Control how rendered messages are printed.',
+    '  --json                 Shortcut for --output json.',
+    '',
+    'Examples:',
+    '  mcporter prompts linear',
+    '  mcporter prompts linear summarize_issue issueId=ENG-123',
+    '  mcporter prompts linear.summarize_issue issueId:ENG-123 --output markdown',
+  ];
+  console.error(lines.join('\n'));
+}
+
+// formatPromptSignature renders prompt arguments as `name(required, optional?)`.
+export function formatPromptSignature(prompt: ServerPromptInfo): string {
+  const args = prompt.arguments.map((argument) => (argument.required ? argument.name : `${argument.name}?`));
+  return `${prompt.name}(${args.join(', ')})`;
+}
+
+// renderPromptMessages flattens prompt messages into text or markdown transcripts.
+export function renderPromptMessages(result: GetPromptResult, format: 'text' | 'markdown'): string {
+  const sections: string[] = [];
+  if (result.description) {
+    sections.push(format === 'markdown' ? `> ${result.description}` : `# ${result.description}`);
+  }
+  for (const message of result.messages) {
+    const body = renderContentBlock(message.content);
+    if (format === 'markdown') {
+      sections.push(`## ${capitalize(message.role)}\n\n${body}`);
+    } else {
+      sections.push(`${message.role}:\n${body}`);
+    }
+  }
+  return sections.join('\n\n');
+}
+
+function printPromptList(server: string, prompts: ServerPromptInfo[]): void {
+  const countLabel = `${prompts.length} prompt${prompts.length === 1 ? '' : 's'}`;
+  console.log(`${boldText(server)} ${extraDimText(`· ${countLabel}`)}`);
+  if (prompts.length === 0) {
+    console.log('  Prompts: <none>');
+    return;
+  }
+  console.log('');
+  for (const prompt of prompts) {
+    console.log(`  ${formatPromptSignature(prompt)}`);
+    const summary = prompt.description ?? prompt.title;
+    if (summary) {
+      console.log(`    ${dimText(summary)}`);
+    }
+    const labelWidth = Math.max(...prompt.arguments.map((argument) => argument.name.length + 1), 0);
+    for (const argument of prompt.arguments) {
+      const label = `${argument.name}${argument.required ? '' : '?'}`.padEnd(labelWidth);
+      const description = argument.description ? `  ${extraDimText(argument.description)}` : '';
+      console.log(`      ${label}${description}`);
+    }
+    console.log('');
+  }
+}
+
+function printPromptResult(result: GetPromptResult, format: PromptsOutputFormat): void {
+  if (format === 'json') {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  console.log(renderPromptMessages(result, format));
+}
+
+function renderContentBlock(content: ContentBlock): string {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'image':
+    case 'audio':
+      return `[${content.type} ${content.mimeType}, ${estimateBase64Bytes(content.data)} bytes]`;
+    case 'resource': {
+      const resource = content.resource;
+      if ('text' in resource && typeof resource.text === 'string') {
+        return resource.text;
+      }
+      return `[resource ${resource.uri}]`;
+    }
+    case 'resource_link':
+      return `[resource link ${content.uri}]`;
+    default:
+      return JSON.stringify(content);
+  }
+}
+
+async function listPromptsOrEmpty(runtime: Runtime, server: string): Promise<ServerPromptInfo[]> {
+  try {
+    return await runtime.listPrompts(server);
+  } catch (error) {
+    // Servers without the prompts capability reject prompts/list; treat that as an empty catalog.
+    if (error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+function consumeJsonArgs(args: string[]): Record<string, string> {
+  const index = args.indexOf('--args');
+  if (index === -1) {
+    return {};
+  }
+  const value = args[index + 1];
+  if (!value) {
+    throw new Error('--args requires a JSON value.');
+  }
+  args.splice(index, 2);
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Unable to parse --args: ${(error as Error).message}`);
+  }
+  if (decoded === null || typeof decoded !== 'object' || Array.isArray(decoded)) {
+    throw new Error('--args must be a JSON object.');
+  }
+  return Object.fromEntries(
+    Object.entries(decoded as Record<string, unknown>).map(([key, entry]) => [
+      key,
+      typeof entry === 'string' ? entry : JSON.stringify(entry),
+    ])
+  );
+}
+
+function looksLikeArgument(token: string | undefined): boolean {
+  return Boolean(token && (token.includes('=') || token.includes(':')));
+}
+
+function estimateBase64Bytes(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.max(0, Math.floor((data.length * 3) / 4) - padding);
+}
+
+function capitalize(value: string): string {
+  return value.length > 0 ? `${value[0]?.toUpperCase()}${value.slice(1)}` : value;
+}
@@ -0,0 +1,354 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import type { Runtime } from '../runtime.js';
+import { extractEphemeralServerFlags } from './ephemeral-flags.js';
+import { prepareEphemeralServerTarget } from './ephemeral-target.js';
+import { CliUsageError } from './errors.js';
+import { expectValue, parseKeyValueArguments } from './flag-utils.js';
+import { logWarn } from './logger-context.js';
+import { consumeOutputFormat } from './output-format.js';
+import { formatPathForDisplay } from './path-utils.js';
+import { boldText, dimText, extraDimText } from './terminal.js';
+
+type ResourcesSubcommand = 'list' | 'read' | 'templates' | 'watch';
+type ResourceContents = ReadResourceResult['contents'][number];
+
+const SUBCOMMANDS = new Set<ResourcesSubcommand>(['list', 'read', 'templates', 'watch']);
+
+interface WatchResourceOptions {
+  readonly read?: boolean;
+  readonly signal: AbortSignal;
+  readonly write?: (line: string) => void;
+}
+
+interface SavedResource {
+  readonly uri: string;
+  readonly path: string;
+  readonly bytes: number;
+  readonly mimeType?: string;
+}
+
+export async function handleResources(runtime: Runtime, args: string[]): Promise<void> {
+  // `mcporter resources <server>` is shorthand for `mcporter resources list <server>`.
+  const subcommand = SUBCOMMANDS.has(args[0] as ResourcesSubcommand) ? (args.shift() as ResourcesSubcommand) : 'list';
+  const format = consumeOutputFormat(args, {
+    defaultFormat: 'text',
+    allowed: ['text', 'json'],
+    enableRawShortcut: false,
+    jsonShortcutFlag: '--json',
+  }) as 'text' | 'json';
+  const outPath = subcommand === 'read' ? consumeOutFlag(args) : undefined;
+  const readOnUpdate = subcommand === 'watch' ? consumeBooleanFlag(args, '--read') : false;
+  const ephemeral = extractEphemeralServerFlags(args);
+  const prepared = await prepareEphemeralServerTarget({ runtime, target: args.shift(), ephemeral });
+  const server = prepared.target;
+  if (!server) {
+    const uriSuffix = subcommand === 'read' || subcommand === 'watch' ? ' <uri>' : '';
+    throw new CliUsageError(`Usage: mcporter resources ${subcommand} <server>${uriSuffix}`);
+  }
+
+  if (subcommand === 'list') {
+    const resources = await listAllResources(runtime, server);
+    if (format === 'json') {
+      console.log(JSON.stringify({ server, resources }, null, 2));
+      return;
+    }
+    printResourceList(server, resources);
+    return;
+  }
+
+  if (subcommand === 'templates') {
+    const templates = await runtime.listResourceTemplates(server);
+    if (format === 'json') {
+      console.log(JSON.stringify({ server, resourceTemplates: templates }, null, 2));
+      return;
+    }
+    printTemplateList(server, templates);
+    return;
+  }
+
+  const rawUri = args.shift();
+  if (!rawUri) {
+    throw new CliUsageError(
+      subcommand === 'watch'
+        ? 'Usage: mcporter resources watch <server> <uri> [key=value ...] [--read]'
+        : 'Usage: mcporter resources read <server> <uri> [key=value ...] [--out <path>]'
+    );
+  }
+  const uri = resolveResourceUri(rawUri, parseKeyValueArguments(args));
+
+  if (subcommand === 'watch') {
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+    try {
+      console.error(dimText(`Watching ${uri} on ${server} (Ctrl+C to stop)…`));
+      await watchResource(runtime, server, uri, { read: readOnUpdate, signal: controller.signal });
+    } finally {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+    }
+    return;
+  }
+
+  const result = await runtime.readResource(server, uri);
+
+  if (outPath) {
+    const saved = await writeResourceContents(result.contents, outPath);
+    if (format === 'json') {
+      console.log(JSON.stringify({ server, uri, saved }, null, 2));
+      return;
+    }
+    for (const entry of saved) {
+      console.log(`Saved ${entry.uri} → ${formatPathForDisplay(entry.path)} (${entry.bytes} bytes)`);
+    }
+    return;
+  }
+
+  if (format === 'json') {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+  for (const content of result.contents) {
+    if ('text' in content) {
+      console.log(content.text);
+      continue;
+    }
+    const bytes = decodeResourceContents(content).byteLength;
+    logWarn(
+      `Skipping binary content for ${content.uri} (${content.mimeType ?? 'unknown type'}, ${bytes} bytes); pass --out <path> to save it.`
+    );
+  }
+}
+
+export function printResourcesHelp(): void {
+  const lines = [
+    'Usage: mcporter resources <list|read|templates|watch> <server> [args] [flags]',
+    '       mcporter resources watch <server> <uri> [key=value ...] [--read]',
+    '',
+    'Subcommands:',
+    '  list <server>                  List resources (default when the subcommand is omitted).',
+    '  templates <server>             List resource templates and their variables.',
+    '  read <server> <uri>            Read a resource; text is printed to stdout.',
+    '  watch <server> <uri>           Subscribe to updates and stream them as JSON lines.',
+    '',
+    'Read arguments:',
+    '  key=value / key:value          Expand URI template variables (e.g. docs://{path}).',
+    '  --out <path>                   Write contents to a file (or a directory for multiple entries).',
+    '                                 Required to save binary (blob) contents.',
+    '',
+    'Watch flags:',
+    '  --read                         Re-read the resource on every update and include its contents.',
+    '',
+    'Output flags:',
+    '  --output text|json / --json    Print listings or results as JSON.',
+    '',
+    'Examples:',
+    '  mcporter resources list docs',
+    '  mcporter resources read docs docs://guides/setup.md',
+    "  mcporter resources read docs 'files://{path}' path=logo.png --out ./logo.png",
+    '  mcporter resources watch builds build://latest/log --read',
+  ];
+  console.error(lines.join('\n'));
+}
+
+// watchResource subscribes to resources/updated notifications and writes one JSON line per update
+// until the signal aborts. Updates are emitted in order even when --read fetches are slow. If the
+// subscription ends on its own (the server or daemon went away), it rejects with the reason.
+export async function watchResource(
+  runtime: Runtime,
+  server: string,
+  uri: string,
+  options: WatchResourceOptions
+): Promise<void> {
+  const write = options.write ?? ((line: string) => console.log(line));
+  let queue = Promise.resolve();
+  const emit = async (updateUri: string): Promise<void> => {
+    const entry: Record<string, unknown> = { server, uri: updateUri, receivedAt: new Date().toISOString() };
+    if (options.read) {
+      try {
+        entry.contents = (await runtime.readResource(server, updateUri)).contents;
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+    write(JSON.stringify(entry));
+  };
+  let closed: (error: Error) => void = () => {};
+  const subscriptionEnded = new Promise<Error>((resolve) => {
+    closed = resolve;
+  });
+  const unsubscribe = await runtime.subscribeResource(
+    server,
+    uri,
+    (update) => {
+      queue = queue.then(() => emit(update.uri));
+    },
+    (error) => closed(error)
+  );
+  let onAbort: () => void = () => {};
+  try {
+    const stopped = new Promise<undefined>((resolve) => {
+      onAbort = () => resolve(undefined);
+      if (options.signal.aborted) {
+        resolve(undefined);
+        return;
+      }
+      options.signal.addEventListener('abort', onAbort, { once: true });
+    });
+    const error = await Promise.race([stopped, subscriptionEnded]);
+    await queue;
+    if (error) {
+      throw new Error(`Stopped watching ${uri} on ${server}: ${error.message}`);
+    }
+  } finally {
+    options.signal.removeEventListener('abort', onAbort);
+    await unsubscribe();
+  }
+}
+
+// resolveResourceUri expands RFC 6570 templates with key=value args and rejects stray arguments.
+export function resolveResourceUri(uri: string, variables: Record<string, string>): string {
+  if (!UriTemplate.isTemplate(uri)) {
+    const extra = Object.keys(variables);
+    if (extra.length > 0) {
+      throw new Error(`'${uri}' is not a URI template; unexpected argument(s): ${extra.join(', ')}.`);
+    }
+    return uri;
+  }
+  const template = new UriTemplate(uri);
+  const missing = template.variableNames.filter((name) => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Missing URI template variable(s) for '${uri}': ${missing.join(', ')}.`);
+  }
+  return template.expand(variables);
+}
+
+// writeResourceContents saves each content entry to disk, decoding base64 blobs.
+export async function writeResourceContents(contents: ResourceContents[], outPath: string): Promise<SavedResource[]> {
+  const resolved = path.resolve(outPath);
+  const asDirectory = contents.length > 1 || outPath.endsWith(path.sep) || (await isDirectory(resolved));
+  if (asDirectory) {
+    await fs.mkdir(resolved, { recursive: true });
+  } else {
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+  }
+  const usedNames = new Set<string>();
+  const saved: SavedResource[] = [];
+  for (const [index, content] of contents.entries()) {
+    const target = asDirectory ? path.join(resolved, uniqueFileName(content.uri, index, usedNames)) : resolved;
+    const data = decodeResourceContents(content);
+    await fs.writeFile(target, data);
+    saved.push({ uri: content.uri, path: target, bytes: data.byteLength, mimeType: content.mimeType });
+  }
+  return saved;
+}
+
+function decodeResourceContents(content: ResourceContents): Buffer {
+  return 'text' in content ? Buffer.from(content.text, 'utf8') : Buffer.from(content.blob, 'base64');
+}
+
+async function listAllResources(runtime: Runtime, server: string): Promise<Resource[]> {
+  const resources: Resource[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = (await runtime.listResources(server, cursor ? { cursor } : {})) as {
+      resources?: Resource[];
+      nextCursor?: string;
+    };
+    resources.push(...(page.resources ?? []));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return resources;
+}
+
+function printResourceList(server: string, resources: Resource[]): void {
+  const countLabel = `${resources.length} resource${resources.length === 1 ? '' : 's'}`;
+  console.log(`${boldText(server)} ${extraDimText(`· ${countLabel}`)}`);
+  if (resources.length === 0) {
+    console.log('  Resources: <none>');
+    return;
+  }
+  for (const resource of resources) {
+    const details = [resource.name, resource.mimeType].filter(Boolean).join(', ');
+    console.log(`  ${resource.uri}${details ? `  ${dimText(details)}` : ''}`);
+    if (resource.description) {
+      console.log(`    ${extraDimText(resource.description)}`);
+    }
+  }
+}
+
+function printTemplateList(server: string, templates: ResourceTemplate[]): void {
+  const countLabel = `${templates.length} template${templates.length === 1 ? '' : 's'}`;
+  console.log(`${boldText(server)} ${extraDimText(`· ${countLabel}`)}`);
+  if (templates.length === 0) {
+    console.log('  Templates: <none>');
+    return;
+  }
+  for (const template of templates) {
+    const variables = new UriTemplate(template.uriTemplate).variableNames;
+    const details = [template.name, template.mimeType].filter(Boolean).join(', ');
+    console.log(`  ${template.uriTemplate}${details ? `  ${dimText(details)}` : ''}`);
+    if (template.description) {
+      console.log(`    ${extraDimText(template.description)}`);
+    }
+    if (variables.length > 0) {
+      console.log(`    ${dimText(`args: ${variables.map((name) => `${name}=…`).join(' ')}`)}`);
+    }
+  }
+}
+
+function consumeOutFlag(args: string[]): string | undefined {
+  const index = args.indexOf('--out');
+  if (index === -1) {
+    return undefined;
+  }
+  const value = expectValue('--out', args[index + 1]);
+  args.splice(index, 2);
+  return value;
+}
+
+function consumeBooleanFlag(args: string[], flag: string): boolean {
+  const index = args.indexOf(flag);
+  if (index === -1) {
+    return false;
+  }
+  args.splice(index, 1);
+  return true;
+}
+
+function uniqueFileName(uri: string, index: number, used: Set<string>): string {
+  // Use the last path segment of the URI (custom schemes like docs://readme.md have no URL pathname).
+  const withoutQuery = uri.split(/[?#]/, 1)[0] ?? '';
+  const segment = withoutQuery.slice(withoutQuery.lastIndexOf('/') + 1);
+  const sanitized = safeDecode(segment).replace(/[^\w.-]+/g, '_');
+  const candidate = sanitized.length > 0 && !/^\.+$/.test(sanitized) ? sanitized : `resource-${index + 1}`;
+  let name = candidate;
+  let suffix = 1;
+  while (used.has(name)) {
+    const ext = path.extname(candidate);
+    name = `${path.basename(candidate, ext)}-${suffix}${ext}`;
+    suffix += 1;
+  }
+  used.add(name);
+  return name;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+async function isDirectory(target: string): Promise<boolean> {
+  try {
+    return (await fs.stat(target)).isDirectory();
+  } catch {
+    return false;
+  }
+}
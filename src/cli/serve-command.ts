@@ -0,0 +1,150 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createGateway, type GatewayOptions, listenGatewayHttp } from '../gateway.js';
+import type { Runtime } from '../runtime.js';
+import { CliUsageError } from './errors.js';
+import { getActiveLogger } from './logger-context.js';
+import { dimText } from './terminal.js';
+
+interface ServeFlags {
+  mode: 'stdio' | 'http';
+  port?: number;
+  host?: string;
+  servers: string[];
+  include: string[];
+  exclude: string[];
+}
+
+// handleServe exposes every configured server's tools (as server__tool) through one MCP endpoint and
+// resolves once the client disconnects or the process is interrupted.
+export async function handleServe(runtime: Runtime, args: string[]): Promise<void> {
+  const flags = parseServeFlags(args);
+  const options: GatewayOptions = {
+    servers: flags.servers,
+    include: flags.include,
+    exclude: flags.exclude,
+    logger: getActiveLogger(),
+  };
+  // Fail fast on unknown --servers entries instead of on the first tools/list.
+  const unknown = flags.servers.filter((name) => !runtime.listServers().includes(name));
+  if (unknown.length > 0) {
+    throw new CliUsageError(`Unknown MCP server(s) passed to --servers: ${unknown.join(', ')}.`);
+  }
+  const gateway = createGateway(runtime, options);
+
+  if (flags.mode === 'http') {
+    const handle = await listenGatewayHttp(gateway, { port: flags.port ?? 0, host: flags.host });
+    console.error(dimText(`mcporter gateway listening on ${handle.url} (Ctrl+C to stop)`));
+    try {
+      await waitForSignal();
+    } finally {
+      await handle.close();
+    }
+    return;
+  }
+
+  // stdout carries the protocol in stdio mode, so anything the CLI would print goes to stderr instead.
+  const originalLog = console.log;
+  console.log = (...values: unknown[]) => console.error(...values);
+  const server = gateway.createServer();
+  const transport = new StdioServerTransport();
+  try {
+    const closed = new Promise<void>((resolve) => {
+      transport.onclose = () => resolve();
+      process.stdin.once('end', () => resolve());
+    });
+    await server.connect(transport);
+    await Promise.race([closed, waitForSignal()]);
+  } finally {
+    await server.close().catch(() => {});
+    console.log = originalLog;
+  }
+}
+
+export function printServeHelp(): void {
+  const lines = [
+    'Usage: mcporter serve [--stdio | --http <port>] [flags]',
+    '',
+    'Purpose:',
+    '  Run an MCP server whose tools are the union of the configured servers, named <server>__<tool>.',
+    '  Calls are forwarded through the pooled runtime (and the keep-alive daemon for keep-alive servers).',
+    '',
+    'Transport:',
+    '  --stdio                Serve over stdin/stdout (default).',
+    '  --http <port>          Serve Streamable HTTP at http://<host>:<port>/mcp.',
+    '  --host <address>       Interface for --http (default: 127.0.0.1).',
+    '',
+    'Filters:',
+    '  --servers <a,b>        Only expose these servers.',
+    '  --include <pattern>    Only expose matching tools (server.tool, * wildcards, or a bare server; repeatable).',
+    '  --exclude <pattern>    Hide matching tools (same syntax; repeatable).',
+    '',
+    'Examples:',
+    '  mcporter serve --stdio',
+    "  mcporter serve --http 8765 --include 'linear.list_*' --include github",
+    '  mcporter serve --servers linear,github --exclude linear.delete_issue',
+  ];
+  console.error(lines.join('\n'));
+}
+
+function parseServeFlags(args: string[]): ServeFlags {
+  const flags: ServeFlags = { mode: 'stdio', servers: [], include: [], exclude: [] };
+  let index = 0;
+  while (index < args.length) {
+    const token = args[index];
+    if (token === '--stdio') {
+      flags.mode = 'stdio';
+      index += 1;
+      continue;
+    }
+    if (
+      token === '--http' ||
+      token === '--host' ||
+      token === '--servers' ||
+      token === '--include' ||
+      token === '--exclude'
+    ) {
+      const value = args[index + 1];
+      if (!value) {
+        throw new CliUsageError(`Flag '${token}' requires a value.`);
+      }
+      if (token === '--http') {
+        const port = Number.parseInt(value, 10);
+        if (!Number.isInteger(port) || port < 0 || port > 65535 || String(port) !== value) {
+          throw new CliUsageError(`Flag '--http' expects a port number, got '${value}'.`);
+        }
+        flags.mode = 'http';
+        flags.port = port;
+      } else if (token === '--host') {
+        flags.host = value;
+      } else {
+        flags[token.slice(2) as 'servers' | 'include' | 'exclude'].push(...splitList(value));
+      }
+      index += 2;
+      continue;
+    }
+    throw new CliUsageError(`Unknown serve argument '${token}'. Run 'mcporter serve --help' for usage.`);
+  }
+  if (flags.host && flags.mode !== 'http') {
+    throw new CliUsageError("Flag '--host' requires --http <port>.");
+  }
+  return flags;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function waitForSignal(): Promise<void> {
+  return new Promise((resolve) => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
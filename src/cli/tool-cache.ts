@@ -1,4 +1,6 @@
+import type { ServerDefinition } from '../config.js';
 import type { Runtime } from '../runtime.js';
+import { writeSchemaCache } from '../schema-cache.js';
 import { buildToolMetadata, type ToolMetadata } from './generate/tools.js';
 
 interface LoadToolMetadataOptions {
@@ -41,3 +43,14 @@ export async function loadToolMetadata(
   cache.set(key, promise);
   return promise;
 }
+
+// persistToolSchemas refreshes the on-disk schema cache that shell completion reads tool and argument names from.
+export async function persistToolSchemas(definition: ServerDefinition, entries: ToolMetadata[]): Promise<void> {
+  const tools = entries.filter((entry) => entry.tool.inputSchema && typeof entry.tool.inputSchema === 'object');
+  await writeSchemaCache(definition, {
+    updatedAt: new Date().toISOString(),
+    tools: Object.fromEntries(tools.map((entry) => [entry.tool.name, entry.tool.inputSchema])),
+  }).catch(() => {
+    // best-effort persistence
+  });
+}
@@ -1,4 +1,20 @@
-import type { CommandSpec, RawEntry, ServerDefinition, ServerLoggingOptions, ServerSource } from './config-schema.js';
+import os from 'node:os';
+import path from 'node:path';
+import type {
+  AuditConfig,
+  CommandSpec,
+  RawAudit,
+  RawEntry,
+  RawSampling,
+  RawTracing,
+  SamplingConfig,
+  ServerDefinition,
+  ServerLoggingOptions,
+  ServerRoot,
+  ServerSource,
+  ServerToolPolicy,
+  TracingConfig,
+} from './config-schema.js';
 import { expandHome } from './env.js';
 import { resolveLifecycle } from './lifecycle.js';
 
@@ -11,6 +27,7 @@ export function normalizeServerEntry(
 ): ServerDefinition {
   const description = raw.description;
   const env = raw.env ? { ...raw.env } : undefined;
+  const envFiles = normalizeEnvFiles(raw.envFile, baseDir);
   const auth = normalizeAuth(raw.auth);
   const tokenCacheDir = normalizePath(raw.tokenCacheDir ?? raw.token_cache_dir);
   const clientName = raw.clientName ?? raw.client_name;
@@ -43,6 +60,8 @@ export function normalizeServerEntry(
 
   const lifecycle = resolveLifecycle(name, raw.lifecycle, command);
   const logging = normalizeLogging(raw.logging);
+  const roots = normalizeRoots(raw.roots, baseDir);
+  const tools = normalizeToolPolicy(raw.tools);
 
   const defaultedOauthCommand =
     !oauthCommand && name.toLowerCase() === 'gmail' && command.kind === 'stdio'
@@ -54,6 +73,7 @@ export function normalizeServerEntry(
     description,
     command,
     env,
+    ...(envFiles.length > 0 ? { envFiles } : {}),
     auth,
     tokenCacheDir,
     clientName,
@@ -63,6 +83,52 @@ export function normalizeServerEntry(
     sources,
     lifecycle,
     logging,
+    ...(roots ? { roots } : {}),
+    ...(tools ? { tools } : {}),
+  };
+}
+
+// normalizeSampling splits a single command string (when no args are given) the same way stdio servers do.
+export function normalizeSampling(raw: RawSampling, baseDir: string): SamplingConfig {
+  const [command = raw.command, ...args] = raw.args ? [raw.command, ...raw.args] : parseCommandString(raw.command);
+  return {
+    provider: raw.provider,
+    command,
+    args,
+    cwd: baseDir,
+    ...(raw.env ? { env: { ...raw.env } } : {}),
+    ...(raw.timeoutMs ? { timeoutMs: raw.timeoutMs } : {}),
+  };
+}
+
+// normalizeAudit fills in defaults; a missing block still yields the default path so `mcporter history`
+// knows where to look. Relative paths resolve against the declaring config file, like sampling commands.
+export function normalizeAudit(raw: RawAudit | undefined, baseDir: string): AuditConfig {
+  const configured = raw?.path ? expandHome(raw.path) : undefined;
+  return {
+    enabled: raw?.enabled ?? false,
+    path: configured ? path.resolve(baseDir, configured) : path.join(os.homedir(), '.mcporter', 'audit.jsonl'),
+    redact: raw?.redact ?? [],
+    maxArgBytes: raw?.maxArgBytes ?? 8 * 1024,
+    maxFileBytes: raw?.maxFileBytes ?? 10 * 1024 * 1024,
+    maxFiles: raw?.maxFiles ?? 5,
+  };
+}
+
+const DEFAULT_OTLP_ENDPOINT = 'http://localhost:4318';
+const OTLP_TRACES_PATH = '/v1/traces';
+
+// normalizeTracing merges the `tracing` block with the standard OTEL_* variables, which win: setting
+// OTEL_EXPORTER_OTLP_(TRACES_)ENDPOINT turns tracing on without touching config, OTEL_SDK_DISABLED=true off.
+export function normalizeTracing(raw: RawTracing | undefined, env: NodeJS.ProcessEnv = process.env): TracingConfig {
+  const tracesEndpoint = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT?.trim();
+  const baseEndpoint = env.OTEL_EXPORTER_OTLP_ENDPOINT?.trim();
+  const disabled = env.OTEL_SDK_DISABLED?.trim().toLowerCase() === 'true';
+  return {
+    enabled: !disabled && (Boolean(tracesEndpoint || baseEndpoint) || raw?.enabled === true),
+    endpoint: tracesEndpoint || appendTracesPath(baseEndpoint || raw?.endpoint || DEFAULT_OTLP_ENDPOINT),
+    headers: { ...raw?.headers, ...parseOtlpHeaders(env.OTEL_EXPORTER_OTLP_HEADERS) },
+    serviceName: env.OTEL_SERVICE_NAME?.trim() || raw?.serviceName || 'mcporter',
   };
 }
 
@@ -70,6 +136,40 @@ export const __configInternals = {
   ensureHttpAcceptHeader,
 };
 
+function appendTracesPath(endpoint: string): string {
+  const trimmed = endpoint.replace(/\/+$/, '');
+  return trimmed.endsWith(OTLP_TRACES_PATH) ? trimmed : `${trimmed}${OTLP_TRACES_PATH}`;
+}
+
+// parseOtlpHeaders reads the `key=value,key2=value2` format of OTEL_EXPORTER_OTLP_HEADERS (values URL-encoded).
+function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of value?.split(',') ?? []) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+    const key = pair.slice(0, separator).trim();
+    const raw = pair.slice(separator + 1).trim();
+    try {
+      headers[key] = decodeURIComponent(raw);
+    } catch {
+      headers[key] = raw;
+    }
+  }
+  return headers;
+}
+
+function normalizeToolPolicy(raw: RawEntry['tools']): ServerToolPolicy | undefined {
+  if (!raw || (!raw.allow && !raw.deny)) {
+    return undefined;
+  }
+  return {
+    ...(raw.allow ? { allow: [...raw.allow] } : {}),
+    ...(raw.deny ? { deny: [...raw.deny] } : {}),
+  };
+}
+
 function normalizeAuth(auth: string | undefined): string | undefined {
   if (!auth) {
     return undefined;
@@ -80,6 +180,12 @@ function normalizeAuth(auth: string | undefined): string | undefined {
   return undefined;
 }
 
+// normalizeEnvFiles resolves envFile paths against the declaring config file's directory.
+export function normalizeEnvFiles(raw: string | string[] | undefined, baseDir: string): string[] {
+  const files = typeof raw === 'string' ? [raw] : (raw ?? []);
+  return files.map((file) => path.resolve(baseDir, expandHome(file.trim())));
+}
+
 function normalizePath(input: string | undefined): string | undefined {
   if (!input) {
     return undefined;
@@ -206,13 +312,32 @@ function parseCommandString(value: string): string[] {
 
 export { ensureHttpAcceptHeader };
 
-function normalizeLogging(raw?: { daemon?: { enabled?: boolean } }): ServerLoggingOptions | undefined {
+function normalizeLogging(raw?: RawEntry['logging']): ServerLoggingOptions | undefined {
   if (!raw) {
     return undefined;
   }
-  if (raw.daemon) {
-    const logging: ServerLoggingOptions = { daemon: { enabled: raw.daemon.enabled } };
-    return logging;
+  if (!raw.daemon && !raw.level) {
+    return undefined;
   }
-  return undefined;
+  const logging: ServerLoggingOptions = {
+    ...(raw.level ? { level: raw.level } : {}),
+    ...(raw.daemon ? { daemon: { enabled: raw.daemon.enabled } } : {}),
+  };
+  return logging;
+}
+
+// normalizeRoots resolves literal relative paths against the config file's directory. Paths that use `~`
+// or `${VAR}` (and file:// URIs) are kept verbatim and expanded when the server lists roots.
+function normalizeRoots(raw: RawEntry['roots'], baseDir: string): ServerRoot[] | undefined {
+  if (!raw || raw.length === 0) {
+    return undefined;
+  }
+  return raw.map((entry) => {
+    const root = typeof entry === 'string' ? { path: entry } : entry;
+    const deferred = root.path.startsWith('~') || root.path.includes('$') || root.path.startsWith('file:');
+    return {
+      path: deferred || path.isAbsolute(root.path) ? root.path : path.resolve(baseDir, root.path),
+      ...(root.name ? { name: root.name } : {}),
+    };
+  });
 }
@@ -28,13 +28,28 @@ const RawLifecycleSchema = z.union([
   z.object({
     mode: z.union([z.literal('keep-alive'), z.literal('ephemeral')]),
     idleTimeoutMs: z.number().int().positive().optional(),
+    prewarm: z.boolean().optional(),
   }),
 ]);
 
 export type RawLifecycle = z.infer<typeof RawLifecycleSchema>;
 
+export const ServerLogLevelSchema = z.enum([
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+]);
+
+export type ServerLogLevel = z.infer<typeof ServerLogLevelSchema>;
+
 const RawLoggingSchema = z
   .object({
+    level: ServerLogLevelSchema.optional(),
     daemon: z
       .object({
         enabled: z.boolean().optional(),
@@ -43,6 +58,52 @@ const RawLoggingSchema = z
   })
   .optional();
 
+// RawSamplingSchema configures the provider behind sampling/createMessage. `command` pipes the request
+// JSON to a local executable; the union leaves room for more providers.
+const RawSamplingSchema = z.discriminatedUnion('provider', [
+  z.object({
+    provider: z.literal('command'),
+    command: z.string().min(1),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string(), z.string()).optional(),
+    timeoutMs: z.number().int().positive().optional(),
+  }),
+]);
+
+export type RawSampling = z.infer<typeof RawSamplingSchema>;
+
+// RawAuditSchema turns on the tool-call audit log. `redact` adds key patterns (regular expressions,
+// case-insensitive) to the built-in list; it cannot remove built-in ones.
+const RawAuditSchema = z.object({
+  enabled: z.boolean().optional(),
+  path: z.string().min(1).optional(),
+  redact: z.array(z.string().min(1)).optional(),
+  maxArgBytes: z.number().int().positive().optional(),
+  maxFileBytes: z.number().int().positive().optional(),
+  maxFiles: z.number().int().positive().optional(),
+});
+
+export type RawAudit = z.infer<typeof RawAuditSchema>;
+
+// RawTracingSchema turns on OTLP/HTTP trace export. `endpoint` is the collector's base URL (the
+// `/v1/traces` path is appended) and header values may use ${ENV} placeholders.
+const RawTracingSchema = z.object({
+  enabled: z.boolean().optional(),
+  endpoint: z.string().min(1).optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  serviceName: z.string().min(1).optional(),
+});
+
+export type RawTracing = z.infer<typeof RawTracingSchema>;
+
+// RawToolPolicySchema restricts which tools a server exposes; patterns are tool-name globs (`*`).
+const RawToolPolicySchema = z.object({
+  allow: z.array(z.string().min(1)).optional(),
+  deny: z.array(z.string().min(1)).optional(),
+});
+
+const RawRootSchema = z.union([z.string(), z.object({ path: z.string(), name: z.string().optional() })]);
+
 export const RawEntrySchema = z.object({
   description: z.string().optional(),
   baseUrl: z.string().optional(),
@@ -55,6 +116,8 @@ export const RawEntrySchema = z.object({
   args: z.array(z.string()).optional(),
   headers: z.record(z.string(), z.string()).optional(),
   env: z.record(z.string(), z.string()).optional(),
+  // envFile lists dotenv files (relative to the config file) whose variables the server launches with.
+  envFile: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
   auth: z.string().optional(),
   tokenCacheDir: z.string().optional(),
   token_cache_dir: z.string().optional(),
@@ -78,15 +141,32 @@ export const RawEntrySchema = z.object({
   bearer_token_env: z.string().optional(),
   lifecycle: RawLifecycleSchema.optional(),
   logging: RawLoggingSchema,
+  roots: z.array(RawRootSchema).optional(),
+  tools: RawToolPolicySchema.optional(),
+});
+
+// A profile overrides fields of named servers (URLs, headers, env, tokens) when selected with --profile.
+const RawProfileSchema = z.object({
+  description: z.string().optional(),
+  mcpServers: z.record(z.string(), RawEntrySchema),
 });
 
 export const RawConfigSchema = z.object({
+  // extends lists config files (relative to this one, `~` allowed) whose servers and settings this file builds on.
+  extends: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
   mcpServers: z.record(z.string(), RawEntrySchema),
+  // envFile applies dotenv files to every server this file declares, below each server's own envFile.
+  envFile: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
   imports: z.array(ImportKindSchema).optional(),
+  sampling: RawSamplingSchema.optional(),
+  audit: RawAuditSchema.optional(),
+  tracing: RawTracingSchema.optional(),
+  profiles: z.record(z.string(), RawProfileSchema).optional(),
 });
 
 export type RawEntry = z.infer<typeof RawEntrySchema>;
 export type RawConfig = z.infer<typeof RawConfigSchema>;
+export type RawProfile = z.infer<typeof RawProfileSchema>;
 
 export interface HttpCommand {
   readonly kind: 'http';
@@ -107,28 +187,52 @@ export interface ServerSource {
   readonly kind: 'local' | 'import';
   readonly path: string;
   readonly importKind?: ImportKind;
+  // fields lists the entry keys this file set when the entry was merged across `extends` files or profiles.
+  readonly fields?: readonly string[];
+  // profile names the profile whose overrides this source contributed.
+  readonly profile?: string;
 }
 
 export type ServerLifecycle =
   | {
       mode: 'keep-alive';
       idleTimeoutMs?: number;
+      // prewarm launches the server when the daemon starts instead of on the first call.
+      prewarm?: boolean;
     }
   | {
       mode: 'ephemeral';
     };
 
 export interface ServerLoggingOptions {
+  // level is sent to the server via logging/setLevel right after connecting.
+  readonly level?: ServerLogLevel;
   readonly daemon?: {
     readonly enabled?: boolean;
   };
 }
 
+// ServerRoot is a directory (or file:// URI) exposed to the server via roots/list. `~` and `${VAR}` are
+// expanded when the server asks, so a missing variable only affects that server.
+export interface ServerRoot {
+  readonly path: string;
+  readonly name?: string;
+}
+
+// ServerToolPolicy hides tools from listTools and rejects calls to them. A tool must match an `allow`
+// pattern (when any are given) and no `deny` pattern.
+export interface ServerToolPolicy {
+  readonly allow?: readonly string[];
+  readonly deny?: readonly string[];
+}
+
 export interface ServerDefinition {
   readonly name: string;
   readonly description?: string;
   readonly command: CommandSpec;
   readonly env?: Record<string, string>;
+  // envFiles are absolute dotenv paths, lowest precedence first; `env` entries win over their values.
+  readonly envFiles?: readonly string[];
   readonly auth?: string;
   readonly tokenCacheDir?: string;
   readonly clientName?: string;
@@ -140,9 +244,43 @@ export interface ServerDefinition {
   readonly sources?: readonly ServerSource[];
   readonly lifecycle?: ServerLifecycle;
   readonly logging?: ServerLoggingOptions;
+  readonly roots?: readonly ServerRoot[];
+  readonly tools?: ServerToolPolicy;
+}
+
+export interface CommandSamplingConfig {
+  readonly provider: 'command';
+  readonly command: string;
+  readonly args: string[];
+  // cwd is the directory of the config file that declared the block, mirroring stdio servers.
+  readonly cwd: string;
+  readonly env?: Record<string, string>;
+  readonly timeoutMs?: number;
+}
+
+export type SamplingConfig = CommandSamplingConfig;
+
+export interface AuditConfig {
+  readonly enabled: boolean;
+  // path is the active log file; rotated files sit next to it as <path>.1 ... <path>.<maxFiles>.
+  readonly path: string;
+  readonly redact: readonly string[];
+  readonly maxArgBytes: number;
+  readonly maxFileBytes: number;
+  readonly maxFiles: number;
+}
+
+export interface TracingConfig {
+  readonly enabled: boolean;
+  // endpoint is the full traces URL spans are posted to.
+  readonly endpoint: string;
+  readonly headers: Record<string, string>;
+  readonly serviceName: string;
 }
 
 export interface LoadConfigOptions {
   readonly configPath?: string;
   readonly rootDir?: string;
+  // profile selects a `profiles` entry whose server overrides apply on top of the merged config.
+  readonly profile?: string;
 }
@@ -2,43 +2,103 @@ import fsSync from 'node:fs';
 import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
+import { isRecord, parseJsonBuffer } from './config/imports/shared.js';
 import { pathsForImport, readExternalEntries } from './config-imports.js';
-import { normalizeServerEntry } from './config-normalize.js';
 import {
+  normalizeAudit,
+  normalizeEnvFiles,
+  normalizeSampling,
+  normalizeServerEntry,
+  normalizeTracing,
+} from './config-normalize.js';
+import {
+  type AuditConfig,
   DEFAULT_IMPORTS,
   type LoadConfigOptions,
   type RawConfig,
   RawConfigSchema,
   type RawEntry,
   RawEntrySchema,
+  type SamplingConfig,
   type ServerDefinition,
   type ServerSource,
+  type TracingConfig,
 } from './config-schema.js';
 import { expandHome } from './env.js';
 
 export { toFileUrl } from './config-imports.js';
 export { __configInternals } from './config-normalize.js';
 export type {
+  AuditConfig,
+  CommandSamplingConfig,
   CommandSpec,
   HttpCommand,
   LoadConfigOptions,
   RawConfig,
   RawEntry,
+  RawProfile,
+  SamplingConfig,
   ServerDefinition,
   ServerLifecycle,
   ServerLoggingOptions,
+  ServerRoot,
   ServerSource,
+  ServerToolPolicy,
   StdioCommand,
+  TracingConfig,
 } from './config-schema.js';
 
+type MergedEntry = {
+  raw: RawEntry;
+  baseDir: string;
+  source: ServerSource;
+  sources: ServerSource[];
+  // root is the top-level config file whose `extends` chain declared the entry; imported entries have none.
+  root?: string;
+};
+
 export async function loadServerDefinitions(options: LoadConfigOptions = {}): Promise<ServerDefinition[]> {
   const rootDir = options.rootDir ?? process.cwd();
   const layers = await loadConfigLayers(options, rootDir);
+  return mergeServerDefinitions(layers, rootDir, options.profile);
+}
+
+export interface RuntimeConfig {
+  readonly servers: ServerDefinition[];
+  readonly sampling?: SamplingConfig;
+  readonly audit: AuditConfig;
+  readonly tracing: TracingConfig;
+}
+
+// loadRuntimeConfig reads the config layers once for everything a runtime needs: the servers (with the
+// profile applied) and the sampling, audit, and tracing blocks.
+export async function loadRuntimeConfig(options: LoadConfigOptions = {}): Promise<RuntimeConfig> {
+  const rootDir = options.rootDir ?? process.cwd();
+  const layers = await loadConfigLayers(options, rootDir);
+  return {
+    servers: await mergeServerDefinitions(layers, rootDir, options.profile),
+    sampling: samplingFromLayers(layers),
+    audit: auditFromLayers(layers, rootDir),
+    tracing: tracingFromLayers(layers),
+  };
+}
 
-  const merged = new Map<string, { raw: RawEntry; baseDir: string; source: ServerSource; sources: ServerSource[] }>();
+async function mergeServerDefinitions(
+  layers: readonly ConfigLayer[],
+  rootDir: string,
+  profile: string | undefined
+): Promise<ServerDefinition[]> {
+  const merged = new Map<string, MergedEntry>();
+  // A file's `imports` apply to its whole extends chain; the nearest declaration wins.
+  const chainImports = new Map<string, RawConfig['imports']>();
+  for (const layer of layers) {
+    if (layer.config.imports) {
+      chainImports.set(layer.root, layer.config.imports);
+    }
+  }
 
   for (const layer of layers) {
-    const configuredImports = layer.config.imports;
+    const configuredImports = layer.path === layer.root ? chainImports.get(layer.root) : [];
     const imports = configuredImports
       ? configuredImports.length === 0
         ? configuredImports
@@ -76,12 +136,17 @@ export async function loadServerDefinitions(options: LoadConfigOptions = {}): Pr
 
     for (const [name, entryRaw] of Object.entries(layer.config.mcpServers)) {
       const source: ServerSource = { kind: 'local', path: layer.path };
-      const parsed = RawEntrySchema.parse(entryRaw);
+      const parsed = anchorEnvFiles(RawEntrySchema.parse(entryRaw), layer, true);
       const existing = merged.get(name);
+      // Entries from the same extends chain merge field by field; the extending file wins.
+      if (existing?.root === layer.root) {
+        merged.set(name, mergeExtendedEntry(existing, parsed, source, layer.path));
+        continue;
+      }
       // Local definitions win; stash any prior imports after the local path
       if (existing) {
         const sources = [source, ...existing.sources];
-        merged.set(name, { raw: parsed, baseDir: path.dirname(layer.path), source, sources });
+        merged.set(name, { raw: parsed, baseDir: path.dirname(layer.path), source, sources, root: layer.root });
         continue;
       }
       merged.set(name, {
@@ -89,10 +154,15 @@ export async function loadServerDefinitions(options: LoadConfigOptions = {}): Pr
         baseDir: path.dirname(layer.path),
         source,
         sources: [source],
+        root: layer.root,
       });
     }
   }
 
+  if (profile) {
+    applyProfile(merged, layers, profile);
+  }
+
   const servers: ServerDefinition[] = [];
   for (const [name, { raw, baseDir: entryBaseDir, source, sources }] of merged) {
     servers.push(normalizeServerEntry(name, raw, entryBaseDir, source, sources));
@@ -101,6 +171,203 @@ export async function loadServerDefinitions(options: LoadConfigOptions = {}): Pr
   return servers;
 }
 
+// anchorEnvFiles resolves an entry's envFile paths against the file that declared them, so they survive merging
+// across extends files and profiles. Servers also pick up their file's top-level envFile, ahead of their own.
+function anchorEnvFiles(entry: RawEntry, layer: ConfigLayer, inheritTopLevel: boolean): RawEntry {
+  const baseDir = path.dirname(layer.path);
+  const envFiles = [
+    ...(inheritTopLevel ? normalizeEnvFiles(layer.config.envFile, baseDir) : []),
+    ...normalizeEnvFiles(entry.envFile, baseDir),
+  ];
+  return envFiles.length > 0 ? { ...entry, envFile: envFiles } : entry;
+}
+
+// applyProfile layers the selected profile's server overrides over the merged entries. Every config layer
+// may contribute to a profile; later layers win, like plain entries.
+function applyProfile(merged: Map<string, MergedEntry>, layers: readonly ConfigLayer[], profile: string): void {
+  if (!layers.some((layer) => layer.config.profiles?.[profile])) {
+    const available = listProfileNames(layers);
+    throw new Error(
+      `Unknown profile '${profile}'. ${available.length > 0 ? `Available profiles: ${available.join(', ')}.` : 'No profiles are configured.'}`
+    );
+  }
+  for (const layer of layers) {
+    const overrides = layer.config.profiles?.[profile];
+    for (const [name, entryRaw] of Object.entries(overrides?.mcpServers ?? {})) {
+      const parsed = anchorEnvFiles(RawEntrySchema.parse(entryRaw), layer, false);
+      const existing = merged.get(name);
+      if (existing) {
+        merged.set(
+          name,
+          mergeExtendedEntry(existing, parsed, { kind: 'local', path: layer.path, profile }, layer.path)
+        );
+        continue;
+      }
+      const source: ServerSource = { kind: 'local', path: layer.path, profile, fields: Object.keys(parsed) };
+      merged.set(name, {
+        raw: parsed,
+        baseDir: path.dirname(layer.path),
+        source,
+        sources: [source],
+        root: layer.root,
+      });
+    }
+  }
+}
+
+function listProfileNames(layers: readonly ConfigLayer[]): string[] {
+  const names = new Set<string>();
+  for (const layer of layers) {
+    for (const name of Object.keys(layer.config.profiles ?? {})) {
+      names.add(name);
+    }
+  }
+  return [...names].sort();
+}
+
+// mergeExtendedEntry layers an entry over the one it extends. Both sources record the keys they set so
+// `list --verbose` can show where each field came from. Relative commands resolve against the file that
+// declared the command.
+function mergeExtendedEntry(existing: MergedEntry, raw: RawEntry, source: ServerSource, filePath: string): MergedEntry {
+  const base = existing.source.fields ? existing.source : { ...existing.source, fields: Object.keys(existing.raw) };
+  const primary: ServerSource = { ...source, fields: Object.keys(raw) };
+  const declaresCommand = raw.command !== undefined || raw.executable !== undefined;
+  return {
+    raw: mergeRawEntries(existing.raw, raw),
+    baseDir: declaresCommand ? path.dirname(filePath) : existing.baseDir,
+    source: primary,
+    sources: [primary, base, ...existing.sources.slice(1)],
+    root: existing.root,
+  };
+}
+
+// Keys that spell the same setting; an override that sets any of them replaces the whole group so a
+// profile's `url` is not shadowed by the base entry's `baseUrl`.
+const RAW_ENTRY_ALIAS_GROUPS: ReadonlyArray<ReadonlyArray<keyof RawEntry>> = [
+  ['baseUrl', 'base_url', 'url', 'serverUrl', 'server_url'],
+  ['bearerToken', 'bearer_token', 'bearerTokenEnv', 'bearer_token_env'],
+  ['command', 'executable'],
+  ['tokenCacheDir', 'token_cache_dir'],
+  ['clientName', 'client_name'],
+  ['oauthRedirectUrl', 'oauth_redirect_url'],
+  ['oauthCommand', 'oauth_command'],
+];
+
+// mergeRawEntries deep-merges nested objects (env, headers, tools, logging) key by key and appends envFile
+// lists; other arrays and scalars from the override replace the base value.
+function mergeRawEntries(base: RawEntry, override: RawEntry): RawEntry {
+  const trimmed: Record<string, unknown> = { ...base };
+  for (const group of RAW_ENTRY_ALIAS_GROUPS) {
+    if (group.some((key) => override[key] !== undefined)) {
+      for (const key of group) {
+        delete trimmed[key];
+      }
+    }
+  }
+  const merged = deepMerge(trimmed, override) as RawEntry;
+  // envFile lists accumulate like env keys: the base files load first, so the override's files win.
+  if (base.envFile && override.envFile) {
+    const overrideFiles = typeof override.envFile === 'string' ? [override.envFile] : override.envFile;
+    const baseFiles = typeof base.envFile === 'string' ? [base.envFile] : base.envFile;
+    merged.envFile = [...baseFiles.filter((file) => !overrideFiles.includes(file)), ...overrideFiles];
+  }
+  return merged;
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isRecord(base) || !isRecord(override)) {
+    return override;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value !== undefined) {
+      merged[key] = key in base ? deepMerge(base[key], value) : value;
+    }
+  }
+  return merged;
+}
+
+// loadSamplingConfig returns the `sampling` block from the config layers; the project config wins over home.
+export async function loadSamplingConfig(options: LoadConfigOptions = {}): Promise<SamplingConfig | undefined> {
+  const rootDir = options.rootDir ?? process.cwd();
+  return samplingFromLayers(await loadConfigLayers(options, rootDir));
+}
+
+function samplingFromLayers(layers: readonly ConfigLayer[]): SamplingConfig | undefined {
+  let sampling: SamplingConfig | undefined;
+  for (const layer of layers) {
+    if (layer.config.sampling) {
+      sampling = normalizeSampling(layer.config.sampling, path.dirname(layer.path));
+    }
+  }
+  return sampling;
+}
+
+// loadAuditConfig returns the `audit` block from the config layers (the project config wins over home),
+// with defaults filled in even when no layer declares one.
+export async function loadAuditConfig(options: LoadConfigOptions = {}): Promise<AuditConfig> {
+  const rootDir = options.rootDir ?? process.cwd();
+  return auditFromLayers(await loadConfigLayers(options, rootDir), rootDir);
+}
+
+function auditFromLayers(layers: readonly ConfigLayer[], rootDir: string): AuditConfig {
+  let audit = normalizeAudit(undefined, rootDir);
+  for (const layer of layers) {
+    if (layer.config.audit) {
+      audit = normalizeAudit(layer.config.audit, path.dirname(layer.path));
+    }
+  }
+  return audit;
+}
+
+// loadTracingConfig returns the `tracing` block from the config layers (the project config wins over home),
+// merged with the OTEL_* environment variables.
+export async function loadTracingConfig(options: LoadConfigOptions = {}): Promise<TracingConfig> {
+  const rootDir = options.rootDir ?? process.cwd();
+  return tracingFromLayers(await loadConfigLayers(options, rootDir));
+}
+
+function tracingFromLayers(layers: readonly ConfigLayer[]): TracingConfig {
+  let raw: RawConfig['tracing'];
+  for (const layer of layers) {
+    if (layer.config.tracing) {
+      raw = layer.config.tracing;
+    }
+  }
+  return normalizeTracing(raw);
+}
+
+export interface ConfigProfileSummary {
+  readonly name: string;
+  readonly description?: string;
+  // servers lists the server names the profile overrides, across every layer that declares it.
+  readonly servers: string[];
+  readonly paths: string[];
+}
+
+// loadConfigProfiles lists the profiles declared across the config layers, sorted by name.
+export async function loadConfigProfiles(options: LoadConfigOptions = {}): Promise<ConfigProfileSummary[]> {
+  const rootDir = options.rootDir ?? process.cwd();
+  const layers = await loadConfigLayers(options, rootDir);
+  return listProfileNames(layers).map((name) => {
+    let description: string | undefined;
+    const servers = new Set<string>();
+    const paths: string[] = [];
+    for (const layer of layers) {
+      const profile = layer.config.profiles?.[name];
+      if (!profile) {
+        continue;
+      }
+      description = profile.description ?? description;
+      for (const server of Object.keys(profile.mcpServers)) {
+        servers.add(server);
+      }
+      paths.push(layer.path);
+    }
+    return { name, description, servers: [...servers].sort(), paths };
+  });
+}
+
 export async function loadRawConfig(
   options: LoadConfigOptions = {}
 ): Promise<{ config: RawConfig; path: string; explicit: boolean }> {
@@ -115,37 +382,98 @@ export async function listConfigLayerPaths(
   rootDir: string = process.cwd()
 ): Promise<string[]> {
   const explicitPath = options.configPath ?? process.env.MCPORTER_CONFIG;
+  const paths: string[] = [];
   if (explicitPath) {
-    return [path.resolve(expandHome(explicitPath.trim()))];
-  }
+    paths.push(path.resolve(expandHome(explicitPath.trim())));
+  } else {
+    const homeCandidates = homeConfigCandidates();
+    const existingHome = homeCandidates.find((candidate) => pathExists(candidate));
+    if (existingHome) {
+      paths.push(existingHome);
+    }
 
-  const paths: string[] = [];
-  const homeCandidates = homeConfigCandidates();
-  const existingHome = homeCandidates.find((candidate) => pathExists(candidate));
-  if (existingHome) {
-    paths.push(existingHome);
+    const projectPath = path.resolve(rootDir, 'config', 'mcporter.json');
+    if (pathExists(projectPath)) {
+      paths.push(projectPath);
+    }
   }
 
-  const projectPath = path.resolve(rootDir, 'config', 'mcporter.json');
-  if (pathExists(projectPath)) {
-    paths.push(projectPath);
+  // Files pulled in via `extends` count as layers too, so editing a shared base marks the daemon stale.
+  // Env files follow the config layers, so editing a `.env` reloads the servers that load it.
+  const expanded: string[] = [];
+  const envFiles: string[] = [];
+  for (const layerPath of paths) {
+    try {
+      const config = await readConfigFile(layerPath, false);
+      const chain = await expandExtends({ config, path: layerPath, explicit: false, root: layerPath });
+      expanded.push(...chain.map((layer) => layer.path));
+      envFiles.push(...chain.flatMap(listLayerEnvFiles));
+    } catch {
+      expanded.push(layerPath);
+    }
   }
+  return [...expanded, ...new Set(envFiles.filter((file) => !expanded.includes(file)))];
+}
 
-  return paths;
+// listLayerEnvFiles returns every envFile a layer mentions: top level, server entries, and profile overrides.
+function listLayerEnvFiles(layer: ConfigLayer): string[] {
+  const baseDir = path.dirname(layer.path);
+  const entries = [
+    ...Object.values(layer.config.mcpServers),
+    ...Object.values(layer.config.profiles ?? {}).flatMap((profile) => Object.values(profile.mcpServers)),
+  ];
+  return [
+    ...normalizeEnvFiles(layer.config.envFile, baseDir),
+    ...entries.flatMap((entry) => normalizeEnvFiles(entry.envFile, baseDir)),
+  ];
 }
 
 type ConfigLayer = {
   config: RawConfig;
   path: string;
   explicit: boolean;
+  // root is the top-level config file (home, project, or --config) whose `extends` chain includes this file.
+  root: string;
 };
 
+// expandExtends returns the files a layer extends, depth-first in listed order, followed by the layer itself,
+// so later files override earlier ones. A file reached twice (a diamond) is loaded once; a cycle is an error.
+async function expandExtends(
+  layer: ConfigLayer,
+  chain: readonly string[] = [],
+  seen: Set<string> = new Set()
+): Promise<ConfigLayer[]> {
+  if (chain.includes(layer.path)) {
+    throw new Error(`Config extends cycle: ${[...chain, layer.path].join(' -> ')}`);
+  }
+  const references = layer.config.extends;
+  const expanded: ConfigLayer[] = [];
+  for (const reference of typeof references === 'string' ? [references] : (references ?? [])) {
+    const basePath = path.resolve(path.dirname(layer.path), expandHome(reference.trim()));
+    if (seen.has(basePath)) {
+      continue;
+    }
+    let config: RawConfig;
+    try {
+      config = await readConfigFile(basePath, true);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load '${reference}' (extended by ${layer.path}): ${reason}`);
+    }
+    const base: ConfigLayer = { config, path: basePath, explicit: true, root: layer.root };
+    expanded.push(...(await expandExtends(base, [...chain, layer.path], seen)));
+  }
+  seen.add(layer.path);
+  expanded.push(layer);
+  return expanded;
+}
+
 async function loadConfigLayers(options: LoadConfigOptions, rootDir: string): Promise<ConfigLayer[]> {
   const explicitPath = options.configPath ?? process.env.MCPORTER_CONFIG;
   if (explicitPath) {
     const resolvedPath = path.resolve(expandHome(explicitPath.trim()));
     const config = await readConfigFile(resolvedPath, true);
-    return [{ config, path: resolvedPath, explicit: true }];
+    return expandExtends({ config, path: resolvedPath, explicit: true, root: resolvedPath });
   }
 
   const layers: ConfigLayer[] = [];
@@ -153,20 +481,34 @@ async function loadConfigLayers(options: LoadConfigOptions, rootDir: string): Pr
   const homeCandidates = homeConfigCandidates();
   const existingHome = homeCandidates.find((candidate) => pathExists(candidate));
   if (existingHome) {
-    layers.push({ config: await readConfigFile(existingHome, false), path: existingHome, explicit: false });
+    layers.push({
+      config: await readConfigFile(existingHome, false),
+      path: existingHome,
+      explicit: false,
+      root: existingHome,
+    });
   }
 
   const projectPath = path.resolve(rootDir, 'config', 'mcporter.json');
   if (pathExists(projectPath)) {
-    layers.push({ config: await readConfigFile(projectPath, false), path: projectPath, explicit: false });
+    layers.push({
+      config: await readConfigFile(projectPath, false),
+      path: projectPath,
+      explicit: false,
+      root: projectPath,
+    });
   }
 
   if (layers.length === 0) {
     // Preserve prior behavior: a missing default config returns an empty list and assumes the project path.
-    layers.push({ config: { mcpServers: {} }, path: projectPath, explicit: false });
+    layers.push({ config: { mcpServers: {} }, path: projectPath, explicit: false, root: projectPath });
   }
 
-  return layers;
+  const expanded: ConfigLayer[] = [];
+  for (const layer of layers) {
+    expanded.push(...(await expandExtends(layer)));
+  }
+  return expanded;
 }
 
 export async function writeRawConfig(targetPath: string, config: RawConfig): Promise<void> {
@@ -209,7 +551,7 @@ async function readConfigFile(configPath: string, explicit: boolean): Promise<Ra
   }
   try {
     const buffer = await fs.readFile(configPath, 'utf8');
-    return RawConfigSchema.parse(JSON.parse(buffer));
+    return RawConfigSchema.parse(parseJsonBuffer(buffer));
   } catch (error) {
     if (!explicit && isMissingConfigError(error)) {
       return { mcpServers: {} };
@@ -3,27 +3,61 @@ import fs from 'node:fs/promises';
 import net from 'node:net';
 import path from 'node:path';
 import { listConfigLayerPaths } from '../config.js';
+import { DaemonConnection } from './connection.js';
 import { launchDaemonDetached } from './launch.js';
 import { getDaemonMetadataPath, getDaemonSocketPath } from './paths.js';
 import type {
   CallToolParams,
+  CancelParams,
   CloseServerParams,
+  CompleteParams,
+  ConfigReloadSummary,
+  DaemonEvent,
   DaemonRequest,
   DaemonRequestMethod,
   DaemonResponse,
+  ElicitationResponseParams,
+  GetPromptParams,
+  GetToolAnnotationsParams,
+  ListPromptsParams,
   ListResourcesParams,
+  ListResourceTemplatesParams,
   ListToolsParams,
+  ReadResourceParams,
+  SetRootsParams,
   StatusResult,
+  SubscribeResourceParams,
 } from './protocol.js';
 
 export interface DaemonClientOptions {
   readonly configPath: string;
   readonly configExplicit?: boolean;
   readonly rootDir?: string;
+  readonly profile?: string;
 }
 
 const DEFAULT_DAEMON_TIMEOUT_MS = 30_000;
 
+export interface DaemonCallOptions {
+  // onEvent receives progress frames; setting it switches the request to a streaming request.
+  readonly onEvent?: (event: DaemonEvent) => void;
+  // signal aborts the local wait and asks the daemon to cancel the upstream call.
+  readonly signal?: AbortSignal;
+}
+
+interface StreamOptions {
+  readonly persistent: boolean;
+  readonly timeoutMs?: number;
+  readonly signal?: AbortSignal;
+  // onClose runs when a persistent stream's connection drops after its response.
+  readonly onClose?: (error: Error) => void;
+}
+
+interface StreamHandle<T> {
+  readonly result: T;
+  readonly close: () => Promise<void>;
+}
+
 export interface DaemonPaths {
   readonly key: string;
   readonly socketPath: string;
@@ -40,8 +74,9 @@ interface DaemonMetadata {
   readonly logPath?: string | null;
 }
 
-export function resolveDaemonPaths(configPath: string): DaemonPaths {
-  const key = deriveConfigKey(configPath);
+// resolveDaemonPaths keys the daemon by config path and profile, so each profile gets its own daemon.
+export function resolveDaemonPaths(configPath: string, profile?: string): DaemonPaths {
+  const key = deriveConfigKey(configPath, profile);
   return {
     key,
     socketPath: getDaemonSocketPath(key),
@@ -53,29 +88,93 @@ export class DaemonClient {
   private readonly socketPath: string;
   private readonly metadataPath: string;
   private startingPromise: Promise<void> | null = null;
+  // connection is the shared multiplexed socket; singleShot records that the daemon predates it.
+  private connection: DaemonConnection | null = null;
+  private connecting: Promise<DaemonConnection | null> | null = null;
+  private singleShot = false;
 
   constructor(private readonly options: DaemonClientOptions) {
-    const paths = resolveDaemonPaths(options.configPath);
+    const paths = resolveDaemonPaths(options.configPath, options.profile);
     this.socketPath = paths.socketPath;
     this.metadataPath = paths.metadataPath;
   }
 
-  async callTool(params: CallToolParams): Promise<unknown> {
-    return this.invoke('callTool', params, params.timeoutMs);
+  // callTool streams progress events to onEvent when provided; otherwise it is a single request/response.
+  async callTool(params: CallToolParams, options: DaemonCallOptions = {}): Promise<unknown> {
+    if (!options.onEvent) {
+      return this.invoke('callTool', params, params.timeoutMs, options.signal);
+    }
+    const { result } = await this.invokeStream('callTool', params, options.onEvent, {
+      persistent: false,
+      timeoutMs: params.timeoutMs,
+      signal: options.signal,
+    });
+    return result;
   }
 
   async listTools(params: ListToolsParams): Promise<unknown> {
     return this.invoke('listTools', params);
   }
 
+  async getToolAnnotations(params: GetToolAnnotationsParams): Promise<unknown> {
+    return this.invoke('getToolAnnotations', params);
+  }
+
   async listResources(params: ListResourcesParams): Promise<unknown> {
     return this.invoke('listResources', params);
   }
 
+  async listResourceTemplates(params: ListResourceTemplatesParams): Promise<unknown> {
+    return this.invoke('listResourceTemplates', params);
+  }
+
+  async readResource(params: ReadResourceParams): Promise<unknown> {
+    return this.invoke('readResource', params);
+  }
+
+  // subscribeResource keeps a streaming connection open; events arrive until the disposer runs, or until
+  // the daemon goes away, which onClose reports.
+  async subscribeResource(
+    params: SubscribeResourceParams,
+    onEvent: (event: DaemonEvent) => void,
+    onClose?: (error: Error) => void
+  ): Promise<() => Promise<void>> {
+    const { close } = await this.invokeStream('subscribeResource', params, onEvent, { persistent: true, onClose });
+    return close;
+  }
+
+  async listPrompts(params: ListPromptsParams): Promise<unknown> {
+    return this.invoke('listPrompts', params);
+  }
+
+  async getPrompt(params: GetPromptParams): Promise<unknown> {
+    return this.invoke('getPrompt', params);
+  }
+
+  async complete(params: CompleteParams): Promise<unknown> {
+    return this.invoke('complete', params);
+  }
+
+  async setRoots(params: SetRootsParams): Promise<void> {
+    await this.invoke('setRoots', params);
+  }
+
+  // respondToElicitation answers an `elicitation` event received while streaming a call.
+  async respondToElicitation(params: ElicitationResponseParams): Promise<void> {
+    await this.invoke('elicitationResponse', params);
+  }
+
   async closeServer(params: CloseServerParams): Promise<void> {
     await this.invoke('closeServer', params);
   }
 
+  // disconnect closes the shared connection; the next request opens a new one.
+  async disconnect(): Promise<void> {
+    const connection = this.connection;
+    this.connection = null;
+    await connection?.close();
+  }
+
   async status(): Promise<StatusResult | null> {
     try {
       return (await this.sendRequest<StatusResult>('status', {})) as StatusResult;
@@ -98,25 +197,108 @@ export class DaemonClient {
     }
   }
 
-  private async invoke<T = unknown>(method: DaemonRequestMethod, params: unknown, timeoutMs?: number): Promise<T> {
+  private async invoke<T = unknown>(
+    method: DaemonRequestMethod,
+    params: unknown,
+    timeoutMs?: number,
+    signal?: AbortSignal
+  ): Promise<T> {
+    await this.ensureDaemon();
+    try {
+      return await this.request<T>(method, params, timeoutMs, signal);
+    } catch (error) {
+      if (isTransportError(error)) {
+        await this.restartDaemon();
+        return await this.request<T>(method, params, timeoutMs, signal);
+      }
+      throw error;
+    }
+  }
+
+  private async invokeStream<T = unknown>(
+    method: DaemonRequestMethod,
+    params: unknown,
+    onEvent: (event: DaemonEvent) => void,
+    options: StreamOptions
+  ): Promise<StreamHandle<T>> {
     await this.ensureDaemon();
     try {
-      return (await this.sendRequest<T>(method, params, timeoutMs)) as T;
+      return await this.stream<T>(method, params, onEvent, options);
     } catch (error) {
       if (isTransportError(error)) {
         await this.restartDaemon();
-        return (await this.sendRequest<T>(method, params, timeoutMs)) as T;
+        return await this.stream<T>(method, params, onEvent, options);
       }
       throw error;
     }
   }
 
+  // request sends over the shared connection, or a single-shot socket when the daemon predates it.
+  private async request<T>(
+    method: DaemonRequestMethod,
+    params: unknown,
+    timeoutMs?: number,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const connection = await this.getConnection();
+    if (!connection) {
+      return (await this.sendRequest<T>(method, params, timeoutMs, signal)) as T;
+    }
+    const { result } = await connection.request<T>(method, params, {
+      timeoutMs: resolveDaemonTimeout(timeoutMs),
+      signal,
+    });
+    return result;
+  }
+
+  private async stream<T>(
+    method: DaemonRequestMethod,
+    params: unknown,
+    onEvent: (event: DaemonEvent) => void,
+    options: StreamOptions
+  ): Promise<StreamHandle<T>> {
+    const connection = await this.getConnection();
+    if (!connection) {
+      return await this.openStream<T>(method, params, onEvent, options);
+    }
+    return await connection.request<T>(method, params, {
+      timeoutMs: resolveDaemonTimeout(options.timeoutMs),
+      signal: options.signal,
+      onEvent,
+      persistent: options.persistent,
+      onClose: options.onClose,
+    });
+  }
+
+  private async getConnection(): Promise<DaemonConnection | null> {
+    if (this.singleShot) {
+      return null;
+    }
+    if (this.connection && !this.connection.closed) {
+      return this.connection;
+    }
+    this.connecting ??= DaemonConnection.open(this.socketPath, resolveDaemonTimeout()).finally(() => {
+      this.connecting = null;
+    });
+    const connection = await this.connecting;
+    this.connection = connection;
+    this.singleShot = connection === null;
+    return connection;
+  }
+
   private async ensureDaemon(): Promise<void> {
     if (await this.isConfigStale()) {
+      if (await this.requestReload()) {
+        return;
+      }
       await this.stop().catch(() => {});
       await this.restartDaemon();
       return;
     }
+    // An open shared connection already proves the daemon is up.
+    if (this.connection && !this.connection.closed) {
+      return;
+    }
     const available = await this.isResponsive();
     if (available) {
       return;
@@ -126,6 +308,9 @@ export class DaemonClient {
   }
 
   private async restartDaemon(): Promise<void> {
+    // The replacement daemon gets a fresh connection and a fresh protocol negotiation.
+    await this.disconnect();
+    this.singleShot = false;
     await this.startDaemon();
     await this.waitForReady();
   }
@@ -141,6 +326,7 @@ export class DaemonClient {
           configPath: this.options.configPath,
           configExplicit: this.options.configExplicit,
           rootDir: this.options.rootDir,
+          profile: this.options.profile,
           metadataPath: this.metadataPath,
           socketPath: this.socketPath,
         });
@@ -174,6 +360,17 @@ export class DaemonClient {
     }
   }
 
+  // requestReload asks a running daemon to apply config edits in place, restarting only the servers whose
+  // definitions changed. False means it could not (not running, or too old to reload) and needs a restart.
+  private async requestReload(): Promise<boolean> {
+    try {
+      await this.sendRequest<ConfigReloadSummary>('reloadConfig', {});
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   private async isConfigStale(): Promise<boolean> {
     const metadata = await readDaemonMetadata(this.metadataPath);
     if (!metadata) {
@@ -196,7 +393,13 @@ export class DaemonClient {
     return false;
   }
 
-  private async sendRequest<T>(method: DaemonRequestMethod, params: unknown, timeoutOverrideMs?: number): Promise<T> {
+  private async sendRequest<T>(
+    method: DaemonRequestMethod,
+    params: unknown,
+    timeoutOverrideMs?: number,
+    signal?: AbortSignal
+  ): Promise<T> {
+    signal?.throwIfAborted();
     const request: DaemonRequest = {
       id: randomUUID(),
       method,
@@ -207,11 +410,17 @@ export class DaemonClient {
     const response = await new Promise<string>((resolve, reject) => {
       const socket = net.createConnection(this.socketPath);
       let settled = false;
+      const onAbort = (): void => {
+        this.requestCancel(request.id);
+        socket.destroy();
+        finishReject(signal?.reason as Error);
+      };
       const finishReject = (error: Error): void => {
         if (settled) {
           return;
         }
         settled = true;
+        signal?.removeEventListener('abort', onAbort);
         reject(error);
       };
       const finishResolve = (value: string): void => {
@@ -219,8 +428,10 @@ export class DaemonClient {
           return;
         }
         settled = true;
+        signal?.removeEventListener('abort', onAbort);
         resolve(value);
       };
+      signal?.addEventListener('abort', onAbort, { once: true });
       socket.setTimeout(timeoutMs, () => {
         // If the daemon doesn't answer in time we treat it as a transport error, destroy the socket,
         // and let invoke() restart the daemon so hung keep-alive servers get a fresh start.
@@ -268,11 +479,133 @@ export class DaemonClient {
     }
     return parsed.result as T;
   }
+
+  // requestCancel asks the daemon to abort an in-flight call. It is fire-and-forget: the caller has
+  // already rejected locally, and a daemon that is gone has nothing left to cancel.
+  private requestCancel(requestId: string): void {
+    const params: CancelParams = { requestId };
+    void this.sendRequest('cancel', params).catch(() => {});
+  }
+
+  // openStream sends a streaming request: the host answers with NDJSON event frames (forwarded to
+  // onEvent) and one response frame. Persistent streams keep the connection open after the response
+  // until close() runs; one-shot streams close as soon as the response arrives.
+  private async openStream<T>(
+    method: DaemonRequestMethod,
+    params: unknown,
+    onEvent: (event: DaemonEvent) => void,
+    options: StreamOptions
+  ): Promise<StreamHandle<T>> {
+    const signal = options.signal;
+    signal?.throwIfAborted();
+    const request: DaemonRequest = {
+      id: randomUUID(),
+      method,
+      params,
+      stream: true,
+    };
+    const timeoutMs = resolveDaemonTimeout(options.timeoutMs);
+    const socket = net.createConnection(this.socketPath);
+    socket.setEncoding('utf8');
+    let closedByCaller = false;
+    const result = await new Promise<T>((resolve, reject) => {
+      let settled = false;
+      let buffer = '';
+      const onAbort = (): void => {
+        this.requestCancel(request.id);
+        fail(signal?.reason as Error);
+      };
+      const fail = (error: Error): void => {
+        if (!settled) {
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+          socket.destroy();
+          reject(error);
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      // The timeout is idle-based, so event frames (e.g., progress) keep long calls alive.
+      socket.setTimeout(timeoutMs, () => {
+        socket.destroy(Object.assign(new Error('Daemon request timed out.'), { code: 'ETIMEDOUT' }));
+      });
+      socket.on('connect', () => {
+        socket.write(`${JSON.stringify(request)}\n`, (error) => {
+          if (error) {
+            fail(error);
+          }
+        });
+      });
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let newline = buffer.indexOf('\n');
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf('\n');
+          if (!line) {
+            continue;
+          }
+          let frame: DaemonResponse<T> | DaemonEvent;
+          try {
+            frame = JSON.parse(line) as DaemonResponse<T> | DaemonEvent;
+          } catch {
+            fail(Object.assign(new Error('Failed to parse daemon response.'), { code: 'ECONNRESET' }));
+            return;
+          }
+          if ('event' in frame) {
+            onEvent(frame);
+            continue;
+          }
+          if (settled) {
+            continue;
+          }
+          if (!frame.ok) {
+            fail(Object.assign(new Error(frame.error?.message ?? 'Daemon error'), { code: frame.error?.code }));
+            return;
+          }
+          settled = true;
+          signal?.removeEventListener('abort', onAbort);
+          if (options.persistent) {
+            // Persistent streams are long-lived; only the initial response is subject to the timeout.
+            socket.setTimeout(0);
+            socket.once('close', () => {
+              if (!closedByCaller) {
+                options.onClose?.(Object.assign(new Error('Daemon connection closed.'), { code: 'ECONNRESET' }));
+              }
+            });
+          } else {
+            socket.destroy();
+          }
+          resolve(frame.result as T);
+        }
+      });
+      socket.on('end', () => {
+        fail(Object.assign(new Error('Empty daemon response.'), { code: 'ECONNRESET' }));
+        socket.end();
+      });
+      socket.on('error', (error) => fail(error));
+    });
+    return {
+      result,
+      close: async () => {
+        closedByCaller = true;
+        if (socket.destroyed) {
+          return;
+        }
+        await new Promise<void>((resolve) => {
+          socket.once('close', () => resolve());
+          socket.destroy();
+        });
+      },
+    };
+  }
 }
 
-function deriveConfigKey(configPath: string): string {
+function deriveConfigKey(configPath: string, profile?: string): string {
   const absolute = path.resolve(configPath);
-  return crypto.createHash('sha1').update(absolute).digest('hex').slice(0, 12);
+  // Without a profile the key matches daemons started before profiles existed.
+  const identity = profile ? `${absolute}#profile=${profile}` : absolute;
+  return crypto.createHash('sha1').update(identity).digest('hex').slice(0, 12);
 }
 
 function isTransportError(error: unknown): boolean {
@@ -0,0 +1,100 @@
+import fsSync from 'node:fs';
+import type { ServerDefinition } from '../config.js';
+import type { Runtime } from '../runtime.js';
+
+export interface ServerDefinitionDiff {
+  readonly added: ServerDefinition[];
+  readonly removed: string[];
+  readonly changed: ServerDefinition[];
+}
+
+// Fields that only describe where a definition came from; moving a server between config layers or
+// editing its description does not warrant restarting it.
+const METADATA_FIELDS = new Set(['source', 'sources', 'description']);
+
+// diffServerDefinitions compares the daemon's managed servers with freshly loaded keep-alive definitions.
+// Servers that load one of `changedFiles` (edited env files) count as changed even if their entry did not.
+export function diffServerDefinitions(
+  current: ReadonlyMap<string, ServerDefinition>,
+  next: readonly ServerDefinition[],
+  changedFiles: ReadonlySet<string> = new Set()
+): ServerDefinitionDiff {
+  const nextByName = new Map(next.map((definition) => [definition.name, definition]));
+  const added: ServerDefinition[] = [];
+  const changed: ServerDefinition[] = [];
+  for (const definition of nextByName.values()) {
+    const previous = current.get(definition.name);
+    if (!previous) {
+      added.push(definition);
+    } else if (
+      fingerprint(previous) !== fingerprint(definition) ||
+      definition.envFiles?.some((file) => changedFiles.has(file))
+    ) {
+      changed.push(definition);
+    }
+  }
+  const removed = Array.from(current.keys()).filter((name) => !nextByName.has(name));
+  return { added, removed, changed };
+}
+
+// applyServerDefinitionDiff closes removed and changed servers and registers the new definitions; the
+// next request for a changed server launches it with its new definition.
+export async function applyServerDefinitionDiff(
+  runtime: Runtime,
+  managedServers: Map<string, ServerDefinition>,
+  diff: ServerDefinitionDiff
+): Promise<void> {
+  for (const name of diff.removed) {
+    await runtime.close(name).catch(() => {});
+    managedServers.delete(name);
+  }
+  for (const definition of diff.changed) {
+    await runtime.close(definition.name).catch(() => {});
+    runtime.registerDefinition(definition, { overwrite: true });
+    managedServers.set(definition.name, definition);
+  }
+  for (const definition of diff.added) {
+    runtime.registerDefinition(definition, { overwrite: true });
+    managedServers.set(definition.name, definition);
+  }
+}
+
+// watchConfigLayers polls each layer's stat so edits are noticed even when editors replace the file
+// (atomic renames break fs.watch handles). The returned function stops watching.
+export function watchConfigLayers(paths: readonly string[], onChange: () => void, intervalMs = 1_000): () => void {
+  const listener = (current: fsSync.Stats, previous: fsSync.Stats): void => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      onChange();
+    }
+  };
+  for (const layerPath of paths) {
+    fsSync.watchFile(layerPath, { interval: intervalMs, persistent: false }, listener);
+  }
+  return () => {
+    for (const layerPath of paths) {
+      fsSync.unwatchFile(layerPath, listener);
+    }
+  };
+}
+
+function fingerprint(definition: ServerDefinition): string {
+  return JSON.stringify(canonicalize(definition, true));
+}
+
+// canonicalize sorts object keys so equal definitions serialize identically regardless of key order.
+function canonicalize(value: unknown, topLevel = false): unknown {
+  if (value instanceof URL) {
+    return value.href;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => canonicalize(entry));
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => !(topLevel && METADATA_FIELDS.has(key)))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => [key, canonicalize(entry)]);
+    return Object.fromEntries(entries);
+  }
+  return value;
+}
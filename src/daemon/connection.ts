@@ -0,0 +1,284 @@
+import { randomUUID } from 'node:crypto';
+import net from 'node:net';
+import {
+  type CancelParams,
+  DAEMON_PROTOCOL_VERSION,
+  type DaemonEvent,
+  type DaemonRequest,
+  type DaemonRequestMethod,
+  type DaemonResponse,
+  type HelloParams,
+  type HelloResult,
+} from './protocol.js';
+
+export interface ConnectionRequestOptions {
+  readonly timeoutMs: number;
+  readonly signal?: AbortSignal;
+  // onEvent receives the request's event frames; setting it marks the request as streaming.
+  readonly onEvent?: (event: DaemonEvent) => void;
+  // persistent requests keep receiving events after their response until close() runs.
+  readonly persistent?: boolean;
+  // onClose tells a persistent request that the connection closed after its response arrived.
+  readonly onClose?: (error: Error) => void;
+}
+
+export interface ConnectionRequestHandle<T> {
+  readonly result: T;
+  readonly close: () => Promise<void>;
+}
+
+interface PendingRequest {
+  readonly onEvent?: (event: DaemonEvent) => void;
+  readonly persistent: boolean;
+  readonly onClose?: (error: Error) => void;
+  settled: boolean;
+  readonly resolve: (result: unknown) => void;
+  readonly reject: (error: Error) => void;
+  readonly touch: () => void;
+}
+
+// DaemonConnection is one long-lived, multiplexed socket to the daemon: requests are NDJSON frames
+// tagged with ids, and responses and events are routed back to their request as they arrive.
+export class DaemonConnection {
+  private readonly pending = new Map<string, PendingRequest>();
+  private buffer = '';
+  private closedError: Error | null = null;
+
+  private constructor(private readonly socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.consume(chunk));
+    socket.on('error', (error) => this.teardown(error));
+    socket.on('close', () => this.teardown(transportError('Daemon connection closed.', 'ECONNRESET')));
+    socket.on('end', () => socket.end());
+  }
+
+  // open connects and sends `hello`. It resolves to null when the daemon only speaks the single-shot
+  // protocol, and rejects with the socket error when nothing is listening.
+  static async open(socketPath: string, timeoutMs: number): Promise<DaemonConnection | null> {
+    const socket = net.createConnection(socketPath);
+    const accepted = await new Promise<boolean>((resolve, reject) => {
+      let buffer = '';
+      const cleanup = (): void => {
+        socket.setTimeout(0);
+        socket.off('data', onData);
+        socket.off('end', onEnd);
+        socket.off('error', onError);
+      };
+      const finish = (frame: string): void => {
+        cleanup();
+        let response: DaemonResponse<HelloResult> | undefined;
+        try {
+          response = JSON.parse(frame) as DaemonResponse<HelloResult>;
+        } catch {
+          response = undefined;
+        }
+        resolve(Boolean(response?.ok && typeof response.result?.protocol === 'number'));
+      };
+      const onData = (chunk: Buffer): void => {
+        buffer += chunk.toString();
+        const newline = buffer.indexOf('\n');
+        if (newline !== -1) {
+          finish(buffer.slice(0, newline));
+        }
+      };
+      // Single-shot hosts answer unknown requests without a trailing newline and close the socket.
+      const onEnd = (): void => finish(buffer.trim());
+      const onError = (error: Error): void => {
+        cleanup();
+        reject(error);
+      };
+      socket.on('data', onData);
+      socket.on('end', onEnd);
+      socket.on('error', onError);
+      socket.setTimeout(timeoutMs, () => {
+        socket.destroy(transportError('Daemon request timed out.', 'ETIMEDOUT'));
+      });
+      socket.on('connect', () => {
+        const params: HelloParams = { protocol: DAEMON_PROTOCOL_VERSION };
+        const hello: DaemonRequest = { id: randomUUID(), method: 'hello', params };
+        socket.write(`${JSON.stringify(hello)}\n`);
+      });
+    });
+    if (!accepted) {
+      socket.destroy();
+      return null;
+    }
+    const connection = new DaemonConnection(socket);
+    connection.updateRef();
+    return connection;
+  }
+
+  get closed(): boolean {
+    return this.closedError !== null;
+  }
+
+  async request<T>(
+    method: DaemonRequestMethod,
+    params: unknown,
+    options: ConnectionRequestOptions
+  ): Promise<ConnectionRequestHandle<T>> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+    if (this.closedError) {
+      throw this.closedError;
+    }
+    const request: DaemonRequest = { id: randomUUID(), method, params, ...(options.onEvent ? { stream: true } : {}) };
+    const result = await new Promise<T>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const stopWaiting = (): void => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const fail = (error: Error): void => {
+        if (entry.settled) {
+          return;
+        }
+        entry.settled = true;
+        stopWaiting();
+        this.pending.delete(request.id);
+        this.updateRef();
+        reject(error);
+      };
+      const onAbort = (): void => {
+        this.cancel(request.id);
+        fail(signal?.reason as Error);
+      };
+      // The timeout is idle-based like the single-shot sockets', so event frames keep long calls alive.
+      // A timed-out request counts as a transport failure so callers restart a hung daemon.
+      const touch = (): void => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          this.cancel(request.id);
+          fail(transportError('Daemon request timed out.', 'ETIMEDOUT'));
+        }, options.timeoutMs);
+      };
+      const entry: PendingRequest = {
+        onEvent: options.onEvent,
+        persistent: options.persistent ?? false,
+        onClose: options.onClose,
+        settled: false,
+        resolve: (value) => {
+          stopWaiting();
+          resolve(value as T);
+        },
+        reject: fail,
+        touch,
+      };
+      this.pending.set(request.id, entry);
+      this.updateRef();
+      signal?.addEventListener('abort', onAbort, { once: true });
+      touch();
+      this.socket.write(`${JSON.stringify(request)}\n`, (error) => {
+        if (error) {
+          fail(error);
+        }
+      });
+    });
+    return {
+      result,
+      close: async () => {
+        // Ending a persistent stream only drops its id; the connection stays open for other requests.
+        if (this.pending.delete(request.id)) {
+          this.updateRef();
+          this.cancel(request.id);
+        }
+      },
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.socket.destroyed) {
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      this.socket.once('close', () => resolve());
+      this.socket.destroy();
+    });
+  }
+
+  private consume(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      newline = this.buffer.indexOf('\n');
+      if (!line) {
+        continue;
+      }
+      let frame: DaemonResponse | DaemonEvent;
+      try {
+        frame = JSON.parse(line) as DaemonResponse | DaemonEvent;
+      } catch {
+        this.socket.destroy(transportError('Failed to parse daemon response.', 'ECONNRESET'));
+        return;
+      }
+      this.route(frame);
+    }
+  }
+
+  private route(frame: DaemonResponse | DaemonEvent): void {
+    const entry = this.pending.get(frame.id);
+    if (!entry) {
+      // Late frames for requests that already timed out, aborted, or closed are dropped.
+      return;
+    }
+    if ('event' in frame) {
+      if (!entry.settled) {
+        entry.touch();
+      }
+      entry.onEvent?.(frame);
+      return;
+    }
+    if (entry.settled) {
+      return;
+    }
+    if (!frame.ok) {
+      entry.reject(Object.assign(new Error(frame.error?.message ?? 'Daemon error'), { code: frame.error?.code }));
+      return;
+    }
+    entry.settled = true;
+    if (!entry.persistent) {
+      this.pending.delete(frame.id);
+      this.updateRef();
+    }
+    entry.resolve(frame.result);
+  }
+
+  // cancel is fire-and-forget: the caller has already stopped waiting for the request.
+  private cancel(requestId: string): void {
+    if (this.closedError) {
+      return;
+    }
+    const params: CancelParams = { requestId };
+    const request: DaemonRequest = { id: randomUUID(), method: 'cancel', params };
+    this.socket.write(`${JSON.stringify(request)}\n`);
+  }
+
+  private teardown(error: Error): void {
+    this.closedError ??= error;
+    const entries = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const entry of entries) {
+      // Persistent streams that already have their response can no longer be rejected; tell them instead.
+      if (entry.settled && entry.persistent) {
+        entry.onClose?.(this.closedError);
+      } else {
+        entry.reject(this.closedError);
+      }
+    }
+  }
+
+  // An idle connection must not keep the CLI process alive; open requests and streams do.
+  private updateRef(): void {
+    if (this.pending.size > 0) {
+      this.socket.ref();
+    } else {
+      this.socket.unref();
+    }
+  }
+}
+
+function transportError(message: string, code: string): Error {
+  return Object.assign(new Error(message), { code });
+}
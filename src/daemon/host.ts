@@ -1,20 +1,47 @@
+import { randomUUID } from 'node:crypto';
 import fsSync from 'node:fs';
 import fs from 'node:fs/promises';
 import net from 'node:net';
 import path from 'node:path';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import type { ServerDefinition } from '../config.js';
-import { listConfigLayerPaths } from '../config.js';
-import { isKeepAliveServer, keepAliveIdleTimeout } from '../lifecycle.js';
-import { createRuntime, type Runtime } from '../runtime.js';
-import type {
-  CallToolParams,
-  CloseServerParams,
-  DaemonRequest,
-  DaemonResponse,
-  ListResourcesParams,
-  ListToolsParams,
-  StatusResult,
+import { listConfigLayerPaths, loadServerDefinitions } from '../config.js';
+import { isKeepAliveServer, keepAliveIdleTimeout, keepAlivePrewarm } from '../lifecycle.js';
+import { ToolNotAllowedError } from '../runtime/tool-policy.js';
+import type { ClientContext } from '../runtime/transport.js';
+import { createRuntime, type ElicitationHandler, type Runtime } from '../runtime.js';
+import { redactSecrets } from '../secrets.js';
+import { applyServerDefinitionDiff, diffServerDefinitions, watchConfigLayers } from './config-reload.js';
+import { type DaemonHttpHandle, listenDaemonHttp } from './http-endpoint.js';
+import { ServerMetricsRegistry } from './metrics.js';
+import {
+  type CallToolParams,
+  type CancelParams,
+  type CancelResult,
+  type CloseServerParams,
+  type CompleteParams,
+  type ConfigReloadSummary,
+  DAEMON_PROTOCOL_VERSION,
+  type DaemonEventName,
+  type DaemonRequest,
+  type DaemonResponse,
+  type ElicitationEventParams,
+  type ElicitationResponseParams,
+  type GetPromptParams,
+  type GetToolAnnotationsParams,
+  type HelloResult,
+  type ListPromptsParams,
+  type ListResourcesParams,
+  type ListResourceTemplatesParams,
+  type ListToolsParams,
+  type ReadResourceParams,
+  type SetRootsParams,
+  type StatusResult,
+  type SubscribeResourceParams,
+  type SubscriptionClosedParams,
+  TOOL_NOT_ALLOWED_CODE,
 } from './protocol.js';
+import { type CrashDecision, ServerSupervisor } from './supervisor.js';
 
 interface DaemonHostOptions {
   readonly socketPath: string;
@@ -22,14 +49,47 @@ interface DaemonHostOptions {
   readonly configPath: string;
   readonly configExplicit?: boolean;
   readonly rootDir?: string;
+  readonly profile?: string;
   readonly logPath?: string;
   readonly logServers?: Set<string>;
   readonly logAllServers?: boolean;
+  // httpPort enables the loopback Streamable HTTP listener (0 picks a free port).
+  readonly httpPort?: number;
 }
 
+type DaemonEmitter = (event: DaemonEventName, params: unknown) => void;
+
+// RequestMetadata is the host state reported by `status`; config reloads update it in place.
+interface RequestMetadata {
+  configPath: string;
+  configLayers: Array<{ path: string; mtimeMs: number | null }>;
+  configMtimeMs: number | null;
+  socketPath: string;
+  startedAt: number;
+  logPath: string | null;
+  httpUrl?: string | null;
+  lastReload?: ConfigReloadSummary;
+}
+
+// inFlightCalls maps callTool request ids to their abort controllers so a `cancel` request (sent on a
+// separate connection) can stop the upstream call without closing the keep-alive server.
+const inFlightCalls = new Map<string, AbortController>();
+
+// pendingElicitations holds elicitations forwarded to a calling CLI, keyed by elicitationId, until its
+// `elicitationResponse` request arrives (or the call ends).
+const pendingElicitations = new Map<string, (result: ElicitationResponseParams['result']) => void>();
+
+// serverMetrics accumulates per-server call, error, latency, and restart counts reported by `status`.
+const serverMetrics = new ServerMetricsRegistry();
+
+// serverSupervisor restarts keep-alive servers whose connections die on their own and launches prewarmed ones.
+const serverSupervisor = new ServerSupervisor();
+
 interface ServerActivity {
   connected: boolean;
   lastUsedAt?: number;
+  // subscriptions counts open resource watch streams; servers with watchers are never idle-evicted.
+  subscriptions?: number;
 }
 
 export async function runDaemonHost(options: DaemonHostOptions): Promise<void> {
@@ -37,6 +97,27 @@ export async function runDaemonHost(options: DaemonHostOptions): Promise<void> {
   const runtime = await createRuntime({
     configPath: options.configExplicit ? options.configPath : undefined,
     rootDir: options.rootDir,
+    profile: options.profile,
+    // Advertise elicitation so servers can ask for input; calls from streaming CLI clients answer it
+    // (see forwardElicitation), anything else has nobody to ask and declines.
+    onElicitation: async () => ({ action: 'decline' }),
+    auditOrigin: 'daemon',
+    onServerConnected: (server, context) => {
+      serverMetrics.recordConnected(server, stdioPid(context));
+      serverSupervisor.connected(server);
+    },
+    onServerDisconnected: (server, reason) => {
+      if (!managedServers.has(server)) {
+        return;
+      }
+      logEvent(logContext, `Server ${server} disconnected: ${reason.message}`);
+      serverMetrics.recordCrashed(server);
+      const entry = activity.get(server);
+      if (entry) {
+        entry.connected = false;
+      }
+      serverSupervisor.crashed(server, reason, superviseServer(server), logCrash(server));
+    },
   });
   const keepAliveDefinitions = runtime.getDefinitions().filter(isKeepAliveServer);
   if (keepAliveDefinitions.length === 0) {
@@ -79,15 +160,102 @@ export async function runDaemonHost(options: DaemonHostOptions): Promise<void> {
 
   logEvent(logContext, 'Daemon host started.');
 
+  // startServer (re)launches a managed server for the supervisor; requests reuse the connection it opens.
+  const startServer = async (server: string): Promise<void> => {
+    if (!managedServers.has(server)) {
+      return;
+    }
+    await runtime.connect(server);
+    const entry = activity.get(server);
+    if (entry) {
+      entry.connected = true;
+    }
+  };
+  const superviseServer = (server: string) => () => startServer(server);
+  const logCrash = (server: string) => (decision: CrashDecision) => {
+    logEvent(logContext, `Supervisor ${server}: ${describeCrashDecision(decision)}`);
+  };
+
+  const httpEndpoint = await startHttpEndpoint(options, runtime, managedServers, activity, logContext);
+  const httpUrl = httpEndpoint?.url ?? null;
+
   const startedAt = Date.now();
+  const requestMetadata: RequestMetadata = {
+    configPath: options.configPath,
+    configLayers,
+    socketPath: options.socketPath,
+    startedAt,
+    logPath: options.logPath ?? null,
+    httpUrl,
+    configMtimeMs,
+  };
+  // Config edits are applied in place: reloads run one at a time, and only servers whose definitions
+  // changed are restarted.
+  let reloadQueue: Promise<unknown> = Promise.resolve();
+  // Assigned below, once reloadConfig exists for the watcher to call.
+  let stopWatching: () => void = () => {};
+  const reloadConfig = (): Promise<ConfigReloadSummary> => {
+    const run = async (): Promise<ConfigReloadSummary> => {
+      const watched = layerPaths(requestMetadata);
+      const summary = await reloadManagedServers(
+        options,
+        runtime,
+        managedServers,
+        activity,
+        requestMetadata,
+        httpEndpoint,
+        logContext
+      );
+      for (const name of [...summary.added, ...summary.restarted]) {
+        const definition = managedServers.get(name);
+        if (definition && keepAlivePrewarm(definition)) {
+          serverSupervisor.prewarm(name, superviseServer(name), logCrash(name));
+        }
+      }
+      const current = layerPaths(requestMetadata);
+      if (current.join('\n') !== watched.join('\n')) {
+        stopWatching();
+        stopWatching = watchConfigLayers(current, () => {
+          void reloadConfig().catch(() => {});
+        });
+      }
+      return summary;
+    };
+    const next = reloadQueue.then(run, run);
+    reloadQueue = next.catch(() => {});
+    return next;
+  };
+
+  stopWatching = watchConfigLayers(layerPaths(requestMetadata), () => {
+    void reloadConfig().catch(() => {});
+  });
+
   const server = net.createServer({ allowHalfOpen: true }, (socket) => {
     socket.setEncoding('utf8');
     let buffer = '';
     let handled = false;
+    let multiplexed: MultiplexedConnection | undefined;
     const tryHandle = () => {
       if (handled) {
         return;
       }
+      // A newline-terminated hello as the first frame switches the socket to multiplexed NDJSON.
+      const newline = buffer.indexOf('\n');
+      if (newline !== -1 && isHelloFrame(buffer.slice(0, newline))) {
+        handled = true;
+        multiplexed = serveMultiplexed(
+          socket,
+          runtime,
+          managedServers,
+          activity,
+          requestMetadata,
+          logContext,
+          shutdown,
+          reloadConfig
+        );
+        multiplexed.push(buffer);
+        return;
+      }
       const trimmed = buffer.trim();
       if (trimmed.length === 0) {
         return;
@@ -107,20 +275,18 @@ export async function runDaemonHost(options: DaemonHostOptions): Promise<void> {
         runtime,
         managedServers,
         activity,
-        {
-          configPath: options.configPath,
-          configLayers,
-          socketPath: options.socketPath,
-          startedAt,
-          logPath: options.logPath ?? null,
-          configMtimeMs,
-        },
+        requestMetadata,
         logContext,
         shutdown,
+        reloadConfig,
         parsedRequest
       );
     };
-    socket.on('data', (chunk) => {
+    socket.on('data', (chunk: string) => {
+      if (multiplexed) {
+        multiplexed.push(chunk);
+        return;
+      }
       buffer += chunk;
       tryHandle();
     });
@@ -143,23 +309,13 @@ export async function runDaemonHost(options: DaemonHostOptions): Promise<void> {
     });
   });
 
-  await fs.writeFile(
-    options.metadataPath,
-    JSON.stringify(
-      {
-        pid: process.pid,
-        socketPath: options.socketPath,
-        configPath: options.configPath,
-        configLayers,
-        startedAt: Date.now(),
-        logPath: options.logPath ?? null,
-        configMtimeMs,
-      },
-      null,
-      2
-    ),
-    'utf8'
-  );
+  await writeDaemonMetadata(options, requestMetadata);
+
+  for (const definition of managedServers.values()) {
+    if (keepAlivePrewarm(definition)) {
+      serverSupervisor.prewarm(definition.name, superviseServer(definition.name), logCrash(definition.name));
+    }
+  }
 
   let shuttingDown = false;
   const shutdown = async (): Promise<void> => {
@@ -169,7 +325,10 @@ export async function runDaemonHost(options: DaemonHostOptions): Promise<void> {
     shuttingDown = true;
     logEvent(logContext, 'Shutting down daemon host.');
     clearInterval(idleWatcher);
+    serverSupervisor.stop();
+    stopWatching();
     server.close();
+    await httpEndpoint?.close().catch(() => {});
     await runtime.close().catch(() => {});
     await disposeLogContext(logContext).catch(() => {});
     await cleanupArtifacts(options);
@@ -181,6 +340,165 @@ export async function runDaemonHost(options: DaemonHostOptions): Promise<void> {
   process.once('SIGQUIT', shutdown);
 }
 
+// startHttpEndpoint serves managed servers over loopback HTTP when requested. A busy port only disables
+// the listener so CLI calls through the socket keep working.
+async function startHttpEndpoint(
+  options: DaemonHostOptions,
+  runtime: Runtime,
+  managedServers: Map<string, ServerDefinition>,
+  activity: Map<string, ServerActivity>,
+  logContext: LogContext
+): Promise<DaemonHttpHandle | undefined> {
+  if (options.httpPort === undefined) {
+    return undefined;
+  }
+  try {
+    const handle = await listenDaemonHttp({
+      runtime,
+      servers: Array.from(managedServers.keys()),
+      port: options.httpPort,
+      onActivity: (name) => markActivity(name, activity),
+    });
+    logEvent(logContext, `HTTP endpoint listening on ${handle.url}/servers/<name>/mcp`);
+    return handle;
+  } catch (error) {
+    logEvent(logContext, `HTTP endpoint disabled: ${formatError(error)}`);
+    console.error(`[mcporter] Daemon HTTP endpoint disabled: ${formatError(error)}`);
+    return undefined;
+  }
+}
+
+// reloadManagedServers re-reads changed config layers and applies the keep-alive server diff in place, so
+// servers whose definitions did not change keep their processes (and browser sessions).
+async function reloadManagedServers(
+  options: DaemonHostOptions,
+  runtime: Runtime,
+  managedServers: Map<string, ServerDefinition>,
+  activity: Map<string, ServerActivity>,
+  metadata: RequestMetadata,
+  httpEndpoint: DaemonHttpHandle | undefined,
+  logContext: LogContext
+): Promise<ConfigReloadSummary> {
+  const reloadedAt = Date.now();
+  const configLayers = await collectConfigLayers(options);
+  if (sameLayers(configLayers, metadata.configLayers)) {
+    return { reloadedAt, added: [], removed: [], restarted: [] };
+  }
+  let definitions: ServerDefinition[];
+  try {
+    definitions = await loadServerDefinitions({
+      configPath: options.configExplicit ? options.configPath : undefined,
+      rootDir: options.rootDir,
+      profile: options.profile,
+    });
+  } catch (error) {
+    // Keep serving the previous config; the next edit (or client request) retries.
+    const failed: ConfigReloadSummary = {
+      reloadedAt,
+      added: [],
+      removed: [],
+      restarted: [],
+      error: formatError(error),
+    };
+    metadata.lastReload = failed;
+    logEvent(logContext, `Config reload failed: ${failed.error}`);
+    return failed;
+  }
+  const diff = diffServerDefinitions(
+    managedServers,
+    definitions.filter(isKeepAliveServer),
+    changedLayerPaths(metadata.configLayers, configLayers)
+  );
+  for (const definition of diff.changed) {
+    serverMetrics.recordClosed(definition.name);
+    serverSupervisor.forget(definition.name);
+  }
+  await applyServerDefinitionDiff(runtime, managedServers, diff);
+  for (const name of diff.removed) {
+    activity.delete(name);
+    serverMetrics.forget(name);
+    serverSupervisor.forget(name);
+  }
+  for (const definition of [...diff.added, ...diff.changed]) {
+    activity.set(definition.name, { connected: false });
+  }
+  const summary: ConfigReloadSummary = {
+    reloadedAt,
+    added: diff.added.map((definition) => definition.name),
+    removed: diff.removed,
+    restarted: diff.changed.map((definition) => definition.name),
+  };
+  metadata.configLayers = configLayers;
+  metadata.configMtimeMs = await statConfigMtime(options.configPath);
+  if (summary.added.length + summary.removed.length + summary.restarted.length > 0) {
+    metadata.lastReload = summary;
+  }
+  await httpEndpoint?.setServers(Array.from(managedServers.keys()));
+  await writeDaemonMetadata(options, metadata);
+  logEvent(
+    logContext,
+    `Config reloaded added=[${summary.added.join(',')}] removed=[${summary.removed.join(',')}] restarted=[${summary.restarted.join(',')}]`
+  );
+  return summary;
+}
+
+function sameLayers(
+  left: Array<{ path: string; mtimeMs: number | null }>,
+  right: Array<{ path: string; mtimeMs: number | null }>
+): boolean {
+  return (
+    left.length === right.length &&
+    left.every((layer, index) => layer.path === right[index]?.path && layer.mtimeMs === right[index]?.mtimeMs)
+  );
+}
+
+// changedLayerPaths lists files that appeared, disappeared, or were modified between two layer snapshots.
+function changedLayerPaths(
+  previous: Array<{ path: string; mtimeMs: number | null }>,
+  next: Array<{ path: string; mtimeMs: number | null }>
+): Set<string> {
+  const before = new Map(previous.map((layer) => [layer.path, layer.mtimeMs]));
+  const after = new Map(next.map((layer) => [layer.path, layer.mtimeMs]));
+  const changed = new Set<string>();
+  for (const [file, mtimeMs] of after) {
+    if (!before.has(file) || before.get(file) !== mtimeMs) {
+      changed.add(file);
+    }
+  }
+  for (const file of before.keys()) {
+    if (!after.has(file)) {
+      changed.add(file);
+    }
+  }
+  return changed;
+}
+
+function layerPaths(metadata: RequestMetadata): string[] {
+  return metadata.configLayers.map((layer) => layer.path);
+}
+
+// writeDaemonMetadata records what clients need to find the daemon and to tell whether its config is current.
+async function writeDaemonMetadata(options: DaemonHostOptions, metadata: RequestMetadata): Promise<void> {
+  await fs.writeFile(
+    options.metadataPath,
+    JSON.stringify(
+      {
+        pid: process.pid,
+        socketPath: options.socketPath,
+        configPath: options.configPath,
+        configLayers: metadata.configLayers,
+        startedAt: metadata.startedAt,
+        logPath: metadata.logPath,
+        httpUrl: metadata.httpUrl ?? null,
+        configMtimeMs: metadata.configMtimeMs,
+      },
+      null,
+      2
+    ),
+    'utf8'
+  );
+}
+
 async function prepareSocket(socketPath: string): Promise<void> {
   if (process.platform === 'win32') {
     return;
@@ -239,18 +557,25 @@ async function handleSocketRequest(
   runtime: Runtime,
   managedServers: Map<string, ServerDefinition>,
   activity: Map<string, ServerActivity>,
-  metadata: {
-    configPath: string;
-    configLayers: Array<{ path: string; mtimeMs: number | null }>;
-    configMtimeMs: number | null;
-    socketPath: string;
-    startedAt: number;
-    logPath: string | null;
-  },
+  metadata: RequestMetadata,
   logContext: LogContext,
   shutdown: () => Promise<void>,
+  reloadConfig: () => Promise<ConfigReloadSummary>,
   preParsedRequest?: DaemonRequest
 ): Promise<void> {
+  if (preParsedRequest?.method === 'subscribeResource') {
+    await handleSubscription(preParsedRequest, socketChannel(socket), runtime, managedServers, activity, logContext);
+    return;
+  }
+  // Streaming requests receive NDJSON: event frames as they happen, then the newline-terminated response.
+  const streaming = preParsedRequest?.stream === true;
+  const emit: DaemonEmitter | undefined = streaming
+    ? (event, params) => {
+        if (!socket.destroyed) {
+          socket.write(`${JSON.stringify({ id: preParsedRequest?.id ?? 'unknown', event, params })}\n`);
+        }
+      }
+    : undefined;
   const { response, shouldShutdown } = await processRequest(
     rawPayload,
     runtime,
@@ -258,9 +583,11 @@ async function handleSocketRequest(
     activity,
     metadata,
     logContext,
-    preParsedRequest
+    preParsedRequest,
+    emit,
+    reloadConfig
   );
-  socket.write(JSON.stringify(response), () => {
+  socket.write(streaming ? `${JSON.stringify(response)}\n` : JSON.stringify(response), () => {
     socket.end(() => {
       if (shouldShutdown) {
         void shutdown();
@@ -269,21 +596,272 @@ async function handleSocketRequest(
   });
 }
 
+interface MultiplexedConnection {
+  push(chunk: string): void;
+}
+
+// serveMultiplexed handles a socket opened with `hello`: every NDJSON line is a request, requests run
+// concurrently, and their events and responses are written as they happen, tagged with the request id.
+function serveMultiplexed(
+  socket: net.Socket,
+  runtime: Runtime,
+  managedServers: Map<string, ServerDefinition>,
+  activity: Map<string, ServerActivity>,
+  metadata: RequestMetadata,
+  logContext: LogContext,
+  shutdown: () => Promise<void>,
+  reloadConfig?: () => Promise<ConfigReloadSummary>
+): MultiplexedConnection {
+  // subscriptions maps subscribeResource request ids to the function that ends that stream.
+  const subscriptions = new Map<string, () => void>();
+  let buffer = '';
+  const writeFrame = (frame: unknown): void => {
+    if (!socket.destroyed) {
+      socket.write(`${JSON.stringify(frame)}\n`);
+    }
+  };
+  const dispatch = async (line: string): Promise<void> => {
+    let request: DaemonRequest;
+    try {
+      request = JSON.parse(line) as DaemonRequest;
+    } catch (error) {
+      writeFrame(buildErrorResponse('unknown', 'invalid_json', error));
+      return;
+    }
+    const id = request.id ?? 'unknown';
+    if (request.method === 'hello') {
+      const result: HelloResult = { protocol: DAEMON_PROTOCOL_VERSION };
+      writeFrame({ id, ok: true, result });
+      return;
+    }
+    if (request.method === 'subscribeResource') {
+      const channel = subscriptionChannel(id, subscriptions, writeFrame, () => socket.destroyed);
+      await handleSubscription(request, channel, runtime, managedServers, activity, logContext);
+      return;
+    }
+    if (request.method === 'cancel') {
+      const end = subscriptions.get((request.params as CancelParams).requestId);
+      if (end) {
+        end();
+        const result: CancelResult = { cancelled: true };
+        writeFrame({ id, ok: true, result });
+        return;
+      }
+    }
+    const emit: DaemonEmitter | undefined = request.stream
+      ? (event, params) => writeFrame({ id, event, params })
+      : undefined;
+    const { response, shouldShutdown } = await processRequest(
+      line,
+      runtime,
+      managedServers,
+      activity,
+      metadata,
+      logContext,
+      request,
+      emit,
+      reloadConfig
+    );
+    writeFrame(response);
+    if (shouldShutdown) {
+      socket.end(() => {
+        void shutdown();
+      });
+    }
+  };
+  socket.on('end', () => {
+    socket.end();
+  });
+  socket.once('close', () => {
+    for (const end of Array.from(subscriptions.values())) {
+      end();
+    }
+  });
+  return {
+    push: (chunk) => {
+      buffer += chunk;
+      let newline = buffer.indexOf('\n');
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+        if (line) {
+          void dispatch(line);
+        }
+      }
+    },
+  };
+}
+
+function isHelloFrame(line: string): boolean {
+  try {
+    return (JSON.parse(line) as Partial<DaemonRequest>).method === 'hello';
+  } catch {
+    return false;
+  }
+}
+
+// FrameChannel is where a subscription writes its frames: a dedicated single-shot socket, or one
+// request id on a multiplexed connection.
+interface FrameChannel {
+  readonly closed: () => boolean;
+  write(frame: unknown): void;
+  // fail writes the final error frame; single-shot sockets close after it.
+  fail(frame: unknown): void;
+  onClose(listener: () => void): void;
+}
+
+function socketChannel(socket: net.Socket): FrameChannel {
+  return {
+    closed: () => socket.destroyed,
+    write: (frame) => {
+      if (!socket.destroyed) {
+        socket.write(`${JSON.stringify(frame)}\n`);
+      }
+    },
+    fail: (frame) => {
+      socket.end(`${JSON.stringify(frame)}\n`);
+    },
+    onClose: (listener) => {
+      socket.once('close', listener);
+    },
+  };
+}
+
+// subscriptionChannel scopes a subscription to its request id; it ends on `cancel` or when the
+// connection closes, whichever comes first.
+function subscriptionChannel(
+  id: string,
+  subscriptions: Map<string, () => void>,
+  writeFrame: (frame: unknown) => void,
+  socketClosed: () => boolean
+): FrameChannel {
+  let ended = false;
+  let onEnd: (() => void) | undefined;
+  subscriptions.set(id, () => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    subscriptions.delete(id);
+    onEnd?.();
+  });
+  return {
+    closed: () => ended || socketClosed(),
+    write: (frame) => {
+      if (!ended) {
+        writeFrame(frame);
+      }
+    },
+    fail: (frame) => {
+      ended = true;
+      subscriptions.delete(id);
+      writeFrame(frame);
+    },
+    onClose: (listener) => {
+      onEnd = listener;
+    },
+  };
+}
+
+// handleSubscription keeps the channel open and streams resourceUpdated events as NDJSON until the
+// client disconnects (or cancels the stream), at which point the upstream subscription is released.
+async function handleSubscription(
+  request: DaemonRequest,
+  channel: FrameChannel,
+  runtime: Runtime,
+  managedServers: Map<string, ServerDefinition>,
+  activity: Map<string, ServerActivity>,
+  logContext: LogContext
+): Promise<void> {
+  const id = request.id ?? 'unknown';
+  const params = request.params as SubscribeResourceParams;
+  const loggable = shouldLogServer(logContext, params.server);
+  let dispose: (() => Promise<void>) | undefined;
+  // The upstream subscription can end on its own (the server exited); the client's stream ends with it.
+  let endStream: ((error: Error) => void) | undefined;
+  let closedEarly: Error | undefined;
+  try {
+    ensureManaged(params.server, managedServers);
+    dispose = await runtime.subscribeResource(
+      params.server,
+      params.uri,
+      (update) => {
+        markActivity(params.server, activity);
+        channel.write({ id, event: 'resourceUpdated', params: update });
+      },
+      (error) => {
+        if (endStream) {
+          endStream(error);
+        } else {
+          closedEarly = error;
+        }
+      }
+    );
+  } catch (error) {
+    if (loggable) {
+      logEvent(
+        logContext,
+        `subscribeResource error server=${params.server} uri=${params.uri} err=${formatError(error)}`
+      );
+    }
+    channel.fail(buildErrorResponse(id, 'runtime_error', error));
+    return;
+  }
+  if (channel.closed()) {
+    // The client went away while the upstream subscription was being established.
+    await dispose().catch(() => {});
+    return;
+  }
+  markActivity(params.server, activity);
+  const entry = activity.get(params.server);
+  if (entry) {
+    entry.subscriptions = (entry.subscriptions ?? 0) + 1;
+  }
+  if (loggable) {
+    logEvent(logContext, `subscribeResource start server=${params.server} uri=${params.uri}`);
+  }
+  const release = dispose;
+  let finished = false;
+  const finish = (error?: Error): void => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    const current = activity.get(params.server);
+    if (current?.subscriptions) {
+      current.subscriptions -= 1;
+    }
+    if (loggable) {
+      const suffix = error ? ` err=${formatError(error)}` : '';
+      logEvent(logContext, `subscribeResource end server=${params.server} uri=${params.uri}${suffix}`);
+    }
+  };
+  channel.onClose(() => {
+    finish();
+    void release().catch(() => {});
+  });
+  channel.write({ id, ok: true, result: { subscribed: true } });
+  endStream = (error) => {
+    finish(error);
+    const closed: SubscriptionClosedParams = { message: error.message };
+    channel.fail({ id, event: 'subscriptionClosed', params: closed });
+  };
+  if (closedEarly) {
+    endStream(closedEarly);
+  }
+}
+
 async function processRequest(
   rawPayload: string,
   runtime: Runtime,
   managedServers: Map<string, ServerDefinition>,
   activity: Map<string, ServerActivity>,
-  metadata: {
-    configPath: string;
-    configLayers: Array<{ path: string; mtimeMs: number | null }>;
-    configMtimeMs: number | null;
-    socketPath: string;
-    startedAt: number;
-    logPath: string | null;
-  },
+  metadata: RequestMetadata,
   logContext: LogContext,
-  preParsedRequest?: DaemonRequest
+  preParsedRequest?: DaemonRequest,
+  emit?: DaemonEmitter,
+  reloadConfig?: () => Promise<ConfigReloadSummary>
 ): Promise<{ response: DaemonResponse; shouldShutdown: boolean }> {
   const trimmed = rawPayload.trim();
   if (!trimmed && !preParsedRequest) {
@@ -315,22 +893,42 @@ async function processRequest(
         if (loggable) {
           logEvent(logContext, `callTool start server=${params.server} tool=${params.tool}`);
         }
+        const controller = new AbortController();
+        inFlightCalls.set(id, controller);
+        const elicitations = new Set<string>();
+        const callStartedAt = Date.now();
         try {
           const result = await runtime.callTool(params.server, params.tool, {
             args: params.args ?? {},
             timeoutMs: params.timeoutMs,
+            traceparent: params.traceparent,
+            onProgress: emit ? (progress) => emit('progress', progress) : undefined,
+            onLog: emit ? (message) => emit('log', message) : undefined,
+            onElicitation: emit ? forwardElicitation(emit, elicitations) : undefined,
+            signal: controller.signal,
           });
           markActivity(params.server, activity);
+          serverMetrics.recordCall(params.server, Date.now() - callStartedAt);
           if (loggable) {
             logEvent(logContext, `callTool success server=${params.server} tool=${params.tool}`);
           }
           return { response: { id, ok: true, result }, shouldShutdown: false };
         } catch (error) {
+          // A cancelled call says nothing about the server's health.
+          if (!controller.signal.aborted) {
+            serverMetrics.recordCall(params.server, Date.now() - callStartedAt, error);
+          }
           if (loggable) {
             const detail = formatError(error);
             logEvent(logContext, `callTool error server=${params.server} tool=${params.tool} err=${detail}`);
           }
           throw error;
+        } finally {
+          inFlightCalls.delete(id);
+          // Anything still unanswered has no caller left to answer it.
+          for (const elicitationId of elicitations) {
+            pendingElicitations.get(elicitationId)?.({ action: 'cancel' });
+          }
         }
       }
       case 'listTools': {
@@ -358,6 +956,28 @@ async function processRequest(
           throw error;
         }
       }
+      case 'getToolAnnotations': {
+        const params = request.params as GetToolAnnotationsParams;
+        ensureManaged(params.server, managedServers);
+        const loggable = shouldLogServer(logContext, params.server);
+        if (loggable) {
+          logEvent(logContext, `getToolAnnotations start server=${params.server} tool=${params.tool}`);
+        }
+        try {
+          const result = (await runtime.getToolAnnotations(params.server, params.tool)) ?? null;
+          markActivity(params.server, activity);
+          if (loggable) {
+            logEvent(logContext, `getToolAnnotations success server=${params.server} tool=${params.tool}`);
+          }
+          return { response: { id, ok: true, result }, shouldShutdown: false };
+        } catch (error) {
+          if (loggable) {
+            const detail = formatError(error);
+            logEvent(logContext, `getToolAnnotations error server=${params.server} tool=${params.tool} err=${detail}`);
+          }
+          throw error;
+        }
+      }
       case 'listResources': {
         const params = request.params as ListResourcesParams;
         ensureManaged(params.server, managedServers);
@@ -380,6 +1000,142 @@ async function processRequest(
           throw error;
         }
       }
+      case 'listResourceTemplates': {
+        const params = request.params as ListResourceTemplatesParams;
+        ensureManaged(params.server, managedServers);
+        const loggable = shouldLogServer(logContext, params.server);
+        if (loggable) {
+          logEvent(logContext, `listResourceTemplates start server=${params.server}`);
+        }
+        try {
+          const result = await runtime.listResourceTemplates(params.server);
+          markActivity(params.server, activity);
+          if (loggable) {
+            logEvent(logContext, `listResourceTemplates success server=${params.server}`);
+          }
+          return { response: { id, ok: true, result }, shouldShutdown: false };
+        } catch (error) {
+          if (loggable) {
+            const detail = formatError(error);
+            logEvent(logContext, `listResourceTemplates error server=${params.server} err=${detail}`);
+          }
+          throw error;
+        }
+      }
+      case 'readResource': {
+        const params = request.params as ReadResourceParams;
+        ensureManaged(params.server, managedServers);
+        const loggable = shouldLogServer(logContext, params.server);
+        if (loggable) {
+          logEvent(logContext, `readResource start server=${params.server} uri=${params.uri}`);
+        }
+        try {
+          const result = await runtime.readResource(params.server, params.uri);
+          markActivity(params.server, activity);
+          if (loggable) {
+            logEvent(logContext, `readResource success server=${params.server} uri=${params.uri}`);
+          }
+          return { response: { id, ok: true, result }, shouldShutdown: false };
+        } catch (error) {
+          if (loggable) {
+            const detail = formatError(error);
+            logEvent(logContext, `readResource error server=${params.server} uri=${params.uri} err=${detail}`);
+          }
+          throw error;
+        }
+      }
+      case 'listPrompts': {
+        const params = request.params as ListPromptsParams;
+        ensureManaged(params.server, managedServers);
+        const loggable = shouldLogServer(logContext, params.server);
+        if (loggable) {
+          logEvent(logContext, `listPrompts start server=${params.server}`);
+        }
+        try {
+          const result = await runtime.listPrompts(params.server);
+          markActivity(params.server, activity);
+          if (loggable) {
+            logEvent(logContext, `listPrompts success server=${params.server}`);
+          }
+          return { response: { id, ok: true, result }, shouldShutdown: false };
+        } catch (error) {
+          if (loggable) {
+            const detail = formatError(error);
+            logEvent(logContext, `listPrompts error server=${params.server} err=${detail}`);
+          }
+          throw error;
+        }
+      }
+      case 'getPrompt': {
+        const params = request.params as GetPromptParams;
+        ensureManaged(params.server, managedServers);
+        const loggable = shouldLogServer(logContext, params.server);
+        if (loggable) {
+          logEvent(logContext, `getPrompt start server=${params.server} prompt=${params.name}`);
+        }
+        try {
+          const result = await runtime.getPrompt(params.server, params.name, params.args ?? {});
+          markActivity(params.server, activity);
+          if (loggable) {
+            logEvent(logContext, `getPrompt success server=${params.server} prompt=${params.name}`);
+          }
+          return { response: { id, ok: true, result }, shouldShutdown: false };
+        } catch (error) {
+          if (loggable) {
+            const detail = formatError(error);
+            logEvent(logContext, `getPrompt error server=${params.server} prompt=${params.name} err=${detail}`);
+          }
+          throw error;
+        }
+      }
+      case 'complete': {
+        const params = request.params as CompleteParams;
+        ensureManaged(params.server, managedServers);
+        const loggable = shouldLogServer(logContext, params.server);
+        if (loggable) {
+          logEvent(logContext, `complete start server=${params.server} argument=${params.argument.name}`);
+        }
+        try {
+          const result = await runtime.complete(params.server, params.ref, params.argument, {
+            context: params.context,
+          });
+          markActivity(params.server, activity);
+          if (loggable) {
+            logEvent(logContext, `complete success server=${params.server} argument=${params.argument.name}`);
+          }
+          return { response: { id, ok: true, result }, shouldShutdown: false };
+        } catch (error) {
+          if (loggable) {
+            const detail = formatError(error);
+            logEvent(
+              logContext,
+              `complete error server=${params.server} argument=${params.argument.name} err=${detail}`
+            );
+          }
+          throw error;
+        }
+      }
+      case 'setRoots': {
+        const params = request.params as SetRootsParams;
+        ensureManaged(params.server, managedServers);
+        const loggable = shouldLogServer(logContext, params.server);
+        if (loggable) {
+          logEvent(logContext, `setRoots start server=${params.server} roots=${params.roots.length}`);
+        }
+        try {
+          await runtime.setRoots(params.server, params.roots);
+          if (loggable) {
+            logEvent(logContext, `setRoots success server=${params.server}`);
+          }
+          return { response: { id, ok: true, result: true }, shouldShutdown: false };
+        } catch (error) {
+          if (loggable) {
+            const detail = formatError(error);
+            logEvent(logContext, `setRoots error server=${params.server} err=${detail}`);
+          }
+          throw error;
+        }
+      }
       case 'closeServer': {
         const params = request.params as CloseServerParams;
         ensureManaged(params.server, managedServers);
@@ -388,6 +1144,8 @@ async function processRequest(
           logEvent(logContext, `closeServer start server=${params.server}`);
         }
         try {
+          serverMetrics.recordClosed(params.server);
+          serverSupervisor.forget(params.server);
           await runtime.close(params.server);
           activity.set(params.server, { connected: false });
           if (loggable) {
@@ -405,6 +1163,27 @@ async function processRequest(
           throw error;
         }
       }
+      case 'cancel': {
+        const params = request.params as CancelParams;
+        const controller = inFlightCalls.get(params.requestId);
+        controller?.abort();
+        logEvent(logContext, `cancel request=${params.requestId} found=${Boolean(controller)}`);
+        const result: CancelResult = { cancelled: Boolean(controller) };
+        return { response: { id, ok: true, result }, shouldShutdown: false };
+      }
+      case 'elicitationResponse': {
+        const params = request.params as ElicitationResponseParams;
+        const resolve = pendingElicitations.get(params.elicitationId);
+        resolve?.(params.result);
+        return { response: { id, ok: true, result: { delivered: Boolean(resolve) } }, shouldShutdown: false };
+      }
+      case 'reloadConfig': {
+        if (!reloadConfig) {
+          throw new Error('Config reload is not available.');
+        }
+        const result = await reloadConfig();
+        return { response: { id, ok: true, result }, shouldShutdown: false };
+      }
       case 'status': {
         const result: StatusResult = {
           pid: process.pid,
@@ -414,14 +1193,20 @@ async function processRequest(
           configMtimeMs: metadata.configMtimeMs,
           socketPath: metadata.socketPath,
           logPath: metadata.logPath ?? undefined,
-          servers: Array.from(managedServers.values()).map((def) => {
-            const entry = activity.get(def.name);
-            return {
-              name: def.name,
-              connected: Boolean(entry?.connected),
-              lastUsedAt: entry?.lastUsedAt,
-            };
-          }),
+          httpUrl: metadata.httpUrl ?? undefined,
+          lastReload: metadata.lastReload,
+          servers: await Promise.all(
+            Array.from(managedServers.values()).map(async (def) => {
+              const entry = activity.get(def.name);
+              return {
+                name: def.name,
+                connected: Boolean(entry?.connected),
+                lastUsedAt: entry?.lastUsedAt,
+                metrics: await serverMetrics.snapshot(def.name),
+                supervision: serverSupervisor.snapshot(def.name),
+              };
+            })
+          ),
         };
         return { response: { id, ok: true, result }, shouldShutdown: false };
       }
@@ -440,12 +1225,49 @@ async function processRequest(
     }
   } catch (error) {
     return {
-      response: buildErrorResponse(id, 'runtime_error', error),
+      response: buildErrorResponse(
+        id,
+        error instanceof ToolNotAllowedError ? TOOL_NOT_ALLOWED_CODE : 'runtime_error',
+        error
+      ),
       shouldShutdown: false,
     };
   }
 }
 
+// forwardElicitation streams elicitation requests to the calling CLI and waits for its elicitationResponse.
+function forwardElicitation(emit: DaemonEmitter, elicitations: Set<string>): ElicitationHandler {
+  return (request) =>
+    new Promise((resolve) => {
+      const elicitationId = randomUUID();
+      elicitations.add(elicitationId);
+      pendingElicitations.set(elicitationId, (result) => {
+        pendingElicitations.delete(elicitationId);
+        elicitations.delete(elicitationId);
+        resolve(result);
+      });
+      const params: ElicitationEventParams = { elicitationId, request };
+      emit('elicitation', params);
+    });
+}
+
+function describeCrashDecision(decision: CrashDecision): string {
+  switch (decision.action) {
+    case 'restart':
+      return `restarting in ${decision.delayMs}ms`;
+    case 'pending':
+      return 'restart already scheduled';
+    case 'paused':
+      return `crashed ${decision.crashes} times in ${Math.round(decision.windowMs / 1000)}s; not restarting until a request needs it`;
+    case 'ignored':
+      return 'daemon is shutting down';
+  }
+}
+
+function stdioPid(context: ClientContext): number | undefined {
+  return context.transport instanceof StdioClientTransport ? (context.transport.pid ?? undefined) : undefined;
+}
+
 function ensureManaged(server: string, managedServers: Map<string, ServerDefinition>): void {
   if (!managedServers.has(server)) {
     throw new Error(`Server '${server}' is not managed by the daemon.`);
@@ -475,12 +1297,13 @@ async function evictIdleServers(
         return;
       }
       const entry = activity.get(name);
-      if (!entry?.lastUsedAt) {
+      if (!entry?.lastUsedAt || entry.subscriptions) {
         return;
       }
       if (now - entry.lastUsedAt < timeout) {
         return;
       }
+      serverMetrics.recordClosed(name);
       await runtime.close(name).catch(() => {});
       activity.set(name, { connected: false });
     })
@@ -540,7 +1363,7 @@ function logEvent(context: LogContext, message: string): void {
   if (!context.enabled) {
     return;
   }
-  const line = `[daemon] ${new Date().toISOString()} ${message}`;
+  const line = `[daemon] ${new Date().toISOString()} ${redactSecrets(message)}`;
   console.log(line);
   try {
     context.writer?.write(`${line}\n`);
@@ -585,16 +1408,44 @@ export async function __testProcessRequest(
   runtime: Runtime,
   managedServers: Map<string, ServerDefinition>,
   activity: Map<string, ServerActivity>,
-  metadata: {
-    configPath: string;
-    configLayers: Array<{ path: string; mtimeMs: number | null }>;
-    configMtimeMs: number | null;
-    socketPath: string;
-    startedAt: number;
-    logPath: string | null;
-  },
+  metadata: RequestMetadata,
   logContext: LogContext,
-  preParsedRequest?: DaemonRequest
+  preParsedRequest?: DaemonRequest,
+  emit?: DaemonEmitter,
+  reloadConfig?: () => Promise<ConfigReloadSummary>
 ): Promise<{ response: DaemonResponse; shouldShutdown: boolean }> {
-  return await processRequest(rawPayload, runtime, managedServers, activity, metadata, logContext, preParsedRequest);
+  return await processRequest(
+    rawPayload,
+    runtime,
+    managedServers,
+    activity,
+    metadata,
+    logContext,
+    preParsedRequest,
+    emit,
+    reloadConfig
+  );
+}
+
+export function __testServeMultiplexed(
+  socket: net.Socket,
+  runtime: Runtime,
+  managedServers: Map<string, ServerDefinition>,
+  activity: Map<string, ServerActivity>,
+  metadata: RequestMetadata,
+  logContext: LogContext,
+  shutdown: () => Promise<void>,
+  reloadConfig?: () => Promise<ConfigReloadSummary>
+): MultiplexedConnection {
+  return serveMultiplexed(socket, runtime, managedServers, activity, metadata, logContext, shutdown, reloadConfig);
+}
+
+export function __testReloadManagedServers(
+  options: DaemonHostOptions,
+  runtime: Runtime,
+  managedServers: Map<string, ServerDefinition>,
+  metadata: RequestMetadata
+): Promise<ConfigReloadSummary> {
+  const logContext: LogContext = { enabled: false, logAllServers: false, servers: new Set() };
+  return reloadManagedServers(options, runtime, managedServers, new Map(), metadata, undefined, logContext);
 }
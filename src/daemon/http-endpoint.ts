@@ -0,0 +1,151 @@
+import http from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  type ListResourcesResult,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { MCPORTER_VERSION, type Runtime } from '../runtime.js';
+import {
+  createStreamableHttpHandler,
+  listenLoopbackHttp,
+  loopbackHosts,
+  relayToolCall,
+  respondWithError,
+  type StreamableHttpHandler,
+  toHostedTool,
+} from '../server-bridge.js';
+
+export interface DaemonHttpOptions {
+  readonly runtime: Runtime;
+  readonly servers: readonly string[];
+  readonly port: number;
+  readonly host?: string;
+  // onActivity runs for every MCP request so HTTP clients keep a server from being idle-evicted.
+  readonly onActivity?: (server: string) => void;
+}
+
+export interface DaemonHttpHandle {
+  // url is the listener origin; each server lives at `${url}/servers/<name>/mcp`.
+  readonly url: string;
+  // setServers publishes servers added by a config reload and drops removed ones.
+  setServers(servers: readonly string[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+const SERVER_PATH = /^\/servers\/([^/]+)\/mcp$/;
+
+// listenDaemonHttp publishes each daemon-managed server as its own Streamable HTTP MCP endpoint, so
+// editors share the daemon's long-lived connection instead of spawning another copy of the server.
+export async function listenDaemonHttp(options: DaemonHttpOptions): Promise<DaemonHttpHandle> {
+  const handlers = new Map<string, StreamableHttpHandler>();
+  // Filled in once the listener is bound; until then every request is refused.
+  let allowedHosts: readonly string[] = [];
+  const addServer = (name: string): void => {
+    handlers.set(
+      name,
+      createStreamableHttpHandler(() => createServerBridge(options.runtime, name), {
+        allowedHosts: () => allowedHosts,
+      })
+    );
+  };
+  for (const name of options.servers) {
+    addServer(name);
+  }
+  const httpServer = http.createServer((req, res) => {
+    const match = SERVER_PATH.exec(new URL(req.url ?? '/', 'http://localhost').pathname);
+    const name = match?.[1] ? decodeURIComponent(match[1]) : undefined;
+    const handler = name ? handlers.get(name) : undefined;
+    if (!name || !handler) {
+      res.writeHead(404, { 'content-type': 'text/plain' }).end('Not found');
+      return;
+    }
+    options.onActivity?.(name);
+    void handler.handle(req, res).catch((error) => respondWithError(res, error));
+  });
+  const { url } = await listenLoopbackHttp(httpServer, options.port, options.host);
+  allowedHosts = loopbackHosts(url);
+  return {
+    url,
+    setServers: async (servers) => {
+      const next = new Set(servers);
+      for (const [name, handler] of Array.from(handlers.entries())) {
+        if (!next.has(name)) {
+          handlers.delete(name);
+          await handler.close();
+        }
+      }
+      for (const name of next) {
+        if (!handlers.has(name)) {
+          addServer(name);
+        }
+      }
+    },
+    close: async () => {
+      await Promise.all([...handlers.values()].map((handler) => handler.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+// createServerBridge mirrors one runtime server (tools, resources, prompts, completions) under its own names.
+function createServerBridge(runtime: Runtime, name: string): Server {
+  const server = new Server(
+    { name: `mcporter/${name}`, version: MCPORTER_VERSION },
+    { capabilities: { tools: {}, resources: {}, prompts: {}, completions: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    // The pooled connection answers, so listing never launches a second copy of the server.
+    const tools = await runtime.listTools(name, { includeSchema: true });
+    return { tools: tools.map((tool) => toHostedTool(tool.name, tool)) };
+  });
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) =>
+    relayToolCall(runtime, { server: name, tool: request.params.name }, request, extra, server)
+  );
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+    orEmpty(async () => (await runtime.listResources(name, request.params)) as ListResourcesResult, { resources: [] })
+  );
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () =>
+    orEmpty(async () => ({ resourceTemplates: await runtime.listResourceTemplates(name) }), { resourceTemplates: [] })
+  );
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) =>
+    runtime.readResource(name, request.params.uri)
+  );
+  server.setRequestHandler(ListPromptsRequestSchema, async () =>
+    orEmpty(async () => ({ prompts: await runtime.listPrompts(name) }), { prompts: [] })
+  );
+  server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+    runtime.getPrompt(name, request.params.name, request.params.arguments)
+  );
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const completion = await runtime.complete(name, request.params.ref, request.params.argument, {
+      context: request.params.context?.arguments,
+    });
+    return { completion };
+  });
+  return server;
+}
+
+// Servers that lack a capability answer list requests with MethodNotFound; editors probe every list
+// method, so report an empty list instead of an error.
+async function orEmpty<T>(load: () => Promise<T>, empty: T): Promise<T> {
+  try {
+    return await load();
+  } catch (error) {
+    if (error instanceof McpError && error.code === ErrorCode.MethodNotFound) {
+      return empty;
+    }
+    throw error;
+  }
+}
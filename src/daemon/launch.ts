@@ -5,6 +5,7 @@ export interface DaemonLaunchOptions {
   readonly configPath: string;
   readonly configExplicit?: boolean;
   readonly rootDir?: string;
+  readonly profile?: string;
   readonly socketPath: string;
   readonly metadataPath: string;
   readonly extraArgs?: string[];
@@ -18,6 +19,7 @@ export function launchDaemonDetached(options: DaemonLaunchOptions): void {
     cliEntry,
     ...configArgs,
     ...(options.rootDir ? ['--root', options.rootDir] : []),
+    ...(options.profile ? ['--profile', options.profile] : []),
     'daemon',
     'start',
     '--foreground',
@@ -28,6 +30,8 @@ export function launchDaemonDetached(options: DaemonLaunchOptions): void {
     stdio: 'ignore',
     env: {
       ...process.env,
+      // The daemon outlives the command that launched it; each request carries its own traceparent instead.
+      TRACEPARENT: undefined,
       MCPORTER_DAEMON_CHILD: '1',
       MCPORTER_DAEMON_SOCKET: options.socketPath,
       MCPORTER_DAEMON_METADATA: options.metadataPath,
@@ -0,0 +1,133 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import { analyzeConnectionError, type ConnectionIssueKind } from '../error-classifier.js';
+import type { ServerMetrics } from './protocol.js';
+
+// Percentiles are computed over a sliding window so old latencies stop skewing a server that recovered.
+const LATENCY_WINDOW = 200;
+
+interface ServerMetricsState {
+  calls: number;
+  errors: number;
+  errorsByKind: Partial<Record<ConnectionIssueKind, number>>;
+  latencies: number[];
+  pid?: number;
+  connections: number;
+  restarts: number;
+  // expectingReconnect is set when the daemon closes the server itself (idle eviction, closeServer,
+  // config reload), so the next connection is not counted as a restart.
+  expectingReconnect: boolean;
+  lastError?: ServerMetrics['lastError'];
+}
+
+// ServerMetricsRegistry tracks per-server call counts, failures, latencies, and reconnects for `status`.
+export class ServerMetricsRegistry {
+  private readonly servers = new Map<string, ServerMetricsState>();
+
+  recordCall(server: string, durationMs: number, error?: unknown): void {
+    const state = this.state(server);
+    state.calls += 1;
+    state.latencies.push(durationMs);
+    if (state.latencies.length > LATENCY_WINDOW) {
+      state.latencies.shift();
+    }
+    if (error === undefined) {
+      return;
+    }
+    const issue = analyzeConnectionError(error);
+    state.errors += 1;
+    state.errorsByKind[issue.kind] = (state.errorsByKind[issue.kind] ?? 0) + 1;
+    state.lastError = { message: issue.rawMessage, kind: issue.kind, at: Date.now() };
+  }
+
+  recordConnected(server: string, pid: number | undefined): void {
+    const state = this.state(server);
+    if (state.connections > 0 && !state.expectingReconnect) {
+      state.restarts += 1;
+    }
+    state.connections += 1;
+    state.expectingReconnect = false;
+    state.pid = pid;
+  }
+
+  recordClosed(server: string): void {
+    const state = this.state(server);
+    state.expectingReconnect = true;
+    state.pid = undefined;
+  }
+
+  // recordCrashed clears the pid of a server whose connection died on its own; unlike recordClosed, its
+  // next connection counts as a restart.
+  recordCrashed(server: string): void {
+    this.state(server).pid = undefined;
+  }
+
+  // forget drops a server removed by a config reload.
+  forget(server: string): void {
+    this.servers.delete(server);
+  }
+
+  async snapshot(server: string): Promise<ServerMetrics> {
+    const state = this.state(server);
+    const sorted = [...state.latencies].sort((a, b) => a - b);
+    return {
+      calls: state.calls,
+      errors: state.errors,
+      errorsByKind: { ...state.errorsByKind },
+      latencyP50Ms: percentile(sorted, 0.5),
+      latencyP95Ms: percentile(sorted, 0.95),
+      pid: state.pid,
+      memoryRssBytes: state.pid ? await readProcessRss(state.pid) : undefined,
+      restarts: state.restarts,
+      lastError: state.lastError,
+    };
+  }
+
+  private state(server: string): ServerMetricsState {
+    let state = this.servers.get(server);
+    if (!state) {
+      state = {
+        calls: 0,
+        errors: 0,
+        errorsByKind: {},
+        latencies: [],
+        connections: 0,
+        restarts: 0,
+        expectingReconnect: false,
+      };
+      this.servers.set(server, state);
+    }
+    return state;
+  }
+}
+
+function percentile(sorted: number[], fraction: number): number | undefined {
+  if (sorted.length === 0) {
+    return undefined;
+  }
+  const index = Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1);
+  return Math.round(sorted[Math.max(0, index)] ?? 0);
+}
+
+// readProcessRss reports a child's resident memory, or undefined when the process is gone or the
+// platform has neither /proc nor ps.
+async function readProcessRss(pid: number): Promise<number | undefined> {
+  if (process.platform === 'linux') {
+    try {
+      const status = await fs.readFile(`/proc/${pid}/status`, 'utf8');
+      const match = /^VmRSS:\s+(\d+)\s+kB/m.exec(status);
+      return match?.[1] ? Number.parseInt(match[1], 10) * 1024 : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  if (process.platform === 'win32') {
+    return undefined;
+  }
+  return await new Promise((resolve) => {
+    execFile('ps', ['-o', 'rss=', '-p', String(pid)], { timeout: 2_000 }, (error, stdout) => {
+      const kilobytes = Number.parseInt(stdout.trim(), 10);
+      resolve(error || !Number.isFinite(kilobytes) ? undefined : kilobytes * 1024);
+    });
+  });
+}
@@ -1,9 +1,56 @@
-export type DaemonRequestMethod = 'callTool' | 'listTools' | 'listResources' | 'closeServer' | 'status' | 'stop';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ServerRoot } from '../config.js';
+import type { ConnectionIssueKind } from '../error-classifier.js';
+import type { ElicitationRequest } from '../runtime/elicitation.js';
+import type { CompletionArgument, CompletionReference } from '../runtime.js';
+
+export type DaemonRequestMethod =
+  | 'callTool'
+  | 'listTools'
+  | 'getToolAnnotations'
+  | 'listResources'
+  | 'listResourceTemplates'
+  | 'readResource'
+  | 'subscribeResource'
+  | 'listPrompts'
+  | 'getPrompt'
+  | 'setRoots'
+  | 'complete'
+  | 'closeServer'
+  | 'cancel'
+  | 'elicitationResponse'
+  | 'hello'
+  | 'reloadConfig'
+  | 'status'
+  | 'stop';
+
+// DAEMON_PROTOCOL_VERSION is negotiated by the `hello` request that opens a multiplexed connection.
+// Version 1 is the original single-shot protocol: one request per socket, answered then closed.
+export const DAEMON_PROTOCOL_VERSION = 2;
+
+// TOOL_NOT_ALLOWED_CODE marks error responses for calls rejected by a server's `tools` policy.
+export const TOOL_NOT_ALLOWED_CODE = 'tool_not_allowed';
 
 export interface DaemonRequest<T extends DaemonRequestMethod = DaemonRequestMethod, P = unknown> {
   readonly id: string;
   readonly method: T;
   readonly params: P;
+  // stream asks the host for the request's event frames: zero or more, then the response frame. On
+  // single-shot sockets it also switches the answer to NDJSON.
+  readonly stream?: boolean;
+}
+
+// DaemonEvent frames are pushed over streaming connections (NDJSON): before the response for
+// one-shot calls (progress, log, elicitation), after it for persistent streams (resourceUpdated, then
+// subscriptionClosed when the server side ends the stream). On multiplexed connections every frame
+// carries the id of the request it belongs to, so responses and events for concurrent requests
+// interleave freely.
+export type DaemonEventName = 'resourceUpdated' | 'subscriptionClosed' | 'progress' | 'log' | 'elicitation';
+
+export interface DaemonEvent<T = unknown> {
+  readonly id: string;
+  readonly event: DaemonEventName;
+  readonly params: T;
 }
 
 export interface DaemonResponse<T = unknown> {
@@ -21,6 +68,8 @@ export interface CallToolParams {
   readonly tool: string;
   readonly args?: Record<string, unknown>;
   readonly timeoutMs?: number;
+  // traceparent parents the daemon's call span in the caller's trace.
+  readonly traceparent?: string;
 }
 
 export interface ListToolsParams {
@@ -29,15 +78,141 @@ export interface ListToolsParams {
   readonly autoAuthorize?: boolean;
 }
 
+export interface GetToolAnnotationsParams {
+  readonly server: string;
+  readonly tool: string;
+}
+
 export interface ListResourcesParams {
   readonly server: string;
   readonly params?: Record<string, unknown>;
 }
 
+export interface ListResourceTemplatesParams {
+  readonly server: string;
+}
+
+export interface ReadResourceParams {
+  readonly server: string;
+  readonly uri: string;
+}
+
+export interface SubscribeResourceParams {
+  readonly server: string;
+  readonly uri: string;
+}
+
+// SubscriptionClosedParams explains why the host ended a subscribeResource stream (e.g., the server exited).
+export interface SubscriptionClosedParams {
+  readonly message: string;
+}
+
+export interface ListPromptsParams {
+  readonly server: string;
+}
+
+export interface GetPromptParams {
+  readonly server: string;
+  readonly name: string;
+  readonly args?: Record<string, string>;
+}
+
+export interface SetRootsParams {
+  readonly server: string;
+  readonly roots: ReadonlyArray<string | ServerRoot>;
+}
+
+export interface CompleteParams {
+  readonly server: string;
+  readonly ref: CompletionReference;
+  readonly argument: CompletionArgument;
+  readonly context?: Record<string, string>;
+}
+
+// CancelParams names the in-flight callTool request (by its request id) that should be aborted. On a
+// multiplexed connection it also ends an open subscribeResource stream.
+export interface CancelParams {
+  readonly requestId: string;
+}
+
+export interface CancelResult {
+  readonly cancelled: boolean;
+}
+
+// ElicitationEventParams is streamed to the calling CLI when a server elicits input during its call;
+// the caller answers with an `elicitationResponse` request carrying the same elicitationId.
+export interface ElicitationEventParams {
+  readonly elicitationId: string;
+  readonly request: ElicitationRequest;
+}
+
+export interface ElicitationResponseParams {
+  readonly elicitationId: string;
+  readonly result: ElicitResult;
+}
+
+// HelloParams opens a multiplexed connection: the first newline-terminated frame on a socket. Hosts that
+// accept it answer with their HelloResult and keep the socket open for any number of NDJSON requests;
+// older hosts answer `unknown_method` and close, telling the client to fall back to single-shot sockets.
+export interface HelloParams {
+  readonly protocol: number;
+}
+
+export interface HelloResult {
+  readonly protocol: number;
+}
+
 export interface CloseServerParams {
   readonly server: string;
 }
 
+// ConfigReloadSummary describes one config reload: keep-alive servers that appeared, disappeared, or
+// were restarted because their definition changed. Unchanged servers keep running untouched.
+export interface ConfigReloadSummary {
+  readonly reloadedAt: number;
+  readonly added: string[];
+  readonly removed: string[];
+  readonly restarted: string[];
+  // error is set when the new config failed to load; the daemon keeps serving the previous one.
+  readonly error?: string;
+}
+
+// ServerMetrics is a keep-alive server's health since the daemon started. Latency percentiles cover the
+// most recent tool calls; restarts count reconnects the daemon did not ask for (crashes, dropped transports).
+export interface ServerMetrics {
+  readonly calls: number;
+  readonly errors: number;
+  readonly errorsByKind: Partial<Record<ConnectionIssueKind, number>>;
+  readonly latencyP50Ms?: number;
+  readonly latencyP95Ms?: number;
+  // pid and memoryRssBytes describe the stdio child process while it is connected.
+  readonly pid?: number;
+  readonly memoryRssBytes?: number;
+  readonly restarts: number;
+  readonly lastError?: {
+    readonly message: string;
+    readonly kind: ConnectionIssueKind;
+    readonly at: number;
+  };
+}
+
+// ServerSupervision describes the daemon's crash handling for a keep-alive server. Crashed servers are
+// relaunched with exponential backoff; once they crash too often in a short window the daemon stops
+// restarting them on its own and they launch again only when a request needs them.
+export interface ServerSupervision {
+  readonly crashes: number;
+  readonly lastCrash?: {
+    readonly message: string;
+    readonly kind: ConnectionIssueKind;
+    readonly exitCode?: number;
+    readonly signal?: string;
+    readonly at: number;
+  };
+  // nextRestartAt is set while a restart is scheduled.
+  readonly nextRestartAt?: number;
+  readonly paused?: boolean;
+}
+
 export interface StatusResult {
   readonly pid: number;
   readonly startedAt: number;
@@ -49,9 +224,15 @@ export interface StatusResult {
   }>;
   readonly socketPath: string;
   readonly logPath?: string;
+  // httpUrl is the loopback origin serving each managed server at /servers/<name>/mcp, when enabled.
+  readonly httpUrl?: string;
+  // lastReload is the most recent config reload that changed (or failed to change) the server set.
+  readonly lastReload?: ConfigReloadSummary;
   readonly servers: Array<{
     readonly name: string;
     readonly connected: boolean;
     readonly lastUsedAt?: number;
+    readonly metrics?: ServerMetrics;
+    readonly supervision?: ServerSupervision;
   }>;
 }
@@ -1,27 +1,60 @@
-import type { ListResourcesRequest } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  GetPromptResult,
+  ListResourcesRequest,
+  ReadResourceResult,
+  ResourceTemplate,
+  ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import type { ServerDefinition } from '../config.js';
+import type { ServerDefinition, ServerRoot } from '../config.js';
 import { isKeepAliveServer } from '../lifecycle.js';
-import type { CallOptions, ListToolsOptions, Runtime } from '../runtime.js';
+import { isAbortError } from '../runtime/errors.js';
+import { assertToolAllowed, confirmDestructiveCall } from '../runtime/tool-policy.js';
+import type {
+  CallOptions,
+  CallProgress,
+  CompleteOptions,
+  CompletionArgument,
+  CompletionReference,
+  CompletionResult,
+  ElicitationHandler,
+  ListToolsOptions,
+  ResourceSubscriptionCloseHandler,
+  ResourceUpdate,
+  ResourceUpdateHandler,
+  Runtime,
+  ServerLogMessage,
+  ServerPromptInfo,
+} from '../runtime.js';
+import { inheritedTraceparent } from '../tracing.js';
 import type { DaemonClient } from './client.js';
+import {
+  type DaemonEvent,
+  type ElicitationEventParams,
+  type SubscriptionClosedParams,
+  TOOL_NOT_ALLOWED_CODE,
+} from './protocol.js';
 
 interface KeepAliveRuntimeOptions {
   readonly daemonClient: DaemonClient | null;
   readonly keepAliveServers: Set<string>;
+  // onElicitation answers elicitations the daemon forwards from keep-alive calls (mirrors RuntimeOptions).
+  readonly onElicitation?: ElicitationHandler;
 }
 
 export function createKeepAliveRuntime(base: Runtime, options: KeepAliveRuntimeOptions): Runtime {
   if (!options.daemonClient || options.keepAliveServers.size === 0) {
     return base;
   }
-  return new KeepAliveRuntime(base, options.daemonClient, options.keepAliveServers);
+  return new KeepAliveRuntime(base, options.daemonClient, options.keepAliveServers, options.onElicitation);
 }
 
 class KeepAliveRuntime implements Runtime {
   constructor(
     private readonly base: Runtime,
     private readonly daemon: DaemonClient,
-    private readonly keepAliveServers: Set<string>
+    private readonly keepAliveServers: Set<string>,
+    private readonly onElicitation?: ElicitationHandler
   ) {}
 
   listServers(): string[] {
@@ -58,15 +91,49 @@ class KeepAliveRuntime implements Runtime {
     return this.base.listTools(server, options);
   }
 
+  // getToolAnnotations asks the daemon, which keeps annotations from its last listing of the server.
+  async getToolAnnotations(server: string, toolName: string): Promise<ToolAnnotations | undefined> {
+    if (this.shouldUseDaemon(server)) {
+      const result = await this.invokeWithRestart(server, 'getToolAnnotations', () =>
+        this.daemon.getToolAnnotations({ server, tool: toolName })
+      );
+      return (result as ToolAnnotations | null) ?? undefined;
+    }
+    return this.base.getToolAnnotations(server, toolName);
+  }
+
   async callTool(server: string, toolName: string, options?: CallOptions): Promise<unknown> {
     if (this.shouldUseDaemon(server)) {
+      assertToolAllowed(server, this.base.getDefinition(server).tools, toolName);
+      // The daemon has nobody to ask, so destructive calls are confirmed here before they are forwarded.
+      await confirmDestructiveCall(options?.confirmDestructive, { server, tool: toolName, args: options?.args }, () =>
+        this.getToolAnnotations(server, toolName)
+      );
+      const params = {
+        server,
+        tool: toolName,
+        args: options?.args,
+        timeoutMs: options?.timeoutMs,
+        traceparent: options?.traceparent ?? inheritedTraceparent(),
+      };
+      const onProgress = options?.onProgress;
+      const onLog = options?.onLog;
+      const onElicitation = options?.onElicitation ?? this.onElicitation;
+      const signal = options?.signal;
+      const onEvent =
+        onProgress || onLog || onElicitation
+          ? (event: DaemonEvent) => {
+              if (event.event === 'progress') {
+                onProgress?.(event.params as CallProgress);
+              } else if (event.event === 'log') {
+                onLog?.(event.params as ServerLogMessage);
+              } else if (event.event === 'elicitation' && onElicitation) {
+                void this.answerElicitation(event.params as ElicitationEventParams, onElicitation);
+              }
+            }
+          : undefined;
       return this.invokeWithRestart(server, 'callTool', () =>
-        this.daemon.callTool({
-          server,
-          tool: toolName,
-          args: options?.args,
-          timeoutMs: options?.timeoutMs,
-        })
+        onEvent || signal ? this.daemon.callTool(params, { onEvent, signal }) : this.daemon.callTool(params)
       );
     }
     return this.base.callTool(server, toolName, options);
@@ -81,12 +148,95 @@ class KeepAliveRuntime implements Runtime {
     return this.base.listResources(server, options);
   }
 
+  async listResourceTemplates(server: string): Promise<ResourceTemplate[]> {
+    if (this.shouldUseDaemon(server)) {
+      return (await this.invokeWithRestart(server, 'listResourceTemplates', () =>
+        this.daemon.listResourceTemplates({ server })
+      )) as ResourceTemplate[];
+    }
+    return this.base.listResourceTemplates(server);
+  }
+
+  async readResource(server: string, uri: string): Promise<ReadResourceResult> {
+    if (this.shouldUseDaemon(server)) {
+      return (await this.invokeWithRestart(server, 'readResource', () =>
+        this.daemon.readResource({ server, uri })
+      )) as ReadResourceResult;
+    }
+    return this.base.readResource(server, uri);
+  }
+
+  async subscribeResource(
+    server: string,
+    uri: string,
+    handler: ResourceUpdateHandler,
+    onClose?: ResourceSubscriptionCloseHandler
+  ): Promise<() => Promise<void>> {
+    if (this.shouldUseDaemon(server)) {
+      return await this.invokeWithRestart(server, 'subscribeResource', () =>
+        this.daemon.subscribeResource(
+          { server, uri },
+          (event) => {
+            if (event.event === 'resourceUpdated') {
+              handler(event.params as ResourceUpdate);
+            } else if (event.event === 'subscriptionClosed') {
+              onClose?.(new Error((event.params as SubscriptionClosedParams).message));
+            }
+          },
+          onClose
+        )
+      );
+    }
+    return this.base.subscribeResource(server, uri, handler, onClose);
+  }
+
+  async listPrompts(server: string): Promise<ServerPromptInfo[]> {
+    if (this.shouldUseDaemon(server)) {
+      return (await this.invokeWithRestart(server, 'listPrompts', () =>
+        this.daemon.listPrompts({ server })
+      )) as ServerPromptInfo[];
+    }
+    return this.base.listPrompts(server);
+  }
+
+  async getPrompt(server: string, name: string, args?: Record<string, string>): Promise<GetPromptResult> {
+    if (this.shouldUseDaemon(server)) {
+      return (await this.invokeWithRestart(server, 'getPrompt', () =>
+        this.daemon.getPrompt({ server, name, args })
+      )) as GetPromptResult;
+    }
+    return this.base.getPrompt(server, name, args);
+  }
+
+  async complete(
+    server: string,
+    ref: CompletionReference,
+    argument: CompletionArgument,
+    options?: CompleteOptions
+  ): Promise<CompletionResult> {
+    if (this.shouldUseDaemon(server)) {
+      return (await this.invokeWithRestart(server, 'complete', () =>
+        this.daemon.complete({ server, ref, argument, context: options?.context })
+      )) as CompletionResult;
+    }
+    return this.base.complete(server, ref, argument, options);
+  }
+
+  async setRoots(server: string, roots: ReadonlyArray<string | ServerRoot>): Promise<void> {
+    if (this.shouldUseDaemon(server)) {
+      await this.invokeWithRestart(server, 'setRoots', () => this.daemon.setRoots({ server, roots }));
+      return;
+    }
+    await this.base.setRoots(server, roots);
+  }
+
   async connect(server: string): Promise<Awaited<ReturnType<Runtime['connect']>>> {
     return this.base.connect(server);
   }
 
   async close(server?: string): Promise<void> {
     if (!server) {
+      await this.daemon.disconnect();
       await this.base.close();
       return;
     }
@@ -101,6 +251,13 @@ class KeepAliveRuntime implements Runtime {
     return this.keepAliveServers.has(server);
   }
 
+  // answerElicitation runs the local handler and reports its result back to the daemon. Handler failures
+  // cancel the elicitation rather than leaving the server waiting.
+  private async answerElicitation(params: ElicitationEventParams, handler: ElicitationHandler): Promise<void> {
+    const result = await handler(params.request).catch(() => ({ action: 'cancel' as const }));
+    await this.daemon.respondToElicitation({ elicitationId: params.elicitationId, result }).catch(() => {});
+  }
+
   private async invokeWithRestart<T>(server: string, operation: string, action: () => Promise<T>): Promise<T> {
     try {
       return await action();
@@ -120,13 +277,14 @@ class KeepAliveRuntime implements Runtime {
 const NON_FATAL_CODES = new Set([ErrorCode.InvalidRequest, ErrorCode.MethodNotFound, ErrorCode.InvalidParams]);
 
 function shouldRestartDaemonServer(error: unknown): boolean {
-  if (!error) {
+  if (!error || isAbortError(error)) {
     return false;
   }
   if (error instanceof McpError) {
     return !NON_FATAL_CODES.has(error.code);
   }
-  return true;
+  // A policy rejection says nothing about the server's health.
+  return (error as { code?: unknown }).code !== TOOL_NOT_ALLOWED_CODE;
 }
 
 function logDaemonRetry(server: string, operation: string, error: unknown): void {
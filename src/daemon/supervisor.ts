@@ -0,0 +1,158 @@
+import { analyzeConnectionError } from '../error-classifier.js';
+import type { ServerSupervision } from './protocol.js';
+
+export interface SupervisorOptions {
+  readonly initialBackoffMs?: number;
+  readonly maxBackoffMs?: number;
+  // A server that crashes more than maxCrashes times within crashWindowMs is left down until a request
+  // launches it again, so a server that dies on startup cannot spin forever.
+  readonly maxCrashes?: number;
+  readonly crashWindowMs?: number;
+}
+
+// CrashDecision tells the host what the supervisor did about a crash, for logging.
+export type CrashDecision =
+  | { readonly action: 'restart'; readonly delayMs: number }
+  | { readonly action: 'pending' }
+  | { readonly action: 'paused'; readonly crashes: number; readonly windowMs: number }
+  | { readonly action: 'ignored' };
+
+type StartServer = () => Promise<void>;
+
+interface SupervisedServer {
+  crashes: number;
+  recentCrashes: number[];
+  lastCrash?: ServerSupervision['lastCrash'];
+  timer?: NodeJS.Timeout;
+  nextRestartAt?: number;
+  paused: boolean;
+}
+
+// ServerSupervisor restarts crashed keep-alive servers with exponential backoff and launches prewarmed
+// servers. The delay doubles with each crash inside the window and resets once the server stays up.
+export class ServerSupervisor {
+  private readonly servers = new Map<string, SupervisedServer>();
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly maxCrashes: number;
+  private readonly crashWindowMs: number;
+  private stopped = false;
+
+  constructor(options: SupervisorOptions = {}) {
+    this.initialBackoffMs = options.initialBackoffMs ?? 1_000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 30_000;
+    this.maxCrashes = options.maxCrashes ?? 5;
+    this.crashWindowMs = options.crashWindowMs ?? 60_000;
+  }
+
+  // prewarm launches a server ahead of its first request; a failed launch is retried like a crash.
+  prewarm(server: string, start: StartServer, onCrash?: (decision: CrashDecision) => void): void {
+    void this.launch(server, start, onCrash);
+  }
+
+  // crashed records why a server went away and schedules its restart unless it is crashing too often.
+  crashed(server: string, reason: unknown, start: StartServer, onCrash?: (decision: CrashDecision) => void): void {
+    const decision = this.recordCrash(server, reason, start, onCrash);
+    onCrash?.(decision);
+  }
+
+  // connected clears the paused flag once a request relaunched the server.
+  connected(server: string): void {
+    const state = this.servers.get(server);
+    if (state) {
+      state.paused = false;
+    }
+  }
+
+  // forget cancels pending restarts for a server that was closed on purpose or removed from config.
+  forget(server: string): void {
+    const state = this.servers.get(server);
+    if (state?.timer) {
+      clearTimeout(state.timer);
+    }
+    this.servers.delete(server);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    for (const state of this.servers.values()) {
+      if (state.timer) {
+        clearTimeout(state.timer);
+        state.timer = undefined;
+        state.nextRestartAt = undefined;
+      }
+    }
+  }
+
+  snapshot(server: string): ServerSupervision | undefined {
+    const state = this.servers.get(server);
+    if (!state || state.crashes === 0) {
+      return undefined;
+    }
+    return {
+      crashes: state.crashes,
+      lastCrash: state.lastCrash,
+      nextRestartAt: state.nextRestartAt,
+      paused: state.paused || undefined,
+    };
+  }
+
+  private recordCrash(
+    server: string,
+    reason: unknown,
+    start: StartServer,
+    onCrash?: (decision: CrashDecision) => void
+  ): CrashDecision {
+    if (this.stopped) {
+      return { action: 'ignored' };
+    }
+    const state = this.state(server);
+    const now = Date.now();
+    const issue = analyzeConnectionError(reason);
+    state.crashes += 1;
+    state.recentCrashes = [...state.recentCrashes.filter((at) => now - at < this.crashWindowMs), now];
+    state.lastCrash = {
+      message: issue.rawMessage,
+      kind: issue.kind,
+      exitCode: issue.stdioExitCode,
+      signal: issue.stdioSignal,
+      at: now,
+    };
+    if (state.timer) {
+      return { action: 'pending' };
+    }
+    if (state.recentCrashes.length > this.maxCrashes) {
+      state.paused = true;
+      return { action: 'paused', crashes: state.recentCrashes.length, windowMs: this.crashWindowMs };
+    }
+    const delayMs = Math.min(this.maxBackoffMs, this.initialBackoffMs * 2 ** (state.recentCrashes.length - 1));
+    state.nextRestartAt = now + delayMs;
+    state.timer = setTimeout(() => {
+      state.timer = undefined;
+      state.nextRestartAt = undefined;
+      void this.launch(server, start, onCrash);
+    }, delayMs);
+    state.timer.unref();
+    return { action: 'restart', delayMs };
+  }
+
+  private async launch(server: string, start: StartServer, onCrash?: (decision: CrashDecision) => void): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+    try {
+      await start();
+    } catch (error) {
+      this.crashed(server, error, start, onCrash);
+    }
+  }
+
+  private state(server: string): SupervisedServer {
+    let state = this.servers.get(server);
+    if (!state) {
+      state = { crashes: 0, recentCrashes: [], paused: false };
+      this.servers.set(server, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,65 @@
+import fs from 'node:fs/promises';
+
+// EnvFileValue is one variable loaded from a server's `envFile` list, with the file it came from.
+export interface EnvFileValue {
+  readonly value: string;
+  readonly path: string;
+}
+
+const DOTENV_LINE_PATTERN = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/;
+const DOTENV_QUOTED_PATTERN = /^(["'])(.*)\1(?:\s+#.*)?$/;
+const DOTENV_INTERPOLATION_PATTERN = /\\?\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// parseDotenv reads `KEY=value` lines with optional `export`, quotes, and trailing comments. Unquoted and
+// double-quoted values expand ${VAR} and ${VAR:-default} from earlier keys, then `lookup` (process.env by
+// default); unknown variables expand to an empty string. Single-quoted values are literal.
+export function parseDotenv(
+  contents: string,
+  lookup: (name: string) => string | undefined = (name) => process.env[name]
+): Map<string, string> {
+  const entries = new Map<string, string>();
+  const interpolate = (value: string): string =>
+    value.replace(DOTENV_INTERPOLATION_PATTERN, (placeholder, name: string, fallback: string | undefined) => {
+      if (placeholder.startsWith('\\')) {
+        return placeholder.slice(1);
+      }
+      const resolved = entries.get(name) ?? lookup(name);
+      return resolved === undefined || resolved === '' ? (fallback ?? '') : resolved;
+    });
+  for (const line of contents.split(/\r?\n/)) {
+    const match = DOTENV_LINE_PATTERN.exec(line);
+    if (!match?.[1]) {
+      continue;
+    }
+    const raw = (match[2] ?? '').trim();
+    const quoted = DOTENV_QUOTED_PATTERN.exec(raw);
+    if (quoted?.[1] === "'") {
+      entries.set(match[1], quoted[2] ?? '');
+    } else if (quoted) {
+      entries.set(match[1], interpolate((quoted[2] ?? '').replace(/\\n/g, '\n')));
+    } else {
+      entries.set(match[1], interpolate(raw.replace(/\s+#.*$/, '')));
+    }
+  }
+  return entries;
+}
+
+// readEnvFiles loads a server's env files in order; later files override earlier ones and can reference
+// their variables. A missing file is an error so a typo does not silently drop credentials.
+export async function readEnvFiles(paths: readonly string[] | undefined): Promise<Map<string, EnvFileValue>> {
+  const values = new Map<string, EnvFileValue>();
+  for (const filePath of paths ?? []) {
+    let contents: string;
+    try {
+      contents = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read envFile '${filePath}': ${detail}`);
+    }
+    const parsed = parseDotenv(contents, (name) => values.get(name)?.value ?? process.env[name]);
+    for (const [key, value] of parsed) {
+      values.set(key, { value, path: filePath });
+    }
+  }
+  return values;
+}
@@ -47,12 +47,13 @@ export function resolveEnvValue(raw: unknown): string {
 }
 
 // resolveEnvPlaceholders replaces ${VAR} or $env:VAR references using process.env, enforcing required values.
-export function resolveEnvPlaceholders(value: string): string {
+// `purpose` names the caller in the error message.
+export function resolveEnvPlaceholders(value: string, purpose = 'MCP header substitution'): string {
   if (value.startsWith(ENV_DIRECT_PREFIX)) {
     const envName = value.slice(ENV_DIRECT_PREFIX.length);
     const envValue = process.env[envName];
     if (envValue === undefined) {
-      throw new Error(`Environment variable '${envName}' is required for MCP header substitution.`);
+      throw new Error(`Environment variable '${envName}' is required for ${purpose}.`);
     }
     return envValue;
   }
@@ -69,16 +70,18 @@ export function resolveEnvPlaceholders(value: string): string {
 
   if (missing.size > 0) {
     const names = [...missing].sort().join(', ');
-    throw new Error(`Environment variable(s) ${names} must be set for MCP header substitution.`);
+    throw new Error(`Environment variable(s) ${names} must be set for ${purpose}.`);
   }
 
   return replaced;
 }
 
-// withEnvOverrides temporarily populates process.env keys while executing the provided callback.
+// withEnvOverrides temporarily populates process.env keys while executing the provided callback. `resolveValue`
+// interprets each raw value (the runtime passes one that also understands secret references and envFile values).
 export async function withEnvOverrides<T>(
   envOverrides: Record<string, string> | undefined,
-  fn: () => Promise<T> | T
+  fn: () => Promise<T> | T,
+  resolveValue: (raw: string, key: string) => string = resolveEnvValue
 ): Promise<T> {
   if (!envOverrides || Object.keys(envOverrides).length === 0) {
     return await fn();
@@ -89,7 +92,7 @@ export async function withEnvOverrides<T>(
     if (process.env[key]) {
       continue;
     }
-    const resolved = resolveEnvValue(rawValue);
+    const resolved = resolveValue(rawValue, key);
     if (resolved === '') {
       continue;
     }
@@ -0,0 +1,161 @@
+import http from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { globToRegExp } from './runtime/tool-policy.js';
+import { MCPORTER_VERSION, type Runtime, type RuntimeLogger } from './runtime.js';
+import {
+  createStreamableHttpHandler,
+  listenLoopbackHttp,
+  loopbackHosts,
+  relayToolCall,
+  respondWithError,
+  toHostedTool,
+} from './server-bridge.js';
+
+// Gateway tool names are `<server>__<tool>` so one endpoint can expose every configured server.
+export const GATEWAY_TOOL_SEPARATOR = '__';
+
+export interface GatewayOptions {
+  // servers limits the gateway to these configured servers (default: all of them).
+  readonly servers?: readonly string[];
+  // include/exclude take `server.tool` patterns (`*` wildcards); a bare `server` matches all of its tools.
+  readonly include?: readonly string[];
+  readonly exclude?: readonly string[];
+  readonly logger?: RuntimeLogger;
+}
+
+export interface Gateway {
+  listTools(): Promise<Tool[]>;
+  // createServer returns a fresh MCP server bound to this gateway; each transport/session needs its own.
+  createServer(): Server;
+}
+
+export interface GatewayHttpOptions {
+  readonly port: number;
+  readonly host?: string;
+}
+
+export interface GatewayHttpHandle {
+  readonly url: string;
+  close(): Promise<void>;
+}
+
+interface ResolvedTool {
+  readonly server: string;
+  readonly tool: string;
+}
+
+// createGateway aggregates configured servers into one MCP tool surface, forwarding calls through
+// the runtime (and therefore through the keep-alive daemon when the runtime routes there).
+export function createGateway(runtime: Runtime, options: GatewayOptions = {}): Gateway {
+  const include = (options.include ?? []).map(compilePattern);
+  const exclude = (options.exclude ?? []).map(compilePattern);
+
+  const servers = (): string[] => {
+    const configured = runtime.listServers();
+    if (!options.servers || options.servers.length === 0) {
+      return configured;
+    }
+    for (const name of options.servers) {
+      if (!configured.includes(name)) {
+        throw new Error(`Unknown MCP server '${name}'.`);
+      }
+    }
+    return configured.filter((name) => options.servers?.includes(name));
+  };
+
+  const isExposed = (server: string, tool: string): boolean => {
+    const selector = `${server}.${tool}`;
+    if (include.length > 0 && !include.some((pattern) => pattern.test(selector))) {
+      return false;
+    }
+    return !exclude.some((pattern) => pattern.test(selector));
+  };
+
+  // resolveToolName prefers the longest matching server prefix so server names may contain the separator.
+  const resolveToolName = (name: string): ResolvedTool | undefined => {
+    const server = servers()
+      .filter((candidate) => name.startsWith(`${candidate}${GATEWAY_TOOL_SEPARATOR}`))
+      .sort((a, b) => b.length - a.length)[0];
+    if (!server) {
+      return undefined;
+    }
+    const tool = name.slice(server.length + GATEWAY_TOOL_SEPARATOR.length);
+    return tool && isExposed(server, tool) ? { server, tool } : undefined;
+  };
+
+  const listTools = async (): Promise<Tool[]> => {
+    const perServer = await Promise.all(
+      servers().map(async (server) => {
+        try {
+          // Listing goes through the pooled runtime (and the daemon for keep-alive servers), like calls do.
+          const tools = await runtime.listTools(server, { includeSchema: true });
+          return tools
+            .filter((tool) => isExposed(server, tool.name))
+            .map((tool) => toHostedTool(`${server}${GATEWAY_TOOL_SEPARATOR}${tool.name}`, tool));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          options.logger?.warn(`Gateway skipped '${server}': ${message}`);
+          return [];
+        }
+      })
+    );
+    return perServer.flat();
+  };
+
+  const createServer = (): Server => {
+    const server = new Server(
+      { name: 'mcporter', version: MCPORTER_VERSION },
+      { capabilities: { tools: { listChanged: false } } }
+    );
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: await listTools() }));
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const resolved = resolveToolName(request.params.name);
+      if (!resolved) {
+        throw new McpError(ErrorCode.InvalidParams, `Tool ${request.params.name} not found`);
+      }
+      return relayToolCall(runtime, resolved, request, extra, server);
+    });
+    return server;
+  };
+
+  return { listTools, createServer };
+}
+
+// listenGatewayHttp serves the gateway over Streamable HTTP at `/mcp`, one MCP session per client.
+export async function listenGatewayHttp(gateway: Gateway, options: GatewayHttpOptions): Promise<GatewayHttpHandle> {
+  // Filled in once the listener is bound; until then every request is refused.
+  let allowedHosts: readonly string[] = [];
+  const sessions = createStreamableHttpHandler(() => gateway.createServer(), { allowedHosts: () => allowedHosts });
+  const httpServer = http.createServer((req, res) => {
+    const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (pathname !== '/mcp') {
+      res.writeHead(404, { 'content-type': 'text/plain' }).end('Not found');
+      return;
+    }
+    void sessions.handle(req, res).catch((error) => respondWithError(res, error));
+  });
+  const { url } = await listenLoopbackHttp(httpServer, options.port, options.host);
+  allowedHosts = loopbackHosts(url);
+  return {
+    url: `${url}/mcp`,
+    close: async () => {
+      await sessions.close();
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+// compilePattern turns `server.tool` globs into anchored regexes; `server` alone means `server.*`.
+function compilePattern(pattern: string): RegExp {
+  return globToRegExp(pattern.includes('.') ? pattern : `${pattern}.*`);
+}
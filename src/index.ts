@@ -1,14 +1,43 @@
-export type { CommandSpec, ServerDefinition } from './config.js';
-export { loadServerDefinitions } from './config.js';
+export type { AuditCall, AuditEntry, AuditOutcome } from './audit.js';
+export { AuditLog, readAuditEntries } from './audit.js';
+export type { AuditConfig, CommandSpec, SamplingConfig, ServerDefinition, TracingConfig } from './config.js';
+export { loadAuditConfig, loadServerDefinitions, loadTracingConfig } from './config.js';
+export type { Gateway, GatewayHttpHandle, GatewayHttpOptions, GatewayOptions } from './gateway.js';
+export { createGateway, GATEWAY_TOOL_SEPARATOR, listenGatewayHttp } from './gateway.js';
 export type { CallResult, ConnectionIssue } from './result-utils.js';
 export { createCallResult, describeConnectionIssue, wrapCallResult } from './result-utils.js';
+export { createCommandSamplingProvider, createSamplingProvider } from './runtime/sampling.js';
+export { ToolCallDeclinedError, ToolNotAllowedError } from './runtime/tool-policy.js';
 export type {
   CallOptions,
+  CallProgress,
+  CompleteOptions,
+  CompletionArgument,
+  CompletionReference,
+  CompletionResult,
+  DestructiveToolHandler,
+  DestructiveToolRequest,
+  ElicitationHandler,
+  ElicitationRequest,
   ListToolsOptions,
+  ResourceSubscriptionCloseHandler,
+  ResourceUpdate,
+  ResourceUpdateHandler,
   Runtime,
   RuntimeLogger,
+  SamplingHandler,
+  SamplingProvider,
+  SamplingRequest,
+  ServerLogHandler,
+  ServerLogMessage,
+  ServerPromptArgument,
+  ServerPromptInfo,
   ServerToolInfo,
 } from './runtime.js';
 export { callOnce, createRuntime } from './runtime.js';
+export type { SecretContext, SecretProvider } from './secrets.js';
+export { clearSecretCache, registerSecretProvider } from './secrets.js';
 export type { ServerProxyOptions } from './server-proxy.js';
 export { createServerProxy } from './server-proxy.js';
+export type { FinishedSpan, SpanContext, SpanExporter, TracerOptions } from './tracing.js';
+export { createTracer, OtlpHttpExporter, parseTraceparent, Span, Tracer } from './tracing.js';
@@ -116,7 +116,11 @@ function coerceLifecycle(raw: RawLifecycle): ServerLifecycle | undefined {
       typeof raw.idleTimeoutMs === 'number' && Number.isFinite(raw.idleTimeoutMs) && raw.idleTimeoutMs > 0
         ? Math.trunc(raw.idleTimeoutMs)
         : undefined;
-    return timeout ? { mode: 'keep-alive', idleTimeoutMs: timeout } : { mode: 'keep-alive' };
+    return {
+      mode: 'keep-alive',
+      ...(timeout ? { idleTimeoutMs: timeout } : {}),
+      ...(raw.prewarm === true ? { prewarm: true } : {}),
+    };
   }
   if (raw.mode === 'ephemeral') {
     return { mode: 'ephemeral' };
@@ -135,4 +139,8 @@ export function keepAliveIdleTimeout(definition: ServerDefinition): number | und
   return definition.lifecycle.idleTimeoutMs;
 }
 
+export function keepAlivePrewarm(definition: ServerDefinition): boolean {
+  return definition.lifecycle?.mode === 'keep-alive' && definition.lifecycle.prewarm === true;
+}
+
 export { DEFAULT_KEEP_ALIVE };
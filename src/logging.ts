@@ -1,3 +1,5 @@
+import { redactSecrets } from './secrets.js';
+
 const LOG_LEVEL_ORDER = {
   debug: 10,
   info: 20,
@@ -64,7 +66,8 @@ function shouldLog(level: LogLevel, threshold: LogLevel): boolean {
 // createPrefixedConsoleLogger wraps console.* with a consistent prefix and level filtering.
 export function createPrefixedConsoleLogger(prefix: string, level: LogLevel): Logger {
   const threshold = parseLogLevel(level);
-  const format = (message: string) => `[${prefix}] ${message}`;
+  // Resolved secret values never reach the console, even when an error message echoes one.
+  const format = (message: string) => `[${prefix}] ${redactSecrets(message)}`;
   return {
     debug(message) {
       if (shouldLog('debug', threshold)) {
@@ -1,23 +1,33 @@
 import { resolveEnvPlaceholders } from './env.js';
+import { containsSecretReference, resolveSecretReferences } from './secrets.js';
 
-// materializeHeaders resolves environment placeholders in server header definitions.
-export function materializeHeaders(
+// materializeHeaders resolves environment placeholders and secret references in server header definitions;
+// relative secret paths resolve against baseDir. When a traceparent is given it is added as the W3C
+// `traceparent` header, unless the server config already sets one.
+export async function materializeHeaders(
   headers: Record<string, string> | undefined,
-  serverName: string
-): Record<string, string> | undefined {
-  if (!headers) {
+  serverName: string,
+  traceparent?: string,
+  baseDir?: string
+): Promise<Record<string, string> | undefined> {
+  if (!headers && !traceparent) {
     return undefined;
   }
 
   const resolved: Record<string, string> = {};
-  for (const [key, value] of Object.entries(headers)) {
+  for (const [key, value] of Object.entries(headers ?? {})) {
     try {
-      resolved[key] = resolveEnvPlaceholders(value);
+      resolved[key] = containsSecretReference(value)
+        ? await resolveSecretReferences(value, { baseDir })
+        : resolveEnvPlaceholders(value);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       throw new Error(`Failed to resolve header '${key}' for server '${serverName}': ${message}`);
     }
   }
+  if (traceparent && !Object.keys(resolved).some((key) => key.toLowerCase() === 'traceparent')) {
+    resolved.traceparent = traceparent;
+  }
 
   return resolved;
 }
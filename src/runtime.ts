@@ -1,14 +1,43 @@
 import { createRequire } from 'node:module';
 
-import type { CallToolRequest, ListResourcesRequest } from '@modelcontextprotocol/sdk/types.js';
-import { loadServerDefinitions, type ServerDefinition } from './config.js';
+import type {
+  CallToolRequest,
+  CompleteRequest,
+  CompleteResult,
+  GetPromptResult,
+  ListResourcesRequest,
+  ListToolsResult,
+  ReadResourceResult,
+  ResourceTemplate,
+  Root,
+  ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js';
+import { type AuditCall, AuditLog } from './audit.js';
+import { loadRuntimeConfig, type ServerDefinition, type ServerRoot } from './config.js';
+import { normalizeTracing } from './config-normalize.js';
 import { createPrefixedConsoleLogger, type Logger, type LogLevel, resolveLogLevelFromEnv } from './logging.js';
 import { closeTransportAndWait } from './runtime-process-utils.js';
 import './sdk-patches.js';
-import { shouldResetConnection } from './runtime/errors.js';
+import { type ElicitationHandler, ElicitationRoutes } from './runtime/elicitation.js';
+import { describeDisconnect, shouldResetConnection } from './runtime/errors.js';
 import { resolveOAuthTimeoutFromEnv } from './runtime/oauth.js';
+import { resolveRoot } from './runtime/roots.js';
+import { createSamplingProvider, type SamplingHandler } from './runtime/sampling.js';
+import { forwardServerLog, type ServerLogHandler, ServerLogListeners } from './runtime/server-logs.js';
+import {
+  type ResourceSubscriptionCloseHandler,
+  ResourceSubscriptions,
+  type ResourceUpdateHandler,
+} from './runtime/subscriptions.js';
+import {
+  assertToolAllowed,
+  confirmDestructiveCall,
+  type DestructiveToolHandler,
+  isToolAllowed,
+} from './runtime/tool-policy.js';
 import { type ClientContext, createClientContext } from './runtime/transport.js';
 import { normalizeTimeout, raceWithTimeout } from './runtime/utils.js';
+import { createTracer, inheritedTraceparent, type Span, type Tracer } from './tracing.js';
 
 const PACKAGE_NAME = 'mcporter';
 // Keep version in one place by reading package.json; fall back gracefully when bundled without it (e.g., bun bundle).
@@ -26,12 +55,36 @@ export interface RuntimeOptions {
   readonly configPath?: string;
   readonly servers?: ServerDefinition[];
   readonly rootDir?: string;
+  // profile applies a `profiles` entry from the config on top of the configured servers.
+  readonly profile?: string;
   readonly clientInfo?: {
     name: string;
     version: string;
   };
   readonly logger?: RuntimeLogger;
   readonly oauthTimeoutMs?: number;
+  // onElicitation lets servers ask the user for input mid-call (elicitation/create). Without it the
+  // capability is not advertised, so servers never elicit.
+  readonly onElicitation?: ElicitationHandler;
+  // sampling answers sampling/createMessage so servers can delegate LLM calls back to the client. When
+  // omitted, the config file's `sampling` block (if any) selects a provider; otherwise it is not advertised.
+  readonly sampling?: SamplingHandler;
+  // onServerConnected runs each time a pooled connection is established, including reconnects after a
+  // dropped transport; the daemon uses it to count restarts and find stdio child processes.
+  readonly onServerConnected?: (server: string, context: ClientContext) => void;
+  // onServerDisconnected runs when a pooled connection closes without runtime.close() (e.g., the STDIO
+  // child crashed). The connection is already dropped, so the next request relaunches the server.
+  readonly onServerDisconnected?: (server: string, reason: Error) => void;
+  // audit records every tool call. When omitted, the config file's `audit` block (if enabled) opens one.
+  readonly audit?: AuditLog;
+  // auditOrigin labels audit entries with where the call ran (the daemon host sets 'daemon').
+  readonly auditOrigin?: string;
+  // tracer exports spans for connects, tools/list pages, and tool calls. When omitted, the config file's
+  // `tracing` block or the OTEL_EXPORTER_OTLP_* variables (if set) open one.
+  readonly tracer?: Tracer;
+  // confirmDestructive approves calls to tools annotated with destructiveHint before they are sent; a
+  // declined call rejects with ToolCallDeclinedError. Without it destructive tools run unprompted.
+  readonly confirmDestructive?: DestructiveToolHandler;
 }
 
 export type RuntimeLogger = Logger;
@@ -39,6 +92,34 @@ export type RuntimeLogger = Logger;
 export interface CallOptions {
   readonly args?: CallToolRequest['params']['arguments'];
   readonly timeoutMs?: number;
+  readonly onProgress?: (progress: CallProgress) => void;
+  // signal cancels the call; the SDK sends notifications/cancelled and the call rejects with an AbortError.
+  readonly signal?: AbortSignal;
+  // onLog receives the server's notifications/message entries while the call runs (instead of the logger).
+  readonly onLog?: ServerLogHandler;
+  // onElicitation answers elicitations raised while the call runs, overriding RuntimeOptions.onElicitation.
+  // It only takes effect when the runtime advertises elicitation (i.e., RuntimeOptions.onElicitation is set).
+  readonly onElicitation?: ElicitationHandler;
+  // traceparent parents the call's span in the caller's trace; defaults to the TRACEPARENT variable.
+  readonly traceparent?: string;
+  // confirmDestructive approves this call if the tool is destructive, overriding RuntimeOptions.confirmDestructive.
+  readonly confirmDestructive?: DestructiveToolHandler;
+}
+
+export interface CallProgress {
+  readonly progress: number;
+  readonly total?: number;
+  readonly message?: string;
+}
+
+// CompletionReference names the prompt (`ref/prompt`) or resource template (`ref/resource`) being completed.
+export type CompletionReference = CompleteRequest['params']['ref'];
+export type CompletionArgument = CompleteRequest['params']['argument'];
+export type CompletionResult = CompleteResult['completion'];
+
+export interface CompleteOptions {
+  // context passes already-resolved arguments so servers can narrow suggestions (e.g., projects per team).
+  readonly context?: Record<string, string>;
 }
 
 export interface ListToolsOptions {
@@ -51,6 +132,8 @@ interface ConnectOptions {
   readonly maxOAuthAttempts?: number;
   readonly skipCache?: boolean;
   readonly allowCachedAuth?: boolean;
+  // traceParent parents the connect span when this request opens a new connection.
+  readonly traceParent?: Span;
 }
 
 export interface Runtime {
@@ -59,30 +142,83 @@ export interface Runtime {
   getDefinition(server: string): ServerDefinition;
   registerDefinition(definition: ServerDefinition, options?: { overwrite?: boolean }): void;
   listTools(server: string, options?: ListToolsOptions): Promise<ServerToolInfo[]>;
+  getToolAnnotations(server: string, toolName: string): Promise<ToolAnnotations | undefined>;
   callTool(server: string, toolName: string, options?: CallOptions): Promise<unknown>;
   listResources(server: string, options?: Partial<ListResourcesRequest['params']>): Promise<unknown>;
+  listResourceTemplates(server: string): Promise<ResourceTemplate[]>;
+  readResource(server: string, uri: string): Promise<ReadResourceResult>;
+  subscribeResource(
+    server: string,
+    uri: string,
+    handler: ResourceUpdateHandler,
+    onClose?: ResourceSubscriptionCloseHandler
+  ): Promise<() => Promise<void>>;
+  listPrompts(server: string): Promise<ServerPromptInfo[]>;
+  getPrompt(server: string, name: string, args?: Record<string, string>): Promise<GetPromptResult>;
+  setRoots(server: string, roots: ReadonlyArray<string | ServerRoot>): Promise<void>;
+  complete(
+    server: string,
+    ref: CompletionReference,
+    argument: CompletionArgument,
+    options?: CompleteOptions
+  ): Promise<CompletionResult>;
   connect(server: string): Promise<ClientContext>;
   close(server?: string): Promise<void>;
 }
 
+export type { ElicitationHandler, ElicitationRequest } from './runtime/elicitation.js';
+export type { SamplingHandler, SamplingProvider, SamplingRequest } from './runtime/sampling.js';
+export type { ServerLogHandler, ServerLogMessage } from './runtime/server-logs.js';
+export type {
+  ResourceSubscriptionCloseHandler,
+  ResourceUpdate,
+  ResourceUpdateHandler,
+} from './runtime/subscriptions.js';
+export type { DestructiveToolHandler, DestructiveToolRequest } from './runtime/tool-policy.js';
+
 export interface ServerToolInfo {
   readonly name: string;
   readonly description?: string;
   readonly inputSchema?: unknown;
   readonly outputSchema?: unknown;
+  // annotations are the server's behavior hints (readOnlyHint, destructiveHint, idempotentHint, openWorldHint).
+  readonly annotations?: ToolAnnotations;
+}
+
+export interface ServerPromptArgument {
+  readonly name: string;
+  readonly description?: string;
+  readonly required: boolean;
+}
+
+export interface ServerPromptInfo {
+  readonly name: string;
+  readonly title?: string;
+  readonly description?: string;
+  readonly arguments: ServerPromptArgument[];
 }
 
 // createRuntime spins up a pooled MCP runtime from config JSON or provided definitions.
 export async function createRuntime(options: RuntimeOptions = {}): Promise<Runtime> {
-  // Build the runtime with either the provided server list or the config file contents.
-  const servers =
-    options.servers ??
-    (await loadServerDefinitions({
-      configPath: options.configPath,
-      rootDir: options.rootDir,
-    }));
-
-  const runtime = new McpRuntime(servers, options);
+  // Provided servers skip the config file; otherwise one read of its layers supplies the servers (with the
+  // profile applied) along with the sampling, audit, and tracing blocks.
+  const config = options.servers
+    ? undefined
+    : await loadRuntimeConfig({ configPath: options.configPath, rootDir: options.rootDir, profile: options.profile });
+  const servers = options.servers ?? config?.servers ?? [];
+
+  const sampling =
+    options.sampling ?? (config?.sampling ? createSamplingProvider(config.sampling).createMessage : undefined);
+  const audit = options.audit ?? (config?.audit.enabled ? new AuditLog(config.audit, options.auditOrigin) : undefined);
+  // The OTEL_EXPORTER_OTLP_* variables enable tracing even without a config file.
+  const tracer =
+    options.tracer ??
+    createTracer(config?.tracing ?? normalizeTracing(undefined), {
+      logger: options.logger ?? createConsoleLogger(),
+      serviceVersion: CLIENT_VERSION,
+    });
+
+  const runtime = new McpRuntime(servers, { ...options, sampling, audit, tracer });
   return runtime;
 }
 
@@ -109,6 +245,21 @@ class McpRuntime implements Runtime {
   private readonly logger: RuntimeLogger;
   private readonly clientInfo: { name: string; version: string };
   private readonly oauthTimeoutMs?: number;
+  private readonly resourceSubscriptions = new ResourceSubscriptions();
+  private readonly serverLogListeners = new ServerLogListeners();
+  // toolAnnotations holds each server's annotations from its last pooled listing until tools/list_changed.
+  private readonly toolAnnotations = new Map<string, Map<string, ToolAnnotations | undefined>>();
+  private readonly elicitationRoutes = new ElicitationRoutes();
+  private readonly onElicitation?: ElicitationHandler;
+  private readonly sampling?: SamplingHandler;
+  private readonly rootOverrides = new Map<string, Root[]>();
+  private readonly onServerConnected?: (server: string, context: ClientContext) => void;
+  private readonly onServerDisconnected?: (server: string, reason: Error) => void;
+  private readonly audit?: AuditLog;
+  private readonly tracer?: Tracer;
+  private readonly confirmDestructive?: DestructiveToolHandler;
+  // closing marks contexts torn down by close() so their transport's onclose is not mistaken for a crash.
+  private readonly closing = new WeakSet<ClientContext>();
 
   constructor(servers: ServerDefinition[], options: RuntimeOptions = {}) {
     this.definitions = new Map(servers.map((entry) => [entry.name, entry]));
@@ -118,6 +269,13 @@ class McpRuntime implements Runtime {
       version: CLIENT_VERSION,
     };
     this.oauthTimeoutMs = options.oauthTimeoutMs;
+    this.onElicitation = options.onElicitation;
+    this.sampling = options.sampling;
+    this.onServerConnected = options.onServerConnected;
+    this.onServerDisconnected = options.onServerDisconnected;
+    this.audit = options.audit;
+    this.tracer = options.tracer;
+    this.confirmDestructive = options.confirmDestructive;
   }
 
   // listServers returns configured names sorted alphabetically for stable CLI output.
@@ -145,41 +303,77 @@ class McpRuntime implements Runtime {
     }
     this.definitions.set(definition.name, definition);
     this.clients.delete(definition.name);
+    this.toolAnnotations.delete(definition.name);
   }
 
   // listTools queries tool metadata and optionally includes schemas when requested.
   async listTools(server: string, options: ListToolsOptions = {}): Promise<ServerToolInfo[]> {
     // Toggle auto authorization so list can run without forcing OAuth flows.
     const autoAuthorize = options.autoAuthorize !== false;
-    const context = await this.connect(server, {
-      maxOAuthAttempts: autoAuthorize ? undefined : 0,
-      skipCache: !autoAuthorize,
-      allowCachedAuth: options.allowCachedAuth,
+    const span = this.tracer?.startSpan('mcporter.list_tools', {
+      parent: inheritedTraceparent(),
+      attributes: { 'mcporter.server': server.trim() },
     });
+    let context: ClientContext | undefined;
     try {
+      context = await this.connect(server, {
+        maxOAuthAttempts: autoAuthorize ? undefined : 0,
+        skipCache: !autoAuthorize,
+        allowCachedAuth: options.allowCachedAuth,
+        traceParent: span,
+      });
+      // The server's `tools` policy hides blocked tools from every listing (list, generate-cli, emit-ts, serve).
+      const policy = this.definitions.get(server.trim())?.tools;
       const tools: ServerToolInfo[] = [];
       let cursor: string | undefined;
+      let pages = 0;
       do {
-        const response = await context.client.listTools(cursor ? { cursor } : undefined);
+        pages += 1;
+        const page = this.tracer?.startSpan('tools/list', {
+          parent: span,
+          kind: 'client',
+          attributes: { 'mcp.method.name': 'tools/list', 'mcporter.page': pages },
+        });
+        let response: ListToolsResult;
+        try {
+          response = await context.client.listTools(cursor || page ? { cursor, ...traceMeta(page) } : undefined);
+          page?.setAttribute('mcporter.tools.count', response.tools?.length ?? 0);
+        } catch (error) {
+          page?.recordError(error);
+          throw error;
+        } finally {
+          page?.end();
+        }
         tools.push(
-          ...(response.tools ?? []).map((tool) => ({
-            name: tool.name,
-            description: tool.description ?? undefined,
-            inputSchema: options.includeSchema ? tool.inputSchema : undefined,
-            outputSchema: options.includeSchema ? tool.outputSchema : undefined,
-          }))
+          ...(response.tools ?? [])
+            .filter((tool) => isToolAllowed(policy, tool.name))
+            .map((tool) => ({
+              name: tool.name,
+              description: tool.description ?? undefined,
+              inputSchema: options.includeSchema ? tool.inputSchema : undefined,
+              outputSchema: options.includeSchema ? tool.outputSchema : undefined,
+              annotations: tool.annotations ?? undefined,
+            }))
         );
         cursor = response.nextCursor ?? undefined;
       } while (cursor);
 
+      span?.setAttribute('mcporter.tools.pages', pages);
+      span?.setAttribute('mcporter.tools.count', tools.length);
+      // Only pooled connections hear tools/list_changed, so listings over a temporary one are not cached.
+      if (autoAuthorize) {
+        this.toolAnnotations.set(server.trim(), new Map(tools.map((tool) => [tool.name, tool.annotations])));
+      }
       return tools;
     } catch (error) {
+      span?.recordError(error);
       // Keep-alive STDIO transports often die when Chrome closes; drop the cached client
       // so the next call spins up a fresh process instead of reusing the broken handle.
       await this.resetConnectionOnError(server, error);
       throw error;
     } finally {
-      if (!autoAuthorize) {
+      span?.end();
+      if (!autoAuthorize && context) {
         await context.client.close().catch(() => {});
         await closeTransportAndWait(this.logger, context.transport).catch(() => {});
         await context.oauthSession?.close().catch(() => {});
@@ -187,32 +381,95 @@ class McpRuntime implements Runtime {
     }
   }
 
-  // callTool executes a tool using the args provided by the caller.
+  // getToolAnnotations answers from the last listing and lists tools only when none is cached.
+  async getToolAnnotations(server: string, toolName: string): Promise<ToolAnnotations | undefined> {
+    const normalized = server.trim();
+    const cached = this.toolAnnotations.get(normalized);
+    if (cached) {
+      return cached.get(toolName);
+    }
+    return (await this.listTools(normalized)).find((tool) => tool.name === toolName)?.annotations;
+  }
+
+  // callTool executes a tool using the args provided by the caller and records it in the audit log.
   async callTool(server: string, toolName: string, options: CallOptions = {}): Promise<unknown> {
+    const call = { server: server.trim(), tool: toolName, args: options.args, startedAt: Date.now() };
+    const span = this.tracer?.startSpan(`tools/call ${toolName}`, {
+      parent: options.traceparent ?? inheritedTraceparent(),
+      kind: 'client',
+      attributes: { 'mcp.method.name': 'tools/call', 'gen_ai.tool.name': toolName, 'mcporter.server': call.server },
+    });
     try {
-      const { client } = await this.connect(server);
+      // Checked before connecting so a blocked call never reaches the server (or resets its connection).
+      assertToolAllowed(call.server, this.definitions.get(call.server)?.tools, toolName);
+      await confirmDestructiveCall(
+        options.confirmDestructive ?? this.confirmDestructive,
+        { server: call.server, tool: toolName, args: options.args },
+        () => this.getToolAnnotations(call.server, toolName)
+      );
+      const result = await this.invokeTool(server, toolName, options, span);
+      if (isToolErrorResult(result)) {
+        span?.setError('tool_error', `Tool '${toolName}' returned an error result.`);
+      }
+      await this.recordAudit({ ...call, result });
+      return result;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        span?.setError('cancelled', 'The call was cancelled.');
+      } else {
+        span?.recordError(error);
+      }
+      await this.recordAudit({ ...call, error, cancelled: options.signal?.aborted });
+      throw error;
+    } finally {
+      span?.end();
+    }
+  }
+
+  private async invokeTool(server: string, toolName: string, options: CallOptions, span?: Span): Promise<unknown> {
+    const removeLogListener = options.onLog ? this.serverLogListeners.add(server.trim(), options.onLog) : undefined;
+    const removeElicitationRoute = options.onElicitation
+      ? this.elicitationRoutes.add(server.trim(), options.onElicitation)
+      : undefined;
+    try {
+      const { client } = await this.connect(server, { traceParent: span });
       const params: CallToolRequest['params'] = {
         name: toolName,
         arguments: options.args ?? {},
+        ...traceMeta(span),
       };
       // Forward the requested timeout to the MCP client so server-side requests don't hit the SDK's
       // default 60s cap. Keep our own outer race as a second guard.
       const timeoutMs = normalizeTimeout(options.timeoutMs);
+      const onProgress = options.onProgress;
       const resultPromise = client.callTool(params, undefined, {
         timeout: timeoutMs,
         // Long runs (e.g., GPT-5 Pro) emit progress/logging; allow that to refresh the timer.
+        // The SDK only requests progress (via a progress token) when an onprogress handler is set.
         resetTimeoutOnProgress: true,
         maxTotalTimeout: timeoutMs,
+        signal: options.signal,
+        onprogress: (progress) => {
+          onProgress?.({ progress: progress.progress, total: progress.total, message: progress.message });
+        },
       });
       if (!timeoutMs) {
         return await resultPromise;
       }
       return await raceWithTimeout(resultPromise, timeoutMs);
     } catch (error) {
+      // The SDK reports aborts as RequestTimeout errors; surface the caller's abort reason instead and keep
+      // the connection, since a cancelled call says nothing about the transport.
+      if (options.signal?.aborted) {
+        throw options.signal.reason;
+      }
       // Runtime timeouts and transport crashes should tear down the cached connection so
       // the daemon (or direct runtime) can relaunch the MCP server on the next attempt.
       await this.resetConnectionOnError(server, error);
       throw error;
+    } finally {
+      removeLogListener?.();
+      removeElicitationRoute?.();
     }
   }
 
@@ -228,6 +485,147 @@ class McpRuntime implements Runtime {
     }
   }
 
+  // listResourceTemplates follows resources/templates/list pagination and returns every template.
+  async listResourceTemplates(server: string): Promise<ResourceTemplate[]> {
+    try {
+      const { client } = await this.connect(server);
+      const templates: ResourceTemplate[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await client.listResourceTemplates(cursor ? { cursor } : undefined);
+        templates.push(...(response.resourceTemplates ?? []));
+        cursor = response.nextCursor ?? undefined;
+      } while (cursor);
+      return templates;
+    } catch (error) {
+      await this.resetConnectionOnError(server, error);
+      throw error;
+    }
+  }
+
+  // readResource fetches the contents of a single resource URI.
+  async readResource(server: string, uri: string): Promise<ReadResourceResult> {
+    try {
+      const { client } = await this.connect(server);
+      return await client.readResource({ uri });
+    } catch (error) {
+      await this.resetConnectionOnError(server, error);
+      throw error;
+    }
+  }
+
+  // subscribeResource registers a resources/updated listener and returns a disposer that unsubscribes.
+  // onClose runs if the subscription ends first because the server's connection closed.
+  async subscribeResource(
+    server: string,
+    uri: string,
+    handler: ResourceUpdateHandler,
+    onClose?: ResourceSubscriptionCloseHandler
+  ): Promise<() => Promise<void>> {
+    const normalized = server.trim();
+    const registration = this.resourceSubscriptions.add(normalized, uri, handler, onClose);
+    if (registration.first) {
+      try {
+        const { client } = await this.connect(normalized);
+        await client.subscribeResource({ uri });
+      } catch (error) {
+        registration.remove();
+        await this.resetConnectionOnError(normalized, error);
+        throw error;
+      }
+    }
+    let disposed = false;
+    return async () => {
+      if (disposed) {
+        return;
+      }
+      disposed = true;
+      // Only the last local listener tears down the upstream subscription.
+      if (!registration.remove()) {
+        return;
+      }
+      const context = await this.clients.get(normalized)?.catch(() => undefined);
+      await context?.client.unsubscribeResource({ uri }).catch(() => {});
+    };
+  }
+
+  // listPrompts follows prompts/list pagination so large template catalogs come back complete.
+  async listPrompts(server: string): Promise<ServerPromptInfo[]> {
+    try {
+      const { client } = await this.connect(server);
+      const prompts: ServerPromptInfo[] = [];
+      let cursor: string | undefined;
+      do {
+        const response = await client.listPrompts(cursor ? { cursor } : undefined);
+        prompts.push(
+          ...(response.prompts ?? []).map((prompt) => ({
+            name: prompt.name,
+            title: prompt.title ?? undefined,
+            description: prompt.description ?? undefined,
+            arguments: (prompt.arguments ?? []).map((argument) => ({
+              name: argument.name,
+              description: argument.description ?? undefined,
+              required: argument.required === true,
+            })),
+          }))
+        );
+        cursor = response.nextCursor ?? undefined;
+      } while (cursor);
+      return prompts;
+    } catch (error) {
+      await this.resetConnectionOnError(server, error);
+      throw error;
+    }
+  }
+
+  // getPrompt renders a server-side prompt template with the provided string arguments.
+  async getPrompt(server: string, name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    try {
+      const { client } = await this.connect(server);
+      return await client.getPrompt({ name, arguments: args });
+    } catch (error) {
+      await this.resetConnectionOnError(server, error);
+      throw error;
+    }
+  }
+
+  // complete asks the server for completion/complete suggestions; servers without the completions
+  // capability yield an empty list instead of a MethodNotFound error.
+  async complete(
+    server: string,
+    ref: CompletionReference,
+    argument: CompletionArgument,
+    options: CompleteOptions = {}
+  ): Promise<CompletionResult> {
+    try {
+      const { client } = await this.connect(server);
+      if (!client.getServerCapabilities()?.completions) {
+        return { values: [] };
+      }
+      const result = await client.complete({
+        ref,
+        argument,
+        ...(options.context ? { context: { arguments: options.context } } : {}),
+      });
+      return result.completion;
+    } catch (error) {
+      await this.resetConnectionOnError(server, error);
+      throw error;
+    }
+  }
+
+  // setRoots replaces the server's configured roots and, when connected, sends notifications/roots/list_changed
+  // so the server re-reads them.
+  async setRoots(server: string, roots: ReadonlyArray<string | ServerRoot>): Promise<void> {
+    const normalized = server.trim();
+    if (!this.definitions.has(normalized)) {
+      throw new Error(`Unknown MCP server '${normalized}'.`);
+    }
+    this.rootOverrides.set(normalized, roots.map(resolveRoot));
+    const context = await this.clients.get(normalized)?.catch(() => undefined);
+    await context?.client.sendRootsListChanged();
+  }
+
   // connect lazily instantiates a client context per server and memoizes it.
   async connect(server: string, options: ConnectOptions = {}): Promise<ClientContext> {
     // Reuse cached connections unless the caller explicitly opted out.
@@ -247,19 +645,43 @@ class McpRuntime implements Runtime {
       throw new Error(`Unknown MCP server '${normalized}'.`);
     }
 
+    const sampling = this.sampling;
     const connection = createClientContext(definition, this.logger, this.clientInfo, {
       maxOAuthAttempts: options.maxOAuthAttempts,
       oauthTimeoutMs: this.oauthTimeoutMs ?? OAUTH_CODE_TIMEOUT_MS,
       onDefinitionPromoted: (promoted) => this.definitions.set(promoted.name, promoted),
       allowCachedAuth: options.allowCachedAuth,
+      onResourceUpdated: (uri) => this.resourceSubscriptions.dispatch(normalized, uri),
+      onToolListChanged: () => this.toolAnnotations.delete(normalized),
+      onLogMessage: (params) => {
+        const message = { server: normalized, level: params.level, logger: params.logger, data: params.data };
+        if (!this.serverLogListeners.dispatch(message)) {
+          forwardServerLog(this.logger, message);
+        }
+      },
+      onElicitation: this.onElicitation
+        ? (params) => {
+            const handler = this.elicitationRoutes.resolve(normalized) ?? this.onElicitation;
+            const request = { server: normalized, message: params.message, requestedSchema: params.requestedSchema };
+            return handler ? handler(request) : Promise.resolve({ action: 'decline' as const });
+          }
+        : undefined,
+      onListRoots: () => this.rootOverrides.get(normalized) ?? (definition.roots ?? []).map(resolveRoot),
+      onSampling: sampling ? (params) => sampling({ server: normalized, params }) : undefined,
+      tracer: this.tracer,
+      traceParent: options.traceParent,
     });
 
     if (useCache) {
       this.clients.set(normalized, connection);
       try {
-        return await connection;
+        const context = await connection;
+        this.watchDisconnect(normalized, connection, context);
+        this.onServerConnected?.(normalized, context);
+        return context;
       } catch (error) {
         this.clients.delete(normalized);
+        this.toolAnnotations.delete(normalized);
         throw error;
       }
     }
@@ -275,16 +697,22 @@ class McpRuntime implements Runtime {
       if (!context) {
         return;
       }
+      this.closing.add(context);
       await context.client.close().catch(() => {});
       await closeTransportAndWait(this.logger, context.transport).catch(() => {});
       await context.oauthSession?.close().catch(() => {});
       this.clients.delete(normalized);
+      this.toolAnnotations.delete(normalized);
+      // Upstream subscriptions die with the connection; drop listeners (telling them why) so they don't leak.
+      this.resourceSubscriptions.clear(normalized);
+      await this.tracer?.flush();
       return;
     }
 
     for (const [name, promise] of this.clients.entries()) {
       try {
         const context = await promise;
+        this.closing.add(context);
         await context.client.close().catch(() => {});
         await closeTransportAndWait(this.logger, context.transport).catch(() => {});
         await context.oauthSession?.close().catch(() => {});
@@ -292,6 +720,38 @@ class McpRuntime implements Runtime {
         this.clients.delete(name);
       }
     }
+    this.toolAnnotations.clear();
+    this.resourceSubscriptions.clear();
+    await this.tracer?.flush();
+  }
+
+  // recordAudit never fails the call; a broken audit log is reported through the logger instead.
+  private async recordAudit(call: AuditCall): Promise<void> {
+    if (!this.audit) {
+      return;
+    }
+    try {
+      await this.audit.record(call);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to write audit entry for '${call.server}.${call.tool}': ${detail}`);
+    }
+  }
+
+  // watchDisconnect drops a pooled connection whose transport closed on its own, so the next request
+  // relaunches the server instead of failing against a dead client.
+  private watchDisconnect(server: string, connection: Promise<ClientContext>, context: ClientContext): void {
+    context.client.onclose = () => {
+      if (this.closing.has(context) || this.clients.get(server) !== connection) {
+        return;
+      }
+      this.clients.delete(server);
+      this.toolAnnotations.delete(server);
+      const reason = describeDisconnect(server, context.transport);
+      this.resourceSubscriptions.clear(server, reason);
+      void context.oauthSession?.close().catch(() => {});
+      this.onServerDisconnected?.(server, reason);
+    };
   }
 
   private async resetConnectionOnError(server: string, error: unknown): Promise<void> {
@@ -313,6 +773,16 @@ class McpRuntime implements Runtime {
   }
 }
 
+// traceMeta carries the span's traceparent in a request's `_meta`, so servers can join the caller's trace.
+function traceMeta(span: Span | undefined): { _meta?: { traceparent: string } } {
+  return span ? { _meta: { traceparent: span.traceparent } } : {};
+}
+
+// isToolErrorResult spots results the server flagged with `isError`, which mark the call span as failed.
+function isToolErrorResult(result: unknown): boolean {
+  return typeof result === 'object' && result !== null && (result as { isError?: unknown }).isError === true;
+}
+
 // createConsoleLogger produces the default runtime logger honoring MCPORTER_LOG_LEVEL.
 function createConsoleLogger(level: LogLevel = resolveLogLevelFromEnv()): RuntimeLogger {
   return createPrefixedConsoleLogger('mcporter', level);
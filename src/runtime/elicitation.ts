@@ -0,0 +1,37 @@
+import type { ElicitRequestFormParams, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+
+export interface ElicitationRequest {
+  readonly server: string;
+  readonly message: string;
+  readonly requestedSchema: ElicitRequestFormParams['requestedSchema'];
+}
+
+export type ElicitationHandler = (request: ElicitationRequest) => Promise<ElicitResult>;
+
+// ElicitationRoutes lets an in-flight call answer elicitation/create for its server. Elicitation requests
+// carry no call id, so the most recently started call on that server wins.
+export class ElicitationRoutes {
+  private readonly handlers = new Map<string, ElicitationHandler[]>();
+
+  add(server: string, handler: ElicitationHandler): () => void {
+    const stack = this.handlers.get(server) ?? [];
+    const entry: ElicitationHandler = (request) => handler(request);
+    stack.push(entry);
+    this.handlers.set(server, stack);
+    return () => {
+      const current = this.handlers.get(server);
+      const index = current?.indexOf(entry) ?? -1;
+      if (!current || index === -1) {
+        return;
+      }
+      current.splice(index, 1);
+      if (current.length === 0) {
+        this.handlers.delete(server);
+      }
+    };
+  }
+
+  resolve(server: string): ElicitationHandler | undefined {
+    return this.handlers.get(server)?.at(-1);
+  }
+}
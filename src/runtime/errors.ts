@@ -1,4 +1,6 @@
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { readStdioExit } from '../sdk-patches.js';
 
 const NON_FATAL_MCP_ERROR_CODES = new Set([
   ErrorCode.InvalidRequest,
@@ -6,6 +8,11 @@ const NON_FATAL_MCP_ERROR_CODES = new Set([
   ErrorCode.InvalidParams,
 ]);
 
+// isAbortError matches the rejection produced when a caller's AbortSignal cancels a request.
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
 export function shouldResetConnection(error: unknown): boolean {
   if (!error) {
     return false;
@@ -15,3 +22,15 @@ export function shouldResetConnection(error: unknown): boolean {
   }
   return error instanceof Error;
 }
+
+// describeDisconnect explains why a pooled connection closed on its own. STDIO exits are phrased so
+// analyzeConnectionError classifies them as `stdio-exit`.
+export function describeDisconnect(server: string, transport: unknown): Error {
+  const exit = transport instanceof StdioClientTransport ? readStdioExit(transport) : undefined;
+  if (!exit) {
+    return new Error(`Connection to '${server}' closed unexpectedly.`);
+  }
+  const how = exit.signal ? `signal ${exit.signal}` : `code ${exit.code ?? 'unknown'}`;
+  const detail = exit.stderrTail ? `: ${exit.stderrTail}` : '.';
+  return new Error(`STDIO server '${server}' exited with ${how}${detail}`);
+}
@@ -27,7 +27,13 @@ export async function connectWithAuth(
   },
   session: OAuthSession | undefined,
   logger: Logger,
-  options: { serverName?: string; maxAttempts?: number; oauthTimeoutMs?: number } = {}
+  options: {
+    serverName?: string;
+    maxAttempts?: number;
+    oauthTimeoutMs?: number;
+    // onAuthorizationRequired runs before each browser authorization attempt (tracing counts them).
+    onAuthorizationRequired?: (attempt: number) => void;
+  } = {}
 ): Promise<void> {
   const { serverName, maxAttempts = 3, oauthTimeoutMs = DEFAULT_OAUTH_CODE_TIMEOUT_MS } = options;
   let attempt = 0;
@@ -43,6 +49,7 @@ export async function connectWithAuth(
       if (attempt > maxAttempts) {
         throw error;
       }
+      options.onAuthorizationRequired?.(attempt);
       logger.warn(`OAuth authorization required for '${serverName ?? 'unknown'}'. Waiting for browser approval...`);
       try {
         const code = await waitForAuthorizationCodeWithTimeout(
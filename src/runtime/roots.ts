@@ -0,0 +1,14 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Root } from '@modelcontextprotocol/sdk/types.js';
+import type { ServerRoot } from '../config.js';
+import { expandHome, resolveEnvPlaceholders } from '../env.js';
+
+// resolveRoot expands `${VAR}` and `~`, then turns the path into the file:// URI MCP expects.
+// Relative paths resolve against the current working directory; file:// URIs pass through.
+export function resolveRoot(root: string | ServerRoot): Root {
+  const entry = typeof root === 'string' ? { path: root } : root;
+  const expanded = expandHome(resolveEnvPlaceholders(entry.path, 'roots'));
+  const uri = expanded.startsWith('file:') ? expanded : pathToFileURL(path.resolve(expanded)).href;
+  return entry.name ? { uri, name: entry.name } : { uri };
+}
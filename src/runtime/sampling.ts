@@ -0,0 +1,115 @@
+import { spawn } from 'node:child_process';
+import {
+  type CreateMessageRequest,
+  type CreateMessageResult,
+  CreateMessageResultSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { CommandSamplingConfig, SamplingConfig } from '../config.js';
+
+export interface SamplingRequest {
+  readonly server: string;
+  readonly params: CreateMessageRequest['params'];
+}
+
+export type SamplingHandler = (request: SamplingRequest) => Promise<CreateMessageResult>;
+
+// SamplingProvider is the pluggable backend behind sampling/createMessage; config blocks select one by name.
+export interface SamplingProvider {
+  readonly name: string;
+  readonly createMessage: SamplingHandler;
+}
+
+const DEFAULT_SAMPLING_TIMEOUT_MS = 120_000;
+
+export function createSamplingProvider(config: SamplingConfig): SamplingProvider {
+  switch (config.provider) {
+    case 'command':
+      return createCommandSamplingProvider(config);
+    default:
+      throw new Error(`Unknown sampling provider '${(config as { provider: string }).provider}'.`);
+  }
+}
+
+// createCommandSamplingProvider writes the SamplingRequest as JSON to the command's stdin and reads the
+// reply from stdout: either a CreateMessageResult object or plain text, which becomes an assistant message.
+export function createCommandSamplingProvider(config: CommandSamplingConfig): SamplingProvider {
+  return {
+    name: 'command',
+    createMessage: async (request) => parseSamplingOutput(config, await runSamplingCommand(config, request)),
+  };
+}
+
+function runSamplingCommand(config: CommandSamplingConfig, request: SamplingRequest): Promise<string> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_SAMPLING_TIMEOUT_MS;
+  return new Promise((resolve, reject) => {
+    const child = spawn(config.command, config.args, {
+      cwd: config.cwd,
+      env: { ...process.env, ...config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+    const finish = (error: Error | undefined, output = ''): void => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      if (error) {
+        reject(error);
+      } else {
+        resolve(output);
+      }
+    };
+    const timer = setTimeout(() => {
+      child.kill('SIGTERM');
+      finish(new Error(`Sampling command '${config.command}' timed out after ${timeoutMs}ms.`));
+    }, timeoutMs);
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      stdout += chunk;
+    });
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      stderr += chunk;
+    });
+    child.once('error', (error) => {
+      finish(new Error(`Failed to start sampling command '${config.command}': ${error.message}`));
+    });
+    child.once('close', (code, signal) => {
+      if (code === 0) {
+        finish(undefined, stdout);
+        return;
+      }
+      const detail = stderr.trim() ? `: ${stderr.trim()}` : '';
+      finish(new Error(`Sampling command '${config.command}' exited with ${signal ?? `code ${code}`}${detail}`));
+    });
+    // Commands that never read stdin close the pipe early; the exit status is what matters.
+    child.stdin.on('error', () => {});
+    child.stdin.end(JSON.stringify(request));
+  });
+}
+
+function parseSamplingOutput(config: CommandSamplingConfig, stdout: string): CreateMessageResult {
+  const text = stdout.trim();
+  if (!text) {
+    throw new Error(`Sampling command '${config.command}' produced no output.`);
+  }
+  if (!text.startsWith('{')) {
+    return { role: 'assistant', content: { type: 'text', text }, model: config.command, stopReason: 'endTurn' };
+  }
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Sampling command '${config.command}' returned invalid JSON: ${(error as Error).message}`);
+  }
+  const parsed = CreateMessageResultSchema.safeParse(decoded);
+  if (!parsed.success) {
+    throw new Error(
+      `Sampling command '${config.command}' returned an invalid CreateMessageResult: ${parsed.error.message}`
+    );
+  }
+  return parsed.data;
+}
@@ -0,0 +1,76 @@
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import type { Logger } from '../logging.js';
+
+export interface ServerLogMessage {
+  readonly server: string;
+  readonly level: LoggingLevel;
+  readonly logger?: string;
+  readonly data: unknown;
+}
+
+export type ServerLogHandler = (message: ServerLogMessage) => void;
+
+// ServerLogListeners tracks per-call log listeners (e.g., `mcporter call --server-logs`). Log notifications
+// are not tied to a request, so every listener on a server sees everything it emits while registered.
+export class ServerLogListeners {
+  private readonly handlers = new Map<string, Set<ServerLogHandler>>();
+
+  add(server: string, handler: ServerLogHandler): () => void {
+    let listeners = this.handlers.get(server);
+    if (!listeners) {
+      listeners = new Set();
+      this.handlers.set(server, listeners);
+    }
+    const listener: ServerLogHandler = (message) => handler(message);
+    listeners.add(listener);
+    return () => {
+      const current = this.handlers.get(server);
+      current?.delete(listener);
+      if (current?.size === 0) {
+        this.handlers.delete(server);
+      }
+    };
+  }
+
+  // dispatch returns false when nobody is listening so the caller can fall back to the runtime logger.
+  dispatch(message: ServerLogMessage): boolean {
+    const listeners = this.handlers.get(message.server);
+    if (!listeners || listeners.size === 0) {
+      return false;
+    }
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener(message);
+      } catch {
+        // A failing listener must not prevent the rest from receiving the entry.
+      }
+    }
+    return true;
+  }
+}
+
+// formatServerLogMessage renders `[server:logger] text`, stringifying structured payloads as JSON.
+export function formatServerLogMessage(message: ServerLogMessage): string {
+  const source = message.logger ? `${message.server}:${message.logger}` : message.server;
+  const text = typeof message.data === 'string' ? message.data : JSON.stringify(message.data);
+  return `[${source}] ${text}`;
+}
+
+// forwardServerLog maps MCP's syslog-style levels onto the mcporter Logger methods.
+export function forwardServerLog(logger: Logger, message: ServerLogMessage): void {
+  const line = formatServerLogMessage(message);
+  switch (message.level) {
+    case 'debug':
+      logger.debug?.(line);
+      return;
+    case 'info':
+    case 'notice':
+      logger.info(line);
+      return;
+    case 'warning':
+      logger.warn(line);
+      return;
+    default:
+      logger.error(line);
+  }
+}
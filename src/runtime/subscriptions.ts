@@ -0,0 +1,101 @@
+export interface ResourceUpdate {
+  readonly server: string;
+  readonly uri: string;
+}
+
+export type ResourceUpdateHandler = (update: ResourceUpdate) => void;
+
+// ResourceSubscriptionCloseHandler hears that a subscription ended without the caller unsubscribing,
+// e.g., because the server exited or its connection was reset.
+export type ResourceSubscriptionCloseHandler = (error: Error) => void;
+
+interface ResourceListener {
+  readonly update: ResourceUpdateHandler;
+  readonly close?: ResourceSubscriptionCloseHandler;
+}
+
+export interface ResourceSubscriptionRegistration {
+  // first is true when this handler is the only listener for the server/uri pair.
+  readonly first: boolean;
+  // remove detaches the handler and reports whether it was the last listener.
+  readonly remove: () => boolean;
+}
+
+// ResourceSubscriptions fans out resources/updated notifications to every local listener,
+// so multiple watchers share one upstream subscription per server/uri pair.
+export class ResourceSubscriptions {
+  private readonly handlers = new Map<string, Map<string, Set<ResourceListener>>>();
+
+  add(
+    server: string,
+    uri: string,
+    handler: ResourceUpdateHandler,
+    onClose?: ResourceSubscriptionCloseHandler
+  ): ResourceSubscriptionRegistration {
+    let byUri = this.handlers.get(server);
+    if (!byUri) {
+      byUri = new Map();
+      this.handlers.set(server, byUri);
+    }
+    let listeners = byUri.get(uri);
+    if (!listeners) {
+      listeners = new Set();
+      byUri.set(uri, listeners);
+    }
+    // A fresh object per call, so registering the same function twice still yields two listeners.
+    const listener: ResourceListener = { update: handler, close: onClose };
+    listeners.add(listener);
+    const first = listeners.size === 1;
+    return {
+      first,
+      remove: () => {
+        const current = this.handlers.get(server)?.get(uri);
+        if (!current?.delete(listener)) {
+          return false;
+        }
+        if (current.size > 0) {
+          return false;
+        }
+        this.handlers.get(server)?.delete(uri);
+        if (this.handlers.get(server)?.size === 0) {
+          this.handlers.delete(server);
+        }
+        return true;
+      },
+    };
+  }
+
+  dispatch(server: string, uri: string): void {
+    const listeners = this.handlers.get(server)?.get(uri);
+    if (!listeners) {
+      return;
+    }
+    // Snapshot first: listeners may unsubscribe while handling the update.
+    for (const listener of Array.from(listeners)) {
+      try {
+        listener.update({ server, uri });
+      } catch {
+        // A failing listener must not prevent the rest from receiving the update.
+      }
+    }
+  }
+
+  // clear drops every listener for a server (or all servers) and tells each one its subscription ended.
+  clear(server?: string, reason?: Error): void {
+    const servers = server ? [server] : Array.from(this.handlers.keys());
+    for (const name of servers) {
+      const byUri = this.handlers.get(name);
+      this.handlers.delete(name);
+      const error = reason ?? new Error(`Connection to '${name}' closed.`);
+      for (const listeners of byUri?.values() ?? []) {
+        for (const listener of listeners) {
+          try {
+            listener.close?.(error);
+          } catch {
+            // Same as dispatch: one failing listener must not hide the close from the others.
+          }
+        }
+      }
+    }
+  }
+}
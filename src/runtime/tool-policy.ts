@@ -0,0 +1,107 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import type { ServerToolPolicy } from '../config-schema.js';
+
+// DestructiveToolRequest describes a pending call to a tool the server annotated as destructive.
+export interface DestructiveToolRequest {
+  readonly server: string;
+  readonly tool: string;
+  readonly args?: Record<string, unknown>;
+  readonly annotations: ToolAnnotations;
+}
+
+// DestructiveToolHandler approves (true) or declines (false) a destructive call before it is sent.
+export type DestructiveToolHandler = (request: DestructiveToolRequest) => boolean | Promise<boolean>;
+
+// ToolNotAllowedError rejects calls to tools that a server's `tools` policy hides.
+export class ToolNotAllowedError extends Error {
+  public readonly serverName: string;
+  public readonly toolName: string;
+
+  constructor(serverName: string, toolName: string, rule: 'allow' | 'deny') {
+    super(
+      rule === 'deny'
+        ? `Tool '${toolName}' on server '${serverName}' is blocked by the server's tools.deny policy.`
+        : `Tool '${toolName}' on server '${serverName}' is not in the server's tools.allow list.`
+    );
+    this.name = 'ToolNotAllowedError';
+    this.serverName = serverName;
+    this.toolName = toolName;
+  }
+}
+
+// ToolCallDeclinedError rejects destructive calls that the confirmation handler did not approve.
+export class ToolCallDeclinedError extends Error {
+  public readonly serverName: string;
+  public readonly toolName: string;
+
+  constructor(serverName: string, toolName: string) {
+    super(`Call to destructive tool '${toolName}' on server '${serverName}' was not confirmed.`);
+    this.name = 'ToolCallDeclinedError';
+    this.serverName = serverName;
+    this.toolName = toolName;
+  }
+}
+
+// findBlockingRule reports which half of the policy hides a tool: deny wins over allow, and an empty or
+// missing allow list allows everything.
+export function findBlockingRule(policy: ServerToolPolicy | undefined, toolName: string): 'allow' | 'deny' | undefined {
+  if (!policy) {
+    return undefined;
+  }
+  if (policy.deny?.some((pattern) => globToRegExp(pattern).test(toolName))) {
+    return 'deny';
+  }
+  if (
+    policy.allow &&
+    policy.allow.length > 0 &&
+    !policy.allow.some((pattern) => globToRegExp(pattern).test(toolName))
+  ) {
+    return 'allow';
+  }
+  return undefined;
+}
+
+export function isToolAllowed(policy: ServerToolPolicy | undefined, toolName: string): boolean {
+  return findBlockingRule(policy, toolName) === undefined;
+}
+
+export function assertToolAllowed(serverName: string, policy: ServerToolPolicy | undefined, toolName: string): void {
+  const rule = findBlockingRule(policy, toolName);
+  if (rule) {
+    throw new ToolNotAllowedError(serverName, toolName, rule);
+  }
+}
+
+// isDestructiveTool follows the tool's own hints: only tools that declare destructiveHint (and are not
+// read-only) need confirmation, so servers without annotations keep working unprompted.
+export function isDestructiveTool(annotations: ToolAnnotations | undefined): boolean {
+  return annotations?.destructiveHint === true && annotations.readOnlyHint !== true;
+}
+
+// confirmDestructiveCall asks the handler to approve a call to a destructive tool. Annotations are only
+// looked up when a handler is installed, so runtimes without one pay nothing.
+export async function confirmDestructiveCall(
+  handler: DestructiveToolHandler | undefined,
+  request: Omit<DestructiveToolRequest, 'annotations'>,
+  lookupAnnotations: () => Promise<ToolAnnotations | undefined>
+): Promise<void> {
+  if (!handler) {
+    return;
+  }
+  const annotations = await lookupAnnotations();
+  if (!annotations || !isDestructiveTool(annotations)) {
+    return;
+  }
+  if (!(await handler({ ...request, annotations }))) {
+    throw new ToolCallDeclinedError(request.server, request.tool);
+  }
+}
+
+// globToRegExp anchors a pattern where `*` matches any run of characters; everything else is literal.
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
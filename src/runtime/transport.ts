@@ -3,14 +3,32 @@ import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  type ClientCapabilities,
+  type CreateMessageRequest,
+  CreateMessageRequestSchema,
+  type CreateMessageResult,
+  type ElicitRequestFormParams,
+  ElicitRequestSchema,
+  type ElicitResult,
+  ListRootsRequestSchema,
+  type LoggingMessageNotification,
+  LoggingMessageNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  type Root,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import type { ServerDefinition } from '../config.js';
 import { resolveEnvValue, withEnvOverrides } from '../env.js';
+import { readEnvFiles } from '../env-file.js';
 import type { Logger } from '../logging.js';
 import { createOAuthSession, type OAuthSession } from '../oauth.js';
 import { readCachedAccessToken } from '../oauth-persistence.js';
 import { materializeHeaders } from '../runtime-header-utils.js';
 import { isUnauthorizedError, maybeEnableOAuth } from '../runtime-oauth-support.js';
 import { closeTransportAndWait } from '../runtime-process-utils.js';
+import { resolveEnvSecrets, secretBaseDir } from '../secrets.js';
+import type { Span, Tracer } from '../tracing.js';
 import { connectWithAuth, OAuthTimeoutError } from './oauth.js';
 import { resolveCommandArgument, resolveCommandArguments } from './utils.js';
 
@@ -33,6 +51,18 @@ export interface CreateClientContextOptions {
   readonly oauthTimeoutMs?: number;
   readonly onDefinitionPromoted?: (definition: ServerDefinition) => void;
   readonly allowCachedAuth?: boolean;
+  readonly onResourceUpdated?: (uri: string) => void;
+  readonly onToolListChanged?: () => void;
+  readonly onLogMessage?: (params: LoggingMessageNotification['params']) => void;
+  // onElicitation advertises the elicitation capability (form mode) and answers elicitation/create.
+  readonly onElicitation?: (params: ElicitRequestFormParams) => Promise<ElicitResult>;
+  // onListRoots advertises roots (with listChanged) and answers roots/list.
+  readonly onListRoots?: () => Root[] | Promise<Root[]>;
+  // onSampling advertises the sampling capability and answers sampling/createMessage.
+  readonly onSampling?: (params: CreateMessageRequest['params']) => Promise<CreateMessageResult>;
+  // tracer records an `mcporter.connect` span under traceParent and sends its traceparent to HTTP servers.
+  readonly tracer?: Tracer;
+  readonly traceParent?: Span;
 }
 
 export async function createClientContext(
@@ -41,8 +71,39 @@ export async function createClientContext(
   clientInfo: { name: string; version: string },
   options: CreateClientContextOptions = {}
 ): Promise<ClientContext> {
-  const client = new Client(clientInfo);
+  const span = options.tracer?.startSpan('mcporter.connect', {
+    parent: options.traceParent,
+    kind: 'client',
+    attributes: { 'mcporter.server': definition.name },
+  });
+  try {
+    const context = await connectClient(definition, logger, clientInfo, options, span);
+    span?.setAttribute('mcporter.transport', describeTransport(context.transport));
+    return context;
+  } catch (error) {
+    span?.recordError(error);
+    throw error;
+  } finally {
+    span?.end();
+  }
+}
+
+async function connectClient(
+  definition: ServerDefinition,
+  logger: Logger,
+  clientInfo: { name: string; version: string },
+  options: CreateClientContextOptions,
+  span: Span | undefined
+): Promise<ClientContext> {
+  const client = new Client(clientInfo, { capabilities: buildClientCapabilities(options) });
+  registerServerHandlers(client, options);
   let activeDefinition = definition;
+  let oauthAttempts = 0;
+  const onAuthorizationRequired = (attempt: number) => {
+    oauthAttempts += 1;
+    span?.setAttribute('mcporter.oauth.attempts', oauthAttempts);
+    span?.addEvent('oauth.authorization_required', { attempt });
+  };
 
   if (options.allowCachedAuth && activeDefinition.auth === 'oauth' && activeDefinition.command.kind === 'http') {
     try {
@@ -72,127 +133,230 @@ export async function createClientContext(
     }
   }
 
-  return withEnvOverrides(activeDefinition.env, async () => {
-    if (activeDefinition.command.kind === 'stdio') {
-      const resolvedEnvOverrides =
-        activeDefinition.env && Object.keys(activeDefinition.env).length > 0
-          ? Object.fromEntries(
-              Object.entries(activeDefinition.env)
-                .map(([key, raw]) => [key, resolveEnvValue(raw)])
-                .filter(([, value]) => value !== '')
-            )
-          : undefined;
-      const mergedEnv =
-        resolvedEnvOverrides && Object.keys(resolvedEnvOverrides).length > 0
-          ? { ...process.env, ...resolvedEnvOverrides }
-          : { ...process.env };
-      const transport = new StdioClientTransport({
-        command: resolveCommandArgument(activeDefinition.command.command),
-        args: resolveCommandArguments(activeDefinition.command.args),
-        cwd: activeDefinition.command.cwd,
-        env: mergedEnv,
-      });
-      if (STDIO_TRACE_ENABLED) {
-        attachStdioTraceLogging(transport, activeDefinition.name ?? activeDefinition.command.command);
-      }
-      try {
-        await client.connect(transport);
-      } catch (error) {
-        await closeTransportAndWait(logger, transport).catch(() => {});
-        throw error;
-      }
-      return { client, transport, definition: activeDefinition, oauthSession: undefined };
-    }
-
-    while (true) {
-      const command = activeDefinition.command;
-      if (command.kind !== 'http') {
-        throw new Error(`Server '${activeDefinition.name}' is not configured for HTTP transport.`);
-      }
-      let oauthSession: OAuthSession | undefined;
-      const shouldEstablishOAuth = activeDefinition.auth === 'oauth' && options.maxOAuthAttempts !== 0;
-      if (shouldEstablishOAuth) {
-        oauthSession = await createOAuthSession(activeDefinition, logger);
-      }
-
-      const resolvedHeaders = materializeHeaders(command.headers, activeDefinition.name);
-      const requestInit: RequestInit | undefined = resolvedHeaders
-        ? { headers: resolvedHeaders as HeadersInit }
-        : undefined;
-      const baseOptions = {
-        requestInit,
-        authProvider: oauthSession?.provider,
-      };
-
-      const attemptConnect = async () => {
-        const streamableTransport = new StreamableHTTPClientTransport(command.url, baseOptions);
+  // Secret references resolve here, at connect time, so `list` of other servers never runs their providers.
+  const secretsDir = secretBaseDir(activeDefinition);
+  const ownEnv = activeDefinition.env ?? {};
+  const envSecrets = await resolveEnvSecrets(ownEnv, secretsDir);
+  const resolveEnvEntry = (raw: string, key: string) => envSecrets[key] ?? resolveEnvValue(raw);
+  // envFile values are already expanded and sit below the entry's own `env`, which wins on conflicts.
+  const envFileValues = Object.fromEntries(
+    [...(await readEnvFiles(activeDefinition.envFiles))].map(([key, entry]) => [key, entry.value])
+  );
+  const context = await withEnvOverrides(
+    { ...envFileValues, ...ownEnv },
+    async (): Promise<ClientContext> => {
+      if (activeDefinition.command.kind === 'stdio') {
+        const resolvedEnvOverrides =
+          activeDefinition.env && Object.keys(activeDefinition.env).length > 0
+            ? Object.fromEntries(
+                Object.entries(activeDefinition.env)
+                  .map(([key, raw]) => [key, resolveEnvEntry(raw, key)])
+                  .filter(([, value]) => value !== '')
+              )
+            : undefined;
+        const mergedEnv = { ...process.env, ...envFileValues, ...resolvedEnvOverrides };
+        const transport = new StdioClientTransport({
+          command: resolveCommandArgument(activeDefinition.command.command),
+          args: resolveCommandArguments(activeDefinition.command.args),
+          cwd: activeDefinition.command.cwd,
+          env: mergedEnv,
+        });
+        if (STDIO_TRACE_ENABLED) {
+          attachStdioTraceLogging(transport, activeDefinition.name ?? activeDefinition.command.command);
+        }
         try {
-          await connectWithAuth(client, streamableTransport, oauthSession, logger, {
-            serverName: activeDefinition.name,
-            maxAttempts: options.maxOAuthAttempts,
-            oauthTimeoutMs: options.oauthTimeoutMs,
-          });
-          return {
-            client,
-            transport: streamableTransport,
-            definition: activeDefinition,
-            oauthSession,
-          } as ClientContext;
+          await client.connect(transport);
         } catch (error) {
-          await closeTransportAndWait(logger, streamableTransport).catch(() => {});
+          await closeTransportAndWait(logger, transport).catch(() => {});
           throw error;
         }
-      };
-
-      try {
-        return await attemptConnect();
-      } catch (primaryError) {
-        if (isUnauthorizedError(primaryError)) {
-          await oauthSession?.close().catch(() => {});
-          oauthSession = undefined;
-          if (options.maxOAuthAttempts !== 0) {
-            const promoted = maybeEnableOAuth(activeDefinition, logger);
-            if (promoted) {
-              activeDefinition = promoted;
-              options.onDefinitionPromoted?.(promoted);
-              continue;
-            }
-          }
-        }
-        if (primaryError instanceof OAuthTimeoutError) {
-          await oauthSession?.close().catch(() => {});
-          throw primaryError;
+        return { client, transport, definition: activeDefinition, oauthSession: undefined };
+      }
+
+      while (true) {
+        const command = activeDefinition.command;
+        if (command.kind !== 'http') {
+          throw new Error(`Server '${activeDefinition.name}' is not configured for HTTP transport.`);
         }
-        if (primaryError instanceof Error) {
-          logger.info(`Falling back to SSE transport for '${activeDefinition.name}': ${primaryError.message}`);
+        let oauthSession: OAuthSession | undefined;
+        const shouldEstablishOAuth = activeDefinition.auth === 'oauth' && options.maxOAuthAttempts !== 0;
+        if (shouldEstablishOAuth) {
+          oauthSession = await createOAuthSession(activeDefinition, logger);
         }
-        const sseTransport = new SSEClientTransport(command.url, {
-          ...baseOptions,
-        });
+
+        span?.setAttribute('server.address', command.url.host);
+        const resolvedHeaders = await materializeHeaders(
+          command.headers,
+          activeDefinition.name,
+          span?.traceparent,
+          secretsDir
+        );
+        const requestInit: RequestInit | undefined = resolvedHeaders
+          ? { headers: resolvedHeaders as HeadersInit }
+          : undefined;
+        const baseOptions = {
+          requestInit,
+          authProvider: oauthSession?.provider,
+        };
+
+        const attemptConnect = async () => {
+          const streamableTransport = new StreamableHTTPClientTransport(command.url, baseOptions);
+          try {
+            await connectWithAuth(client, streamableTransport, oauthSession, logger, {
+              serverName: activeDefinition.name,
+              maxAttempts: options.maxOAuthAttempts,
+              oauthTimeoutMs: options.oauthTimeoutMs,
+              onAuthorizationRequired,
+            });
+            return {
+              client,
+              transport: streamableTransport,
+              definition: activeDefinition,
+              oauthSession,
+            } as ClientContext;
+          } catch (error) {
+            await closeTransportAndWait(logger, streamableTransport).catch(() => {});
+            throw error;
+          }
+        };
+
         try {
-          await connectWithAuth(client, sseTransport, oauthSession, logger, {
-            serverName: activeDefinition.name,
-            maxAttempts: options.maxOAuthAttempts,
-            oauthTimeoutMs: options.oauthTimeoutMs,
-          });
-          return { client, transport: sseTransport, definition: activeDefinition, oauthSession };
-        } catch (sseError) {
-          await closeTransportAndWait(logger, sseTransport).catch(() => {});
-          await oauthSession?.close().catch(() => {});
-          if (sseError instanceof OAuthTimeoutError) {
-            throw sseError;
+          return await attemptConnect();
+        } catch (primaryError) {
+          if (isUnauthorizedError(primaryError)) {
+            await oauthSession?.close().catch(() => {});
+            oauthSession = undefined;
+            if (options.maxOAuthAttempts !== 0) {
+              const promoted = maybeEnableOAuth(activeDefinition, logger);
+              if (promoted) {
+                activeDefinition = promoted;
+                options.onDefinitionPromoted?.(promoted);
+                span?.addEvent('oauth.promoted');
+                continue;
+              }
+            }
+          }
+          if (primaryError instanceof OAuthTimeoutError) {
+            await oauthSession?.close().catch(() => {});
+            throw primaryError;
+          }
+          if (primaryError instanceof Error) {
+            logger.info(`Falling back to SSE transport for '${activeDefinition.name}': ${primaryError.message}`);
           }
-          if (isUnauthorizedError(sseError) && options.maxOAuthAttempts !== 0) {
-            const promoted = maybeEnableOAuth(activeDefinition, logger);
-            if (promoted) {
-              activeDefinition = promoted;
-              options.onDefinitionPromoted?.(promoted);
-              continue;
+          span?.setAttribute('mcporter.sse_fallback', true);
+          span?.addEvent('sse_fallback', {
+            reason: primaryError instanceof Error ? primaryError.message : String(primaryError),
+          });
+          const sseTransport = new SSEClientTransport(command.url, {
+            ...baseOptions,
+          });
+          try {
+            await connectWithAuth(client, sseTransport, oauthSession, logger, {
+              serverName: activeDefinition.name,
+              maxAttempts: options.maxOAuthAttempts,
+              oauthTimeoutMs: options.oauthTimeoutMs,
+              onAuthorizationRequired,
+            });
+            return { client, transport: sseTransport, definition: activeDefinition, oauthSession };
+          } catch (sseError) {
+            await closeTransportAndWait(logger, sseTransport).catch(() => {});
+            await oauthSession?.close().catch(() => {});
+            if (sseError instanceof OAuthTimeoutError) {
+              throw sseError;
             }
+            if (isUnauthorizedError(sseError) && options.maxOAuthAttempts !== 0) {
+              const promoted = maybeEnableOAuth(activeDefinition, logger);
+              if (promoted) {
+                activeDefinition = promoted;
+                options.onDefinitionPromoted?.(promoted);
+                span?.addEvent('oauth.promoted');
+                continue;
+              }
+            }
+            throw sseError;
           }
-          throw sseError;
         }
       }
-    }
-  });
+    },
+    (raw, key) => (key in ownEnv ? resolveEnvEntry(raw, key) : raw)
+  );
+  await applyServerLogLevel(context, logger);
+  return context;
+}
+
+function describeTransport(transport: ClientContext['transport']): string {
+  if (transport instanceof StdioClientTransport) {
+    return 'stdio';
+  }
+  return transport instanceof SSEClientTransport ? 'sse' : 'streamable-http';
+}
+
+// registerServerHandlers wires server-initiated notifications and requests into runtime callbacks.
+function registerServerHandlers(client: Client, options: CreateClientContextOptions): void {
+  const onResourceUpdated = options.onResourceUpdated;
+  if (onResourceUpdated) {
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      onResourceUpdated(notification.params.uri);
+    });
+  }
+  const onToolListChanged = options.onToolListChanged;
+  if (onToolListChanged) {
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => {
+      onToolListChanged();
+    });
+  }
+  const onLogMessage = options.onLogMessage;
+  if (onLogMessage) {
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+      onLogMessage(notification.params);
+    });
+  }
+  const onElicitation = options.onElicitation;
+  if (onElicitation) {
+    // Only form mode is advertised, and the SDK rejects URL-mode requests before they get here.
+    client.setRequestHandler(ElicitRequestSchema, (request) =>
+      onElicitation(request.params as ElicitRequestFormParams)
+    );
+  }
+  const onListRoots = options.onListRoots;
+  if (onListRoots) {
+    client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: await onListRoots() }));
+  }
+  const onSampling = options.onSampling;
+  if (onSampling) {
+    client.setRequestHandler(CreateMessageRequestSchema, (request) => onSampling(request.params));
+  }
+}
+
+// buildClientCapabilities only advertises what the runtime can actually answer.
+function buildClientCapabilities(options: CreateClientContextOptions): ClientCapabilities {
+  const capabilities: ClientCapabilities = {};
+  if (options.onElicitation) {
+    capabilities.elicitation = {};
+  }
+  if (options.onListRoots) {
+    capabilities.roots = { listChanged: true };
+  }
+  if (options.onSampling) {
+    capabilities.sampling = {};
+  }
+  return capabilities;
+}
+
+// applyServerLogLevel sends logging/setLevel when the definition asks for one and the server supports it.
+// Failures are non-fatal: the server simply keeps its default verbosity.
+async function applyServerLogLevel(context: ClientContext, logger: Logger): Promise<void> {
+  const level = context.definition.logging?.level;
+  if (!level || !context.client.getServerCapabilities()?.logging) {
+    return;
+  }
+  try {
+    await context.client.setLoggingLevel(level);
+  } catch (error) {
+    logger.warn(
+      `Failed to set log level '${level}' for '${context.definition.name}': ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
 }
@@ -29,11 +29,24 @@ interface ProcessStreamMeta {
 
 const PROCESS_BUFFERS = new WeakMap<MaybeChildProcess, ProcessStreamMeta>();
 const TRANSPORT_BUFFERS = new WeakMap<object, ProcessStreamMeta>();
+const TRANSPORT_EXITS = new WeakMap<object, StdioExit>();
 const STDIO_LOGS_FORCED = process.env.MCPORTER_STDIO_LOGS === '1';
 const STDIO_TRACE_ENABLED = process.env.MCPORTER_STDIO_TRACE === '1';
 
 export type StdioLogMode = 'auto' | 'always' | 'silent';
 
+export interface StdioExit {
+  readonly code: number | null;
+  readonly signal: NodeJS.Signals | null;
+  // stderrTail is the last non-empty stderr line, usually the reason a crashing server printed.
+  readonly stderrTail?: string;
+}
+
+// readStdioExit reports how a transport's child process exited, once it has.
+export function readStdioExit(transport: StdioClientTransport): StdioExit | undefined {
+  return TRANSPORT_EXITS.get(transport);
+}
+
 let stdioLogMode: StdioLogMode = STDIO_LOGS_FORCED ? 'always' : 'auto';
 
 export function getStdioLogMode(): StdioLogMode {
@@ -442,8 +455,9 @@ function patchStdioStart(): void {
     }
 
     if (child) {
-      child.once('exit', (code: number | null) => {
+      child.once('exit', (code: number | null, signal: NodeJS.Signals | null) => {
         const entry = PROCESS_BUFFERS.get(child);
+        TRANSPORT_EXITS.set(transport, { code, signal, stderrTail: lastLine(entry?.stderrChunks ?? []) });
         if (entry) {
           entry.code = code;
           flushProcessLogs(child, entry);
@@ -457,6 +471,15 @@ function patchStdioStart(): void {
   proto[marker] = true;
 }
 
+function lastLine(chunks: string[]): string | undefined {
+  const lines = chunks
+    .join('')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+  return lines[lines.length - 1];
+}
+
 patchStdioClose();
 patchStdioSend();
 
@@ -0,0 +1,188 @@
+import { execFile } from 'node:child_process';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { ServerDefinition } from './config-schema.js';
+import { expandHome, resolveEnvPlaceholders, resolveEnvValue } from './env.js';
+import { parseDotenv } from './env-file.js';
+
+// SecretContext tells a provider where relative references resolve: the directory of the config file that
+// declared the server.
+export interface SecretContext {
+  readonly baseDir: string;
+}
+
+// SecretProvider turns the part of `${secret:<provider>:<reference>}` after the provider name into the secret.
+// Providers run at connect time without blocking the event loop; each distinct reference is resolved once per
+// process.
+export type SecretProvider = (reference: string, context: SecretContext) => Promise<string>;
+
+const SECRET_REFERENCE_PATTERN = /\$\{secret:([A-Za-z][\w-]*):([^}]+)\}/g;
+const SECRET_COMMAND_TIMEOUT_MS = 30_000;
+const REDACTED = '***';
+// Shorter values would mask unrelated text in logs.
+const MIN_REDACTED_LENGTH = 4;
+
+const providers = new Map<string, SecretProvider>([
+  ['file', readSecretFile],
+  ['cmd', runSecretCommand],
+  ['dotenv', readDotenvSecret],
+]);
+// Pending lookups are cached too, so concurrent connects share one provider call.
+const secretCache = new Map<string, Promise<string>>();
+const resolvedSecrets = new Set<string>();
+
+// registerSecretProvider adds (or replaces) the provider behind `${secret:<name>:…}` references.
+export function registerSecretProvider(name: string, provider: SecretProvider): void {
+  providers.set(name, provider);
+}
+
+export function containsSecretReference(value: string): boolean {
+  return value.includes('${secret:');
+}
+
+// resolveSecretReferences replaces every `${secret:…}` reference in a config value. The text around the
+// references still gets ${VAR} substitution, so `Bearer ${secret:file:./token}` works in headers.
+export async function resolveSecretReferences(
+  value: string,
+  options: { baseDir?: string; purpose?: string } = {}
+): Promise<string> {
+  const context: SecretContext = { baseDir: options.baseDir ?? process.cwd() };
+  let resolved = '';
+  let cursor = 0;
+  for (const match of value.matchAll(SECRET_REFERENCE_PATTERN)) {
+    const [placeholder, providerName = '', reference = ''] = match;
+    resolved += resolveEnvPlaceholders(value.slice(cursor, match.index), options.purpose);
+    resolved += await resolveSecret(providerName, reference.trim(), context);
+    cursor = match.index + placeholder.length;
+  }
+  return resolved + resolveEnvPlaceholders(value.slice(cursor), options.purpose);
+}
+
+// resolveServerEnvValue resolves one `env` entry: values with secret references resolve through the providers,
+// everything else keeps the ${VAR:-default} semantics of resolveEnvValue.
+export async function resolveServerEnvValue(raw: string, baseDir: string): Promise<string> {
+  return containsSecretReference(raw)
+    ? await resolveSecretReferences(raw, { baseDir, purpose: 'server env' })
+    : resolveEnvValue(raw);
+}
+
+// resolveEnvSecrets resolves the `env` entries that contain secret references, keyed like the input. Other
+// entries are left to the synchronous ${VAR} handling in withEnvOverrides.
+export async function resolveEnvSecrets(
+  env: Record<string, string> | undefined,
+  baseDir: string
+): Promise<Record<string, string>> {
+  const entries = Object.entries(env ?? {}).filter(([, raw]) => containsSecretReference(raw));
+  return Object.fromEntries(
+    await Promise.all(entries.map(async ([key, raw]) => [key, await resolveServerEnvValue(raw, baseDir)] as const))
+  );
+}
+
+// secretBaseDir is the directory secret references for a server resolve against.
+export function secretBaseDir(definition: Pick<ServerDefinition, 'source'>): string {
+  return definition.source ? path.dirname(definition.source.path) : process.cwd();
+}
+
+// redactSecrets masks every secret value this process has resolved, for log lines and error messages.
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  for (const secret of resolvedSecrets) {
+    if (secret.length >= MIN_REDACTED_LENGTH) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  return redacted;
+}
+
+// clearSecretCache forgets resolved secrets so the next connect reads them again (e.g., after a rotation).
+export function clearSecretCache(): void {
+  secretCache.clear();
+}
+
+function resolveSecret(providerName: string, reference: string, context: SecretContext): Promise<string> {
+  const provider = providers.get(providerName);
+  if (!provider) {
+    const known = [...providers.keys()].sort().join(', ');
+    return Promise.reject(new Error(`Unknown secret provider '${providerName}'. Known providers: ${known}.`));
+  }
+  const cacheKey = `${providerName}\0${context.baseDir}\0${reference}`;
+  const cached = secretCache.get(cacheKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const pending = provider(reference, context).then(
+    (secret) => {
+      resolvedSecrets.add(secret);
+      return secret;
+    },
+    (error: unknown) => {
+      // Failures are not cached; the next connect asks the provider again.
+      secretCache.delete(cacheKey);
+      throw error;
+    }
+  );
+  secretCache.set(cacheKey, pending);
+  return pending;
+}
+
+function resolveSecretPath(reference: string, context: SecretContext): string {
+  return path.resolve(context.baseDir, expandHome(reference));
+}
+
+// readSecretFile returns the file contents without the trailing newline most secret mounts add.
+async function readSecretFile(reference: string, context: SecretContext): Promise<string> {
+  const filePath = resolveSecretPath(reference, context);
+  try {
+    return (await fs.readFile(filePath, 'utf8')).replace(/\r?\n$/, '');
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read secret file '${filePath}': ${detail}`);
+  }
+}
+
+// runSecretCommand runs the reference through the shell from the config directory and returns its stdout.
+function runSecretCommand(reference: string, context: SecretContext): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      reference,
+      { cwd: context.baseDir, encoding: 'utf8', shell: true, timeout: SECRET_COMMAND_TIMEOUT_MS },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve(stdout.replace(/\r?\n$/, ''));
+          return;
+        }
+        const firstLine = stderr.trim().split('\n')[0];
+        const detail =
+          firstLine ||
+          (error.killed
+            ? `timed out after ${SECRET_COMMAND_TIMEOUT_MS / 1000}s`
+            : typeof error.code === 'number'
+              ? `exit code ${error.code}`
+              : error.message);
+        reject(new Error(`Secret command '${reference.split(/\s+/)[0]}' failed: ${detail}`));
+      }
+    );
+  });
+}
+
+// readDotenvSecret reads `<file>#<KEY>` from a dotenv file.
+async function readDotenvSecret(reference: string, context: SecretContext): Promise<string> {
+  const separator = reference.lastIndexOf('#');
+  const key = separator > 0 ? reference.slice(separator + 1).trim() : '';
+  if (!key) {
+    throw new Error(`Secret reference 'dotenv:${reference}' must name a key, like 'dotenv:.env.local#API_KEY'.`);
+  }
+  const filePath = resolveSecretPath(reference.slice(0, separator).trim(), context);
+  let contents: string;
+  try {
+    contents = await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read dotenv file '${filePath}': ${detail}`);
+  }
+  const value = parseDotenv(contents).get(key);
+  if (value === undefined) {
+    throw new Error(`Key '${key}' is not defined in '${filePath}'.`);
+  }
+  return value;
+}
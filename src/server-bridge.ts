@@ -0,0 +1,179 @@
+import { randomUUID } from 'node:crypto';
+import type http from 'node:http';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolRequest,
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { ElicitationHandler } from './runtime/elicitation.js';
+import type { Runtime, ServerToolInfo } from './runtime.js';
+
+type ServerRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export interface StreamableHttpOptions {
+  // allowedHosts returns the Host values the listener answers to, once it is bound. Other hosts, and origins
+  // other than those hosts, get a 403 so web pages cannot reach local servers through DNS rebinding.
+  readonly allowedHosts?: () => readonly string[];
+}
+
+export interface StreamableHttpHandler {
+  handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void>;
+  close(): Promise<void>;
+}
+
+// toHostedTool re-publishes a runtime tool under `name`; schemas that are not JSON objects are replaced
+// with an empty object schema because tools/list requires one.
+export function toHostedTool(name: string, tool: ServerToolInfo): Tool {
+  const entry: Tool = {
+    name,
+    description: tool.description,
+    inputSchema: isObjectSchema(tool.inputSchema) ? tool.inputSchema : { type: 'object' },
+  };
+  if (isObjectSchema(tool.outputSchema)) {
+    entry.outputSchema = tool.outputSchema;
+  }
+  if (tool.annotations) {
+    entry.annotations = tool.annotations;
+  }
+  return entry;
+}
+
+// relayToolCall forwards a tools/call received by an mcporter-hosted MCP server to a runtime server,
+// relaying progress, cancellation, and elicitation between the two sides.
+export async function relayToolCall(
+  runtime: Runtime,
+  target: { server: string; tool: string },
+  request: CallToolRequest,
+  extra: ServerRequestExtra,
+  host: Server
+): Promise<CallToolResult> {
+  const progressToken = extra._meta?.progressToken;
+  // Backend elicitations go to the hosting server's client when it supports them.
+  const onElicitation: ElicitationHandler = async (elicitation) =>
+    host.getClientCapabilities()?.elicitation
+      ? host.elicitInput(
+          { message: elicitation.message, requestedSchema: elicitation.requestedSchema },
+          { relatedRequestId: extra.requestId }
+        )
+      : { action: 'cancel' };
+  try {
+    const result = await runtime.callTool(target.server, target.tool, {
+      args: request.params.arguments,
+      signal: extra.signal,
+      onElicitation,
+      onProgress:
+        progressToken === undefined
+          ? undefined
+          : (progress) => {
+              void extra
+                .sendNotification({ method: 'notifications/progress', params: { progressToken, ...progress } })
+                .catch(() => {});
+            },
+    });
+    return result as CallToolResult;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { content: [{ type: 'text', text: message }], isError: true };
+  }
+}
+
+// createStreamableHttpHandler serves Streamable HTTP sessions, connecting a fresh server per session
+// because an MCP server instance can only be bound to one transport.
+export function createStreamableHttpHandler(
+  createServer: () => Server,
+  options: StreamableHttpOptions = {}
+): StreamableHttpHandler {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  return {
+    handle: async (req, res) => {
+      const allowedHosts = options.allowedHosts?.();
+      // Checked up front as well, so a foreign page cannot even open a session.
+      if (allowedHosts && !isAllowedRequest(req, allowedHosts)) {
+        res.writeHead(403, { 'content-type': 'text/plain' }).end('Forbidden');
+        return;
+      }
+      const sessionId = req.headers['mcp-session-id'];
+      if (typeof sessionId === 'string') {
+        const existing = transports.get(sessionId);
+        if (!existing) {
+          res.writeHead(404, { 'content-type': 'text/plain' }).end('Unknown MCP session');
+          return;
+        }
+        await existing.handleRequest(req, res);
+        return;
+      }
+      // Requests without a session id start a new session; the transport rejects anything but initialize.
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: allowedHosts !== undefined,
+        allowedHosts: allowedHosts ? [...allowedHosts] : undefined,
+        allowedOrigins: allowedHosts?.map((host) => `http://${host}`),
+        onsessioninitialized: (id) => {
+          transports.set(id, transport);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          transports.delete(transport.sessionId);
+        }
+      };
+      await createServer().connect(transport);
+      await transport.handleRequest(req, res);
+    },
+    close: async () => {
+      await Promise.all([...transports.values()].map((transport) => transport.close().catch(() => {})));
+      transports.clear();
+    },
+  };
+}
+
+// listenLoopbackHttp starts an HTTP server (127.0.0.1 by default) and returns its bound port.
+export async function listenLoopbackHttp(
+  server: http.Server,
+  port: number,
+  host = '127.0.0.1'
+): Promise<{ url: string; port: number }> {
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  const address = server.address();
+  const boundPort = address && typeof address === 'object' ? address.port : port;
+  return { url: `http://${host.includes(':') ? `[${host}]` : host}:${boundPort}`, port: boundPort };
+}
+
+// loopbackHosts lists the Host values a listener at `url` accepts: its own address plus the loopback names.
+export function loopbackHosts(url: string): string[] {
+  const { host, port } = new URL(url);
+  return [...new Set([host, `127.0.0.1:${port}`, `localhost:${port}`])];
+}
+
+// respondWithError keeps a failed request from hanging when a handler throws before responding.
+export function respondWithError(res: http.ServerResponse, error: unknown): void {
+  if (!res.headersSent) {
+    res.writeHead(500, { 'content-type': 'text/plain' });
+  }
+  res.end(error instanceof Error ? error.message : String(error));
+}
+
+// isAllowedRequest accepts a listed Host, with no Origin (non-browser clients) or the same host's origin.
+function isAllowedRequest(req: http.IncomingMessage, allowedHosts: readonly string[]): boolean {
+  const host = req.headers.host;
+  const origin = req.headers.origin;
+  if (!host || !allowedHosts.includes(host)) {
+    return false;
+  }
+  return origin === undefined || allowedHosts.some((allowed) => origin === `http://${allowed}`);
+}
+
+function isObjectSchema(schema: unknown): schema is Tool['inputSchema'] {
+  return Boolean(schema) && typeof schema === 'object' && (schema as { type?: unknown }).type === 'object';
+}
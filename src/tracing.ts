@@ -0,0 +1,353 @@
+import { randomBytes } from 'node:crypto';
+import type { TracingConfig } from './config-schema.js';
+import { resolveEnvPlaceholders } from './env.js';
+import { analyzeConnectionError } from './error-classifier.js';
+import type { Logger } from './logging.js';
+
+// SpanContext is the part of a span that crosses process boundaries as a W3C `traceparent`.
+export interface SpanContext {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly sampled: boolean;
+}
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export interface SpanEvent {
+  readonly name: string;
+  readonly timeUnixNano: string;
+  readonly attributes: SpanAttributes;
+}
+
+// FinishedSpan is what exporters receive once a span ends.
+export interface FinishedSpan {
+  readonly name: string;
+  readonly context: SpanContext;
+  readonly parentSpanId?: string;
+  readonly kind: SpanKind;
+  readonly startTimeUnixNano: string;
+  readonly endTimeUnixNano: string;
+  readonly attributes: SpanAttributes;
+  readonly events: readonly SpanEvent[];
+  readonly status: { readonly code: 'unset' | 'ok' | 'error'; readonly message?: string };
+}
+
+export type SpanKind = 'internal' | 'client';
+
+export interface SpanExporter {
+  export(spans: readonly FinishedSpan[], resource: SpanAttributes): Promise<void>;
+}
+
+export interface StartSpanOptions {
+  // parent is a span, a parsed context, or a raw `traceparent` header value; invalid values start a new trace.
+  readonly parent?: Span | SpanContext | string;
+  readonly kind?: SpanKind;
+  readonly attributes?: SpanAttributes;
+}
+
+export interface TracerOptions {
+  readonly serviceName?: string;
+  readonly serviceVersion?: string;
+  readonly logger?: Logger;
+  // Ended spans are exported in batches: after scheduleDelayMs, or as soon as maxBatchSize are waiting.
+  readonly scheduleDelayMs?: number;
+  readonly maxBatchSize?: number;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, client: 3 };
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 } as const;
+const EXPORT_TIMEOUT_MS = 10_000;
+
+// Span records one operation. Attributes whose value is undefined are dropped at export.
+export class Span {
+  readonly context: SpanContext;
+  private readonly attributes: SpanAttributes;
+  private readonly events: SpanEvent[] = [];
+  private readonly startTimeUnixNano = nowUnixNano();
+  private status: FinishedSpan['status'] = { code: 'unset' };
+  private ended = false;
+
+  constructor(
+    private readonly tracer: Tracer,
+    readonly name: string,
+    private readonly kind: SpanKind,
+    private readonly parentSpanId: string | undefined,
+    context: SpanContext,
+    attributes: SpanAttributes
+  ) {
+    this.context = context;
+    this.attributes = { ...attributes };
+  }
+
+  // traceparent formats this span's context for HTTP headers and MCP `_meta`.
+  get traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): void {
+    this.attributes[key] = value;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): void {
+    this.events.push({ name, timeUnixNano: nowUnixNano(), attributes });
+  }
+
+  // recordError marks the span failed and attaches an OTel `exception` event classified like audit entries.
+  recordError(error: unknown): void {
+    const issue = analyzeConnectionError(error);
+    this.attributes['error.type'] = issue.kind;
+    this.addEvent('exception', {
+      'exception.type': error instanceof Error ? error.name : typeof error,
+      'exception.message': issue.rawMessage,
+    });
+    this.status = { code: 'error', message: issue.rawMessage };
+  }
+
+  setError(errorType: string, message: string): void {
+    this.attributes['error.type'] = errorType;
+    this.status = { code: 'error', message };
+  }
+
+  end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    if (!this.context.sampled) {
+      return;
+    }
+    this.tracer.enqueue({
+      name: this.name,
+      context: this.context,
+      parentSpanId: this.parentSpanId,
+      kind: this.kind,
+      startTimeUnixNano: this.startTimeUnixNano,
+      endTimeUnixNano: nowUnixNano(),
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status,
+    });
+  }
+}
+
+// Tracer creates spans and hands ended ones to the exporter in batches. Export failures never reach the
+// traced operation; the first one is logged as a warning, later ones only at debug level.
+export class Tracer {
+  private readonly resource: SpanAttributes;
+  private readonly logger?: Logger;
+  private readonly scheduleDelayMs: number;
+  private readonly maxBatchSize: number;
+  private pending: FinishedSpan[] = [];
+  private timer?: NodeJS.Timeout;
+  private readonly exports = new Set<Promise<void>>();
+  private warned = false;
+
+  constructor(
+    private readonly exporter: SpanExporter,
+    options: TracerOptions = {}
+  ) {
+    this.resource = {
+      'service.name': options.serviceName ?? 'mcporter',
+      'service.version': options.serviceVersion,
+    };
+    this.logger = options.logger;
+    this.scheduleDelayMs = options.scheduleDelayMs ?? 1_000;
+    this.maxBatchSize = options.maxBatchSize ?? 512;
+  }
+
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent = resolveParent(options.parent);
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      sampled: parent?.sampled ?? true,
+    };
+    return new Span(this, name, options.kind ?? 'internal', parent?.spanId, context, options.attributes ?? {});
+  }
+
+  enqueue(span: FinishedSpan): void {
+    this.pending.push(span);
+    if (this.pending.length >= this.maxBatchSize) {
+      this.exportPending();
+      return;
+    }
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.exportPending(), this.scheduleDelayMs);
+      this.timer.unref();
+    }
+  }
+
+  // flush exports every ended span and waits for in-flight exports; runtime.close() calls it.
+  async flush(): Promise<void> {
+    this.exportPending();
+    await Promise.all(this.exports);
+  }
+
+  private exportPending(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.pending.length === 0) {
+      return;
+    }
+    const batch = this.pending;
+    this.pending = [];
+    const pending = this.exporter.export(batch, this.resource).catch((error) => {
+      const detail = error instanceof Error ? error.message : String(error);
+      const message = `Failed to export ${batch.length} trace span(s): ${detail}`;
+      if (this.warned) {
+        this.logger?.debug?.(message);
+      } else {
+        this.warned = true;
+        this.logger?.warn(message);
+      }
+    });
+    this.exports.add(pending);
+    void pending.finally(() => this.exports.delete(pending));
+  }
+}
+
+// OtlpHttpExporter posts spans to an OTLP/HTTP collector using the JSON encoding.
+export class OtlpHttpExporter implements SpanExporter {
+  constructor(
+    private readonly endpoint: string,
+    private readonly headers: Record<string, string> = {},
+    private readonly scopeVersion?: string
+  ) {}
+
+  async export(spans: readonly FinishedSpan[], resource: SpanAttributes): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'content-type': 'application/json' },
+      body: JSON.stringify(encodeOtlpTraces(spans, resource, this.scopeVersion)),
+      signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`${this.endpoint} responded with HTTP ${response.status}`);
+    }
+  }
+}
+
+// createTracer builds an OTLP tracer from the normalized `tracing` config, or returns undefined when tracing
+// is off. Header placeholders that fail to resolve disable tracing with a warning rather than failing calls.
+export function createTracer(
+  config: TracingConfig,
+  options: { logger?: Logger; serviceVersion?: string } = {}
+): Tracer | undefined {
+  if (!config.enabled) {
+    return undefined;
+  }
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(config.headers)) {
+    try {
+      headers[key] = resolveEnvPlaceholders(value);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      options.logger?.warn(`Tracing disabled: failed to resolve tracing header '${key}': ${detail}`);
+      return undefined;
+    }
+  }
+  return new Tracer(new OtlpHttpExporter(config.endpoint, headers, options.serviceVersion), {
+    serviceName: config.serviceName,
+    serviceVersion: options.serviceVersion,
+    logger: options.logger,
+  });
+}
+
+export function parseTraceparent(value: string | undefined): SpanContext | undefined {
+  const match = value ? TRACEPARENT_PATTERN.exec(value.trim().toLowerCase()) : null;
+  if (!match) {
+    return undefined;
+  }
+  const [, version, traceId, spanId, flags] = match;
+  if (version === 'ff' || !traceId || !spanId || traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+    return undefined;
+  }
+  return { traceId, spanId, sampled: (Number.parseInt(flags ?? '00', 16) & 1) === 1 };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+// inheritedTraceparent returns the TRACEPARENT environment variable, which agents set to parent mcporter's
+// spans inside their own trace.
+export function inheritedTraceparent(): string | undefined {
+  return process.env.TRACEPARENT || undefined;
+}
+
+export function encodeOtlpTraces(
+  spans: readonly FinishedSpan[],
+  resource: SpanAttributes,
+  scopeVersion?: string
+): Record<string, unknown> {
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: encodeAttributes(resource) },
+        scopeSpans: [
+          {
+            scope: { name: 'mcporter', ...(scopeVersion ? { version: scopeVersion } : {}) },
+            spans: spans.map((span) => ({
+              traceId: span.context.traceId,
+              spanId: span.context.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: OTLP_SPAN_KIND[span.kind],
+              startTimeUnixNano: span.startTimeUnixNano,
+              endTimeUnixNano: span.endTimeUnixNano,
+              attributes: encodeAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                name: event.name,
+                timeUnixNano: event.timeUnixNano,
+                attributes: encodeAttributes(event.attributes),
+              })),
+              status: {
+                code: OTLP_STATUS_CODE[span.status.code],
+                ...(span.status.message ? { message: span.status.message } : {}),
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function encodeAttributes(attributes: SpanAttributes): Array<{ key: string; value: Record<string, unknown> }> {
+  const encoded: Array<{ key: string; value: Record<string, unknown> }> = [];
+  for (const [key, value] of Object.entries(attributes)) {
+    if (typeof value === 'string') {
+      encoded.push({ key, value: { stringValue: value } });
+    } else if (typeof value === 'boolean') {
+      encoded.push({ key, value: { boolValue: value } });
+    } else if (typeof value === 'number') {
+      encoded.push({ key, value: Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value } });
+    }
+  }
+  return encoded;
+}
+
+function resolveParent(parent: StartSpanOptions['parent']): SpanContext | undefined {
+  if (parent instanceof Span) {
+    return parent.context;
+  }
+  if (typeof parent === 'string') {
+    return parseTraceparent(parent);
+  }
+  return parent;
+}
+
+function randomHex(bytes: number): string {
+  return randomBytes(bytes).toString('hex');
+}
+
+function nowUnixNano(): string {
+  const micros = Math.round((performance.timeOrigin + performance.now()) * 1000);
+  return (BigInt(micros) * 1000n).toString();
+}
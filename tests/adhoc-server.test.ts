@@ -1,3 +1,4 @@
+import path from 'node:path';
 import { describe, expect, it } from 'vitest';
 import { resolveEphemeralServer } from '../src/cli/adhoc-server.js';
 
@@ -46,4 +47,13 @@ describe('resolveEphemeralServer', () => {
     });
     expect(definition.name).toBe('xcodebuildmcp');
   });
+
+  it('resolves --root-dir paths and persists them as absolute roots', () => {
+    const { definition, persistedEntry } = resolveEphemeralServer({
+      stdioCommand: 'node fs-server.js',
+      roots: ['src'],
+    });
+    expect(definition.roots).toEqual([{ path: path.resolve('src') }]);
+    expect(persistedEntry.roots).toEqual([path.resolve('src')]);
+  });
 });
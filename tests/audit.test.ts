@@ -0,0 +1,113 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AuditLog, readAuditEntries } from '../src/audit.js';
+import type { AuditConfig } from '../src/config.js';
+import { createRuntime, type Runtime } from '../src/runtime.js';
+
+const resourceServerScript = fileURLToPath(new URL('./fixtures/stdio-resource-server.mjs', import.meta.url));
+
+describe('tool-call audit log', () => {
+  let dir: string;
+  let config: AuditConfig;
+  let runtime: Runtime | undefined;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-audit-'));
+    config = {
+      enabled: true,
+      path: path.join(dir, 'audit.jsonl'),
+      redact: ['session'],
+      maxArgBytes: 1024,
+      maxFileBytes: 10 * 1024,
+      maxFiles: 2,
+    };
+  });
+
+  afterEach(async () => {
+    await runtime?.close();
+    runtime = undefined;
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('redacts sensitive keys at any depth and classifies failures', async () => {
+    const audit = new AuditLog(config, 'daemon');
+
+    await audit.record({
+      server: 'linear',
+      tool: 'create_issue',
+      args: { title: 'Bug', apiKey: 'k', nested: [{ Authorization: 'Bearer x', sessionId: 's', keep: 1 }] },
+      startedAt: Date.now(),
+      result: { isError: true, content: [] },
+    });
+    await audit.record({
+      server: 'linear',
+      tool: 'search',
+      args: { query: 'x' },
+      startedAt: Date.now(),
+      error: new Error('fetch failed'),
+    });
+
+    const entries = await readAuditEntries(config);
+    expect(entries).toMatchObject([
+      {
+        server: 'linear',
+        tool: 'create_issue',
+        outcome: 'tool_error',
+        origin: 'daemon',
+        args: {
+          title: 'Bug',
+          apiKey: '[REDACTED]',
+          nested: [{ Authorization: '[REDACTED]', sessionId: '[REDACTED]', keep: 1 }],
+        },
+      },
+      { tool: 'search', outcome: 'error', error: { kind: 'offline', message: 'fetch failed' } },
+    ]);
+    const stats = await fs.stat(config.path);
+    expect(stats.mode & 0o777).toBe(0o600);
+  });
+
+  it('truncates oversized arguments and rotates full files', async () => {
+    const audit = new AuditLog({ ...config, maxArgBytes: 64, maxFileBytes: 400 });
+
+    for (let index = 0; index < 12; index += 1) {
+      await audit.record({ server: 's', tool: `t${index}`, args: { body: 'x'.repeat(200) }, startedAt: Date.now() });
+    }
+
+    const entries = await readAuditEntries(config);
+    expect(entries[0]).toMatchObject({ argsTruncated: true });
+    expect(String(entries[0]?.args).length).toBeLessThanOrEqual(64);
+    expect(typeof entries[0]?.args).toBe('string');
+    // Only the active file and two rotated ones are kept, so the oldest calls are gone.
+    expect(entries.map((entry) => entry.tool).at(-1)).toBe('t11');
+    expect(entries.length).toBeLessThan(12);
+    await expect(fs.stat(`${config.path}.3`)).rejects.toThrow();
+  });
+
+  it('records calls made through the runtime', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+      audit: new AuditLog(config),
+    });
+
+    await runtime.callTool('builds', 'run_build', { args: { steps: 1, token: 'abc' } });
+
+    const entries = await readAuditEntries(config);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      server: 'builds',
+      tool: 'run_build',
+      outcome: 'success',
+      args: { steps: 1, token: '[REDACTED]' },
+      pid: process.pid,
+    });
+    expect(entries[0]?.durationMs).toBeGreaterThanOrEqual(0);
+  }, 20_000);
+});
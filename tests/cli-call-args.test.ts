@@ -55,6 +55,31 @@ describe('CLI call argument parsing', () => {
     expect(parsed.args).toEqual({ component: 'vortex' });
   });
 
+  it('captures --progress modes and rejects unknown values', async () => {
+    const { parseCallArguments } = await cliModulePromise;
+    expect(parseCallArguments(['linear.list_issues']).progress).toBe('auto');
+    expect(parseCallArguments(['linear.list_issues', '--progress', 'json']).progress).toBe('json');
+    expect(() => parseCallArguments(['linear.list_issues', '--progress', 'loud'])).toThrow(
+      /--progress must be one of: auto, json, none/
+    );
+  });
+
+  it('enables server log streaming with --server-logs', async () => {
+    const { parseCallArguments } = await cliModulePromise;
+    expect(parseCallArguments(['linear.list_issues']).serverLogs).toBe(false);
+    const parsed = parseCallArguments(['linear.list_issues', '--server-logs', 'limit=1']);
+    expect(parsed.serverLogs).toBe(true);
+    expect(parsed.args).toEqual({ limit: 1 });
+  });
+
+  it('captures --elicit-from answers', async () => {
+    const { parseCallArguments } = await cliModulePromise;
+    const parsed = parseCallArguments(['deploys.release', '--elicit-from', '{"confirm":true}', 'env=prod']);
+    expect(parsed.elicitFrom).toBe('{"confirm":true}');
+    expect(parsed.args).toEqual({ env: 'prod' });
+    expect(() => parseCallArguments(['deploys.release', '--elicit-from'])).toThrow(/--elicit-from requires/);
+  });
+
   it('rejects conflicting server names between flags and call syntax', async () => {
     const { parseCallArguments } = await cliModulePromise;
     expect(() => parseCallArguments(['--server', 'github', 'linear.create_comment(issueId: "123")'])).toThrow(
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CallOptions } from '../src/runtime.js';
+
+// The terminal prompt is replaced by one that takes longer to answer than the call's --timeout.
+vi.mock('../src/cli/destructive-prompt.js', () => ({
+  createTerminalDestructiveConfirmation: () => async () => {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    return true;
+  },
+}));
+
+process.env.MCPORTER_DISABLE_AUTORUN = '1';
+const cliModulePromise = import('../src/cli.js');
+
+describe('CLI destructive confirmation', () => {
+  it('does not count time spent at the prompt against the call timeout', async () => {
+    const { handleCall } = await cliModulePromise;
+    const callTool = vi.fn(async (server: string, tool: string, options?: CallOptions) => {
+      // Mirrors the runtime, which would ask again if the CLI still handed it the prompt.
+      await options?.confirmDestructive?.({ server, tool, args: options.args, annotations: { destructiveHint: true } });
+      return { ok: true };
+    });
+    const runtime = {
+      getToolAnnotations: vi.fn().mockResolvedValue({ destructiveHint: true }),
+      callTool,
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handleCall(runtime as never, ['builds.clear_log', '--timeout', '50']);
+
+    expect(runtime.getToolAnnotations).toHaveBeenCalledWith('builds', 'clear_log');
+    expect(callTool).toHaveBeenCalledTimes(1);
+    logSpy.mockRestore();
+  });
+});
@@ -8,6 +8,7 @@ describe('CLI call error reporting', () => {
     const { handleCall } = await cliModulePromise;
     const callTool = vi.fn().mockRejectedValue(new Error('SSE error: Non-200 status code (401)'));
     const runtime = {
+      getToolAnnotations: vi.fn().mockResolvedValue(undefined),
       callTool,
       close: vi.fn().mockResolvedValue(undefined),
     } as unknown as Awaited<ReturnType<typeof import('../src/runtime.js')['createRuntime']>>;
@@ -100,6 +100,7 @@ describe('CLI call execution behavior', () => {
       const { handleCall } = await cliModulePromise;
       const close = vi.fn().mockResolvedValue(undefined);
       const runtime = {
+        getToolAnnotations: vi.fn().mockResolvedValue(undefined),
         callTool: () =>
           new Promise((resolve) => {
             setTimeout(() => resolve('done'), 1000);
@@ -124,6 +125,7 @@ describe('CLI call execution behavior', () => {
       .mockResolvedValueOnce({ ok: true });
     const listTools = vi.fn().mockResolvedValue([{ name: 'list_issues' }]);
     const runtime = {
+      getToolAnnotations: vi.fn().mockResolvedValue(undefined),
       callTool,
       listTools,
       close: vi.fn().mockResolvedValue(undefined),
@@ -148,6 +150,7 @@ describe('CLI call execution behavior', () => {
     const callTool = vi.fn().mockRejectedValue(new Error('MCP error -32602: Tool listIssues not found'));
     const listTools = vi.fn().mockResolvedValue([{ name: 'list_issue_statuses' }]);
     const runtime = {
+      getToolAnnotations: vi.fn().mockResolvedValue(undefined),
       callTool,
       listTools,
       close: vi.fn().mockResolvedValue(undefined),
@@ -272,6 +275,7 @@ function createRuntimeStub(
       definitions.set(definition.name, definition);
     }),
     listTools,
+    getToolAnnotations: vi.fn().mockResolvedValue(undefined),
     callTool,
     close,
   } as unknown as Awaited<ReturnType<typeof import('../src/runtime.js')['createRuntime']>>;
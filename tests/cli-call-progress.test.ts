@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createProgressReporter, formatProgressLine } from '../src/cli/call-progress.js';
+
+describe('call progress reporting', () => {
+  it('renders a bar and percentage when the total is known', () => {
+    expect(formatProgressLine({ progress: 2, total: 4, message: 'indexing' }, 10)).toBe('[#####-----] 50% indexing');
+    expect(formatProgressLine({ progress: 9, total: 4 }, 4)).toBe('[####] 100%');
+  });
+
+  it('falls back to the raw counter without a total', () => {
+    expect(formatProgressLine({ progress: 3 })).toBe('(3)');
+    expect(formatProgressLine({ progress: 3, message: 'step' })).toBe('(3) step');
+  });
+
+  it('writes JSON lines in json mode', () => {
+    const lines: string[] = [];
+    const reporter = createProgressReporter('json', 'alpha.index', { write: (line) => lines.push(line) });
+    reporter.onProgress?.({ progress: 1, total: 2 });
+    reporter.stop();
+    expect(lines.map((line) => JSON.parse(line))).toEqual([{ type: 'progress', progress: 1, total: 2 }]);
+  });
+
+  it('stays silent in none mode and on non-interactive terminals', () => {
+    expect(createProgressReporter('none', 'alpha.index').onProgress).toBeUndefined();
+    expect(createProgressReporter('auto', 'alpha.index', { interactive: false }).onProgress).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { handleComplete } from '../src/cli/complete-command.js';
+import type { Runtime, ServerToolInfo } from '../src/runtime.js';
+
+const listIssues: ServerToolInfo = {
+  name: 'list_issues',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      state: { type: 'string', enum: ['open', 'closed', 'on_hold'] },
+      projectId: { type: 'string' },
+    },
+  },
+};
+
+function createRuntime() {
+  const listTools = vi.fn().mockResolvedValue([listIssues]);
+  const complete = vi.fn().mockResolvedValue({ values: ['ENG', 'ENG-OPS'], hasMore: false });
+  const runtime = { listTools, complete } as unknown as Runtime;
+  return { runtime, listTools, complete };
+}
+
+function captureLines(): () => string[] {
+  const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  return () => logSpy.mock.calls.map((call) => call.join(' '));
+}
+
+describe('mcporter complete', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('completes tool arguments from schema enum values', async () => {
+    const { runtime, complete } = createRuntime();
+    const lines = captureLines();
+
+    await handleComplete(runtime, ['linear.list_issues', 'state', 'o']);
+
+    expect(lines()).toEqual(['open', 'on_hold']);
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it('asks the server for prompt argument completions with context', async () => {
+    const { runtime, complete } = createRuntime();
+    const lines = captureLines();
+
+    await handleComplete(runtime, ['linear', '--prompt', 'triage', 'projectId', 'EN', '--context', 'teamId=core']);
+
+    expect(complete).toHaveBeenCalledWith(
+      'linear',
+      { type: 'ref/prompt', name: 'triage' },
+      { name: 'projectId', value: 'EN' },
+      { context: { teamId: 'core' } }
+    );
+    expect(lines()).toEqual(['ENG', 'ENG-OPS']);
+  });
+
+  it('prints JSON for resource templates', async () => {
+    const { runtime, complete } = createRuntime();
+    const lines = captureLines();
+
+    await handleComplete(runtime, ['linear', '--resource', 'issue://{id}', 'id', '--json']);
+
+    expect(complete).toHaveBeenCalledWith(
+      'linear',
+      { type: 'ref/resource', uri: 'issue://{id}' },
+      { name: 'id', value: '' },
+      { context: undefined }
+    );
+    expect(JSON.parse(lines().join('\n'))).toEqual({ values: ['ENG', 'ENG-OPS'], hasMore: false });
+  });
+
+  it('rejects targets without a tool or reference', async () => {
+    const { runtime } = createRuntime();
+    await expect(handleComplete(runtime, ['linear', 'state'])).rejects.toThrow(/--prompt\/--resource/);
+    await expect(handleComplete(runtime, ['linear.list_issues'])).rejects.toThrow(/Usage: mcporter complete/);
+  });
+});
@@ -0,0 +1,116 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleCompletion, handleCompletionQuery, renderCompletionScript } from '../src/cli/completion-command.js';
+import { loadToolMetadata, persistToolSchemas } from '../src/cli/tool-cache.js';
+import type { ServerDefinition } from '../src/config.js';
+import type { Runtime } from '../src/runtime.js';
+import { readSchemaCache, writeSchemaCache } from '../src/schema-cache.js';
+
+let tmpDir: string;
+
+function definition(name: string): ServerDefinition {
+  return {
+    name,
+    command: { kind: 'stdio', command: 'node', args: [], cwd: tmpDir },
+    tokenCacheDir: path.join(tmpDir, name),
+  };
+}
+
+function createRuntime(): Runtime {
+  const definitions = new Map(['linear', 'github'].map((name) => [name, definition(name)]));
+  const listTools = vi
+    .fn()
+    .mockResolvedValue([
+      { name: 'create_issue', inputSchema: { type: 'object', properties: { title: { type: 'string' } } } },
+    ]);
+  return {
+    listServers: () => [...definitions.keys()].sort(),
+    getDefinition: (name: string) => {
+      const entry = definitions.get(name);
+      if (!entry) {
+        throw new Error(`Unknown MCP server '${name}'.`);
+      }
+      return entry;
+    },
+    listTools,
+  } as unknown as Runtime;
+}
+
+function captureLines(): () => string[] {
+  const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+  return () => logSpy.mock.calls.map((call) => call.join(' '));
+}
+
+async function complete(words: string[]): Promise<string[]> {
+  const lines = captureLines();
+  await handleCompletionQuery(createRuntime(), ['--', ...words]);
+  const result = lines();
+  vi.restoreAllMocks();
+  return result;
+}
+
+describe('mcporter completion', () => {
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-completion-'));
+    await writeSchemaCache(definition('linear'), {
+      updatedAt: new Date().toISOString(),
+      tools: {
+        list_issues: { type: 'object', properties: { state: { type: 'string' }, limit: { type: 'number' } } },
+        create_comment: { type: 'object', properties: { body: { type: 'string' } } },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('completes commands and server selectors for the first word', async () => {
+    expect(await complete(['c'])).toEqual(['call', 'complete', 'config', 'completion']);
+    expect(await complete(['li'])).toEqual(['list', 'linear.']);
+  });
+
+  it('completes tool names from the schema cache without connecting', async () => {
+    expect(await complete(['call', 'linear.'])).toEqual(['linear.list_issues', 'linear.create_comment']);
+    expect(await complete(['linear.l'])).toEqual(['linear.list_issues']);
+    expect(await complete(['call', 'github.'])).toEqual([]);
+  });
+
+  it('completes unused key: arguments from the cached input schema', async () => {
+    expect(await complete(['call', 'linear.list_issues', ''])).toEqual(['state:', 'limit:']);
+    expect(await complete(['linear.list-issues', 'state:open', ''])).toEqual(['limit:']);
+    expect(await complete(['call', 'linear.list_issues', 'state:o'])).toEqual([]);
+  });
+
+  it('completes server names and subcommands for other commands', async () => {
+    expect(await complete(['list', ''])).toEqual(['github', 'linear']);
+    expect(await complete(['resources', 're'])).toEqual(['read']);
+    expect(await complete(['resources', 'read', 'g'])).toEqual(['github']);
+    expect(await complete(['complete', 'linear.list_issues', 'st'])).toEqual(['state']);
+    expect(await complete(['completion', ''])).toEqual(['bash', 'zsh', 'fish']);
+    expect(await complete(['config', 'p'])).toEqual(['profiles']);
+  });
+
+  it('prints scripts that call back into the hidden subcommand', () => {
+    const lines = captureLines();
+    handleCompletion(['fish']);
+    expect(lines()[0]).toContain('__complete --');
+    for (const shell of ['bash', 'zsh'] as const) {
+      expect(renderCompletionScript(shell)).toContain('__complete --');
+    }
+    expect(() => handleCompletion(['powershell'])).toThrow('Usage: mcporter completion <bash|zsh|fish>');
+  });
+
+  it('persists listed tool schemas for later completion', async () => {
+    const runtime = createRuntime();
+    await persistToolSchemas(definition('github'), await loadToolMetadata(runtime, 'github', { includeSchema: true }));
+
+    const snapshot = await readSchemaCache(definition('github'));
+    expect(snapshot?.tools).toEqual({
+      create_issue: { type: 'object', properties: { title: { type: 'string' } } },
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { PassThrough } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { createTerminalDestructiveConfirmation, promptForDestructiveCall } from '../src/cli/destructive-prompt.js';
+import type { AskFn } from '../src/cli/elicitation-prompt.js';
+import type { DestructiveToolRequest } from '../src/runtime.js';
+
+const request: DestructiveToolRequest = {
+  server: 'linear',
+  tool: 'delete_issue',
+  args: { id: 'ENG-1' },
+  annotations: { destructiveHint: true },
+};
+
+function answer(value: string | null): AskFn {
+  return async () => value;
+}
+
+describe('destructive tool confirmation', () => {
+  it('approves only an explicit yes', async () => {
+    const lines: string[] = [];
+
+    expect(await promptForDestructiveCall(request, answer('y'), (line) => lines.push(line))).toBe(true);
+    expect(await promptForDestructiveCall(request, answer('YES'), () => {})).toBe(true);
+    expect(await promptForDestructiveCall(request, answer(''), () => {})).toBe(false);
+    expect(await promptForDestructiveCall(request, answer(null), () => {})).toBe(false);
+    expect(lines.join('\n')).toContain('linear.delete_issue is marked destructive');
+    expect(lines.join('\n')).toContain('{"id":"ENG-1"}');
+  });
+
+  it('refuses without a TTY unless --yes was passed', async () => {
+    const input = new PassThrough() as unknown as NodeJS.ReadStream;
+    const output = new PassThrough();
+    let written = '';
+    output.on('data', (chunk) => {
+      written += String(chunk);
+    });
+
+    expect(await createTerminalDestructiveConfirmation({ input, output })(request)).toBe(false);
+    expect(written).toContain('Pass --yes to run it non-interactively.');
+    expect(await createTerminalDestructiveConfirmation({ assumeYes: true, input, output })(request)).toBe(true);
+  });
+});
@@ -0,0 +1,92 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type AskFn,
+  createStaticElicitationHandler,
+  loadElicitationValues,
+  promptForElicitation,
+} from '../src/cli/elicitation-prompt.js';
+import type { ElicitationRequest } from '../src/runtime.js';
+
+const request: ElicitationRequest = {
+  server: 'deploys',
+  message: 'Deploy to production?',
+  requestedSchema: {
+    type: 'object',
+    properties: {
+      confirm: { type: 'boolean', title: 'Confirm' },
+      region: { type: 'string', enum: ['us', 'eu'], enumNames: ['United States', 'Europe'] },
+      replicas: { type: 'integer', minimum: 1, maximum: 5 },
+      note: { type: 'string' },
+    },
+    required: ['confirm', 'region'],
+  },
+};
+
+function scripted(answers: Array<string | null>): AskFn {
+  const queue = [...answers];
+  return async () => (queue.length > 0 ? (queue.shift() ?? null) : null);
+}
+
+describe('promptForElicitation', () => {
+  it('collects typed values field by field', async () => {
+    const lines: string[] = [];
+    const result = await promptForElicitation(request, scripted(['', 'y', '2', '3', '']), (line) => lines.push(line));
+
+    expect(result).toEqual({ action: 'accept', content: { confirm: true, region: 'eu', replicas: 3 } });
+    expect(lines).toContain('  2) Europe');
+  });
+
+  it('re-asks invalid and missing required answers', async () => {
+    const lines: string[] = [];
+    const result = await promptForElicitation(
+      request,
+      scripted(['yes', 'maybe', 'n', '', 'mars', 'us', '9', '1', 'ship it']),
+      (line) => lines.push(line)
+    );
+
+    expect(result).toEqual({
+      action: 'accept',
+      content: { confirm: false, region: 'us', replicas: 1, note: 'ship it' },
+    });
+    expect(lines.join('\n')).toMatch(/Answer y or n/);
+    expect(lines.join('\n')).toMatch(/region is required/);
+    expect(lines.join('\n')).toMatch(/Must be at most 5/);
+  });
+
+  it('declines or cancels on request and cancels on EOF', async () => {
+    const write = vi.fn();
+    await expect(promptForElicitation(request, scripted(['n']), write)).resolves.toEqual({ action: 'decline' });
+    await expect(promptForElicitation(request, scripted(['c']), write)).resolves.toEqual({ action: 'cancel' });
+    await expect(promptForElicitation(request, scripted(['y', null]), write)).resolves.toEqual({ action: 'cancel' });
+  });
+});
+
+describe('createStaticElicitationHandler', () => {
+  it('answers with the requested fields and cancels when a required one is missing', async () => {
+    const handler = createStaticElicitationHandler({ confirm: true, region: 'us', unrelated: 1 });
+    await expect(handler(request)).resolves.toEqual({ action: 'accept', content: { confirm: true, region: 'us' } });
+
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const partial = createStaticElicitationHandler({ confirm: true });
+    await expect(partial(request)).resolves.toEqual({ action: 'cancel' });
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('region'));
+    errorSpy.mockRestore();
+  });
+});
+
+describe('loadElicitationValues', () => {
+  it('accepts inline JSON or a JSON file', async () => {
+    await expect(loadElicitationValues('{"confirm":true}')).resolves.toEqual({ confirm: true });
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-elicit-'));
+    const file = path.join(dir, 'answers.json');
+    await fs.writeFile(file, '{"region":"eu"}', 'utf8');
+    await expect(loadElicitationValues(file)).resolves.toEqual({ region: 'eu' });
+    await fs.rm(dir, { recursive: true, force: true });
+
+    await expect(loadElicitationValues('[1]')).rejects.toThrow(/--elicit-from/);
+  });
+});
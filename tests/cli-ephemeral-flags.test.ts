@@ -51,4 +51,11 @@ describe('extractEphemeralServerFlags', () => {
     expect(spec).toEqual({ httpUrl: 'https://mcp.example.com/sse' });
     expect(args).toEqual([]);
   });
+
+  it('collects repeatable --root-dir values', () => {
+    const args = ['--stdio', 'node server.js', '--root-dir', '.', '--root-dir', '~/notes', 'list'];
+    const spec = extractEphemeralServerFlags(args);
+    expect(spec).toEqual({ stdioCommand: 'node server.js', roots: ['.', '~/notes'] });
+    expect(args).toEqual(['list']);
+  });
 });
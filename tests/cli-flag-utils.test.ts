@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { expectValue, extractFlags } from '../src/cli/flag-utils.js';
+import { expectValue, extractFlags, parseKeyValueArguments } from '../src/cli/flag-utils.js';
 
 describe('cli flag utils', () => {
   it('extracts targeted flags and mutates argv in place', () => {
@@ -14,4 +14,12 @@ describe('cli flag utils', () => {
     expect(() => extractFlags(['--config'], ['--config'])).toThrow(/requires a value/);
     expect(() => expectValue('--output', undefined)).toThrow(/requires a value/);
   });
+
+  it('parses key=value and key:value tokens into a string map', () => {
+    expect(parseKeyValueArguments(['topic=mcp', 'url:https://example.com/a=b'])).toEqual({
+      topic: 'mcp',
+      url: 'https://example.com/a=b',
+    });
+    expect(() => parseKeyValueArguments(['oops'])).toThrow(/key=value/);
+  });
 });
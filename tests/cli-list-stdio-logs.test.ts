@@ -36,8 +36,16 @@ function createRuntime(definitions: ServerDefinition[]) {
     },
     registerDefinition: vi.fn(),
     listTools,
+    getToolAnnotations: vi.fn(async () => undefined),
     callTool: vi.fn(async () => undefined),
     listResources: vi.fn(async () => undefined),
+    listResourceTemplates: vi.fn(async () => []),
+    readResource: vi.fn(async () => ({ contents: [] })),
+    subscribeResource: vi.fn(async () => async () => {}),
+    listPrompts: vi.fn(async () => []),
+    getPrompt: vi.fn(async () => ({ messages: [] })),
+    setRoots: vi.fn(async () => {}),
+    complete: vi.fn(async () => ({ values: [] })),
     connect: vi.fn(async () => {
       throw new Error('connect not implemented');
     }),
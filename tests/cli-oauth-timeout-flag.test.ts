@@ -22,8 +22,16 @@ describe('mcporter --oauth-timeout flag', () => {
       getDefinition: vi.fn(() => definition),
       registerDefinition: vi.fn(),
       listTools: listToolsSpy,
+      getToolAnnotations: vi.fn(),
       callTool: vi.fn(),
       listResources: vi.fn(),
+      listResourceTemplates: vi.fn(),
+      readResource: vi.fn(),
+      subscribeResource: vi.fn(),
+      listPrompts: vi.fn(),
+      getPrompt: vi.fn(),
+      setRoots: vi.fn(),
+      complete: vi.fn(),
       connect: vi.fn(),
       close: vi.fn(async () => {}),
     };
@@ -69,8 +77,16 @@ describe('mcporter --oauth-timeout flag', () => {
       getDefinition: vi.fn(() => definition),
       registerDefinition: vi.fn(),
       listTools: failingListTools,
+      getToolAnnotations: vi.fn(),
       callTool: vi.fn(),
       listResources: vi.fn(),
+      listResourceTemplates: vi.fn(),
+      readResource: vi.fn(),
+      subscribeResource: vi.fn(),
+      listPrompts: vi.fn(),
+      getPrompt: vi.fn(),
+      setRoots: vi.fn(),
+      complete: vi.fn(),
       connect: vi.fn(),
       close: closeSpy,
     };
@@ -0,0 +1,90 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { formatPromptSignature, handlePrompts, renderPromptMessages } from '../src/cli/prompts-command.js';
+import type { ServerDefinition } from '../src/config.js';
+import type { Runtime, ServerPromptInfo } from '../src/runtime.js';
+
+const definition: ServerDefinition = {
+  name: 'linear',
+  command: { kind: 'http', url: new URL('https://linear.example.com/mcp') },
+};
+
+const summarizePrompt: ServerPromptInfo = {
+  name: 'summarize_issue',
+  description: 'Summarize an issue for a status update',
+  arguments: [
+    { name: 'issueId', description: 'Linear issue identifier', required: true },
+    { name: 'tone', required: false },
+  ],
+};
+
+function createRuntime(listPrompts = vi.fn().mockResolvedValue([summarizePrompt])) {
+  const getPrompt = vi.fn().mockResolvedValue({
+    description: 'Issue summary',
+    messages: [{ role: 'user', content: { type: 'text', text: 'Summarize ENG-1.' } }],
+  });
+  const runtime = {
+    getDefinitions: () => [definition],
+    getDefinition: () => definition,
+    registerDefinition: vi.fn(),
+    listPrompts,
+    getPrompt,
+  } as unknown as Runtime;
+  return { runtime, listPrompts, getPrompt };
+}
+
+describe('mcporter prompts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('formats prompt signatures with optional markers', () => {
+    expect(formatPromptSignature(summarizePrompt)).toBe('summarize_issue(issueId, tone?)');
+  });
+
+  it('lists prompts with their arguments', async () => {
+    const { runtime, listPrompts } = createRuntime();
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handlePrompts(runtime, ['linear']);
+
+    const output = logSpy.mock.calls.map((call) => call.join(' ')).join('\n');
+    expect(listPrompts).toHaveBeenCalledWith('linear');
+    expect(output).toContain('summarize_issue(issueId, tone?)');
+    expect(output).toContain('Linear issue identifier');
+  });
+
+  it('treats servers without prompt support as an empty catalog', async () => {
+    const { runtime } = createRuntime(
+      vi.fn().mockRejectedValue(new McpError(ErrorCode.MethodNotFound, 'Method not found'))
+    );
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handlePrompts(runtime, ['linear', '--json']);
+
+    expect(JSON.parse(logSpy.mock.calls.at(-1)?.[0] ?? '{}')).toEqual({ server: 'linear', prompts: [] });
+  });
+
+  it('renders prompts with key=value and --args arguments', async () => {
+    const { runtime, getPrompt } = createRuntime();
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handlePrompts(runtime, ['linear.summarize_issue', 'issueId=ENG-1', '--args', '{"tone":"brief"}']);
+
+    expect(getPrompt).toHaveBeenCalledWith('linear', 'summarize_issue', { tone: 'brief', issueId: 'ENG-1' });
+    expect(logSpy.mock.calls.at(-1)?.[0]).toBe('# Issue summary\n\nuser:\nSummarize ENG-1.');
+  });
+
+  it('renders markdown transcripts and summarizes binary content', () => {
+    const rendered = renderPromptMessages(
+      {
+        messages: [
+          { role: 'user', content: { type: 'text', text: 'Describe this image.' } },
+          { role: 'assistant', content: { type: 'image', mimeType: 'image/png', data: 'AAAA' } },
+        ],
+      },
+      'markdown'
+    );
+    expect(rendered).toBe('## User\n\nDescribe this image.\n\n## Assistant\n\n[image image/png, 3 bytes]');
+  });
+});
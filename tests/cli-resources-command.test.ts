@@ -0,0 +1,112 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { handleResources, resolveResourceUri, watchResource } from '../src/cli/resources-command.js';
+import type { ServerDefinition } from '../src/config.js';
+import type { Runtime } from '../src/runtime.js';
+import { makeShortTempDir } from './fixtures/test-helpers.js';
+
+const definition: ServerDefinition = {
+  name: 'docs',
+  command: { kind: 'http', url: new URL('https://docs.example.com/mcp') },
+};
+
+function createRuntime(contents: Array<Record<string, unknown>>) {
+  const listResources = vi
+    .fn()
+    .mockResolvedValueOnce({
+      resources: [{ uri: 'docs://readme.md', name: 'README', mimeType: 'text/markdown' }],
+      nextCursor: 'page-2',
+    })
+    .mockResolvedValueOnce({ resources: [{ uri: 'docs://logo.png', name: 'Logo' }] });
+  const readResource = vi.fn().mockResolvedValue({ contents });
+  const runtime = {
+    getDefinitions: () => [definition],
+    getDefinition: () => definition,
+    registerDefinition: vi.fn(),
+    listResources,
+    readResource,
+    listResourceTemplates: vi.fn().mockResolvedValue([{ uriTemplate: 'docs://{path}', name: 'doc' }]),
+  } as unknown as Runtime;
+  return { runtime, listResources, readResource };
+}
+
+describe('mcporter resources', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('expands URI templates and rejects missing or stray variables', () => {
+    expect(resolveResourceUri('docs://{path}', { path: 'guides/setup.md' })).toBe('docs://guides%2Fsetup.md');
+    expect(resolveResourceUri('docs://{+path}', { path: 'guides/setup.md' })).toBe('docs://guides/setup.md');
+    expect(() => resolveResourceUri('docs://{path}', {})).toThrow(/Missing URI template variable/);
+    expect(() => resolveResourceUri('docs://readme.md', { path: 'x' })).toThrow(/not a URI template/);
+  });
+
+  it('follows pagination when listing resources as JSON', async () => {
+    const { runtime, listResources } = createRuntime([]);
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handleResources(runtime, ['list', 'docs', '--json']);
+
+    expect(listResources).toHaveBeenNthCalledWith(2, 'docs', { cursor: 'page-2' });
+    const payload = JSON.parse(logSpy.mock.calls.at(-1)?.[0] ?? '{}');
+    expect(payload.resources.map((entry: { uri: string }) => entry.uri)).toEqual([
+      'docs://readme.md',
+      'docs://logo.png',
+    ]);
+  });
+
+  it('prints text contents and writes blobs with --out', async () => {
+    const { runtime, readResource } = createRuntime([
+      { uri: 'docs://readme.md', text: '# Readme' },
+      { uri: 'docs://logo.png', mimeType: 'image/png', blob: Buffer.from('png-bytes').toString('base64') },
+    ]);
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const tempDir = await makeShortTempDir('mcporter-resources');
+    try {
+      await handleResources(runtime, ['read', 'docs', 'docs://{+path}', 'path=bundle', '--out', tempDir]);
+
+      expect(readResource).toHaveBeenCalledWith('docs', 'docs://bundle');
+      expect(await fs.readFile(path.join(tempDir, 'readme.md'), 'utf8')).toBe('# Readme');
+      expect(await fs.readFile(path.join(tempDir, 'logo.png'), 'utf8')).toBe('png-bytes');
+      expect(logSpy.mock.calls.map((call) => call[0]).join('\n')).toContain('(9 bytes)');
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('streams watch updates as JSON lines and unsubscribes on abort', async () => {
+    const { runtime, readResource } = createRuntime([{ uri: 'build://log', text: 'compiling' }]);
+    const unsubscribe = vi.fn(async () => {});
+    let push: (uri: string) => void = () => {};
+    const subscribeResource = vi.fn(
+      async (server: string, _uri: string, handler: (update: { server: string; uri: string }) => void) => {
+        push = (uri) => handler({ server, uri });
+        return unsubscribe;
+      }
+    );
+    (runtime as unknown as { subscribeResource: unknown }).subscribeResource = subscribeResource;
+    const lines: string[] = [];
+    const controller = new AbortController();
+
+    const watching = watchResource(runtime, 'docs', 'build://log', {
+      read: true,
+      signal: controller.signal,
+      write: (line) => lines.push(line),
+    });
+    await vi.waitFor(() => expect(subscribeResource).toHaveBeenCalled());
+    push('build://log');
+    controller.abort();
+    await watching;
+
+    expect(readResource).toHaveBeenCalledWith('docs', 'build://log');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0] ?? '{}')).toMatchObject({
+      server: 'docs',
+      uri: 'build://log',
+      contents: [{ uri: 'build://log', text: 'compiling' }],
+    });
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { formatSourceSuffix } from '../src/cli/list-format.js';
+import { listConfigLayerPaths, loadAuditConfig, loadServerDefinitions } from '../src/config.js';
+
+describe('config extends', () => {
+  let tempDir: string;
+  let homedirSpy: { mockRestore(): void } | undefined;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-extends-'));
+    homedirSpy = vi.spyOn(os, 'homedir').mockReturnValue(path.join(tempDir, 'home'));
+  });
+
+  afterEach(async () => {
+    homedirSpy?.mockRestore();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function writeJson(relativePath: string, value: unknown): Promise<string> {
+    const filePath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+    return filePath;
+  }
+
+  it('deep-merges entries across extended files and records which file set each field', async () => {
+    await writeJson(
+      'home/team/mcp.jsonc',
+      `{
+        // Team-wide defaults
+        "audit": { "enabled": true, "path": "./audit.jsonl" },
+        "mcpServers": {
+          "tracker": { "command": "./bin/tracker", "env": { "REGION": "eu", "LOG": "info" } },
+        },
+      }`
+    );
+    await writeJson('shared/mcporter.json', {
+      extends: '~/team/mcp.jsonc',
+      mcpServers: {
+        docs: { url: 'https://docs.example.com/mcp', headers: { 'X-Team': 'core', 'X-Env': 'prod' } },
+      },
+    });
+    const configPath = await writeJson('project/config/mcporter.json', {
+      extends: ['../../shared/mcporter.json'],
+      imports: [],
+      mcpServers: {
+        docs: { headers: { 'X-Env': 'staging' } },
+        tracker: { env: { LOG: 'debug' }, args: ['--verbose'] },
+      },
+    });
+
+    const servers = await loadServerDefinitions({ configPath, rootDir: path.join(tempDir, 'project') });
+    const docs = servers.find((server) => server.name === 'docs');
+    const tracker = servers.find((server) => server.name === 'tracker');
+
+    expect(docs?.command).toMatchObject({
+      kind: 'http',
+      headers: { 'X-Team': 'core', 'X-Env': 'staging' },
+    });
+    expect(tracker?.command).toMatchObject({
+      kind: 'stdio',
+      command: './bin/tracker',
+      args: ['--verbose'],
+      // Relative commands run from the directory of the file that declared them.
+      cwd: path.join(tempDir, 'home', 'team'),
+    });
+    expect(tracker?.env).toEqual({ REGION: 'eu', LOG: 'debug' });
+    expect(tracker?.sources).toEqual([
+      { kind: 'local', path: configPath, fields: ['args', 'env'] },
+      { kind: 'local', path: path.join(tempDir, 'home', 'team', 'mcp.jsonc'), fields: ['command', 'env'] },
+    ]);
+    expect(formatSourceSuffix(tracker?.sources, true, { verbose: true })).toContain('(extended, fields: command, env)');
+
+    // Top-level blocks are inherited too, resolving paths against the file that declared them.
+    const audit = await loadAuditConfig({ configPath, rootDir: path.join(tempDir, 'project') });
+    expect(audit).toMatchObject({ enabled: true, path: path.join(tempDir, 'home', 'team', 'audit.jsonl') });
+
+    expect(await listConfigLayerPaths({ configPath })).toEqual([
+      path.join(tempDir, 'home', 'team', 'mcp.jsonc'),
+      path.join(tempDir, 'shared', 'mcporter.json'),
+      configPath,
+    ]);
+  });
+
+  it('rejects extends cycles and missing files', async () => {
+    await writeJson('a.json', { extends: './b.json', mcpServers: {} });
+    await writeJson('b.json', { extends: ['./a.json'], mcpServers: {} });
+    await writeJson('c.json', { extends: './missing.json', mcpServers: {} });
+
+    await expect(loadServerDefinitions({ configPath: path.join(tempDir, 'a.json'), rootDir: tempDir })).rejects.toThrow(
+      `Config extends cycle: ${path.join(tempDir, 'a.json')} -> ${path.join(tempDir, 'b.json')} -> ${path.join(tempDir, 'a.json')}`
+    );
+    await expect(loadServerDefinitions({ configPath: path.join(tempDir, 'c.json'), rootDir: tempDir })).rejects.toThrow(
+      `Failed to load './missing.json' (extended by ${path.join(tempDir, 'c.json')})`
+    );
+  });
+});
@@ -21,4 +21,23 @@ describe('config get --json', () => {
     expect(payload.headers?.Authorization).toBe('Bearer token');
     expect(payload.env?.FOO).toBe('bar');
   });
+
+  it('shows the tool policy in text and JSON output', async () => {
+    const server: ServerDefinition = {
+      name: 'linear',
+      command: { kind: 'http', url: new URL('https://mcp.linear.app/mcp') },
+      tools: { allow: ['list_*', 'get_*'], deny: ['*delete*'] },
+    };
+    vi.spyOn(configModule, 'loadServerDefinitions').mockResolvedValue([server]);
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handleGetCommand({ loadOptions: {} } as never, ['linear']);
+    await handleGetCommand({ loadOptions: {} } as never, ['linear', '--json']);
+
+    const lines = logSpy.mock.calls.map((call) => String(call[0]));
+    logSpy.mockRestore();
+    expect(lines).toContain('    allow: list_*, get_*');
+    expect(lines).toContain('    deny: *delete*');
+    expect(JSON.parse(lines.at(-1) ?? '{}').tools).toEqual({ allow: ['list_*', 'get_*'], deny: ['*delete*'] });
+  });
 });
@@ -2,7 +2,7 @@ import fs from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { loadServerDefinitions } from '../src/config.js';
+import { loadSamplingConfig, loadServerDefinitions } from '../src/config.js';
 
 describe('loadServerDefinitions with layered configs', () => {
   let tempHomeDir: string | undefined;
@@ -175,4 +175,47 @@ describe('loadServerDefinitions with layered configs', () => {
     const servers = await loadServerDefinitions({ configPath: explicitPath, rootDir: projectDir });
     expect(servers.map((server) => server.name)).toEqual(['onlyProject']);
   });
+
+  it('takes the sampling block from the project config over home', async () => {
+    const homeDir =
+      tempHomeDir ??
+      (() => {
+        throw new Error('tempHomeDir missing');
+      })();
+    const projectDir =
+      tempProjectDir ??
+      (() => {
+        throw new Error('tempProjectDir missing');
+      })();
+
+    const homeConfigDir = path.join(homeDir, '.mcporter');
+    await fs.mkdir(homeConfigDir, { recursive: true });
+    await fs.writeFile(
+      path.join(homeConfigDir, 'mcporter.json'),
+      JSON.stringify({ mcpServers: {}, sampling: { provider: 'command', command: 'home-llm' } })
+    );
+    expect(await loadSamplingConfig({ rootDir: projectDir })).toEqual({
+      provider: 'command',
+      command: 'home-llm',
+      args: [],
+      cwd: homeConfigDir,
+    });
+
+    const projectConfigDir = path.join(projectDir, 'config');
+    await fs.mkdir(projectConfigDir, { recursive: true });
+    await fs.writeFile(
+      path.join(projectConfigDir, 'mcporter.json'),
+      JSON.stringify({
+        mcpServers: {},
+        sampling: { provider: 'command', command: './llm.sh --model "local 7b"', timeoutMs: 30000 },
+      })
+    );
+    expect(await loadSamplingConfig({ rootDir: projectDir })).toEqual({
+      provider: 'command',
+      command: './llm.sh',
+      args: ['--model', 'local 7b'],
+      cwd: projectConfigDir,
+      timeoutMs: 30000,
+    });
+  });
 });
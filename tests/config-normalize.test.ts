@@ -3,6 +3,7 @@ import os from 'node:os';
 import path from 'node:path';
 import { describe, expect, it } from 'vitest';
 import { loadServerDefinitions } from '../src/config.js';
+import { normalizeTracing } from '../src/config-normalize.js';
 
 const TEMP_DIR = path.join(os.tmpdir(), 'mcporter-config-test');
 
@@ -35,4 +36,80 @@ describe('config normalization', () => {
     expect(headers?.accept?.toLowerCase()).toContain('application/json');
     expect(headers?.accept?.toLowerCase()).toContain('text/event-stream');
   });
+
+  it('keeps the server log level alongside daemon logging flags', async () => {
+    await fs.mkdir(TEMP_DIR, { recursive: true });
+    const configPath = path.join(TEMP_DIR, 'mcporter-logging.json');
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        mcpServers: {
+          quiet: { command: 'node', logging: { level: 'warning' } },
+          traced: { command: 'node', logging: { level: 'debug', daemon: { enabled: true } } },
+        },
+      }),
+      'utf8'
+    );
+
+    const servers = await loadServerDefinitions({ configPath });
+    expect(servers.find((entry) => entry.name === 'quiet')?.logging).toEqual({ level: 'warning' });
+    expect(servers.find((entry) => entry.name === 'traced')?.logging).toEqual({
+      level: 'debug',
+      daemon: { enabled: true },
+    });
+  });
+
+  it('resolves literal root paths against the config directory and defers ~ and env placeholders', async () => {
+    await fs.mkdir(TEMP_DIR, { recursive: true });
+    const configPath = path.join(TEMP_DIR, 'mcporter-roots.json');
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        mcpServers: {
+          files: {
+            command: 'node',
+            roots: ['..', { path: `\${REPO_ROOT}/docs`, name: 'docs' }, '~/notes', 'file:///srv/data'],
+          },
+        },
+      }),
+      'utf8'
+    );
+
+    const servers = await loadServerDefinitions({ configPath });
+    expect(servers.find((entry) => entry.name === 'files')?.roots).toEqual([
+      { path: path.dirname(TEMP_DIR) },
+      { path: `\${REPO_ROOT}/docs`, name: 'docs' },
+      { path: '~/notes' },
+      { path: 'file:///srv/data' },
+    ]);
+  });
+
+  it('lets OTEL_* variables enable and override the tracing block', () => {
+    const raw = { endpoint: 'https://collector.example.com/', headers: { 'x-team': 'agents' }, serviceName: 'cfg' };
+
+    expect(normalizeTracing(raw, {})).toEqual({
+      enabled: false,
+      endpoint: 'https://collector.example.com/v1/traces',
+      headers: { 'x-team': 'agents' },
+      serviceName: 'cfg',
+    });
+    expect(
+      normalizeTracing(raw, {
+        OTEL_EXPORTER_OTLP_ENDPOINT: 'http://localhost:4318',
+        OTEL_EXPORTER_OTLP_HEADERS: 'authorization=Bearer%20abc,x-team=ops',
+        OTEL_SERVICE_NAME: 'agent-tools',
+      })
+    ).toEqual({
+      enabled: true,
+      endpoint: 'http://localhost:4318/v1/traces',
+      headers: { authorization: 'Bearer abc', 'x-team': 'ops' },
+      serviceName: 'agent-tools',
+    });
+    expect(
+      normalizeTracing(
+        { ...raw, enabled: true },
+        { OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: 'http://otel:4318/custom', OTEL_SDK_DISABLED: 'true' }
+      )
+    ).toMatchObject({ enabled: false, endpoint: 'http://otel:4318/custom' });
+  });
 });
@@ -0,0 +1,132 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildGlobalContext } from '../src/cli/cli-factory.js';
+import { handleConfigCli } from '../src/cli/config-command.js';
+import { formatSourceSuffix } from '../src/cli/list-format.js';
+import { loadRuntimeConfig, loadServerDefinitions } from '../src/config.js';
+import { resolveDaemonPaths } from '../src/daemon/client.js';
+import { createRuntime } from '../src/runtime.js';
+
+describe('config profiles', () => {
+  let tempDir: string;
+  let configPath: string;
+  let homedirSpy: { mockRestore(): void } | undefined;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-profiles-'));
+    homedirSpy = vi.spyOn(os, 'homedir').mockReturnValue(path.join(tempDir, 'home'));
+    configPath = path.join(tempDir, 'config', 'mcporter.json');
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        imports: [],
+        mcpServers: {
+          api: {
+            baseUrl: 'https://api.example.com/mcp',
+            headers: { 'X-Team': 'core' },
+            bearerTokenEnv: 'API_TOKEN',
+          },
+          worker: { command: 'node', args: ['worker.js'], env: { REGION: 'eu' } },
+        },
+        profiles: {
+          staging: {
+            description: 'Staging stack',
+            mcpServers: {
+              api: { url: 'https://staging.example.com/mcp', bearerToken: 'staging-token' },
+              worker: { env: { REGION: 'staging' } },
+            },
+          },
+          prod: { mcpServers: { worker: { env: { LOG: 'warn' } } } },
+        },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    homedirSpy?.mockRestore();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('overrides server fields with the selected profile', async () => {
+    const servers = await loadServerDefinitions({ configPath, rootDir: tempDir, profile: 'staging' });
+    const api = servers.find((server) => server.name === 'api');
+    const worker = servers.find((server) => server.name === 'worker');
+
+    // The profile's url and bearerToken replace the base entry's baseUrl and bearerTokenEnv.
+    expect(api?.command).toMatchObject({
+      kind: 'http',
+      url: new URL('https://staging.example.com/mcp'),
+      headers: { 'X-Team': 'core', Authorization: 'Bearer staging-token' },
+    });
+    expect(worker?.env).toEqual({ REGION: 'staging' });
+    expect(worker?.sources?.[0]).toEqual({ kind: 'local', path: configPath, profile: 'staging', fields: ['env'] });
+    expect(formatSourceSuffix(worker?.sources, true, { verbose: true })).toContain(
+      '(primary, profile staging, fields: env)'
+    );
+
+    const plain = await loadServerDefinitions({ configPath, rootDir: tempDir });
+    expect(plain.find((server) => server.name === 'worker')?.env).toEqual({ REGION: 'eu' });
+
+    await expect(loadServerDefinitions({ configPath, rootDir: tempDir, profile: 'qa' })).rejects.toThrow(
+      "Unknown profile 'qa'. Available profiles: prod, staging."
+    );
+  });
+
+  it('applies the profile when a runtime loads its config', async () => {
+    const config = await loadRuntimeConfig({ configPath, rootDir: tempDir, profile: 'staging' });
+    expect(config.servers.find((server) => server.name === 'worker')?.env).toEqual({ REGION: 'staging' });
+    expect(config.audit.enabled).toBe(false);
+    expect(config.sampling).toBeUndefined();
+
+    const runtime = await createRuntime({ configPath, rootDir: tempDir, profile: 'staging' });
+    expect(runtime.getDefinition('worker').env).toEqual({ REGION: 'staging' });
+    await expect(createRuntime({ configPath, rootDir: tempDir, profile: 'qa' })).rejects.toThrow(
+      "Unknown profile 'qa'."
+    );
+  });
+
+  it('reads --profile and MCPORTER_PROFILE and keys daemons per profile', () => {
+    vi.stubEnv('MCPORTER_PROFILE', 'prod');
+    const fromEnv = buildGlobalContext(['list']);
+    const fromFlag = buildGlobalContext(['--profile', 'staging', 'list']);
+    expect('runtimeOptions' in fromEnv && fromEnv.runtimeOptions.profile).toBe('prod');
+    expect('runtimeOptions' in fromFlag && fromFlag.runtimeOptions.profile).toBe('staging');
+
+    const plain = resolveDaemonPaths(configPath);
+    const staging = resolveDaemonPaths(configPath, 'staging');
+    const prod = resolveDaemonPaths(configPath, 'prod');
+    expect(new Set([plain.key, staging.key, prod.key]).size).toBe(3);
+    expect(resolveDaemonPaths(configPath, 'staging')).toEqual(staging);
+  });
+
+  it('lists profiles with `mcporter config profiles`', async () => {
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((value?: unknown) => {
+      logs.push(String(value));
+    });
+
+    await handleConfigCli(
+      { loadOptions: { configPath, rootDir: tempDir, profile: 'staging' }, invokeAuth: async () => {} },
+      ['profiles', '--json']
+    );
+
+    expect(JSON.parse(logs.join('\n'))).toEqual({
+      active: 'staging',
+      profiles: [
+        { name: 'prod', servers: ['worker'], paths: [configPath], active: false },
+        {
+          name: 'staging',
+          description: 'Staging stack',
+          servers: ['api', 'worker'],
+          paths: [configPath],
+          active: true,
+        },
+      ],
+    });
+  });
+});
@@ -109,4 +109,121 @@ describe('daemon CLI restart', () => {
       rootDir: undefined,
     });
   });
+
+  it('forwards --http-port to the detached daemon and reports the endpoint in status', async () => {
+    statusMock
+      .mockResolvedValueOnce(null) // handleDaemonStart: no existing daemon
+      .mockResolvedValueOnce({ pid: 7, socketPath: '/tmp/socket', servers: [] }) // waitFor ready
+      .mockResolvedValueOnce({ pid: 7, socketPath: '/tmp/socket', servers: [], httpUrl: 'http://127.0.0.1:8765' });
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handleDaemonCli(['start', '--http-port', '8765'], { configPath: '/tmp/config.json' });
+    await handleDaemonCli(['status'], { configPath: '/tmp/config.json' });
+
+    expect(launchDaemonDetachedMock).toHaveBeenCalledWith(
+      expect.objectContaining({ extraArgs: ['--http-port', '8765'] })
+    );
+    expect(logSpy.mock.calls.map((call) => call.join(' '))).toContain('HTTP: http://127.0.0.1:8765/servers/<name>/mcp');
+    logSpy.mockRestore();
+  });
+
+  it('rejects invalid daemon HTTP ports', async () => {
+    await expect(handleDaemonCli(['start', '--http-port', 'abc'], { configPath: '/tmp/config.json' })).rejects.toThrow(
+      "Daemon HTTP port must be an integer between 0 and 65535 (got 'abc')."
+    );
+  });
+
+  it('reports the last config reload in status', async () => {
+    statusMock.mockResolvedValueOnce({
+      pid: 7,
+      socketPath: '/tmp/socket',
+      servers: [{ name: 'chrome', connected: true }],
+      lastReload: { reloadedAt: Date.UTC(2026, 0, 2), added: ['mobile'], removed: [], restarted: ['playwright'] },
+    });
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handleDaemonCli(['status'], { configPath: '/tmp/config.json' });
+
+    expect(logSpy.mock.calls.map((call) => call.join(' '))).toContain(
+      'Config reloaded at 2026-01-02T00:00:00.000Z: added mobile; restarted playwright'
+    );
+    logSpy.mockRestore();
+  });
+
+  it('prints per-server health as a table or as JSON', async () => {
+    const status = {
+      pid: 7,
+      socketPath: '/tmp/socket',
+      servers: [
+        {
+          name: 'chrome',
+          connected: true,
+          metrics: {
+            calls: 12,
+            errors: 2,
+            errorsByKind: { offline: 2 },
+            latencyP50Ms: 40,
+            latencyP95Ms: 1500,
+            pid: 4242,
+            memoryRssBytes: 150 * 1024 * 1024,
+            restarts: 1,
+            lastError: { kind: 'offline', message: 'fetch failed', at: Date.UTC(2026, 0, 2) },
+          },
+        },
+      ],
+    };
+    statusMock.mockResolvedValueOnce(status).mockResolvedValueOnce(status);
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handleDaemonCli(['status'], { configPath: '/tmp/config.json' });
+    const text = logSpy.mock.calls.map((call) => call.join(' '));
+    logSpy.mockClear();
+    await handleDaemonCli(['status', '--json'], { configPath: '/tmp/config.json' });
+    const json = logSpy.mock.calls.map((call) => call.join(' '));
+    logSpy.mockRestore();
+
+    expect(text).toContain('SERVER  STATE      PID   RSS     CALLS  ERRORS  P50   P95   RESTARTS  LAST USED');
+    expect(text).toContain('chrome  connected  4242  150 MB  12     2       40ms  1.5s  1         -');
+    expect(text).toContain('chrome errors (offline 2); last offline at 2026-01-02T00:00:00.000Z: fetch failed');
+    expect(JSON.parse(json[0] ?? '')).toEqual(status);
+  });
+
+  it('rejects --interval values below 100ms', async () => {
+    await expect(
+      handleDaemonCli(['status', '--watch', '--interval', '10'], { configPath: '/tmp/config.json' })
+    ).rejects.toThrow("--interval must be at least 100 milliseconds (got '10').");
+  });
+
+  it('shows crashed servers and their pending restart', async () => {
+    statusMock.mockResolvedValueOnce({
+      pid: 7,
+      socketPath: '/tmp/socket',
+      servers: [
+        {
+          name: 'chrome',
+          connected: false,
+          supervision: {
+            crashes: 6,
+            paused: true,
+            lastCrash: {
+              kind: 'stdio-exit',
+              exitCode: 1,
+              message: "STDIO server 'chrome' exited with code 1: boom",
+              at: Date.UTC(2026, 0, 2),
+            },
+          },
+        },
+      ],
+    });
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    await handleDaemonCli(['status'], { configPath: '/tmp/config.json' });
+    const lines = logSpy.mock.calls.map((call) => call.join(' '));
+    logSpy.mockRestore();
+
+    expect(lines.some((line) => line.startsWith('chrome  crashed'))).toBe(true);
+    expect(lines).toContain(
+      "chrome crashed 6 times; last stdio-exit at 2026-01-02T00:00:00.000Z: STDIO server 'chrome' exited with code 1: boom; auto-restart paused until the next request"
+    );
+  });
 });
@@ -35,6 +35,12 @@ class MockSocket extends EventEmitter {
 }
 
 function buildResponse(method: string, id: string) {
+  if (method === 'reloadConfig') {
+    // Daemons that predate hot reload reject the request, which makes the client restart them.
+    return supportsReload
+      ? { id, ok: true, result: { reloadedAt: Date.now(), added: [], removed: [], restarted: [] } }
+      : { id, ok: false, error: { code: 'unknown_method', message: 'unknown_method' } };
+  }
   if (method === 'status') {
     return {
       id,
@@ -62,6 +68,7 @@ let activeConfigMtime: number | null = null;
 let activeSocketPath: string;
 let previousDaemonDir: string | undefined;
 let activeLayers: Array<{ path: string; mtimeMs: number | null }> = [];
+let supportsReload = false;
 
 vi.mock('node:net', () => {
   createConnection = vi.fn(() => {
@@ -84,6 +91,7 @@ describe('DaemonClient config freshness', () => {
     sentMethods.length = 0;
     previousDaemonDir = process.env.MCPORTER_DAEMON_DIR;
     activeLayers = [];
+    supportsReload = false;
     launchDaemonDetached.mockClear();
   });
 
@@ -131,7 +139,7 @@ describe('DaemonClient config freshness', () => {
     const client = new DaemonClient({ configPath, configExplicit: true, rootDir: tmpDir });
     await client.listTools({ server: 'playwright' });
 
-    expect(sentMethods[0]).toBe('stop');
+    expect(sentMethods.slice(0, 2)).toEqual(['reloadConfig', 'stop']);
     expect(sentMethods).toContain('status');
     expect(sentMethods).toContain('listTools');
     expect(launchDaemonDetached).toHaveBeenCalledTimes(1);
@@ -175,10 +183,47 @@ describe('DaemonClient config freshness', () => {
     const client = new DaemonClient({ configPath, configExplicit: true, rootDir: tmpDir });
     await client.listResources({ server: 'playwright' });
 
-    expect(sentMethods[0]).toBe('stop');
+    expect(sentMethods.slice(0, 2)).toEqual(['reloadConfig', 'stop']);
     expect(launchDaemonDetached).toHaveBeenCalledTimes(1);
   });
 
+  it('asks the daemon to reload in place instead of restarting it', async () => {
+    const tmpDir = await makeShortTempDir('daemon-reload');
+    process.env.MCPORTER_DAEMON_DIR = tmpDir;
+    supportsReload = true;
+
+    const configPath = path.join(tmpDir, 'config.json');
+    await fs.writeFile(configPath, JSON.stringify({ mcpServers: {} }), 'utf8');
+    const stat = await fs.stat(configPath);
+    const { metadataPath, socketPath } = resolveDaemonPaths(configPath);
+    activeConfigPath = configPath;
+    activeSocketPath = socketPath;
+    activeConfigMtime = stat.mtimeMs;
+    activeLayers = [{ path: configPath, mtimeMs: stat.mtimeMs }];
+
+    await fs.mkdir(path.dirname(metadataPath), { recursive: true });
+    await fs.writeFile(
+      metadataPath,
+      JSON.stringify({
+        pid: 1111,
+        socketPath,
+        configPath,
+        startedAt: Date.now() - 10_000,
+        logPath: null,
+        configLayers: [{ path: configPath, mtimeMs: stat.mtimeMs - 1000 }],
+      }),
+      'utf8'
+    );
+
+    const client = new DaemonClient({ configPath, configExplicit: true, rootDir: tmpDir });
+    await client.listTools({ server: 'playwright' });
+
+    expect(sentMethods[0]).toBe('reloadConfig');
+    expect(sentMethods).toContain('listTools');
+    expect(sentMethods).not.toContain('stop');
+    expect(launchDaemonDetached).not.toHaveBeenCalled();
+  });
+
   it('does not restart when metadata layers match', async () => {
     const tmpDir = await makeShortTempDir('daemon-layers-stable');
     process.env.MCPORTER_DAEMON_DIR = tmpDir;
@@ -58,4 +58,150 @@ describe('daemon client', () => {
       }
     }
   });
+
+  it('streams subscription events after the initial acknowledgement', async () => {
+    const tmpDir = await makeShortTempDir('mcpd');
+    const originalDir = process.env.MCPORTER_DAEMON_DIR;
+    process.env.MCPORTER_DAEMON_DIR = tmpDir;
+    const configPath = path.join(tmpDir, 'config.json');
+    const { socketPath } = resolveDaemonPaths(configPath);
+    await fs.mkdir(path.dirname(socketPath), { recursive: true });
+    try {
+      let serverSawClose = false;
+      const server = net.createServer((socket) => {
+        socket.setEncoding('utf8');
+        socket.once('data', (chunk: string) => {
+          const request = JSON.parse(chunk.trim()) as { id: string; method: string };
+          expect(request.method).toBe('subscribeResource');
+          socket.write(`${JSON.stringify({ id: request.id, ok: true, result: { subscribed: true } })}\n`);
+          const event = { id: request.id, event: 'resourceUpdated', params: { server: 'alpha', uri: 'logs://build' } };
+          // Split one frame across writes to exercise line buffering.
+          const encoded = `${JSON.stringify(event)}\n`;
+          socket.write(encoded.slice(0, 10));
+          setTimeout(() => socket.write(encoded.slice(10)), 10);
+        });
+        socket.on('close', () => {
+          serverSawClose = true;
+        });
+      });
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(socketPath, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+      try {
+        const client = new DaemonClient({ configPath });
+        const events: unknown[] = [];
+        let notify: () => void = () => {};
+        const received = new Promise<void>((resolve) => {
+          notify = resolve;
+        });
+        const stream = await (
+          client as unknown as {
+            openStream: (
+              method: 'subscribeResource',
+              params: object,
+              onEvent: (event: unknown) => void,
+              options: { persistent: boolean }
+            ) => Promise<{ close: () => Promise<void> }>;
+          }
+        ).openStream(
+          'subscribeResource',
+          { server: 'alpha', uri: 'logs://build' },
+          (event) => {
+            events.push(event);
+            notify();
+          },
+          { persistent: true }
+        );
+        await received;
+        expect(events).toEqual([
+          expect.objectContaining({ event: 'resourceUpdated', params: { server: 'alpha', uri: 'logs://build' } }),
+        ]);
+        await stream.close();
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        expect(serverSawClose).toBe(true);
+      } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        await fs.unlink(socketPath).catch(() => {});
+      }
+    } finally {
+      if (originalDir) {
+        process.env.MCPORTER_DAEMON_DIR = originalDir;
+      } else {
+        delete process.env.MCPORTER_DAEMON_DIR;
+      }
+    }
+  });
+
+  it('sends a cancel request for the in-flight call when the signal aborts', async () => {
+    const tmpDir = await makeShortTempDir('mcpd');
+    const originalDir = process.env.MCPORTER_DAEMON_DIR;
+    process.env.MCPORTER_DAEMON_DIR = tmpDir;
+    const configPath = path.join(tmpDir, 'config.json');
+    const { socketPath } = resolveDaemonPaths(configPath);
+    await fs.mkdir(path.dirname(socketPath), { recursive: true });
+    try {
+      let callId: string | undefined;
+      let notifyCallSeen: () => void = () => {};
+      const callSeen = new Promise<void>((resolve) => {
+        notifyCallSeen = resolve;
+      });
+      let notifyCancel: (requestId: string) => void = () => {};
+      const cancelled = new Promise<string>((resolve) => {
+        notifyCancel = resolve;
+      });
+      const server = net.createServer((socket) => {
+        socket.setEncoding('utf8');
+        socket.once('data', (chunk: string) => {
+          const request = JSON.parse(chunk.trim()) as { id: string; method: string; params: { requestId?: string } };
+          if (request.method === 'callTool') {
+            // Never answer: the call only ends through cancellation.
+            callId = request.id;
+            notifyCallSeen();
+            return;
+          }
+          socket.end(JSON.stringify({ id: request.id, ok: true, result: { cancelled: true } }));
+          notifyCancel(request.params.requestId ?? '');
+        });
+        socket.on('error', () => {});
+      });
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(socketPath, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+      try {
+        const client = new DaemonClient({ configPath });
+        const controller = new AbortController();
+        const pending = (
+          client as unknown as {
+            sendRequest: (
+              method: 'callTool',
+              params: object,
+              timeoutMs?: number,
+              signal?: AbortSignal
+            ) => Promise<unknown>;
+          }
+        ).sendRequest('callTool', { server: 'alpha', tool: 'slow' }, undefined, controller.signal);
+        await callSeen;
+        controller.abort();
+        await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+        await expect(cancelled).resolves.toBe(callId);
+      } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        await fs.unlink(socketPath).catch(() => {});
+      }
+    } finally {
+      if (originalDir) {
+        process.env.MCPORTER_DAEMON_DIR = originalDir;
+      } else {
+        delete process.env.MCPORTER_DAEMON_DIR;
+      }
+    }
+  });
 });
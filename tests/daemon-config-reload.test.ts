@@ -0,0 +1,122 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import { loadServerDefinitions, type ServerDefinition } from '../src/config.js';
+import { applyServerDefinitionDiff, diffServerDefinitions } from '../src/daemon/config-reload.js';
+import { __testReloadManagedServers } from '../src/daemon/host.js';
+import type { Runtime } from '../src/runtime.js';
+
+function stdio(name: string, args: string[], extra: Partial<ServerDefinition> = {}): ServerDefinition {
+  return {
+    name,
+    command: { kind: 'stdio', command: 'npx', args, cwd: '/repo' },
+    lifecycle: { mode: 'keep-alive' },
+    ...extra,
+  };
+}
+
+describe('daemon config reload', () => {
+  it('diffs definitions by content, ignoring where they were declared', () => {
+    const current = new Map<string, ServerDefinition>([
+      ['chrome', stdio('chrome', ['chrome-devtools-mcp'], { source: { kind: 'local', path: '/a.json' } })],
+      ['playwright', stdio('playwright', ['@playwright/mcp'])],
+      ['legacy', stdio('legacy', ['legacy-mcp'])],
+    ]);
+
+    const diff = diffServerDefinitions(current, [
+      stdio('chrome', ['chrome-devtools-mcp'], { source: { kind: 'local', path: '/b.json' }, description: 'new' }),
+      stdio('playwright', ['@playwright/mcp', '--headless']),
+      stdio('mobile', ['mobile-mcp']),
+    ]);
+
+    expect(diff.added.map((definition) => definition.name)).toEqual(['mobile']);
+    expect(diff.removed).toEqual(['legacy']);
+    expect(diff.changed.map((definition) => definition.name)).toEqual(['playwright']);
+  });
+
+  it('treats env key order as unchanged', () => {
+    const current = new Map([['chrome', stdio('chrome', [], { env: { A: '1', B: '2' } })]]);
+
+    const diff = diffServerDefinitions(current, [stdio('chrome', [], { env: { B: '2', A: '1' } })]);
+
+    expect(diff).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('closes only removed and changed servers when applying a diff', async () => {
+    const close = vi.fn(async () => {});
+    const registerDefinition = vi.fn();
+    const runtime = { close, registerDefinition } as unknown as Runtime;
+    const managed = new Map<string, ServerDefinition>([
+      ['chrome', stdio('chrome', ['chrome-devtools-mcp'])],
+      ['playwright', stdio('playwright', ['@playwright/mcp'])],
+      ['legacy', stdio('legacy', ['legacy-mcp'])],
+    ]);
+    const changed = stdio('playwright', ['@playwright/mcp', '--headless']);
+    const added = stdio('mobile', ['mobile-mcp']);
+
+    await applyServerDefinitionDiff(runtime, managed, { added: [added], removed: ['legacy'], changed: [changed] });
+
+    expect(close.mock.calls).toEqual([['legacy'], ['playwright']]);
+    expect(registerDefinition.mock.calls).toEqual([
+      [changed, { overwrite: true }],
+      [added, { overwrite: true }],
+    ]);
+    expect(Array.from(managed.keys()).sort()).toEqual(['chrome', 'mobile', 'playwright']);
+    expect(managed.get('playwright')).toBe(changed);
+  });
+
+  it('restarts servers whose env file changed', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-reload-env-'));
+    try {
+      const configPath = path.join(tempDir, 'mcporter.json');
+      const envPath = path.join(tempDir, 'worker.env');
+      await fs.writeFile(envPath, 'TOKEN=old\n');
+      await fs.writeFile(
+        configPath,
+        JSON.stringify({
+          imports: [],
+          mcpServers: {
+            worker: { command: 'node', args: ['worker.js'], envFile: 'worker.env', lifecycle: 'keep-alive' },
+            other: { command: 'node', args: ['other.js'], lifecycle: 'keep-alive' },
+          },
+        })
+      );
+      const options = {
+        configPath,
+        configExplicit: true,
+        rootDir: tempDir,
+        socketPath: path.join(tempDir, 'daemon.sock'),
+        metadataPath: path.join(tempDir, 'daemon.json'),
+      };
+      const definitions = await loadServerDefinitions({ configPath, rootDir: tempDir });
+      const managed = new Map(definitions.map((definition) => [definition.name, definition]));
+      const layers = await Promise.all(
+        [configPath, envPath].map(async (file) => ({ path: file, mtimeMs: (await fs.stat(file)).mtimeMs }))
+      );
+      const metadata = {
+        configPath,
+        configLayers: layers,
+        configMtimeMs: layers[0]?.mtimeMs ?? null,
+        socketPath: options.socketPath,
+        startedAt: Date.now(),
+        logPath: null,
+      };
+      const close = vi.fn(async () => {});
+      const runtime = { close, registerDefinition: vi.fn() } as unknown as Runtime;
+
+      // The env file is fingerprinted with the config, so an unchanged tree is a no-op.
+      expect(await __testReloadManagedServers(options, runtime, managed, metadata)).toMatchObject({ restarted: [] });
+
+      await fs.writeFile(envPath, 'TOKEN=rotated\n');
+      const future = new Date(Date.now() + 5_000);
+      await fs.utimes(envPath, future, future);
+      const summary = await __testReloadManagedServers(options, runtime, managed, metadata);
+
+      expect(summary).toMatchObject({ added: [], removed: [], restarted: ['worker'] });
+      expect(close.mock.calls).toEqual([['worker']]);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
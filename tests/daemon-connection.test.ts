@@ -0,0 +1,223 @@
+import fs from 'node:fs/promises';
+import net from 'node:net';
+import path from 'node:path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ServerDefinition } from '../src/config.js';
+import { DaemonConnection } from '../src/daemon/connection.js';
+import { __testServeMultiplexed } from '../src/daemon/host.js';
+import { DAEMON_PROTOCOL_VERSION, type DaemonEvent } from '../src/daemon/protocol.js';
+import type { CallOptions, Runtime } from '../src/runtime.js';
+import { makeShortTempDir } from './fixtures/test-helpers.js';
+
+const metadata = {
+  configPath: '/tmp/config.json',
+  configLayers: [],
+  configMtimeMs: null,
+  socketPath: '/tmp/socket',
+  startedAt: Date.now(),
+  logPath: null,
+};
+const logContext = { enabled: false, logAllServers: false, servers: new Set<string>() };
+const managedServers = new Map<string, ServerDefinition>([
+  [
+    'alpha',
+    { name: 'alpha', command: { kind: 'http', url: new URL('https://alpha.example.com') } } as ServerDefinition,
+  ],
+]);
+
+describe('multiplexed daemon connections', () => {
+  let server: net.Server | undefined;
+  let connection: DaemonConnection | null = null;
+
+  afterEach(async () => {
+    await connection?.close();
+    connection = null;
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+  });
+
+  async function listen(handler: (socket: net.Socket) => void): Promise<string> {
+    const dir = await makeShortTempDir('mcpd');
+    const socketPath = path.join(dir, 'daemon.sock');
+    await fs.unlink(socketPath).catch(() => {});
+    server = net.createServer({ allowHalfOpen: true }, handler);
+    await new Promise<void>((resolve, reject) => {
+      server?.once('error', reject);
+      server?.listen(socketPath, () => resolve());
+    });
+    return socketPath;
+  }
+
+  async function serveRuntime(runtime: Runtime): Promise<{ socketPath: string; connections: () => number }> {
+    let count = 0;
+    const socketPath = await listen((socket) => {
+      count += 1;
+      socket.setEncoding('utf8');
+      const multiplexed = __testServeMultiplexed(
+        socket,
+        runtime,
+        managedServers,
+        new Map(),
+        metadata,
+        logContext,
+        async () => {}
+      );
+      socket.on('data', (chunk: string) => multiplexed.push(chunk));
+    });
+    return { socketPath, connections: () => count };
+  }
+
+  it('interleaves concurrent requests and their events on one socket', async () => {
+    let releaseSlow: () => void = () => {};
+    const slowGate = new Promise<void>((resolve) => {
+      releaseSlow = resolve;
+    });
+    const runtime = {
+      callTool: async (_server: string, tool: string, options?: CallOptions) => {
+        if (tool === 'slow') {
+          options?.onProgress?.({ progress: 1, total: 2 });
+          await slowGate;
+          return { tool };
+        }
+        return { tool };
+      },
+    } as unknown as Runtime;
+    const { socketPath, connections } = await serveRuntime(runtime);
+    connection = await DaemonConnection.open(socketPath, 5_000);
+    expect(connection).not.toBeNull();
+
+    const events: DaemonEvent[] = [];
+    let notifyProgress: () => void = () => {};
+    const progressSeen = new Promise<void>((resolve) => {
+      notifyProgress = resolve;
+    });
+    const slow = connection?.request(
+      'callTool',
+      { server: 'alpha', tool: 'slow' },
+      {
+        timeoutMs: 5_000,
+        onEvent: (event) => {
+          events.push(event);
+          notifyProgress();
+        },
+      }
+    );
+    await progressSeen;
+    const fast = await connection?.request('callTool', { server: 'alpha', tool: 'fast' }, { timeoutMs: 5_000 });
+
+    // The fast call answers while the slow one is still waiting on the same connection.
+    expect(fast?.result).toEqual({ tool: 'fast' });
+    releaseSlow();
+    expect((await slow)?.result).toEqual({ tool: 'slow' });
+    expect(events).toEqual([expect.objectContaining({ event: 'progress', params: { progress: 1, total: 2 } })]);
+    expect(connections()).toBe(1);
+  });
+
+  it('ends a subscription on close while the connection keeps serving requests', async () => {
+    const dispose = vi.fn(async () => {});
+    let pushUpdate: (update: { server: string; uri: string }) => void = () => {};
+    const runtime = {
+      subscribeResource: async (_server: string, _uri: string, onUpdate: typeof pushUpdate) => {
+        pushUpdate = onUpdate;
+        return dispose;
+      },
+      listTools: async () => [{ name: 'ping' }],
+    } as unknown as Runtime;
+    const { socketPath } = await serveRuntime(runtime);
+    connection = await DaemonConnection.open(socketPath, 5_000);
+
+    let notifyUpdate: (event: DaemonEvent) => void = () => {};
+    const updated = new Promise<DaemonEvent>((resolve) => {
+      notifyUpdate = resolve;
+    });
+    const subscription = await connection?.request(
+      'subscribeResource',
+      { server: 'alpha', uri: 'logs://build' },
+      { timeoutMs: 5_000, onEvent: notifyUpdate, persistent: true }
+    );
+    expect(subscription?.result).toEqual({ subscribed: true });
+    pushUpdate({ server: 'alpha', uri: 'logs://build' });
+    await expect(updated).resolves.toMatchObject({ event: 'resourceUpdated' });
+
+    await subscription?.close();
+    const tools = await connection?.request('listTools', { server: 'alpha' }, { timeoutMs: 5_000 });
+
+    expect(tools?.result).toEqual([{ name: 'ping' }]);
+    expect(dispose).toHaveBeenCalledTimes(1);
+    expect(connection?.closed).toBe(false);
+  });
+
+  it('ends the stream with subscriptionClosed when the upstream subscription dies', async () => {
+    let closeUpstream: (error: Error) => void = () => {};
+    const runtime = {
+      subscribeResource: async (_server: string, _uri: string, _onUpdate: unknown, onClose: typeof closeUpstream) => {
+        closeUpstream = onClose;
+        return async () => {};
+      },
+    } as unknown as Runtime;
+    const { socketPath } = await serveRuntime(runtime);
+    connection = await DaemonConnection.open(socketPath, 5_000);
+
+    let notifyEvent: (event: DaemonEvent) => void = () => {};
+    const ended = new Promise<DaemonEvent>((resolve) => {
+      notifyEvent = resolve;
+    });
+    await connection?.request(
+      'subscribeResource',
+      { server: 'alpha', uri: 'logs://build' },
+      { timeoutMs: 5_000, onEvent: notifyEvent, persistent: true }
+    );
+    closeUpstream(new Error("STDIO server 'alpha' exited with signal SIGKILL."));
+
+    await expect(ended).resolves.toMatchObject({
+      event: 'subscriptionClosed',
+      params: { message: "STDIO server 'alpha' exited with signal SIGKILL." },
+    });
+  });
+
+  it('tells persistent streams when the daemon connection drops', async () => {
+    const socketPath = await listen((socket) => {
+      socket.setEncoding('utf8');
+      socket.on('data', (chunk: string) => {
+        for (const line of chunk.split('\n').filter(Boolean)) {
+          const request = JSON.parse(line) as { id: string; method: string };
+          if (request.method === 'hello') {
+            socket.write(
+              `${JSON.stringify({ id: request.id, ok: true, result: { protocol: DAEMON_PROTOCOL_VERSION } })}\n`
+            );
+          } else {
+            socket.write(`${JSON.stringify({ id: request.id, ok: true, result: { subscribed: true } })}\n`);
+            // Simulate the daemon exiting with the stream open.
+            setImmediate(() => socket.destroy());
+          }
+        }
+      });
+    });
+    connection = await DaemonConnection.open(socketPath, 5_000);
+
+    let notifyClose: (error: Error) => void = () => {};
+    const closed = new Promise<Error>((resolve) => {
+      notifyClose = resolve;
+    });
+    await connection?.request(
+      'subscribeResource',
+      { server: 'alpha', uri: 'logs://build' },
+      { timeoutMs: 5_000, onEvent: () => {}, persistent: true, onClose: notifyClose }
+    );
+
+    await expect(closed).resolves.toMatchObject({ code: 'ECONNRESET' });
+    expect(connection?.closed).toBe(true);
+  });
+
+  it('reports single-shot daemons that reject hello', async () => {
+    const socketPath = await listen((socket) => {
+      socket.setEncoding('utf8');
+      socket.once('data', (chunk: string) => {
+        const request = JSON.parse(chunk.trim()) as { id: string };
+        socket.end(JSON.stringify({ id: request.id, ok: false, error: { code: 'unknown_method', message: 'x' } }));
+      });
+    });
+
+    await expect(DaemonConnection.open(socketPath, 5_000)).resolves.toBeNull();
+  });
+});
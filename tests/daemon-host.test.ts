@@ -1,8 +1,8 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import type { ServerDefinition } from '../src/config.js';
 import { __testProcessRequest } from '../src/daemon/host.js';
-import type { DaemonRequest } from '../src/daemon/protocol.js';
-import type { Runtime } from '../src/runtime.js';
+import type { DaemonEventName, DaemonRequest, ElicitationEventParams, StatusResult } from '../src/daemon/protocol.js';
+import type { CallOptions, Runtime } from '../src/runtime.js';
 
 describe('daemon host request handling', () => {
   it('reuses pre-parsed requests without reparsing payloads', async () => {
@@ -30,4 +30,231 @@ describe('daemon host request handling', () => {
     expect(result.response.ok).toBe(true);
     expect(result.shouldShutdown).toBe(false);
   });
+
+  it('emits progress events for streaming callTool requests', async () => {
+    const metadata = {
+      configPath: '/tmp/config.json',
+      configLayers: [],
+      configMtimeMs: Date.now(),
+      socketPath: '/tmp/socket',
+      startedAt: Date.now(),
+      logPath: null,
+    };
+    const logContext = { enabled: false, logAllServers: false, servers: new Set<string>() };
+    const runtime = {
+      callTool: async (_server: string, _tool: string, options?: CallOptions) => {
+        options?.onProgress?.({ progress: 1, total: 4, message: 'indexing' });
+        return { ok: true };
+      },
+    } as unknown as Runtime;
+    const definitions = new Map<string, ServerDefinition>([
+      [
+        'alpha',
+        {
+          name: 'alpha',
+          command: { kind: 'http', url: new URL('https://alpha.example.com') },
+        } as ServerDefinition,
+      ],
+    ]);
+    const events: Array<{ event: string; params: unknown }> = [];
+
+    const parsedRequest: DaemonRequest = {
+      id: '2',
+      method: 'callTool',
+      params: { server: 'alpha', tool: 'index' },
+      stream: true,
+    };
+    const result = await __testProcessRequest(
+      JSON.stringify(parsedRequest),
+      runtime,
+      definitions,
+      new Map(),
+      metadata,
+      logContext,
+      parsedRequest,
+      (event, params) => events.push({ event, params })
+    );
+
+    expect(result.response).toEqual({ id: '2', ok: true, result: { ok: true } });
+    expect(events).toEqual([{ event: 'progress', params: { progress: 1, total: 4, message: 'indexing' } }]);
+  });
+
+  it('aborts in-flight callTool requests when a cancel request arrives', async () => {
+    const metadata = {
+      configPath: '/tmp/config.json',
+      configLayers: [],
+      configMtimeMs: Date.now(),
+      socketPath: '/tmp/socket',
+      startedAt: Date.now(),
+      logPath: null,
+    };
+    const logContext = { enabled: false, logAllServers: false, servers: new Set<string>() };
+    const runtime = {
+      callTool: (_server: string, _tool: string, options?: CallOptions) =>
+        new Promise((_resolve, reject) => {
+          options?.signal?.addEventListener('abort', () => reject(options.signal?.reason), { once: true });
+        }),
+    } as unknown as Runtime;
+    const definitions = new Map<string, ServerDefinition>([
+      [
+        'alpha',
+        {
+          name: 'alpha',
+          command: { kind: 'http', url: new URL('https://alpha.example.com') },
+        } as ServerDefinition,
+      ],
+    ]);
+    const send = (request: DaemonRequest) =>
+      __testProcessRequest(JSON.stringify(request), runtime, definitions, new Map(), metadata, logContext, request);
+
+    const pending = send({ id: 'call-1', method: 'callTool', params: { server: 'alpha', tool: 'slow' } });
+    const cancel = await send({ id: 'cancel-1', method: 'cancel', params: { requestId: 'call-1' } });
+    expect(cancel.response).toEqual({ id: 'cancel-1', ok: true, result: { cancelled: true } });
+
+    const result = await pending;
+    expect(result.response.ok).toBe(false);
+
+    const missing = await send({ id: 'cancel-2', method: 'cancel', params: { requestId: 'call-1' } });
+    expect(missing.response.result).toEqual({ cancelled: false });
+  });
+
+  it('forwards elicitations to streaming callers and waits for their response', async () => {
+    const metadata = {
+      configPath: '/tmp/config.json',
+      configLayers: [],
+      configMtimeMs: Date.now(),
+      socketPath: '/tmp/socket',
+      startedAt: Date.now(),
+      logPath: null,
+    };
+    const logContext = { enabled: false, logAllServers: false, servers: new Set<string>() };
+    const request = { server: 'alpha', message: 'Proceed?', requestedSchema: { type: 'object', properties: {} } };
+    const runtime = {
+      callTool: async (_server: string, _tool: string, options?: CallOptions) =>
+        options?.onElicitation?.(request as never),
+    } as unknown as Runtime;
+    const definitions = new Map<string, ServerDefinition>([
+      [
+        'alpha',
+        {
+          name: 'alpha',
+          command: { kind: 'http', url: new URL('https://alpha.example.com') },
+        } as ServerDefinition,
+      ],
+    ]);
+    const send = (request: DaemonRequest, emit?: (event: DaemonEventName, params: unknown) => void) =>
+      __testProcessRequest(
+        JSON.stringify(request),
+        runtime,
+        definitions,
+        new Map(),
+        metadata,
+        logContext,
+        request,
+        emit
+      );
+
+    const events: ElicitationEventParams[] = [];
+    const pending = send(
+      { id: 'call-1', method: 'callTool', params: { server: 'alpha', tool: 'deploy' }, stream: true },
+      (_event, params) => events.push(params as ElicitationEventParams)
+    );
+    await vi.waitFor(() => expect(events).toHaveLength(1));
+    expect(events[0]?.request).toEqual(request);
+
+    const elicitationId = events[0]?.elicitationId ?? '';
+    const answer = await send({
+      id: 'answer-1',
+      method: 'elicitationResponse',
+      params: { elicitationId, result: { action: 'accept', content: {} } },
+    });
+    expect(answer.response.result).toEqual({ delivered: true });
+    expect((await pending).response.result).toEqual({ action: 'accept', content: {} });
+
+    const late = await send({
+      id: 'answer-2',
+      method: 'elicitationResponse',
+      params: { elicitationId, result: { action: 'cancel' } },
+    });
+    expect(late.response.result).toEqual({ delivered: false });
+  });
+
+  it('applies config reloads and reports the last one in status', async () => {
+    const metadata = {
+      configPath: '/tmp/config.json',
+      configLayers: [],
+      configMtimeMs: Date.now(),
+      socketPath: '/tmp/socket',
+      startedAt: Date.now(),
+      logPath: null,
+    };
+    const logContext = { enabled: false, logAllServers: false, servers: new Set<string>() };
+    const summary = { reloadedAt: 1, added: ['mobile'], removed: [], restarted: ['chrome'] };
+    const reloadConfig = vi.fn(async () => {
+      Object.assign(metadata, { lastReload: summary });
+      return summary;
+    });
+    const send = (request: DaemonRequest) =>
+      __testProcessRequest(
+        JSON.stringify(request),
+        {} as Runtime,
+        new Map<string, ServerDefinition>(),
+        new Map(),
+        metadata,
+        logContext,
+        request,
+        undefined,
+        reloadConfig
+      );
+
+    const reload = await send({ id: 'reload-1', method: 'reloadConfig', params: {} });
+    const status = await send({ id: 'status-1', method: 'status', params: {} });
+
+    expect(reload.response).toEqual({ id: 'reload-1', ok: true, result: summary });
+    expect(reloadConfig).toHaveBeenCalledTimes(1);
+    expect(status.response.result).toMatchObject({ lastReload: summary });
+  });
+
+  it('reports per-server call metrics in status', async () => {
+    const metadata = {
+      configPath: '/tmp/config.json',
+      configLayers: [],
+      configMtimeMs: Date.now(),
+      socketPath: '/tmp/socket',
+      startedAt: Date.now(),
+      logPath: null,
+    };
+    const logContext = { enabled: false, logAllServers: false, servers: new Set<string>() };
+    const runtime = {
+      callTool: async (_server: string, tool: string) => {
+        if (tool === 'broken') {
+          throw new Error('fetch failed');
+        }
+        return { ok: true };
+      },
+    } as unknown as Runtime;
+    const definitions = new Map<string, ServerDefinition>([
+      [
+        'metrics-alpha',
+        {
+          name: 'metrics-alpha',
+          command: { kind: 'http', url: new URL('https://alpha.example.com') },
+        } as ServerDefinition,
+      ],
+    ]);
+    const send = (request: DaemonRequest) =>
+      __testProcessRequest(JSON.stringify(request), runtime, definitions, new Map(), metadata, logContext, request);
+
+    await send({ id: 'call-1', method: 'callTool', params: { server: 'metrics-alpha', tool: 'ok' } });
+    await send({ id: 'call-2', method: 'callTool', params: { server: 'metrics-alpha', tool: 'broken' } });
+    const status = await send({ id: 'status-1', method: 'status', params: {} });
+
+    const servers = (status.response.result as StatusResult).servers;
+    expect(servers[0]?.metrics).toMatchObject({
+      calls: 2,
+      errors: 1,
+      errorsByKind: { offline: 1 },
+      lastError: { kind: 'offline', message: 'fetch failed' },
+    });
+  });
 });
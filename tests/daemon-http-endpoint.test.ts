@@ -0,0 +1,128 @@
+import http from 'node:http';
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { type DaemonHttpHandle, listenDaemonHttp } from '../src/daemon/http-endpoint.js';
+import { createRuntime, type Runtime } from '../src/runtime.js';
+
+const resourceServerScript = fileURLToPath(new URL('./fixtures/stdio-resource-server.mjs', import.meta.url));
+
+describe('daemon HTTP endpoint', () => {
+  let runtime: Runtime | undefined;
+  let handle: DaemonHttpHandle | undefined;
+  let client: Client | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    await handle?.close();
+    await runtime?.close();
+    client = undefined;
+    handle = undefined;
+    runtime = undefined;
+  });
+
+  it('serves each managed server at /servers/<name>/mcp over the shared runtime', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+    const active: string[] = [];
+    handle = await listenDaemonHttp({
+      runtime,
+      servers: ['builds'],
+      port: 0,
+      onActivity: (server) => active.push(server),
+    });
+
+    client = new Client({ name: 'daemon-http-test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}/servers/builds/mcp`)));
+
+    const { tools } = await client.listTools();
+    const appended = await client.callTool({ name: 'append_log', arguments: { line: 'from editor' } });
+    const log = await client.readResource({ uri: 'build://log' });
+    const { prompts } = await client.listPrompts();
+
+    expect(tools.map((tool) => tool.name)).toContain('append_log');
+    expect(appended.content).toEqual([{ type: 'text', text: 'silent' }]);
+    expect(log.contents[0]).toMatchObject({ uri: 'build://log', text: expect.stringContaining('from editor') });
+    expect(prompts.map((prompt) => prompt.name)).toContain('triage');
+    expect(active.length).toBeGreaterThan(0);
+    expect(new Set(active)).toEqual(new Set(['builds']));
+
+    // The same runtime connection backs CLI-style calls, so the editor's append is visible there too.
+    const fromRuntime = await runtime.readResource('builds', 'build://log');
+    expect(JSON.stringify(fromRuntime.contents)).toContain('from editor');
+  }, 20_000);
+
+  it('lists tools over the daemon connection without launching another server process', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+    await runtime.connect('builds');
+    const launches = vi.spyOn(StdioClientTransport.prototype, 'start');
+    handle = await listenDaemonHttp({ runtime, servers: ['builds'], port: 0 });
+
+    client = new Client({ name: 'daemon-http-test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${handle.url}/servers/builds/mcp`)));
+    await client.listTools();
+    await client.listTools();
+
+    expect(launches).not.toHaveBeenCalled();
+    launches.mockRestore();
+  }, 20_000);
+
+  it('returns 404 for servers the daemon does not manage', async () => {
+    runtime = await createRuntime({ servers: [] });
+    handle = await listenDaemonHttp({ runtime, servers: [], port: 0 });
+
+    const response = await fetch(`${handle.url}/servers/missing/mcp`, { method: 'POST', body: '{}' });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('refuses requests whose Host or Origin is not the loopback listener', async () => {
+    runtime = await createRuntime({ servers: [] });
+    handle = await listenDaemonHttp({ runtime, servers: ['builds'], port: 0 });
+    const endpoint = new URL(`${handle.url}/servers/builds/mcp`);
+    const initialize = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'page', version: '1.0.0' } },
+    });
+    const post = (headers: Record<string, string>) =>
+      new Promise<number | undefined>((resolve, reject) => {
+        const request = http.request(
+          endpoint,
+          {
+            method: 'POST',
+            headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream', ...headers },
+          },
+          (response) => {
+            response.resume();
+            resolve(response.statusCode);
+          }
+        );
+        request.on('error', reject);
+        request.end(initialize);
+      });
+
+    // A DNS-rebound page reaches the port under its own host name; a cross-site page sends its origin.
+    expect(await post({ host: `evil.example:${endpoint.port}` })).toBe(403);
+    expect(await post({ origin: 'https://evil.example' })).toBe(403);
+    expect(await post({ host: `localhost:${endpoint.port}`, origin: `http://localhost:${endpoint.port}` })).not.toBe(
+      403
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ServerMetricsRegistry } from '../src/daemon/metrics.js';
+
+describe('daemon server metrics', () => {
+  it('counts calls, classifies errors, and reports latency percentiles', async () => {
+    const registry = new ServerMetricsRegistry();
+    for (const duration of [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]) {
+      registry.recordCall('chrome', duration);
+    }
+    registry.recordCall('chrome', 5, new Error('fetch failed'));
+    registry.recordCall('chrome', 5, new Error('MCP server exited with code 1'));
+
+    const metrics = await registry.snapshot('chrome');
+
+    expect(metrics).toMatchObject({
+      calls: 12,
+      errors: 2,
+      errorsByKind: { offline: 1, 'stdio-exit': 1 },
+      latencyP50Ms: 40,
+      latencyP95Ms: 100,
+      restarts: 0,
+      lastError: { kind: 'stdio-exit', message: 'MCP server exited with code 1' },
+    });
+  });
+
+  it('counts reconnects the daemon did not ask for as restarts', async () => {
+    const registry = new ServerMetricsRegistry();
+
+    registry.recordConnected('chrome', 100);
+    registry.recordConnected('chrome', 101);
+    registry.recordClosed('chrome');
+    registry.recordConnected('chrome', 102);
+
+    const metrics = await registry.snapshot('chrome');
+    expect(metrics.restarts).toBe(1);
+    expect(metrics.pid).toBe(102);
+  });
+
+  it.skipIf(process.platform === 'win32')('reads the connected child process memory', async () => {
+    const registry = new ServerMetricsRegistry();
+    registry.recordConnected('self', process.pid);
+
+    const metrics = await registry.snapshot('self');
+
+    expect(metrics.memoryRssBytes).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { type CrashDecision, ServerSupervisor } from '../src/daemon/supervisor.js';
+
+describe('daemon server supervisor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('restarts crashed servers with exponential backoff', async () => {
+    vi.useFakeTimers();
+    const supervisor = new ServerSupervisor({ initialBackoffMs: 100, maxBackoffMs: 1_000 });
+    const start = vi.fn(async () => {});
+    const decisions: CrashDecision[] = [];
+
+    supervisor.crashed('chrome', new Error("STDIO server 'chrome' exited with code 1: boom"), start, (decision) =>
+      decisions.push(decision)
+    );
+    expect(supervisor.snapshot('chrome')).toMatchObject({
+      crashes: 1,
+      lastCrash: { kind: 'stdio-exit', exitCode: 1, message: "STDIO server 'chrome' exited with code 1: boom" },
+      nextRestartAt: expect.any(Number),
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(start).toHaveBeenCalledTimes(1);
+
+    supervisor.crashed('chrome', new Error('exited with signal SIGKILL'), start, (decision) =>
+      decisions.push(decision)
+    );
+    await vi.advanceTimersByTimeAsync(199);
+    expect(start).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(start).toHaveBeenCalledTimes(2);
+    expect(decisions).toEqual([
+      { action: 'restart', delayMs: 100 },
+      { action: 'restart', delayMs: 200 },
+    ]);
+    expect(supervisor.snapshot('chrome')?.nextRestartAt).toBeUndefined();
+  });
+
+  it('retries failed launches and pauses after too many crashes', async () => {
+    vi.useFakeTimers();
+    const supervisor = new ServerSupervisor({ initialBackoffMs: 10, maxCrashes: 3, crashWindowMs: 60_000 });
+    const start = vi.fn(async () => {
+      throw new Error('spawn ENOENT');
+    });
+    const decisions: CrashDecision[] = [];
+
+    supervisor.prewarm('broken', start, (decision) => decisions.push(decision));
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(start).toHaveBeenCalledTimes(4);
+    expect(decisions.map((decision) => decision.action)).toEqual(['restart', 'restart', 'restart', 'paused']);
+    expect(supervisor.snapshot('broken')).toMatchObject({
+      crashes: 4,
+      paused: true,
+      lastCrash: { kind: 'offline', message: 'spawn ENOENT' },
+    });
+
+    supervisor.connected('broken');
+    expect(supervisor.snapshot('broken')?.paused).toBeUndefined();
+  });
+
+  it('cancels pending restarts for forgotten servers and after stop', async () => {
+    vi.useFakeTimers();
+    const supervisor = new ServerSupervisor({ initialBackoffMs: 10 });
+    const start = vi.fn(async () => {});
+
+    supervisor.crashed('a', new Error('boom'), start);
+    supervisor.crashed('b', new Error('boom'), start);
+    supervisor.forget('a');
+    supervisor.stop();
+    supervisor.crashed('b', new Error('boom again'), start);
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(start).not.toHaveBeenCalled();
+    expect(supervisor.snapshot('a')).toBeUndefined();
+    expect(supervisor.snapshot('b')).toMatchObject({ crashes: 1 });
+  });
+});
@@ -0,0 +1,109 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleConfigCli } from '../src/cli/config-command.js';
+import { loadServerDefinitions } from '../src/config.js';
+import { parseDotenv, readEnvFiles } from '../src/env-file.js';
+
+describe('envFile', () => {
+  let tempDir: string;
+  let configPath: string;
+  let homedirSpy: { mockRestore(): void } | undefined;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-env-file-'));
+    homedirSpy = vi.spyOn(os, 'homedir').mockReturnValue(path.join(tempDir, 'home'));
+    configPath = path.join(tempDir, 'config', 'mcporter.json');
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+  });
+
+  afterEach(async () => {
+    homedirSpy?.mockRestore();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('parses quoting, comments, export, and variable interpolation', () => {
+    const parsed = parseDotenv(
+      [
+        '# comment',
+        'export HOST=api.example.com # trailing',
+        `URL="https://\${HOST}/mcp"`,
+        `LITERAL='\${HOST} stays'`,
+        `FALLBACK=\${MISSING:-default}`,
+        `ESCAPED=\\\${HOST}`,
+        'MULTI="a\\nb"',
+        'not a variable',
+      ].join('\n'),
+      () => undefined
+    );
+    expect(Object.fromEntries(parsed)).toEqual({
+      HOST: 'api.example.com',
+      URL: 'https://api.example.com/mcp',
+      LITERAL: `\${HOST} stays`,
+      FALLBACK: 'default',
+      ESCAPED: `\${HOST}`,
+      MULTI: 'a\nb',
+    });
+  });
+
+  it('loads top-level and entry env files relative to the config and lets later files win', async () => {
+    await fs.writeFile(path.join(tempDir, 'config', '.env'), 'REGION=eu\nTOKEN=shared\n');
+    await fs.writeFile(path.join(tempDir, 'config', 'worker.env'), `REGION=us\nURL=https://\${REGION}.example.com\n`);
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        imports: [],
+        envFile: '.env',
+        mcpServers: {
+          worker: { command: 'node', args: ['worker.js'], envFile: ['./worker.env'], env: { TOKEN: 'own' } },
+        },
+      })
+    );
+
+    const servers = await loadServerDefinitions({ configPath, rootDir: tempDir });
+    const worker = servers.find((server) => server.name === 'worker');
+    const envFiles = [path.join(tempDir, 'config', '.env'), path.join(tempDir, 'config', 'worker.env')];
+    expect(worker?.envFiles).toEqual(envFiles);
+
+    const values = await readEnvFiles(worker?.envFiles);
+    expect(values.get('REGION')).toEqual({ value: 'us', path: envFiles[1] });
+    expect(values.get('URL')?.value).toBe('https://us.example.com');
+    await expect(readEnvFiles([path.join(tempDir, 'missing.env')])).rejects.toThrow(/Failed to read envFile/);
+  });
+
+  it('documents precedence with `config get --resolved`', async () => {
+    await fs.writeFile(path.join(tempDir, 'config', '.env'), 'REGION=eu\nTOKEN=from-file\n');
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        imports: [],
+        mcpServers: { worker: { command: 'node', envFile: '.env', env: { TOKEN: 'own' } } },
+      })
+    );
+    vi.stubEnv('REGION', 'shell-region');
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((value?: unknown) => {
+      logs.push(String(value));
+    });
+
+    await handleConfigCli({ loadOptions: { configPath, rootDir: tempDir }, invokeAuth: async () => {} }, [
+      'get',
+      'worker',
+      '--resolved',
+      '--json',
+    ]);
+
+    const envPath = path.join(tempDir, 'config', '.env');
+    const payload = JSON.parse(logs.join('\n')) as { envFiles: string[]; resolvedEnv: unknown };
+    expect(payload.envFiles).toEqual([envPath]);
+    expect(payload.resolvedEnv).toEqual([
+      { key: 'REGION', source: 'envFile', path: envPath, overrides: [{ source: 'shell' }] },
+      { key: 'TOKEN', source: 'env', overrides: [{ source: 'envFile', path: envPath }] },
+    ]);
+    // Values from env files are never printed.
+    expect(logs.join('\n')).not.toContain('from-file');
+  });
+});
@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  RootsListChangedNotificationSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+const server = new McpServer({ name: 'resource-fixture', version: '1.0.0' }, { capabilities: { logging: {} } });
+const lines = [];
+const subscriptions = new Set();
+
+server.registerResource('build-log', 'build://log', { mimeType: 'text/plain' }, async (uri) => ({
+  contents: [{ uri: uri.href, text: lines.join('\n') }],
+}));
+
+server.registerTool(
+  'append_log',
+  {
+    description: 'Append a line to build://log and notify subscribers',
+    inputSchema: { line: z.string() },
+  },
+  async ({ line }) => {
+    lines.push(line);
+    const notified = subscriptions.has('build://log');
+    if (notified) {
+      await server.server.sendResourceUpdated({ uri: 'build://log' });
+    }
+    return { content: [{ type: 'text', text: notified ? 'notified' : 'silent' }] };
+  }
+);
+
+server.registerTool(
+  'run_build',
+  {
+    description: 'Report one progress notification per step',
+    inputSchema: { steps: z.number() },
+  },
+  async ({ steps }, extra) => {
+    const progressToken = extra._meta?.progressToken;
+    for (let step = 1; step <= steps; step += 1) {
+      if (progressToken !== undefined) {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress: step, total: steps, message: `step ${step}` },
+        });
+        // The client drops progress that lands in the same read as the response, so pace the steps.
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    }
+    return { content: [{ type: 'text', text: progressToken === undefined ? 'untracked' : 'tracked' }] };
+  }
+);
+
+server.registerTool(
+  'emit_logs',
+  {
+    description: 'Send one notifications/message entry per level',
+    inputSchema: { levels: z.array(z.string()) },
+  },
+  async ({ levels }) => {
+    for (const level of levels) {
+      await server.sendLoggingMessage({ level, logger: 'build', data: `${level} entry` });
+    }
+    // Let the log notifications drain before the response, mirroring a real long-running tool.
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    return { content: [{ type: 'text', text: 'logged' }] };
+  }
+);
+
+server.registerTool(
+  'confirm_deploy',
+  { description: 'Ask the client to confirm a deploy via elicitation' },
+  async () => {
+    try {
+      const answer = await server.server.elicitInput({
+        message: 'Deploy to production?',
+        requestedSchema: {
+          type: 'object',
+          properties: {
+            confirm: { type: 'boolean', title: 'Confirm' },
+            region: { type: 'string', enum: ['us', 'eu'] },
+          },
+          required: ['confirm'],
+        },
+      });
+      return { content: [{ type: 'text', text: JSON.stringify(answer) }] };
+    } catch (error) {
+      return { content: [{ type: 'text', text: `unsupported: ${error.message}` }] };
+    }
+  }
+);
+
+server.registerTool('summarize', { description: 'Ask the client to summarize via sampling' }, async () => {
+  const reply = await server.server.createMessage({
+    messages: [{ role: 'user', content: { type: 'text', text: 'Summarize the build log' } }],
+    maxTokens: 32,
+  });
+  return { content: [{ type: 'text', text: `${reply.model}: ${reply.content.text}` }] };
+});
+
+server.registerPrompt(
+  'triage',
+  {
+    description: 'Triage issues for a project',
+    argsSchema: {
+      projectId: completable(z.string(), (value) => ['ENG', 'ENG-OPS', 'DESIGN'].filter((id) => id.startsWith(value))),
+    },
+  },
+  ({ projectId }) => ({ messages: [{ role: 'user', content: { type: 'text', text: `Triage ${projectId}` } }] })
+);
+
+let rootsChanged = 0;
+
+server.registerTool('list_roots', { description: 'Return the client roots and how often they changed' }, async () => {
+  const { roots } = await server.server.listRoots();
+  return { content: [{ type: 'text', text: JSON.stringify({ roots, changes: rootsChanged }) }] };
+});
+
+let cancellations = 0;
+
+server.registerTool('wait_for_cancel', { description: 'Block until the client cancels the request' }, async (extra) => {
+  await new Promise((resolve) => {
+    extra.signal.addEventListener('abort', resolve, { once: true });
+  });
+  cancellations += 1;
+  return { content: [{ type: 'text', text: 'cancelled' }] };
+});
+
+server.registerTool(
+  'cancellations',
+  { description: 'Report how many calls were cancelled', annotations: { readOnlyHint: true } },
+  async () => ({
+    content: [{ type: 'text', text: String(cancellations) }],
+  })
+);
+
+const clearLog = server.registerTool(
+  'clear_log',
+  { description: 'Delete every line from build://log', annotations: { destructiveHint: true, idempotentHint: true } },
+  async () => {
+    lines.length = 0;
+    return { content: [{ type: 'text', text: 'cleared' }] };
+  }
+);
+
+// Updating a registered tool makes the server send notifications/tools/list_changed.
+server.registerTool('archive_before_clear', { description: 'Mark clear_log as non-destructive' }, async () => {
+  clearLog.update({ annotations: { destructiveHint: false, idempotentHint: true } });
+  return { content: [{ type: 'text', text: 'archived' }] };
+});
+
+server.server.setNotificationHandler(RootsListChangedNotificationSchema, () => {
+  rootsChanged += 1;
+});
+server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  subscriptions.add(request.params.uri);
+  return {};
+});
+server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  subscriptions.delete(request.params.uri);
+  return {};
+});
+
+const transport = new StdioServerTransport();
+await server.connect(transport);
+await new Promise((resolve, reject) => {
+  transport.onclose = resolve;
+  transport.onerror = reject;
+});
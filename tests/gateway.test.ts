@@ -0,0 +1,112 @@
+import { fileURLToPath } from 'node:url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ElicitRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createGateway, type GatewayOptions, listenGatewayHttp } from '../src/gateway.js';
+import { createRuntime, type Runtime } from '../src/runtime.js';
+
+const resourceServerScript = fileURLToPath(new URL('./fixtures/stdio-resource-server.mjs', import.meta.url));
+
+describe('mcporter gateway', () => {
+  let runtime: Runtime | undefined;
+  let client: Client | undefined;
+
+  afterEach(async () => {
+    await client?.close();
+    await runtime?.close();
+    client = undefined;
+    runtime = undefined;
+  });
+
+  async function connectGateway(options: GatewayOptions): Promise<Client> {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+      onElicitation: async () => ({ action: 'decline' }),
+    });
+    const server = createGateway(runtime, options).createServer();
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'gateway-test', version: '1.0.0' }, { capabilities: { elicitation: {} } });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+  }
+
+  it('namespaces tools as server__tool and applies include/exclude patterns', async () => {
+    const gatewayClient = await connectGateway({
+      include: ['builds.*_build', 'builds.emit_*'],
+      exclude: ['*.emit_logs'],
+    });
+
+    const { tools } = await gatewayClient.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(['builds__run_build']);
+    expect(tools[0]?.inputSchema).toMatchObject({ type: 'object', properties: { steps: { type: 'number' } } });
+    await expect(gatewayClient.callTool({ name: 'builds__emit_logs', arguments: { levels: [] } })).rejects.toThrow(
+      'Tool builds__emit_logs not found'
+    );
+  }, 20_000);
+
+  it('forwards calls with progress and relays elicitation to the gateway client', async () => {
+    const gatewayClient = await connectGateway({});
+    gatewayClient.setRequestHandler(ElicitRequestSchema, async (request) => ({
+      action: 'accept',
+      content: { confirm: request.params.message === 'Deploy to production?' },
+    }));
+
+    const progress: number[] = [];
+    const build = await gatewayClient.callTool({ name: 'builds__run_build', arguments: { steps: 2 } }, undefined, {
+      onprogress: (update) => progress.push(update.progress),
+    });
+    const deploy = await gatewayClient.callTool({ name: 'builds__confirm_deploy', arguments: {} });
+
+    expect(build.content).toEqual([{ type: 'text', text: 'tracked' }]);
+    expect(progress).toEqual([1, 2]);
+    expect(deploy.content).toEqual([
+      { type: 'text', text: JSON.stringify({ action: 'accept', content: { confirm: true } }) },
+    ]);
+  }, 20_000);
+
+  it('serves the aggregated tools over Streamable HTTP', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+    const launches = vi.spyOn(StdioClientTransport.prototype, 'start');
+    const handle = await listenGatewayHttp(createGateway(runtime, { include: ['builds.append_log'] }), { port: 0 });
+    try {
+      client = new Client({ name: 'gateway-http-test', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(handle.url)));
+
+      const { tools } = await client.listTools();
+      const result = await client.callTool({ name: 'builds__append_log', arguments: { line: 'hello' } });
+
+      expect(tools.map((tool) => tool.name)).toEqual(['builds__append_log']);
+      expect(result.content).toEqual([{ type: 'text', text: 'silent' }]);
+      // Listing and calling share one pooled connection, so the server process is launched once.
+      expect(launches).toHaveBeenCalledTimes(1);
+
+      const foreign = await fetch(handle.url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', origin: 'https://evil.example' },
+        body: '{}',
+      });
+      expect(foreign.status).toBe(403);
+    } finally {
+      await client?.close();
+      client = undefined;
+      await handle.close();
+      launches.mockRestore();
+    }
+  }, 20_000);
+});
@@ -0,0 +1,93 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleHistory } from '../src/cli/history-command.js';
+
+function entry(overrides: Record<string, unknown>): string {
+  return JSON.stringify({
+    ts: '2026-01-02T00:00:00.000Z',
+    server: 'linear',
+    tool: 'search',
+    durationMs: 12,
+    outcome: 'success',
+    args: { query: 'bug' },
+    pid: 1,
+    ...overrides,
+  });
+}
+
+describe('mcporter history', () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-history-'));
+    configPath = path.join(dir, 'mcporter.json');
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({ mcpServers: {}, audit: { enabled: true, path: 'logs/audit.jsonl', maxFiles: 1 } })
+    );
+    await fs.mkdir(path.join(dir, 'logs'));
+    await fs.writeFile(
+      path.join(dir, 'logs', 'audit.jsonl.1'),
+      `${entry({ ts: '2026-01-01T00:00:00.000Z', tool: 'old' })}\n`
+    );
+    await fs.writeFile(
+      path.join(dir, 'logs', 'audit.jsonl'),
+      [
+        entry({}),
+        '{"ts": "partial',
+        entry({
+          ts: '2026-01-03T00:00:00.000Z',
+          server: 'github',
+          tool: 'create_issue',
+          outcome: 'error',
+          error: { kind: 'auth', message: 'HTTP 401' },
+        }),
+        '',
+      ].join('\n')
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function run(args: string[]): Promise<string[]> {
+    const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    await handleHistory(args, { configPath });
+    const lines = logSpy.mock.calls.map((call) => call.join(' '));
+    logSpy.mockRestore();
+    return lines;
+  }
+
+  it('prints entries from rotated and active files, oldest first', async () => {
+    const lines = await run([]);
+
+    expect(lines).toEqual([
+      'TIME                      SERVER  TOOL          OUTCOME  DURATION  DETAIL',
+      '2026-01-01T00:00:00.000Z  linear  old           success  12ms      {"query":"bug"}',
+      '2026-01-02T00:00:00.000Z  linear  search        success  12ms      {"query":"bug"}',
+      '2026-01-03T00:00:00.000Z  github  create_issue  error    12ms      auth: HTTP 401',
+    ]);
+  });
+
+  it('filters by server, time, and outcome', async () => {
+    const byServer = await run(['--server', 'linear', '--since', '2026-01-02T00:00:00Z', '--json']);
+    const errors = await run(['--outcome', 'error', '--json']);
+    const latest = await run(['--limit', '1', '--json']);
+
+    expect(byServer.map((line) => JSON.parse(line).tool)).toEqual(['search']);
+    expect(errors.map((line) => JSON.parse(line).tool)).toEqual(['create_issue']);
+    expect(latest.map((line) => JSON.parse(line).tool)).toEqual(['create_issue']);
+  });
+
+  it('rejects malformed filters', async () => {
+    await expect(handleHistory(['--since', 'yesterday'], { configPath })).rejects.toThrow(
+      "--since must be an ISO timestamp or a relative age like 30m, 2h, or 7d (got 'yesterday')."
+    );
+    await expect(handleHistory(['--outcome', 'ok'], { configPath })).rejects.toThrow('--outcome must be one of');
+  });
+});
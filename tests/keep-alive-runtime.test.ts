@@ -1,4 +1,4 @@
-import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError, type ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { describe, expect, it, vi } from 'vitest';
 import type { ServerDefinition } from '../src/config.js';
 import { createKeepAliveRuntime } from '../src/daemon/runtime-wrapper.js';
@@ -8,7 +8,15 @@ class FakeRuntime implements Runtime {
   private readonly definitions: ServerDefinition[];
   public readonly callToolMock = vi.fn().mockResolvedValue('local-call');
   public readonly listToolsMock = vi.fn().mockResolvedValue([{ name: 'local-tool' }]);
+  public readonly getToolAnnotationsMock = vi.fn().mockResolvedValue(undefined);
   public readonly listResourcesMock = vi.fn().mockResolvedValue([]);
+  public readonly listResourceTemplatesMock = vi.fn().mockResolvedValue([]);
+  public readonly readResourceMock = vi.fn().mockResolvedValue({ contents: [] });
+  public readonly subscribeResourceMock = vi.fn().mockResolvedValue(async () => {});
+  public readonly listPromptsMock = vi.fn().mockResolvedValue([]);
+  public readonly getPromptMock = vi.fn().mockResolvedValue({ messages: [] });
+  public readonly setRootsMock = vi.fn().mockResolvedValue(undefined);
+  public readonly completeMock = vi.fn().mockResolvedValue({ values: [] });
   public readonly closeMock = vi.fn().mockResolvedValue(undefined);
 
   constructor(definitions: ServerDefinition[]) {
@@ -39,6 +47,10 @@ class FakeRuntime implements Runtime {
     return await this.listToolsMock(server, options);
   }
 
+  async getToolAnnotations(server: string, toolName: string): Promise<ToolAnnotations | undefined> {
+    return await this.getToolAnnotationsMock(server, toolName);
+  }
+
   async callTool(server: string, toolName: string, options?: CallOptions): Promise<unknown> {
     return await this.callToolMock(server, toolName, options);
   }
@@ -47,6 +59,47 @@ class FakeRuntime implements Runtime {
     return await this.listResourcesMock(server, options);
   }
 
+  async listResourceTemplates(server: string): Promise<Awaited<ReturnType<Runtime['listResourceTemplates']>>> {
+    return await this.listResourceTemplatesMock(server);
+  }
+
+  async readResource(server: string, uri: string): Promise<Awaited<ReturnType<Runtime['readResource']>>> {
+    return await this.readResourceMock(server, uri);
+  }
+
+  async subscribeResource(
+    server: string,
+    uri: string,
+    handler: Parameters<Runtime['subscribeResource']>[2]
+  ): Promise<() => Promise<void>> {
+    return await this.subscribeResourceMock(server, uri, handler);
+  }
+
+  async listPrompts(server: string): Promise<Awaited<ReturnType<Runtime['listPrompts']>>> {
+    return await this.listPromptsMock(server);
+  }
+
+  async getPrompt(
+    server: string,
+    name: string,
+    args?: Record<string, string>
+  ): Promise<Awaited<ReturnType<Runtime['getPrompt']>>> {
+    return await this.getPromptMock(server, name, args);
+  }
+
+  async complete(
+    server: string,
+    ref: unknown,
+    argument: unknown,
+    options?: unknown
+  ): Promise<Awaited<ReturnType<Runtime['complete']>>> {
+    return await this.completeMock(server, ref, argument, options);
+  }
+
+  async setRoots(server: string, roots: ReadonlyArray<string | { path: string; name?: string }>): Promise<void> {
+    await this.setRootsMock(server, roots);
+  }
+
   async connect(): Promise<never> {
     throw new Error('not implemented');
   }
@@ -79,7 +132,18 @@ describe('createKeepAliveRuntime', () => {
       callTool: vi.fn().mockResolvedValue('daemon-call'),
       listTools: vi.fn().mockResolvedValue([{ name: 'remote-tool' }]),
       listResources: vi.fn().mockResolvedValue(['resource']),
+      listResourceTemplates: vi.fn().mockResolvedValue([]),
+      readResource: vi.fn().mockResolvedValue({ contents: [] }),
+      subscribeResource: vi.fn(async (_params: unknown, onEvent: (event: unknown) => void) => {
+        onEvent({ id: '1', event: 'resourceUpdated', params: { server: 'alpha', uri: 'logs://build' } });
+        return async () => {};
+      }),
+      listPrompts: vi.fn().mockResolvedValue([{ name: 'summarize', arguments: [] }]),
+      getPrompt: vi.fn().mockResolvedValue({ messages: [] }),
+      setRoots: vi.fn().mockResolvedValue(undefined),
+      complete: vi.fn().mockResolvedValue({ values: ['ENG'] }),
       closeServer: vi.fn().mockResolvedValue(undefined),
+      disconnect: vi.fn().mockResolvedValue(undefined),
     };
     const keepAliveRuntime = createKeepAliveRuntime(runtime as unknown as Runtime, {
       daemonClient: daemon as never,
@@ -100,14 +164,156 @@ describe('createKeepAliveRuntime', () => {
     await keepAliveRuntime.listResources('alpha', { cursor: '1' });
     expect(daemon.listResources).toHaveBeenCalledWith({ server: 'alpha', params: { cursor: '1' } });
 
+    await keepAliveRuntime.readResource('alpha', 'docs://readme');
+    expect(daemon.readResource).toHaveBeenCalledWith({ server: 'alpha', uri: 'docs://readme' });
+
+    const updates: unknown[] = [];
+    const onClose = vi.fn();
+    const unsubscribe = await keepAliveRuntime.subscribeResource(
+      'alpha',
+      'logs://build',
+      (update) => {
+        updates.push(update);
+      },
+      onClose
+    );
+    expect(daemon.subscribeResource).toHaveBeenCalledWith(
+      { server: 'alpha', uri: 'logs://build' },
+      expect.any(Function),
+      onClose
+    );
+    expect(updates).toEqual([{ server: 'alpha', uri: 'logs://build' }]);
+    await unsubscribe();
+
+    await keepAliveRuntime.listPrompts('alpha');
+    expect(daemon.listPrompts).toHaveBeenCalledWith({ server: 'alpha' });
+
+    await keepAliveRuntime.getPrompt('alpha', 'summarize', { topic: 'mcp' });
+    expect(daemon.getPrompt).toHaveBeenCalledWith({ server: 'alpha', name: 'summarize', args: { topic: 'mcp' } });
+
+    await expect(
+      keepAliveRuntime.complete('alpha', { type: 'ref/prompt', name: 'triage' }, { name: 'team', value: 'E' })
+    ).resolves.toEqual({ values: ['ENG'] });
+    expect(daemon.complete).toHaveBeenCalledWith({
+      server: 'alpha',
+      ref: { type: 'ref/prompt', name: 'triage' },
+      argument: { name: 'team', value: 'E' },
+      context: undefined,
+    });
+
+    await keepAliveRuntime.setRoots('alpha', ['/repo']);
+    expect(daemon.setRoots).toHaveBeenCalledWith({ server: 'alpha', roots: ['/repo'] });
+
     await keepAliveRuntime.close('alpha');
     expect(daemon.closeServer).toHaveBeenCalledWith({ server: 'alpha' });
 
     await keepAliveRuntime.callTool('beta', 'pong', {});
     expect(runtime.callToolMock).toHaveBeenCalledWith('beta', 'pong', {});
 
+    await keepAliveRuntime.getPrompt('beta', 'summarize');
+    expect(runtime.getPromptMock).toHaveBeenCalledWith('beta', 'summarize', undefined);
+
+    await keepAliveRuntime.setRoots('beta', [{ path: '/repo', name: 'repo' }]);
+    expect(runtime.setRootsMock).toHaveBeenCalledWith('beta', [{ path: '/repo', name: 'repo' }]);
+
     await keepAliveRuntime.close();
     expect(runtime.closeMock).toHaveBeenCalledWith(undefined);
+    expect(daemon.disconnect).toHaveBeenCalled();
+  });
+
+  it('forwards daemon progress and log events to the call callbacks', async () => {
+    const runtime = new FakeRuntime(definitions);
+    const logEntry = { server: 'alpha', level: 'warning', data: 'slow disk' };
+    const daemonCallTool = vi.fn(async (_params: unknown, options?: { onEvent?: (event: unknown) => void }) => {
+      options?.onEvent?.({ id: '1', event: 'progress', params: { progress: 1, total: 2, message: 'halfway' } });
+      options?.onEvent?.({ id: '1', event: 'log', params: logEntry });
+      return 'daemon-call';
+    });
+    const keepAliveRuntime = createKeepAliveRuntime(runtime as unknown as Runtime, {
+      daemonClient: { callTool: daemonCallTool } as never,
+      keepAliveServers: new Set(['alpha']),
+    });
+
+    const updates: unknown[] = [];
+    const logs: unknown[] = [];
+    await expect(
+      keepAliveRuntime.callTool('alpha', 'ping', {
+        onProgress: (progress) => updates.push(progress),
+        onLog: (message) => logs.push(message),
+      })
+    ).resolves.toBe('daemon-call');
+    expect(daemonCallTool).toHaveBeenCalledWith(
+      { server: 'alpha', tool: 'ping', args: undefined, timeoutMs: undefined },
+      { onEvent: expect.any(Function), signal: undefined }
+    );
+    expect(updates).toEqual([{ progress: 1, total: 2, message: 'halfway' }]);
+    expect(logs).toEqual([logEntry]);
+  });
+
+  it('reads destructive annotations from the daemon instead of listing tools', async () => {
+    const runtime = new FakeRuntime(definitions);
+    const daemon = {
+      callTool: vi.fn().mockResolvedValue('daemon-call'),
+      listTools: vi.fn(),
+      getToolAnnotations: vi.fn().mockResolvedValue({ destructiveHint: true }),
+    };
+    const keepAliveRuntime = createKeepAliveRuntime(runtime as unknown as Runtime, {
+      daemonClient: daemon as never,
+      keepAliveServers: new Set(['alpha']),
+    });
+    const confirmDestructive = vi.fn().mockReturnValue(false);
+
+    await expect(keepAliveRuntime.callTool('alpha', 'drop', { confirmDestructive })).rejects.toThrow(
+      "Call to destructive tool 'drop' on server 'alpha' was not confirmed."
+    );
+    expect(daemon.getToolAnnotations).toHaveBeenCalledWith({ server: 'alpha', tool: 'drop' });
+    expect(daemon.listTools).not.toHaveBeenCalled();
+    expect(daemon.callTool).not.toHaveBeenCalled();
+  });
+
+  it('answers forwarded elicitations and reports the result to the daemon', async () => {
+    const runtime = new FakeRuntime(definitions);
+    const request = { server: 'alpha', message: 'Proceed?', requestedSchema: { type: 'object', properties: {} } };
+    const respondToElicitation = vi.fn().mockResolvedValue({ delivered: true });
+    const daemonCallTool = vi.fn(async (_params: unknown, options?: { onEvent?: (event: unknown) => void }) => {
+      options?.onEvent?.({ id: '1', event: 'elicitation', params: { elicitationId: 'e-1', request } });
+      return 'daemon-call';
+    });
+    const onElicitation = vi.fn().mockResolvedValue({ action: 'accept', content: { ok: true } });
+    const keepAliveRuntime = createKeepAliveRuntime(runtime as unknown as Runtime, {
+      daemonClient: { callTool: daemonCallTool, respondToElicitation } as never,
+      keepAliveServers: new Set(['alpha']),
+      onElicitation,
+    });
+
+    await expect(keepAliveRuntime.callTool('alpha', 'deploy')).resolves.toBe('daemon-call');
+    await vi.waitFor(() =>
+      expect(respondToElicitation).toHaveBeenCalledWith({
+        elicitationId: 'e-1',
+        result: { action: 'accept', content: { ok: true } },
+      })
+    );
+    expect(onElicitation).toHaveBeenCalledWith(request);
+  });
+
+  it('passes abort signals to the daemon and does not restart on cancellation', async () => {
+    const runtime = new FakeRuntime(definitions);
+    const abortError = new DOMException('This operation was aborted', 'AbortError');
+    const daemonCallTool = vi.fn().mockRejectedValue(abortError);
+    const daemonCloseServer = vi.fn();
+    const keepAliveRuntime = createKeepAliveRuntime(runtime as unknown as Runtime, {
+      daemonClient: { callTool: daemonCallTool, closeServer: daemonCloseServer } as never,
+      keepAliveServers: new Set(['alpha']),
+    });
+    const controller = new AbortController();
+
+    await expect(keepAliveRuntime.callTool('alpha', 'ping', { signal: controller.signal })).rejects.toBe(abortError);
+    expect(daemonCallTool).toHaveBeenCalledWith(expect.objectContaining({ server: 'alpha', tool: 'ping' }), {
+      onEvent: undefined,
+      signal: controller.signal,
+    });
+    expect(daemonCallTool).toHaveBeenCalledTimes(1);
+    expect(daemonCloseServer).not.toHaveBeenCalled();
   });
 
   it('restarts daemon servers after fatal errors and retries the operation', async () => {
@@ -149,4 +355,27 @@ describe('createKeepAliveRuntime', () => {
     expect(daemon.callTool).toHaveBeenCalledTimes(1);
     expect(daemon.closeServer).not.toHaveBeenCalled();
   });
+
+  it('rejects policy-blocked tools without restarting the daemon server', async () => {
+    const runtime = new FakeRuntime([{ ...(definitions[0] as ServerDefinition), tools: { deny: ['delete_*'] } }]);
+    const daemon = {
+      callTool: vi
+        .fn()
+        .mockRejectedValue(Object.assign(new Error("Tool 'drop' is blocked"), { code: 'tool_not_allowed' })),
+      closeServer: vi.fn().mockResolvedValue(undefined),
+      listTools: vi.fn(),
+      listResources: vi.fn(),
+    };
+    const keepAliveRuntime = createKeepAliveRuntime(runtime as unknown as Runtime, {
+      daemonClient: daemon as never,
+      keepAliveServers: new Set(['alpha']),
+    });
+
+    await expect(keepAliveRuntime.callTool('alpha', 'delete_issue', {})).rejects.toThrow('tools.deny');
+    expect(daemon.callTool).not.toHaveBeenCalled();
+    // The daemon may enforce a policy the client has not loaded yet; its rejection is not a crash either.
+    await expect(keepAliveRuntime.callTool('alpha', 'drop', {})).rejects.toThrow('blocked');
+    expect(daemon.callTool).toHaveBeenCalledTimes(1);
+    expect(daemon.closeServer).not.toHaveBeenCalled();
+  });
 });
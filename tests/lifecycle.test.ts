@@ -26,4 +26,14 @@ describe('resolveLifecycle', () => {
     const lifecycle = resolveLifecycle('chrome-devtools', undefined, CHROME_COMMAND_ENV);
     expect(lifecycle?.mode).toBe('ephemeral');
   });
+
+  it('keeps prewarm on keep-alive lifecycles', () => {
+    const command: CommandSpec = { kind: 'stdio', command: 'node', args: ['server.js'], cwd: process.cwd() };
+    expect(resolveLifecycle('warm', { mode: 'keep-alive', prewarm: true, idleTimeoutMs: 1_000 }, command)).toEqual({
+      mode: 'keep-alive',
+      idleTimeoutMs: 1_000,
+      prewarm: true,
+    });
+    expect(resolveLifecycle('cold', { mode: 'keep-alive', prewarm: false }, command)).toEqual({ mode: 'keep-alive' });
+  });
 });
@@ -0,0 +1,222 @@
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  type CallOptions,
+  type CallProgress,
+  createRuntime,
+  type Runtime,
+  type ServerLogMessage,
+} from '../src/runtime.js';
+
+const resourceServerScript = fileURLToPath(new URL('./fixtures/stdio-resource-server.mjs', import.meta.url));
+
+describe('runtime call options', () => {
+  let runtime: Runtime | undefined;
+
+  afterEach(async () => {
+    await runtime?.close();
+    runtime = undefined;
+  });
+
+  it('forwards notifications/progress to onProgress', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+
+    const updates: CallProgress[] = [];
+    const result = (await runtime.callTool('builds', 'run_build', {
+      args: { steps: 2 },
+      onProgress: (progress) => updates.push(progress),
+    })) as { content: Array<{ text: string }> };
+
+    expect(result.content[0]?.text).toBe('tracked');
+    expect(updates).toEqual([
+      { progress: 1, total: 2, message: 'step 1' },
+      { progress: 2, total: 2, message: 'step 2' },
+    ]);
+  }, 20_000);
+
+  it('cancels in-flight calls without resetting the connection', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+
+    const countCancellations = async (): Promise<string> => {
+      const result = (await runtime?.callTool('builds', 'cancellations')) as { content: Array<{ text: string }> };
+      return result.content[0]?.text ?? '';
+    };
+    // Warm the connection so the abort lands on a request that actually reached the server.
+    expect(await countCancellations()).toBe('0');
+
+    const controller = new AbortController();
+    const pending = runtime.callTool('builds', 'wait_for_cancel', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 50);
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+
+    // The same server process observed notifications/cancelled, so the connection survived.
+    let count = '0';
+    for (let attempt = 0; attempt < 20 && count === '0'; attempt += 1) {
+      count = await countCancellations();
+    }
+    expect(count).toBe('1');
+  }, 20_000);
+
+  it('applies the configured log level and routes server logs to onLog or the logger', async () => {
+    const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+    runtime = await createRuntime({
+      logger,
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+          logging: { level: 'warning' },
+        },
+      ],
+    });
+
+    const streamed: ServerLogMessage[] = [];
+    await runtime.callTool('builds', 'emit_logs', {
+      args: { levels: ['info', 'warning', 'error'] },
+      onLog: (message) => streamed.push(message),
+    });
+    // logging/setLevel(warning) makes the server drop the info entry.
+    expect(streamed).toEqual([
+      { server: 'builds', level: 'warning', logger: 'build', data: 'warning entry' },
+      { server: 'builds', level: 'error', logger: 'build', data: 'error entry' },
+    ]);
+    expect(logger.warn).not.toHaveBeenCalled();
+
+    await runtime.callTool('builds', 'emit_logs', { args: { levels: ['warning'] } });
+    expect(logger.warn).toHaveBeenCalledWith('[builds:build] warning entry');
+  }, 20_000);
+
+  it('answers elicitations with the runtime handler unless the call overrides it', async () => {
+    const onElicitation = vi.fn(async () => ({ action: 'decline' as const }));
+    runtime = await createRuntime({
+      onElicitation,
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+
+    const readAnswer = async (options: CallOptions = {}): Promise<unknown> => {
+      const result = (await runtime?.callTool('builds', 'confirm_deploy', options)) as {
+        content: Array<{ text: string }>;
+      };
+      return JSON.parse(result.content[0]?.text ?? '');
+    };
+
+    expect(await readAnswer()).toEqual({ action: 'decline' });
+    expect(onElicitation).toHaveBeenCalledWith(
+      expect.objectContaining({ server: 'builds', message: 'Deploy to production?' })
+    );
+
+    const perCall = vi.fn(async () => ({ action: 'accept' as const, content: { confirm: true, region: 'eu' } }));
+    expect(await readAnswer({ onElicitation: perCall })).toEqual({
+      action: 'accept',
+      content: { confirm: true, region: 'eu' },
+    });
+    expect(perCall).toHaveBeenCalledTimes(1);
+    expect(onElicitation).toHaveBeenCalledTimes(1);
+  }, 20_000);
+
+  it('does not advertise elicitation without a runtime handler', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+
+    const result = (await runtime.callTool('builds', 'confirm_deploy')) as { content: Array<{ text: string }> };
+    expect(result.content[0]?.text).toMatch(/^unsupported:/);
+  }, 20_000);
+
+  it('answers sampling/createMessage with the sampling handler', async () => {
+    const sampling = vi.fn(async () => ({
+      role: 'assistant' as const,
+      model: 'local-model',
+      content: { type: 'text' as const, text: 'all green' },
+    }));
+    runtime = await createRuntime({
+      sampling,
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+
+    const result = (await runtime.callTool('builds', 'summarize')) as { content: Array<{ text: string }> };
+    expect(result.content[0]?.text).toBe('local-model: all green');
+    expect(sampling).toHaveBeenCalledWith({
+      server: 'builds',
+      params: expect.objectContaining({ maxTokens: 32 }),
+    });
+  }, 20_000);
+
+  it('answers roots/list from the definition and notifies the server after setRoots', async () => {
+    process.env.MCPORTER_TEST_ROOT = '/work/repo';
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+          roots: [{ path: `\${MCPORTER_TEST_ROOT}/src`, name: 'src' }],
+        },
+      ],
+    });
+
+    const readRoots = async (): Promise<{ roots: unknown[]; changes: number }> => {
+      const result = (await runtime?.callTool('builds', 'list_roots')) as { content: Array<{ text: string }> };
+      return JSON.parse(result.content[0]?.text ?? '');
+    };
+
+    try {
+      expect(await readRoots()).toEqual({ roots: [{ uri: 'file:///work/repo/src', name: 'src' }], changes: 0 });
+
+      await runtime.setRoots('builds', ['/work/other']);
+      let snapshot = await readRoots();
+      for (let attempt = 0; attempt < 20 && snapshot.changes === 0; attempt += 1) {
+        snapshot = await readRoots();
+      }
+      expect(snapshot).toEqual({ roots: [{ uri: 'file:///work/other' }], changes: 1 });
+    } finally {
+      delete process.env.MCPORTER_TEST_ROOT;
+    }
+  }, 20_000);
+
+  it('returns completion/complete suggestions for prompt arguments', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+
+    const completion = await runtime.complete(
+      'builds',
+      { type: 'ref/prompt', name: 'triage' },
+      { name: 'projectId', value: 'ENG' }
+    );
+    expect(completion.values).toEqual(['ENG', 'ENG-OPS']);
+  }, 20_000);
+});
@@ -23,6 +23,10 @@ const mocks = vi.hoisted(() => {
 
     async close() {}
 
+    setNotificationHandler() {}
+
+    setRequestHandler() {}
+
     async listTools(params: unknown) {
       return listToolsMock(params);
     }
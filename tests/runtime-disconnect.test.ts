@@ -0,0 +1,55 @@
+import { fileURLToPath } from 'node:url';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { analyzeConnectionError } from '../src/error-classifier.js';
+import { createRuntime, type Runtime } from '../src/runtime.js';
+
+const resourceServerScript = fileURLToPath(new URL('./fixtures/stdio-resource-server.mjs', import.meta.url));
+
+describe('runtime disconnect detection', () => {
+  let runtime: Runtime | undefined;
+
+  afterEach(async () => {
+    await runtime?.close();
+    runtime = undefined;
+  });
+
+  it.skipIf(process.platform === 'win32')(
+    'reports a crashed stdio child and relaunches it on the next request',
+    async () => {
+      const disconnects: Array<{ server: string; reason: Error }> = [];
+      let notify: () => void = () => {};
+      const disconnected = new Promise<void>((resolve) => {
+        notify = resolve;
+      });
+      runtime = await createRuntime({
+        servers: [
+          {
+            name: 'builds',
+            command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+          },
+        ],
+        onServerDisconnected: (server, reason) => {
+          disconnects.push({ server, reason });
+          notify();
+        },
+      });
+      const context = await runtime.connect('builds');
+      const pid = context.transport instanceof StdioClientTransport ? context.transport.pid : null;
+      expect(pid).toBeTypeOf('number');
+
+      process.kill(pid as number, 'SIGKILL');
+      await disconnected;
+
+      expect(disconnects).toHaveLength(1);
+      expect(disconnects[0]?.server).toBe('builds');
+      expect(disconnects[0]?.reason.message).toContain("STDIO server 'builds' exited with signal SIGKILL");
+      expect(analyzeConnectionError(disconnects[0]?.reason).kind).toBe('stdio-exit');
+      const relaunched = await runtime.connect('builds');
+      expect(relaunched).not.toBe(context);
+      await runtime.close('builds');
+      expect(disconnects).toHaveLength(1);
+    },
+    20_000
+  );
+});
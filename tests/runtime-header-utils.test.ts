@@ -14,23 +14,23 @@ describe('materializeHeaders', () => {
     previousValue = undefined;
   });
 
-  it('resolves environment placeholders in headers', () => {
+  it('resolves environment placeholders in headers', async () => {
     previousValue = process.env[envKey];
     process.env[envKey] = 'test-secret';
-    const headers = materializeHeaders({ Authorization: `Bearer \${HEADER_TOKEN}` }, 'inline');
+    const headers = await materializeHeaders({ Authorization: `Bearer \${HEADER_TOKEN}` }, 'inline');
     expect(headers).toEqual({ Authorization: 'Bearer test-secret' });
   });
 
-  it('propagates a helpful error when placeholder resolution fails', () => {
+  it('propagates a helpful error when placeholder resolution fails', async () => {
     previousValue = process.env[envKey];
     delete process.env[envKey];
-    expect(() => materializeHeaders({ Authorization: `Bearer \${HEADER_TOKEN}` }, 'broken')).toThrow(
+    await expect(materializeHeaders({ Authorization: `Bearer \${HEADER_TOKEN}` }, 'broken')).rejects.toThrow(
       /Failed to resolve header 'Authorization'/
     );
   });
 
-  it('returns undefined when no headers are provided', () => {
-    const headers = materializeHeaders(undefined, 'noop');
+  it('returns undefined when no headers are provided', async () => {
+    const headers = await materializeHeaders(undefined, 'noop');
     expect(headers).toBeUndefined();
   });
 });
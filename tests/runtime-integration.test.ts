@@ -56,6 +56,24 @@ server.registerResource(
   }
 );
 
+server.registerPrompt(
+  'summarize',
+  {
+    title: 'Summarize',
+    description: 'Summarize a topic',
+    argsSchema: { topic: z.string().describe('Topic to summarize'), tone: z.string().optional() },
+  },
+  ({ topic, tone }) => ({
+    description: `Summary of ${topic}`,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: `Summarize ${topic}${tone ? ` in a ${tone} tone` : ''}.` },
+      },
+    ],
+  })
+);
+
 app.post('/mcp', async (req, res) => {
   const transport = new StreamableHTTPServerTransport({
     sessionIdGenerator: undefined,
@@ -110,4 +128,55 @@ describe('runtime integration', () => {
 
     await runtime.close('integration');
   });
+
+  it('lists and renders prompts over HTTP', async () => {
+    const runtime = await createRuntime({
+      servers: [
+        {
+          name: 'integration',
+          description: 'Integration test server',
+          command: { kind: 'http', url: baseUrl },
+        },
+      ],
+    });
+
+    const prompts = await runtime.listPrompts('integration');
+    expect(prompts).toEqual([
+      {
+        name: 'summarize',
+        title: 'Summarize',
+        description: 'Summarize a topic',
+        arguments: [
+          { name: 'topic', description: 'Topic to summarize', required: true },
+          { name: 'tone', description: undefined, required: false },
+        ],
+      },
+    ]);
+
+    const rendered = await runtime.getPrompt('integration', 'summarize', { topic: 'MCP', tone: 'friendly' });
+    expect(rendered.description).toBe('Summary of MCP');
+    expect(rendered.messages[0]?.content).toEqual({ type: 'text', text: 'Summarize MCP in a friendly tone.' });
+
+    await runtime.close('integration');
+  });
+
+  it('lists resource templates and reads expanded resources over HTTP', async () => {
+    const runtime = await createRuntime({
+      servers: [
+        {
+          name: 'integration',
+          description: 'Integration test server',
+          command: { kind: 'http', url: baseUrl },
+        },
+      ],
+    });
+
+    const templates = await runtime.listResourceTemplates('integration');
+    expect(templates.map((template) => template.uriTemplate)).toEqual(['greeting://{name}']);
+
+    const result = await runtime.readResource('integration', 'greeting://Ada');
+    expect(result.contents).toEqual([{ uri: 'greeting://Ada', text: 'Hello, Ada!' }]);
+
+    await runtime.close('integration');
+  });
 });
@@ -0,0 +1,97 @@
+import { fileURLToPath } from 'node:url';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { watchResource } from '../src/cli/resources-command.js';
+import { createRuntime, type ResourceUpdate, type Runtime } from '../src/runtime.js';
+
+const resourceServerScript = fileURLToPath(new URL('./fixtures/stdio-resource-server.mjs', import.meta.url));
+
+function appendLog(runtime: Runtime, line: string): Promise<unknown> {
+  return runtime.callTool('builds', 'append_log', { args: { line } });
+}
+
+describe('runtime resource subscriptions', () => {
+  let runtime: Runtime | undefined;
+
+  afterEach(async () => {
+    await runtime?.close();
+    runtime = undefined;
+  });
+
+  it('delivers resources/updated notifications until the last listener unsubscribes', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+
+    const first: ResourceUpdate[] = [];
+    const second: ResourceUpdate[] = [];
+    let notifySecond: () => void = () => {};
+    const received = new Promise<void>((resolve) => {
+      notifySecond = resolve;
+    });
+    const unsubscribeFirst = await runtime.subscribeResource('builds', 'build://log', (update) => {
+      first.push(update);
+    });
+    await runtime.subscribeResource('builds', 'build://log', (update) => {
+      second.push(update);
+      notifySecond();
+    });
+
+    await appendLog(runtime, 'compiling');
+    await received;
+    expect(first).toEqual([{ server: 'builds', uri: 'build://log' }]);
+    expect(second).toEqual([{ server: 'builds', uri: 'build://log' }]);
+
+    await unsubscribeFirst();
+    const result = (await appendLog(runtime, 'linking')) as { content: Array<{ text: string }> };
+    // The second listener keeps the upstream subscription alive.
+    expect(result.content[0]?.text).toBe('notified');
+  }, 20_000);
+
+  it('unsubscribes upstream once every listener is gone', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+
+    const unsubscribe = await runtime.subscribeResource('builds', 'build://log', () => {});
+    await unsubscribe();
+    const result = (await appendLog(runtime, 'done')) as { content: Array<{ text: string }> };
+    expect(result.content[0]?.text).toBe('silent');
+  }, 20_000);
+
+  it('stops a watch with an error when the server dies mid-watch', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+    });
+
+    const lines: string[] = [];
+    const watching = watchResource(runtime, 'builds', 'build://log', {
+      signal: new AbortController().signal,
+      write: (line) => lines.push(line),
+    });
+    const { transport } = await runtime.connect('builds');
+    const pid = transport instanceof StdioClientTransport ? transport.pid : null;
+    expect(pid).toBeTypeOf('number');
+    await appendLog(runtime, 'compiling');
+    await expect.poll(() => lines.length).toBe(1);
+
+    process.kill(pid as number, 'SIGKILL');
+
+    await expect(watching).rejects.toThrow(/Stopped watching build:\/\/log on builds: STDIO server 'builds' exited/);
+  }, 20_000);
+});
@@ -0,0 +1,145 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadServerDefinitions } from '../src/config.js';
+import { isToolAllowed, ToolCallDeclinedError, ToolNotAllowedError } from '../src/runtime/tool-policy.js';
+import { createRuntime, type DestructiveToolRequest, type Runtime } from '../src/runtime.js';
+
+const resourceServerScript = fileURLToPath(new URL('./fixtures/stdio-resource-server.mjs', import.meta.url));
+
+describe('server tool policy', () => {
+  let runtime: Runtime | undefined;
+
+  afterEach(async () => {
+    await runtime?.close();
+    runtime = undefined;
+  });
+
+  it('lets deny override allow and treats a missing allow list as allow-all', () => {
+    const policy = { allow: ['list_*', 'get_issue'], deny: ['list_secret*'] };
+
+    expect(isToolAllowed(policy, 'list_issues')).toBe(true);
+    expect(isToolAllowed(policy, 'get_issue')).toBe(true);
+    expect(isToolAllowed(policy, 'get_issues')).toBe(false);
+    expect(isToolAllowed(policy, 'list_secrets')).toBe(false);
+    expect(isToolAllowed({ deny: ['delete_*'] }, 'create.issue')).toBe(true);
+    expect(isToolAllowed({ deny: ['delete_*'] }, 'delete_issue')).toBe(false);
+    expect(isToolAllowed(undefined, 'anything')).toBe(true);
+  });
+
+  it('hides blocked tools from listTools and rejects calls to them before reaching the server', async () => {
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+          tools: { allow: ['run_*', 'wait_*', 'cancellations'], deny: ['wait_for_cancel'] },
+        },
+      ],
+    });
+
+    const tools = await runtime.listTools('builds');
+    expect(tools.map((tool) => tool.name).sort()).toEqual(['cancellations', 'run_build']);
+
+    await expect(runtime.callTool('builds', 'wait_for_cancel')).rejects.toThrow(
+      "Tool 'wait_for_cancel' on server 'builds' is blocked by the server's tools.deny policy."
+    );
+    await expect(runtime.callTool('builds', 'append_log')).rejects.toBeInstanceOf(ToolNotAllowedError);
+    // The rejected calls neither reached the server nor dropped the pooled connection.
+    const result = (await runtime.callTool('builds', 'cancellations')) as { content: Array<{ text: string }> };
+    expect(result.content[0]?.text).toBe('0');
+  }, 20_000);
+
+  it('asks before calling tools annotated as destructive', async () => {
+    const requests: DestructiveToolRequest[] = [];
+    let approve = false;
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+      confirmDestructive: (request) => {
+        requests.push(request);
+        return approve;
+      },
+    });
+
+    const tools = await runtime.listTools('builds');
+    expect(tools.find((tool) => tool.name === 'clear_log')?.annotations).toEqual({
+      destructiveHint: true,
+      idempotentHint: true,
+    });
+
+    await expect(runtime.callTool('builds', 'clear_log', { args: { scope: 'all' } })).rejects.toBeInstanceOf(
+      ToolCallDeclinedError
+    );
+    approve = true;
+    const cleared = (await runtime.callTool('builds', 'clear_log')) as { content: Array<{ text: string }> };
+    expect(cleared.content[0]?.text).toBe('cleared');
+    // Read-only and unannotated tools never reach the handler; a per-call handler overrides the runtime one.
+    await runtime.callTool('builds', 'cancellations');
+    await runtime.callTool('builds', 'append_log', { args: { line: 'x' } });
+    await expect(runtime.callTool('builds', 'clear_log', { confirmDestructive: () => false })).rejects.toThrow(
+      "Call to destructive tool 'clear_log' on server 'builds' was not confirmed."
+    );
+
+    expect(requests.map((request) => [request.tool, request.args])).toEqual([
+      ['clear_log', { scope: 'all' }],
+      ['clear_log', undefined],
+    ]);
+  }, 20_000);
+
+  it('reuses annotations from the last listing until the server reports a tool list change', async () => {
+    const requests: DestructiveToolRequest[] = [];
+    runtime = await createRuntime({
+      servers: [
+        {
+          name: 'builds',
+          command: { kind: 'stdio', command: process.execPath, args: [resourceServerScript], cwd: process.cwd() },
+        },
+      ],
+      confirmDestructive: (request) => {
+        requests.push(request);
+        return true;
+      },
+    });
+    const listTools = vi.spyOn(runtime, 'listTools');
+
+    await runtime.callTool('builds', 'clear_log');
+    await runtime.callTool('builds', 'clear_log');
+    await runtime.callTool('builds', 'cancellations');
+    expect(listTools).toHaveBeenCalledTimes(1);
+
+    await runtime.callTool('builds', 'archive_before_clear');
+    await runtime.callTool('builds', 'clear_log');
+    expect(listTools).toHaveBeenCalledTimes(2);
+    expect(requests).toHaveLength(2);
+  }, 20_000);
+
+  it('reads the policy from config entries', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-tool-policy-'));
+    try {
+      const configPath = path.join(dir, 'mcporter.json');
+      await fs.writeFile(
+        configPath,
+        JSON.stringify({
+          mcpServers: {
+            linear: { url: 'https://mcp.linear.app/mcp', tools: { deny: ['delete_*'] } },
+            docs: { url: 'https://docs.example.com/mcp', tools: {} },
+          },
+        })
+      );
+
+      const servers = await loadServerDefinitions({ configPath, rootDir: dir });
+
+      expect(servers.find((server) => server.name === 'linear')?.tools).toEqual({ deny: ['delete_*'] });
+      expect(servers.find((server) => server.name === 'docs')?.tools).toBeUndefined();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createCommandSamplingProvider } from '../src/runtime/sampling.js';
+
+const request = {
+  server: 'writer',
+  params: {
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text: 'Summarize' } }],
+    maxTokens: 64,
+  },
+};
+
+function nodeProvider(script: string, timeoutMs?: number) {
+  return createCommandSamplingProvider({
+    provider: 'command',
+    command: process.execPath,
+    args: ['-e', script],
+    cwd: process.cwd(),
+    timeoutMs,
+  });
+}
+
+describe('command sampling provider', () => {
+  it('pipes the request JSON to the command and returns its CreateMessageResult', async () => {
+    const provider = nodeProvider(`
+      let input = '';
+      process.stdin.on('data', (chunk) => (input += chunk));
+      process.stdin.on('end', () => {
+        const request = JSON.parse(input);
+        const text = request.server + ': ' + request.params.messages[0].content.text;
+        process.stdout.write(JSON.stringify({ role: 'assistant', model: 'local', content: { type: 'text', text } }));
+      });
+    `);
+
+    await expect(provider.createMessage(request)).resolves.toEqual({
+      role: 'assistant',
+      model: 'local',
+      content: { type: 'text', text: 'writer: Summarize' },
+    });
+  });
+
+  it('wraps plain-text output as an assistant message', async () => {
+    const provider = nodeProvider("process.stdout.write('A short summary.\\n')");
+
+    await expect(provider.createMessage(request)).resolves.toEqual({
+      role: 'assistant',
+      model: process.execPath,
+      content: { type: 'text', text: 'A short summary.' },
+      stopReason: 'endTurn',
+    });
+  });
+
+  it('surfaces failures, invalid results, and timeouts', async () => {
+    await expect(
+      nodeProvider("console.error('model offline'); process.exit(3)").createMessage(request)
+    ).rejects.toThrow(/exited with code 3: model offline/);
+    await expect(nodeProvider('process.stdout.write(\'{"role":"robot"}\')').createMessage(request)).rejects.toThrow(
+      /invalid CreateMessageResult/
+    );
+    await expect(nodeProvider('setTimeout(() => {}, 10_000)', 200).createMessage(request)).rejects.toThrow(
+      /timed out after 200ms/
+    );
+  }, 20_000);
+});
@@ -0,0 +1,132 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleConfigCli } from '../src/cli/config-command.js';
+import { withEnvOverrides } from '../src/env.js';
+import { createPrefixedConsoleLogger } from '../src/logging.js';
+import { materializeHeaders } from '../src/runtime-header-utils.js';
+import {
+  clearSecretCache,
+  redactSecrets,
+  registerSecretProvider,
+  resolveEnvSecrets,
+  resolveSecretReferences,
+  resolveServerEnvValue,
+} from '../src/secrets.js';
+
+describe('secret references', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-secrets-'));
+    clearSecretCache();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('resolves file, dotenv, and cmd references relative to the config directory', async () => {
+    await fs.writeFile(path.join(tempDir, 'token'), 'file-secret\n');
+    await fs.writeFile(
+      path.join(tempDir, '.env.local'),
+      ['# local keys', 'export LINEAR_KEY="dotenv secret" # quoted', "OTHER='x'", 'PLAIN=plain-value # note'].join('\n')
+    );
+
+    const headers = await materializeHeaders(
+      { Authorization: `Bearer \${secret:file:./token}`, 'X-Linear': `\${secret:dotenv:.env.local#LINEAR_KEY}` },
+      'linear',
+      undefined,
+      tempDir
+    );
+    expect(headers).toEqual({ Authorization: 'Bearer file-secret', 'X-Linear': 'dotenv secret' });
+    await expect(resolveServerEnvValue(`\${secret:dotenv:.env.local#PLAIN}`, tempDir)).resolves.toBe('plain-value');
+    await expect(resolveServerEnvValue(`\${secret:cmd:echo cmd-$((40 + 2))}`, tempDir)).resolves.toBe('cmd-42');
+
+    // Plain values keep the existing ${VAR:-default} semantics.
+    await expect(resolveServerEnvValue(`\${MCPORTER_SECRET_TEST_UNSET:-fallback}`, tempDir)).resolves.toBe('fallback');
+    const env = { MCPORTER_SECRET_TEST_TOKEN: `\${secret:file:./token}`, MCPORTER_SECRET_TEST_PLAIN: 'plain' };
+    const secrets = await resolveEnvSecrets(env, tempDir);
+    expect(secrets).toEqual({ MCPORTER_SECRET_TEST_TOKEN: 'file-secret' });
+    await withEnvOverrides(
+      env,
+      () => {
+        expect(process.env.MCPORTER_SECRET_TEST_TOKEN).toBe('file-secret');
+        expect(process.env.MCPORTER_SECRET_TEST_PLAIN).toBe('plain');
+      },
+      (raw, key) => secrets[key] ?? raw
+    );
+  });
+
+  it('caches each reference per process and supports custom providers', async () => {
+    const provider = vi.fn(async (reference: string) => `vault:${reference}`);
+    registerSecretProvider('vault', provider);
+
+    await expect(resolveSecretReferences(`\${secret:vault:linear/api} and \${secret:vault:linear/api}`)).resolves.toBe(
+      'vault:linear/api and vault:linear/api'
+    );
+    await expect(resolveSecretReferences(`\${secret:vault:linear/api}`)).resolves.toBe('vault:linear/api');
+    expect(provider).toHaveBeenCalledTimes(1);
+
+    await expect(resolveSecretReferences(`\${secret:nope:x}`)).rejects.toThrow(
+      "Unknown secret provider 'nope'. Known providers: cmd, dotenv, file, vault."
+    );
+    await expect(resolveSecretReferences(`\${secret:dotenv:.env}`, { baseDir: tempDir })).rejects.toThrow(
+      /must name a key/
+    );
+    await expect(resolveSecretReferences(`\${secret:cmd:exit 3}`, { baseDir: tempDir })).rejects.toThrow(
+      "Secret command 'exit' failed: exit code 3"
+    );
+  });
+
+  it('runs cmd providers without blocking the event loop', async () => {
+    let ticks = 0;
+    const timer = setInterval(() => {
+      ticks += 1;
+    }, 10);
+    try {
+      await expect(resolveServerEnvValue(`\${secret:cmd:sleep 0.3 && echo slow}`, tempDir)).resolves.toBe('slow');
+    } finally {
+      clearInterval(timer);
+    }
+    expect(ticks).toBeGreaterThan(5);
+  });
+
+  it('redacts resolved secrets from logs and keeps references out of resolved config output', async () => {
+    await fs.writeFile(path.join(tempDir, 'token'), 'sk-live-123456');
+    await resolveSecretReferences(`\${secret:file:./token}`, { baseDir: tempDir });
+    expect(redactSecrets('401 for token sk-live-123456')).toBe('401 for token ***');
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    createPrefixedConsoleLogger('mcporter', 'warn').warn('rejected sk-live-123456');
+    expect(warn).toHaveBeenCalledWith('[mcporter] rejected ***');
+
+    // `config add` stores the reference verbatim and `config get` prints it without resolving it.
+    const configPath = path.join(tempDir, 'config', 'mcporter.json');
+    const options = { loadOptions: { configPath, rootDir: tempDir }, invokeAuth: async () => {} };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    await handleConfigCli(options, [
+      'add',
+      'linear',
+      'https://mcp.linear.app/mcp',
+      '--header',
+      `Authorization=Bearer \${secret:file:../token}`,
+    ]);
+    const written = JSON.parse(await fs.readFile(configPath, 'utf8')) as {
+      mcpServers: Record<string, { headers: Record<string, string> }>;
+    };
+    expect(written.mcpServers.linear?.headers.Authorization).toBe(`Bearer \${secret:file:../token}`);
+
+    const logs: string[] = [];
+    vi.spyOn(console, 'log').mockImplementation((value?: unknown) => {
+      logs.push(String(value));
+    });
+    await handleConfigCli(options, ['get', 'linear', '--json']);
+    const output = logs.join('\n');
+    expect(output).toContain(`Bearer \${secret:file:../token}`);
+    expect(output).not.toContain('sk-live-123456');
+  });
+});
@@ -100,6 +100,27 @@ describe('createServerProxy', () => {
     expect(result.raw).toEqual({ args: { value: 1 }, tailLog: true });
   });
 
+  it('treats an abort signal as a call option', async () => {
+    const runtime = createMockRuntime({
+      'some-tool': {
+        type: 'object',
+        properties: {
+          foo: { type: 'string' },
+        },
+      },
+    });
+    const proxy = createServerProxy(runtime as unknown as Runtime, 'foo') as Record<string, unknown>;
+    const controller = new AbortController();
+
+    const fn = proxy.someTool as (args: unknown, options: unknown) => Promise<CallResult>;
+    await fn({ foo: 'bar' }, { signal: controller.signal });
+
+    expect(runtime.callTool).toHaveBeenCalledWith('foo', 'some-tool', {
+      args: { foo: 'bar' },
+      signal: controller.signal,
+    });
+  });
+
   it('hydrates schemas from disk cache without querying the server', async () => {
     const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcporter-schema-cache-'));
     try {
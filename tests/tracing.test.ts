@@ -0,0 +1,179 @@
+import type { Server as HttpServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import express from 'express';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRuntime } from '../src/runtime.js';
+import { createTracer, parseTraceparent, type SpanExporter, Tracer } from '../src/tracing.js';
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  attributes: Array<{ key: string; value: Record<string, unknown> }>;
+  status: { code: number; message?: string };
+}
+
+const PARENT = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+const received: Array<{ authorization?: string; spans: OtlpSpan[] }> = [];
+const mcpTraceparents: Array<string | undefined> = [];
+let collectorStatus = 200;
+
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+app.post('/v1/traces', (req, res) => {
+  const body = req.body as { resourceSpans: Array<{ scopeSpans: Array<{ spans: OtlpSpan[] }> }> };
+  received.push({
+    authorization: req.headers.authorization,
+    spans: body.resourceSpans.flatMap((resource) => resource.scopeSpans.flatMap((scope) => scope.spans)),
+  });
+  res.status(collectorStatus).json({});
+});
+app.get('/mcp', (_req, res) => {
+  res.sendStatus(405);
+});
+
+const server = new McpServer({ name: 'tracing-demo', version: '1.0.0' });
+server.registerTool('echo_trace', { description: 'Return the traceparent from the request _meta' }, async (extra) => ({
+  content: [{ type: 'text', text: String(extra._meta?.traceparent) }],
+}));
+
+app.post('/mcp', async (req, res) => {
+  mcpTraceparents.push(req.headers.traceparent as string | undefined);
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined, enableJsonResponse: true });
+  res.on('close', () => {
+    transport.close().catch(() => {});
+  });
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+});
+
+let httpServer: HttpServer;
+let baseUrl: string;
+
+function attribute(span: OtlpSpan | undefined, key: string): unknown {
+  const value = span?.attributes.find((entry) => entry.key === key)?.value;
+  return value ? Object.values(value)[0] : undefined;
+}
+
+describe('OTLP tracing', () => {
+  beforeAll(async () => {
+    httpServer = app.listen(0, '127.0.0.1');
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('listening', resolve);
+      httpServer.once('error', reject);
+    });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    mcpTraceparents.length = 0;
+    collectorStatus = 200;
+    vi.stubEnv('TRACEPARENT', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('exports connect, list, and call spans and propagates traceparent to the server', async () => {
+    const tracer = createTracer({
+      enabled: true,
+      endpoint: `${baseUrl}/v1/traces`,
+      headers: { Authorization: 'Bearer collector' },
+      serviceName: 'mcporter-test',
+    });
+    const runtime = await createRuntime({
+      servers: [{ name: 'traced', command: { kind: 'http', url: new URL(`${baseUrl}/mcp`) } }],
+      tracer,
+    });
+
+    const result = (await runtime.callTool('traced', 'echo_trace', { traceparent: PARENT })) as {
+      content: Array<{ text: string }>;
+    };
+    await runtime.listTools('traced');
+    await runtime.close();
+
+    expect(received).toHaveLength(1);
+    expect(received[0]?.authorization).toBe('Bearer collector');
+    const spans = received[0]?.spans ?? [];
+    const call = spans.find((span) => span.name === 'tools/call echo_trace');
+    const connect = spans.find((span) => span.name === 'mcporter.connect');
+    const list = spans.find((span) => span.name === 'mcporter.list_tools');
+    const page = spans.find((span) => span.name === 'tools/list');
+
+    const parent = parseTraceparent(PARENT);
+    expect(call).toMatchObject({ traceId: parent?.traceId, parentSpanId: parent?.spanId, kind: 3 });
+    expect(attribute(call, 'gen_ai.tool.name')).toBe('echo_trace');
+    expect(connect).toMatchObject({ traceId: parent?.traceId, parentSpanId: call?.spanId });
+    expect(attribute(connect, 'mcporter.transport')).toBe('streamable-http');
+    expect(page?.parentSpanId).toBe(list?.spanId);
+    expect(attribute(list, 'mcporter.tools.pages')).toBe('1');
+
+    // HTTP requests carry the connect span; each request's _meta carries its own span.
+    expect(mcpTraceparents[0]).toBe(`00-${connect?.traceId}-${connect?.spanId}-01`);
+    expect(result.content[0]?.text).toBe(`00-${call?.traceId}-${call?.spanId}-01`);
+  });
+
+  it('opens a tracer from the OTEL environment for runtimes built from explicit servers', async () => {
+    vi.stubEnv('OTEL_EXPORTER_OTLP_ENDPOINT', baseUrl);
+    const runtime = await createRuntime({
+      servers: [{ name: 'traced', command: { kind: 'http', url: new URL(`${baseUrl}/mcp`) } }],
+    });
+
+    await runtime.listTools('traced');
+    await runtime.close();
+
+    const names = received.flatMap((batch) => batch.spans.map((span) => span.name));
+    expect(names).toEqual(expect.arrayContaining(['mcporter.connect', 'mcporter.list_tools']));
+  });
+
+  it('records failed connects and keeps unsampled traces out of the export', async () => {
+    const exported: string[] = [];
+    const exporter: SpanExporter = {
+      export: async (spans) => {
+        exported.push(...spans.map((span) => `${span.name}:${span.status.code}`));
+      },
+    };
+    const tracer = new Tracer(exporter);
+    const runtime = await createRuntime({
+      servers: [
+        { name: 'missing', command: { kind: 'stdio', command: 'mcporter-missing-binary', args: [], cwd: '/' } },
+      ],
+      tracer,
+    });
+
+    await expect(runtime.callTool('missing', 'noop')).rejects.toThrow();
+    tracer.startSpan('unsampled', { parent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-00' }).end();
+    await runtime.close();
+
+    expect(exported).toEqual(['mcporter.connect:error', 'tools/call noop:error']);
+  });
+
+  it('warns once when the collector rejects spans', async () => {
+    collectorStatus = 500;
+    const warn = vi.fn();
+    const tracer = createTracer(
+      { enabled: true, endpoint: `${baseUrl}/v1/traces`, headers: {}, serviceName: 'mcporter' },
+      { logger: { debug: vi.fn(), info: vi.fn(), warn, error: vi.fn() } }
+    );
+
+    tracer?.startSpan('first').end();
+    await tracer?.flush();
+    tracer?.startSpan('second').end();
+    await tracer?.flush();
+
+    expect(received).toHaveLength(2);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toContain('HTTP 500');
+  });
+});